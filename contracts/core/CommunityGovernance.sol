@@ -1,28 +1,36 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.22;
 
-import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
-import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "./AssetRegistry.sol";
-import "./RevenueDistributor.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import "../upgradeable/AssetRegistryUpgradeable.sol";
+import "../upgradeable/RevenueDistributorUpgradeable.sol";
+import "./GovernanceExecutor.sol";
 
 // =============================================================================
 // GOVERNANCE - Community governance without tokens
 // =============================================================================
 
+/// @notice Voting power comes from platform activity rather than a token: assets
+/// minted in AssetRegistry while verified, and lifetime earnings in
+/// RevenueDistributor paid by others. Neither moves with a transfer, so syncing one
+/// account never double counts another's, and neither grows by minting without
+/// verification or buying one's own content. Power is checkpointed per block
+/// whenever it is synced or delegated, and proposals count the checkpoints of the
+/// block before they were created. Passed `PlatformFee` proposals change the fee
+/// through the timelocked executor.
 contract CommunityGovernance is Ownable, Pausable {
-    
+    using Checkpoints for Checkpoints.Trace208;
+
     struct Proposal {
         uint256 id;
         address proposer;
         string title;
         string description;
         ProposalCategory category;
-        uint256 votingPower; // Based on contribution to platform
+        uint256 votingPower; // Proposer's power at the snapshot
         uint256 votesFor;
         uint256 votesAgainst;
         uint256 startTime;
@@ -30,66 +38,103 @@ contract CommunityGovernance is Ownable, Pausable {
         bool executed;
         bool passed;
         bytes executionData;
-        address targetContract;
+        string targetModule; // factory label of the module `executionData` is sent to
+    }
+
+    struct ProposalStatus {
+        uint256 snapshotBlock;
+        uint256 totalPower; // all delegated power at the snapshot, for quorum
+        bool queued;
+        bool cancelled;
     }
-    
+
     struct Vote {
         bool hasVoted;
         bool support;
         uint256 weight;
         string reason;
     }
-    
+
+    struct CategoryConfig {
+        uint16 quorum; // basis points of total power that must vote
+        uint16 threshold; // basis points of cast votes that must be in favour
+    }
+
     enum ProposalCategory { PlatformFee, FeatureRequest, Partnership, GeneralGovernance }
-    
+
+    enum FeeTarget { Revenue, Hosting }
+
+    enum ProposalState { Active, Defeated, Succeeded, Queued, Executed, Cancelled }
+
     mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => ProposalStatus) public proposalStatus;
     mapping(uint256 => mapping(address => Vote)) public votes;
-    mapping(address => uint256) public userVotingPower;
+    mapping(address => uint256) public userVotingPower; // own power as of the last sync
     mapping(address => bool) public councilMembers;
-    
+    mapping(ProposalCategory => CategoryConfig) public categoryConfig;
+
     address[] public councilMembersList;
     uint256 public proposalCounter;
     uint256 public votingPeriod = 7 days;
     uint256 public minVotingPower = 100; // Minimum power to create proposals
-    
-    AssetRegistry public assetRegistry;
-    RevenueDistributor public revenueDistributor;
-    
+    uint256 public assetWeight = 100; // power per verified asset minted
+    uint256 public earningsPerVote = 0.01 ether; // earnings that add one unit of power
+
+    AssetRegistryUpgradeable public assetRegistry;
+    RevenueDistributorUpgradeable public revenueDistributor;
+    GovernanceExecutor public executor;
+
+    mapping(address => address) private _delegatees;
+    mapping(address => Checkpoints.Trace208) private _delegatedPower;
+    Checkpoints.Trace208 private _totalPower;
+
     event ProposalCreated(uint256 indexed proposalId, address proposer, string title);
     event VoteCast(uint256 indexed proposalId, address voter, bool support, uint256 weight);
+    event ProposalQueued(uint256 indexed proposalId, uint256 eta);
     event ProposalExecuted(uint256 indexed proposalId, bool passed);
+    event ProposalCancelled(uint256 indexed proposalId);
     event CouncilMemberAdded(address indexed member);
     event CouncilMemberRemoved(address indexed member);
-    
+    event VotingPowerUpdated(address indexed user, uint256 power);
+    event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate);
+    event DelegateVotesChanged(address indexed delegate, uint256 previousVotes, uint256 newVotes);
+    event CategoryConfigSet(ProposalCategory indexed category, uint16 quorum, uint16 threshold);
+    event ExecutorSet(address indexed executor);
+
     modifier onlyCouncil() {
         require(councilMembers[msg.sender], "Not a council member");
         _;
     }
-    
+
     constructor(address _assetRegistry, address _revenueDistributor) Ownable(msg.sender) {
-        assetRegistry = AssetRegistry(_assetRegistry);
-        revenueDistributor = RevenueDistributor(_revenueDistributor);
-        
+        assetRegistry = AssetRegistryUpgradeable(_assetRegistry);
+        revenueDistributor = RevenueDistributorUpgradeable(_revenueDistributor);
+
         // Add contract owner to council initially
         councilMembers[msg.sender] = true;
         councilMembersList.push(msg.sender);
+
+        categoryConfig[ProposalCategory.PlatformFee] = CategoryConfig(2000, 6000);
+        categoryConfig[ProposalCategory.FeatureRequest] = CategoryConfig(1000, 5000);
+        categoryConfig[ProposalCategory.Partnership] = CategoryConfig(1500, 5000);
+        categoryConfig[ProposalCategory.GeneralGovernance] = CategoryConfig(1000, 5000);
     }
 
     function addCouncilMember(address member) external onlyOwner {
         require(!councilMembers[member], "Already council member");
         require(member != address(0), "Invalid address");
-        
+
         councilMembers[member] = true;
         councilMembersList.push(member);
-        
+
         emit CouncilMemberAdded(member);
     }
 
     function removeCouncilMember(address member) external onlyOwner {
         require(councilMembers[member], "Not a council member");
-        
+
         councilMembers[member] = false;
-        
+
         // Remove from list
         for (uint i = 0; i < councilMembersList.length; i++) {
             if (councilMembersList[i] == member) {
@@ -98,107 +143,180 @@ contract CommunityGovernance is Ownable, Pausable {
                 break;
             }
         }
-        
+
         emit CouncilMemberRemoved(member);
     }
 
+    /// @notice Re-reads `user`'s assets and earnings and moves the difference onto
+    /// their delegate's checkpoints. Anyone may sync anyone.
     function updateVotingPower(address user) public {
-        // Calculate voting power based on platform contributions
-        uint256[] memory userAssets = assetRegistry.getCreatorAssets(user);
-        uint256 totalHostingPaid = 0;
-        
-        for (uint i = 0; i < userAssets.length; i++) {
-            (, , , , , , , uint256 hostingFees, , ,) = assetRegistry.assets(userAssets[i]);
-            totalHostingPaid += hostingFees;
+        uint256 power = computeVotingPower(user);
+        uint256 previous = userVotingPower[user];
+        if (power == previous) return;
+
+        userVotingPower[user] = power;
+        address delegatee = delegates(user);
+        if (power > previous) {
+            _moveVotes(address(0), delegatee, power - previous);
+        } else {
+            _moveVotes(delegatee, address(0), previous - power);
         }
-        
-        // Voting power based on hosting fees paid (converted to points)
-        // Plus bonus for council membership
-        uint256 basePower = totalHostingPaid / 1 ether; // 1 point per ETH spent
-        uint256 councilBonus = councilMembers[user] ? 100 : 0;
-        
-        userVotingPower[user] = basePower + councilBonus;
+        emit VotingPowerUpdated(user, power);
+    }
+
+    function computeVotingPower(address user) public view returns (uint256) {
+        uint256 minted = assetRegistry.verifiedAssetCount(user);
+        uint256 earned = revenueDistributor.creatorTotalEarnings(user) - revenueDistributor.selfFundedEarnings(user);
+        return minted * assetWeight + earned / earningsPerVote;
     }
 
+    /// @notice Hands the caller's power to `delegatee`; accounts delegate to themselves by default
+    function delegate(address delegatee) external whenNotPaused {
+        require(delegatee != address(0), "Invalid address");
+        updateVotingPower(msg.sender);
+
+        address previous = delegates(msg.sender);
+        _delegatees[msg.sender] = delegatee;
+        _moveVotes(previous, delegatee, userVotingPower[msg.sender]);
+        emit DelegateChanged(msg.sender, previous, delegatee);
+    }
+
+    function delegates(address account) public view returns (address) {
+        address delegatee = _delegatees[account];
+        return delegatee == address(0) ? account : delegatee;
+    }
+
+    function getVotes(address account) external view returns (uint256) {
+        return _delegatedPower[account].latest();
+    }
+
+    function getPastVotes(address account, uint256 blockNumber) public view returns (uint256) {
+        require(blockNumber < block.number, "Future lookup");
+        return _delegatedPower[account].upperLookupRecent(SafeCast.toUint48(blockNumber));
+    }
+
+    function getPastTotalPower(uint256 blockNumber) public view returns (uint256) {
+        require(blockNumber < block.number, "Future lookup");
+        return _totalPower.upperLookupRecent(SafeCast.toUint48(blockNumber));
+    }
+
+    /// @notice A proposal without on-chain effect; the outcome is recorded by `executeProposal`
     function createProposal(
         string memory title,
         string memory description,
-        ProposalCategory category,
-        address targetContract,
-        bytes memory executionData
+        ProposalCategory category
     ) external whenNotPaused returns (uint256) {
-        updateVotingPower(msg.sender);
-        require(userVotingPower[msg.sender] >= minVotingPower, "Insufficient voting power");
-        require(bytes(title).length > 0, "Title required");
-        require(bytes(description).length > 0, "Description required");
-        
-        uint256 proposalId = proposalCounter++;
-        
-        proposals[proposalId] = Proposal({
-            id: proposalId,
-            proposer: msg.sender,
-            title: title,
-            description: description,
-            category: category,
-            votingPower: userVotingPower[msg.sender],
-            votesFor: 0,
-            votesAgainst: 0,
-            startTime: block.timestamp,
-            endTime: block.timestamp + votingPeriod,
-            executed: false,
-            passed: false,
-            executionData: executionData,
-            targetContract: targetContract
-        });
-        
-        emit ProposalCreated(proposalId, msg.sender, title);
-        return proposalId;
+        require(category != ProposalCategory.PlatformFee, "Use proposePlatformFee");
+        return _propose(title, description, category, "", "");
+    }
+
+    /// @notice Proposes a new RevenueDistributor platform fee (basis points) or
+    /// AssetRegistry hosting fee (percent); applied through the executor if passed
+    function proposePlatformFee(
+        string memory title,
+        string memory description,
+        FeeTarget target,
+        uint256 newFee
+    ) external whenNotPaused returns (uint256) {
+        require(address(executor) != address(0), "Executor not set");
+        if (target == FeeTarget.Revenue) {
+            return _propose(
+                title,
+                description,
+                ProposalCategory.PlatformFee,
+                "RevenueDistributor",
+                abi.encodeCall(RevenueDistributorUpgradeable.setPlatformFee, (newFee))
+            );
+        }
+        return _propose(
+            title,
+            description,
+            ProposalCategory.PlatformFee,
+            "AssetRegistry",
+            abi.encodeCall(AssetRegistryUpgradeable.setPlatformHostingFee, (newFee))
+        );
     }
 
     function vote(uint256 proposalId, bool support, string memory reason) external whenNotPaused {
         require(proposalId < proposalCounter, "Invalid proposal");
-        require(block.timestamp <= proposals[proposalId].endTime, "Voting period ended");
+        Proposal storage proposal = proposals[proposalId];
+        require(!proposalStatus[proposalId].cancelled, "Proposal cancelled");
+        require(block.timestamp <= proposal.endTime, "Voting period ended");
         require(!votes[proposalId][msg.sender].hasVoted, "Already voted");
-        
-        updateVotingPower(msg.sender);
-        require(userVotingPower[msg.sender] > 0, "No voting power");
-        
+
+        uint256 weight = getPastVotes(msg.sender, proposalStatus[proposalId].snapshotBlock);
+        require(weight > 0, "No voting power");
+
         votes[proposalId][msg.sender] = Vote({
             hasVoted: true,
             support: support,
-            weight: userVotingPower[msg.sender],
+            weight: weight,
             reason: reason
         });
-        
+
         if (support) {
-            proposals[proposalId].votesFor += userVotingPower[msg.sender];
+            proposal.votesFor += weight;
         } else {
-            proposals[proposalId].votesAgainst += userVotingPower[msg.sender];
+            proposal.votesAgainst += weight;
         }
-        
-        emit VoteCast(proposalId, msg.sender, support, userVotingPower[msg.sender]);
+
+        emit VoteCast(proposalId, msg.sender, support, weight);
     }
 
-    function executeProposal(uint256 proposalId) external onlyCouncil {
-        require(proposalId < proposalCounter, "Invalid proposal");
-        require(block.timestamp > proposals[proposalId].endTime, "Voting still active");
-        require(!proposals[proposalId].executed, "Already executed");
-        
+    /// @notice Starts the executor's timelock for a passed proposal with on-chain effect
+    function queueProposal(uint256 proposalId) external whenNotPaused {
+        require(state(proposalId) == ProposalState.Succeeded, "Proposal not succeeded");
+        Proposal storage proposal = proposals[proposalId];
+        require(proposal.executionData.length > 0, "Nothing to queue");
+
+        proposalStatus[proposalId].queued = true;
+        uint256 eta = executor.queue(proposalId, proposal.targetModule, proposal.executionData);
+        emit ProposalQueued(proposalId, eta);
+    }
+
+    /// @notice Records the outcome once voting has ended and, for a queued
+    /// proposal, applies it after the executor's delay. Callable by anyone.
+    function executeProposal(uint256 proposalId) external whenNotPaused {
+        ProposalState current = state(proposalId);
         Proposal storage proposal = proposals[proposalId];
+        require(!proposal.executed, "Already executed");
+        require(current != ProposalState.Active, "Voting still active");
+        require(current != ProposalState.Cancelled, "Proposal cancelled");
+
         proposal.executed = true;
-        
-        // Determine if proposal passed (simple majority by voting power)
-        proposal.passed = proposal.votesFor > proposal.votesAgainst;
-        
-        // Execute if passed and has execution data
+        proposal.passed = current != ProposalState.Defeated;
+
         if (proposal.passed && proposal.executionData.length > 0) {
-            (bool success,) = proposal.targetContract.call(proposal.executionData);
-            require(success, "Execution failed");
+            require(current == ProposalState.Queued, "Proposal not queued");
+            executor.execute(proposalId);
         }
-        
+
         emit ProposalExecuted(proposalId, proposal.passed);
     }
 
+    /// @notice Council veto, until the proposal has been executed
+    function cancelProposal(uint256 proposalId) external onlyCouncil {
+        ProposalState current = state(proposalId);
+        require(!proposals[proposalId].executed, "Already executed");
+        require(current != ProposalState.Cancelled, "Proposal cancelled");
+
+        proposalStatus[proposalId].cancelled = true;
+        if (current == ProposalState.Queued) executor.cancel(proposalId);
+        emit ProposalCancelled(proposalId);
+    }
+
+    function state(uint256 proposalId) public view returns (ProposalState) {
+        require(proposalId < proposalCounter, "Invalid proposal");
+        Proposal storage proposal = proposals[proposalId];
+        ProposalStatus storage status = proposalStatus[proposalId];
+
+        if (status.cancelled) return ProposalState.Cancelled;
+        if (proposal.executed) return proposal.passed ? ProposalState.Executed : ProposalState.Defeated;
+        if (block.timestamp <= proposal.endTime) return ProposalState.Active;
+        if (!_passed(proposal, status.totalPower)) return ProposalState.Defeated;
+        return status.queued ? ProposalState.Queued : ProposalState.Succeeded;
+    }
+
     function getProposal(uint256 proposalId) external view returns (
         address proposer,
         string memory title,
@@ -236,4 +354,107 @@ contract CommunityGovernance is Ownable, Pausable {
     function setMinVotingPower(uint256 _minVotingPower) external onlyOwner {
         minVotingPower = _minVotingPower;
     }
-}
\ No newline at end of file
+
+    /// @notice Applies to proposals that have not been executed yet
+    function setCategoryConfig(ProposalCategory category, uint16 quorum, uint16 threshold) external onlyOwner {
+        require(quorum <= 10000, "Invalid quorum");
+        require(threshold >= 5000 && threshold <= 10000, "Invalid threshold");
+        categoryConfig[category] = CategoryConfig(quorum, threshold);
+        emit CategoryConfigSet(category, quorum, threshold);
+    }
+
+    /// @notice Existing power is re-weighted as accounts are synced
+    function setPowerWeights(uint256 _assetWeight, uint256 _earningsPerVote) external onlyOwner {
+        require(_earningsPerVote > 0, "Invalid weight");
+        assetWeight = _assetWeight;
+        earningsPerVote = _earningsPerVote;
+    }
+
+    function setExecutor(address _executor) external onlyOwner {
+        require(_executor != address(0), "Invalid address");
+        executor = GovernanceExecutor(_executor);
+        emit ExecutorSet(_executor);
+    }
+
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    function _propose(
+        string memory title,
+        string memory description,
+        ProposalCategory category,
+        string memory targetModule,
+        bytes memory executionData
+    ) private returns (uint256) {
+        require(bytes(title).length > 0, "Title required");
+        require(bytes(description).length > 0, "Description required");
+
+        // power synced in this block only counts for later proposals
+        uint256 snapshotBlock = block.number - 1;
+        uint256 power = getPastVotes(msg.sender, snapshotBlock);
+        require(power >= minVotingPower, "Insufficient voting power");
+
+        uint256 proposalId = proposalCounter++;
+
+        proposals[proposalId] = Proposal({
+            id: proposalId,
+            proposer: msg.sender,
+            title: title,
+            description: description,
+            category: category,
+            votingPower: power,
+            votesFor: 0,
+            votesAgainst: 0,
+            startTime: block.timestamp,
+            endTime: block.timestamp + votingPeriod,
+            executed: false,
+            passed: false,
+            executionData: executionData,
+            targetModule: targetModule
+        });
+        proposalStatus[proposalId] = ProposalStatus({
+            snapshotBlock: snapshotBlock,
+            totalPower: getPastTotalPower(snapshotBlock),
+            queued: false,
+            cancelled: false
+        });
+
+        emit ProposalCreated(proposalId, msg.sender, title);
+        return proposalId;
+    }
+
+    function _passed(Proposal storage proposal, uint256 totalPower) private view returns (bool) {
+        CategoryConfig memory config = categoryConfig[proposal.category];
+        uint256 cast = proposal.votesFor + proposal.votesAgainst;
+        return
+            cast > 0 &&
+            cast * 10000 >= totalPower * config.quorum &&
+            proposal.votesFor * 10000 > cast * config.threshold;
+    }
+
+    function _moveVotes(address from, address to, uint256 amount) private {
+        if (from == to || amount == 0) return;
+        uint48 clock = SafeCast.toUint48(block.number);
+
+        if (from == address(0)) {
+            _totalPower.push(clock, SafeCast.toUint208(_totalPower.latest() + amount));
+        } else {
+            uint256 previous = _delegatedPower[from].latest();
+            _delegatedPower[from].push(clock, SafeCast.toUint208(previous - amount));
+            emit DelegateVotesChanged(from, previous, previous - amount);
+        }
+
+        if (to == address(0)) {
+            _totalPower.push(clock, SafeCast.toUint208(_totalPower.latest() - amount));
+        } else {
+            uint256 previous = _delegatedPower[to].latest();
+            _delegatedPower[to].push(clock, SafeCast.toUint208(previous + amount));
+            emit DelegateVotesChanged(to, previous, previous + amount);
+        }
+    }
+}
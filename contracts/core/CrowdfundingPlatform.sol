@@ -7,12 +7,15 @@ import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 // =============================================================================
 // CROWDFUNDING - Community funding for content projects
 // =============================================================================
 
 contract CrowdfundingPlatform is Ownable, ReentrancyGuard, Pausable {
+    using SafeERC20 for IERC20;
     
     struct Campaign {
         address creator;
@@ -43,6 +46,7 @@ contract CrowdfundingPlatform is Ownable, ReentrancyGuard, Pausable {
     mapping(uint256 => mapping(address => uint256)) public contributorTotal;
     mapping(address => uint256[]) public creatorCampaigns;
     mapping(address => uint256[]) public contributorCampaigns;
+    mapping(uint256 => address) public campaignPaymentToken; // address(0) = ETH
     
     uint256 public campaignCounter;
     uint256 public platformFee = 500; // 5% platform fee
@@ -67,6 +71,43 @@ contract CrowdfundingPlatform is Ownable, ReentrancyGuard, Pausable {
         uint256[] memory rewardTiers,
         string[] memory rewardDescriptions
     ) external whenNotPaused returns (uint256) {
+        return _createCampaign(title, description, metadataURI, targetAmount, duration, rewardTiers, rewardDescriptions);
+    }
+
+    /// @notice Same as `createCampaign`, but target, tiers and contributions are in `paymentToken`
+    function createTokenCampaign(
+        string memory title,
+        string memory description,
+        string memory metadataURI,
+        uint256 targetAmount,
+        uint256 duration,
+        uint256[] memory rewardTiers,
+        string[] memory rewardDescriptions,
+        address paymentToken
+    ) external whenNotPaused returns (uint256) {
+        require(paymentToken != address(0), "Invalid token");
+        uint256 campaignId = _createCampaign(
+            title,
+            description,
+            metadataURI,
+            targetAmount,
+            duration,
+            rewardTiers,
+            rewardDescriptions
+        );
+        campaignPaymentToken[campaignId] = paymentToken;
+        return campaignId;
+    }
+
+    function _createCampaign(
+        string memory title,
+        string memory description,
+        string memory metadataURI,
+        uint256 targetAmount,
+        uint256 duration,
+        uint256[] memory rewardTiers,
+        string[] memory rewardDescriptions
+    ) private returns (uint256) {
         require(targetAmount > 0, "Target amount must be greater than 0");
         require(duration > 0, "Duration must be greater than 0");
         require(rewardTiers.length == rewardDescriptions.length, "Reward arrays length mismatch");
@@ -98,29 +139,63 @@ contract CrowdfundingPlatform is Ownable, ReentrancyGuard, Pausable {
     }
 
     function contribute(uint256 campaignId, uint256 rewardTier) external payable nonReentrant whenNotPaused {
+        require(campaignPaymentToken[campaignId] == address(0), "Token campaign");
+        _recordContribution(campaignId, rewardTier, msg.value);
+    }
+
+    function contributeToken(uint256 campaignId, uint256 rewardTier, uint256 amount) external nonReentrant whenNotPaused {
+        _contributeToken(campaignId, rewardTier, amount);
+    }
+
+    function contributeWithPermit(
+        uint256 campaignId,
+        uint256 rewardTier,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        // A front-run permit still leaves the allowance in place
+        try IERC20Permit(campaignPaymentToken[campaignId]).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
+        _contributeToken(campaignId, rewardTier, amount);
+    }
+
+    function _contributeToken(uint256 campaignId, uint256 rewardTier, uint256 amount) private {
+        IERC20 token = IERC20(campaignPaymentToken[campaignId]);
+        require(address(token) != address(0), "Not a token campaign");
+        
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        require(token.balanceOf(address(this)) - balanceBefore == amount, "Unsupported token");
+        
+        _recordContribution(campaignId, rewardTier, amount);
+    }
+
+    function _recordContribution(uint256 campaignId, uint256 rewardTier, uint256 amount) private {
         Campaign storage campaign = campaigns[campaignId];
         
         require(campaign.isActive, "Campaign not active");
         require(block.timestamp <= campaign.endTime, "Campaign ended");
-        require(msg.value > 0, "Contribution must be greater than 0");
+        require(amount > 0, "Contribution must be greater than 0");
         require(rewardTier < campaign.rewardTiers.length, "Invalid reward tier");
-        require(msg.value >= campaign.rewardTiers[rewardTier], "Insufficient amount for reward tier");
+        require(amount >= campaign.rewardTiers[rewardTier], "Insufficient amount for reward tier");
         
         // Record contribution
         campaignContributions[campaignId].push(Contribution({
             contributor: msg.sender,
-            amount: msg.value,
+            amount: amount,
             timestamp: block.timestamp,
             rewardTier: rewardTier,
             refunded: false
         }));
         
         // Update totals
-        campaign.raisedAmount += msg.value;
-        contributorTotal[campaignId][msg.sender] += msg.value;
+        campaign.raisedAmount += amount;
+        contributorTotal[campaignId][msg.sender] += amount;
         
         // Add to contributor's campaign list if first contribution
-        if (contributorTotal[campaignId][msg.sender] == msg.value) {
+        if (contributorTotal[campaignId][msg.sender] == amount) {
             contributorCampaigns[msg.sender].push(campaignId);
         }
         
@@ -130,7 +205,7 @@ contract CrowdfundingPlatform is Ownable, ReentrancyGuard, Pausable {
             emit CampaignFunded(campaignId, campaign.raisedAmount);
         }
         
-        emit ContributionMade(campaignId, msg.sender, msg.value, rewardTier);
+        emit ContributionMade(campaignId, msg.sender, amount, rewardTier);
     }
 
     function withdrawFunds(uint256 campaignId) external nonReentrant {
@@ -147,8 +222,8 @@ contract CrowdfundingPlatform is Ownable, ReentrancyGuard, Pausable {
         uint256 creatorAmount = campaign.raisedAmount - platformFeeAmount;
         
         // Transfer funds
-        payable(crowdfundingTreasury).transfer(platformFeeAmount);
-        payable(msg.sender).transfer(creatorAmount);
+        _transferOut(campaignId, crowdfundingTreasury, platformFeeAmount);
+        _transferOut(campaignId, msg.sender, creatorAmount);
         
         emit FundsWithdrawn(campaignId, msg.sender, creatorAmount);
     }
@@ -171,7 +246,7 @@ contract CrowdfundingPlatform is Ownable, ReentrancyGuard, Pausable {
             }
         }
         
-        payable(msg.sender).transfer(refundAmount);
+        _transferOut(campaignId, msg.sender, refundAmount);
         
         emit RefundIssued(campaignId, msg.sender, refundAmount);
     }
@@ -208,4 +283,13 @@ contract CrowdfundingPlatform is Ownable, ReentrancyGuard, Pausable {
         require(block.timestamp <= campaigns[campaignId].endTime, "Campaign ended");
         campaigns[campaignId].isActive = true;
     }
+
+    function _transferOut(uint256 campaignId, address to, uint256 amount) private {
+        address token = campaignPaymentToken[campaignId];
+        if (token == address(0)) {
+            payable(to).transfer(amount);
+        } else {
+            IERC20(token).safeTransfer(to, amount);
+        }
+    }
 }
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../upgradeable/JeskeiProxyFactory.sol";
+
+// =============================================================================
+// GOVERNANCE EXECUTOR - Timelock between a passed proposal and its effect
+// =============================================================================
+
+/// @notice Holds calls passed by CommunityGovernance for `delay` seconds, then
+/// relays them to the target module through `JeskeiProxyFactory.executeOnProxy`.
+/// The factory must authorize this contract as an executor.
+contract GovernanceExecutor {
+
+    struct Operation {
+        string module;
+        bytes data;
+        uint256 eta;
+        bool executed;
+        bool cancelled;
+    }
+
+    uint256 public constant GRACE_PERIOD = 14 days;
+
+    JeskeiProxyFactory public immutable proxyFactory;
+    address public immutable governance;
+    uint256 public immutable delay;
+
+    mapping(uint256 => Operation) public operations; // by proposal id
+
+    event OperationQueued(uint256 indexed proposalId, string module, bytes data, uint256 eta);
+    event OperationExecuted(uint256 indexed proposalId);
+    event OperationCancelled(uint256 indexed proposalId);
+
+    modifier onlyGovernance() {
+        require(msg.sender == governance, "Not governance");
+        _;
+    }
+
+    constructor(address _proxyFactory, address _governance, uint256 _delay) {
+        require(_proxyFactory != address(0) && _governance != address(0), "Invalid address");
+        require(_delay <= 30 days, "Timelock too long");
+        proxyFactory = JeskeiProxyFactory(_proxyFactory);
+        governance = _governance;
+        delay = _delay;
+    }
+
+    function queue(uint256 proposalId, string calldata module, bytes calldata data) external onlyGovernance returns (uint256) {
+        require(operations[proposalId].eta == 0, "Already queued");
+
+        uint256 eta = block.timestamp + delay;
+        operations[proposalId] = Operation({
+            module: module,
+            data: data,
+            eta: eta,
+            executed: false,
+            cancelled: false
+        });
+
+        emit OperationQueued(proposalId, module, data, eta);
+        return eta;
+    }
+
+    function execute(uint256 proposalId) external onlyGovernance {
+        Operation storage operation = operations[proposalId];
+        require(operation.eta != 0, "Not queued");
+        require(!operation.executed, "Already executed");
+        require(!operation.cancelled, "Operation cancelled");
+        require(block.timestamp >= operation.eta, "Timelock not expired");
+        require(block.timestamp <= operation.eta + GRACE_PERIOD, "Operation stale");
+
+        operation.executed = true;
+        proxyFactory.executeOnProxy(operation.module, operation.data);
+
+        emit OperationExecuted(proposalId);
+    }
+
+    function cancel(uint256 proposalId) external onlyGovernance {
+        Operation storage operation = operations[proposalId];
+        require(operation.eta != 0, "Not queued");
+        require(!operation.executed, "Already executed");
+
+        operation.cancelled = true;
+        emit OperationCancelled(proposalId);
+    }
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../upgradeable/AssetRegistryUpgradeable.sol";
+
+// =============================================================================
+// TEST ONLY - layout compatible AssetRegistry upgrade
+// =============================================================================
+
+contract AssetRegistryUpgradeableV2Mock is AssetRegistryUpgradeable {
+    uint256 public featuredAsset;
+
+    function setFeaturedAsset(uint256 tokenId) external onlyOwner {
+        featuredAsset = tokenId;
+    }
+
+    function version() external pure returns (string memory) {
+        return "2.0.0";
+    }
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../upgradeable/DigitalStudioDAOUpgradeable.sol";
+
+// =============================================================================
+// TEST ONLY - layout compatible studio upgrade
+// =============================================================================
+
+contract DigitalStudioDAOUpgradeableV2Mock is DigitalStudioDAOUpgradeable {
+    string public tagline;
+
+    function setTagline(string memory _tagline) external onlyFounder {
+        tagline = _tagline;
+    }
+
+    function version() external pure returns (string memory) {
+        return "2.0.0";
+    }
+}
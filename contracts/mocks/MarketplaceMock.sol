@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+
+// =============================================================================
+// TEST ONLY - fixed-price NFT marketplace that honours EIP-2981 royalties
+// =============================================================================
+
+contract MarketplaceMock {
+    struct Listing {
+        address seller;
+        uint256 price;
+    }
+
+    mapping(address => mapping(uint256 => Listing)) public listings;
+
+    event Sold(address indexed nft, uint256 indexed tokenId, address seller, address buyer, uint256 price, uint256 royalty);
+
+    /// @notice The seller approves this contract for the token beforehand
+    function list(IERC721 nft, uint256 tokenId, uint256 price) external {
+        require(nft.ownerOf(tokenId) == msg.sender, "Not token owner");
+        require(price > 0, "Invalid price");
+        listings[address(nft)][tokenId] = Listing({seller: msg.sender, price: price});
+    }
+
+    /// @notice Pays the royalty receiver first, with a plain call, and the seller the rest
+    function buy(IERC721 nft, uint256 tokenId) external payable {
+        Listing memory listing = listings[address(nft)][tokenId];
+        require(listing.price > 0, "Not listed");
+        require(msg.value == listing.price, "Incorrect payment amount");
+        delete listings[address(nft)][tokenId];
+
+        uint256 royalty = 0;
+        if (nft.supportsInterface(type(IERC2981).interfaceId)) {
+            address receiver;
+            (receiver, royalty) = IERC2981(address(nft)).royaltyInfo(tokenId, listing.price);
+            if (royalty > 0) Address.sendValue(payable(receiver), royalty);
+        }
+        Address.sendValue(payable(listing.seller), listing.price - royalty);
+        nft.safeTransferFrom(listing.seller, msg.sender, tokenId);
+
+        emit Sold(address(nft), tokenId, listing.seller, msg.sender, listing.price, royalty);
+    }
+}
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../upgradeable/AssetRegistryUpgradeable.sol";
+
+// =============================================================================
+// TEST ONLY - payout recipient whose fallback rejects ETH until told otherwise
+// =============================================================================
+
+contract RejectingReceiverMock {
+    bool public accepting;
+
+    function setAccepting(bool _accepting) external {
+        accepting = _accepting;
+    }
+
+    /// @notice Contract contributors consent on chain, as they cannot sign
+    function acceptShare(AssetRegistryUpgradeable registry, uint256 tokenId) external {
+        registry.acceptShare(tokenId);
+    }
+
+    receive() external payable {
+        require(accepting, "Rejecting payments");
+    }
+}
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+
+// =============================================================================
+// TEST ONLY - StudioFactory as first released: owner-only, initialized at
+// version 1. Studio creation is left out; the storage layout is unchanged.
+// =============================================================================
+
+contract StudioFactoryUpgradeableV1Mock is
+    Initializable,
+    OwnableUpgradeable,
+    PausableUpgradeable,
+    UUPSUpgradeable
+{
+    address public studioBeacon;
+    address public assetRegistry;
+    address public revenueDistributor;
+
+    address[] public studios;
+    mapping(address => bool) public isStudio;
+    mapping(address => address[]) private _studiosByFounder;
+    uint256[44] private __gap;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        address _studioBeacon,
+        address _assetRegistry,
+        address _revenueDistributor
+    ) public initializer {
+        __Ownable_init(msg.sender);
+        __Pausable_init();
+        __UUPSUpgradeable_init();
+
+        studioBeacon = _studioBeacon;
+        assetRegistry = _assetRegistry;
+        revenueDistributor = _revenueDistributor;
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+
+    function studioCount() external view returns (uint256) {
+        return studios.length;
+    }
+
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+}
@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+
+// =============================================================================
+// TEST ONLY - storage layouts for the upgrade safety checks
+// =============================================================================
+
+contract LayoutV1Mock is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    struct Entry {
+        uint256 amount;
+        address owner;
+    }
+
+    uint256 public count;
+    address public treasury;
+    mapping(uint256 => Entry) public entries;
+    uint256[50] private __gap;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize() public initializer {
+        __Ownable_init(msg.sender);
+        __UUPSUpgradeable_init();
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+}
+
+// Appends a variable out of the gap and a member to a mapped struct: safe
+contract LayoutV2Mock is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    struct Entry {
+        uint256 amount;
+        address owner;
+        uint64 since;
+    }
+
+    uint256 public count;
+    address public treasury;
+    mapping(uint256 => Entry) public entries;
+    bool public paused;
+    uint256[49] private __gap;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+}
+
+contract LayoutReorderedMock is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    struct Entry {
+        uint256 amount;
+        address owner;
+    }
+
+    address public treasury;
+    uint256 public count;
+    mapping(uint256 => Entry) public entries;
+    uint256[50] private __gap;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+}
+
+contract LayoutRetypedMock is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    struct Entry {
+        address owner;
+        uint256 amount;
+    }
+
+    uint128 public count;
+    address public treasury;
+    mapping(uint256 => Entry) public entries;
+    uint256[50] private __gap;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+}
+
+// Adds a variable without shrinking the gap
+contract LayoutGapOverrunMock is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    struct Entry {
+        uint256 amount;
+        address owner;
+    }
+
+    uint256 public count;
+    address public treasury;
+    mapping(uint256 => Entry) public entries;
+    bool public paused;
+    uint256[50] private __gap;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+}
+
+contract UnrestrictedUpgradeMock is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override {}
+}
+
+contract InitializableImplementationMock is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    function initialize() public initializer {
+        __Ownable_init(msg.sender);
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+}
+
+contract NotUUPSMock is Initializable, OwnableUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+}
@@ -3,13 +3,16 @@ pragma solidity ^0.8.22;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URIStorageUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "./RolesUpgradeable.sol";
 
 // =============================================================================
 // UPGRADEABLE ADVERTISING ENGINE
@@ -17,9 +20,10 @@ import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
 
 contract AdvertisingEngineUpgradeable is 
     Initializable,
-    OwnableUpgradeable,
+    RolesUpgradeable,
     ReentrancyGuardUpgradeable,
     PausableUpgradeable,
+    EIP712Upgradeable,
     UUPSUpgradeable
 {
     
@@ -35,6 +39,37 @@ contract AdvertisingEngineUpgradeable is
         bool isActive;
         string[] targetingTags;
     }
+
+    /// A view an attestor vouches for; `nonce` is unique per viewer and settles once
+    struct ViewReceipt {
+        uint256 campaignId;
+        address viewer;
+        address creator;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    struct ViewWindow {
+        uint64 start;
+        uint64 count;
+    }
+
+    enum ViewStatus {
+        Settled,
+        Replayed,
+        Expired,
+        CapReached,
+        CampaignInactive,
+        InsufficientBudget,
+        InvalidParties
+    }
+
+    bytes32 public constant VIEW_RECEIPT_TYPEHASH =
+        keccak256("ViewReceipt(uint256 campaignId,address viewer,address creator,uint256 nonce,uint256 deadline)");
+    bytes32 public constant VIEW_BATCH_TYPEHASH = keccak256("ViewBatch(bytes32 root,uint256 deadline)");
+    bytes32 public constant FEE_ADMIN_ROLE = keccak256("FEE_ADMIN_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant AD_ORACLE_ROLE = keccak256("AD_ORACLE_ROLE");
     
     mapping(uint256 => AdCampaign) public campaigns;
     mapping(address => uint256) public advertiserBalance;
@@ -49,18 +84,36 @@ contract AdvertisingEngineUpgradeable is
     mapping(uint256 => uint256) public campaignViews; // For analytics
     mapping(address => uint256[]) public viewerCampaignHistory; // For targeting
     mapping(string => uint256) public tagPopularity; // For tag analytics
-    uint256[50] private __gap;
+    // Payouts are credited to `claimable` and claimed with withdraw/withdrawFor;
+    // the owner can switch back to pushing them with transfer()
+    bool public pushPayments;
+    mapping(address => uint256) public claimable;
+    uint256 public totalClaimable;
+    // Attested views: signer allow-list, per-viewer nonces and per-campaign frequency caps
+    mapping(address => bool) public attestors;
+    mapping(address => mapping(uint256 => bool)) public usedViewNonces;
+    uint256 public viewCap; // views per viewer per campaign and window; 0 = uncapped
+    uint256 public viewCapWindow;
+    mapping(uint256 => mapping(address => ViewWindow)) private _viewWindows;
+    uint256[42] private __gap;
     
     event CampaignCreated(uint256 indexed campaignId, address advertiser, uint256 budget);
     event AdViewed(uint256 indexed campaignId, address viewer, address creator, uint256 viewerPayment, uint256 creatorPayment);
+    event PushPaymentsSet(bool enabled);
+    event PaymentCredited(address indexed recipient, uint256 amount);
+    event PaymentWithdrawn(address indexed recipient, uint256 amount);
+    event AttestorSet(address indexed attestor, bool authorized);
+    event ViewCapSet(uint256 maxViews, uint256 window);
+    event ViewSkipped(uint256 indexed campaignId, address indexed viewer, uint256 nonce, ViewStatus reason);
+    event ViewsSettled(address indexed relayer, uint256 settled, uint256 skipped);
     
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
     }
     
-    function initialize(address _adTreasury) public initializer {
-        __Ownable_init(msg.sender);
+    function initialize(address _adTreasury, address _admin) public onlyUninitialized reinitializer(2) {
+        __Roles_init(msg.sender, _admin);
         __ReentrancyGuard_init();
         __Pausable_init();
         __UUPSUpgradeable_init();
@@ -69,7 +122,14 @@ contract AdvertisingEngineUpgradeable is
         platformAdFee = 1000; // 10%
     }
     
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
+
+    function _grantRoles(address admin) internal override {
+        super._grantRoles(admin);
+        _grantRole(FEE_ADMIN_ROLE, admin);
+        _grantRole(PAUSER_ROLE, admin);
+        _grantRole(AD_ORACLE_ROLE, admin);
+    }
 
     function createCampaign(
         string memory metadataURI,
@@ -113,19 +173,184 @@ contract AdvertisingEngineUpgradeable is
         uint256 campaignId,
         address viewer,
         address creator
-    ) external onlyOwner nonReentrant {
+    ) external onlyRole(AD_ORACLE_ROLE) nonReentrant {
         require(campaigns[campaignId].isActive, "Campaign not active");
         require(block.timestamp <= campaigns[campaignId].endTime, "Campaign expired");
         require(viewer != address(0) && creator != address(0), "Invalid addresses");
+        require(campaigns[campaignId].budget >= campaigns[campaignId].spent + _viewCost(campaignId), "Insufficient campaign budget");
+        require(_takeViewSlot(campaignId, viewer), "View cap reached");
+        
+        _chargeView(campaignId, viewer, creator);
+    }
+
+    /// @notice Settles views signed one by one by authorized attestors. Anyone may relay;
+    /// receipts that can no longer settle are skipped with `ViewSkipped` instead of failing the batch.
+    function settleViews(
+        ViewReceipt[] calldata receipts,
+        bytes[] calldata signatures
+    ) external nonReentrant whenNotPaused returns (uint256 settled) {
+        require(receipts.length == signatures.length, "Array length mismatch");
+        
+        for (uint256 i = 0; i < receipts.length; i++) {
+            address signer = ECDSA.recover(_hashTypedDataV4(_hashReceipt(receipts[i])), signatures[i]);
+            require(attestors[signer], "Invalid attestor");
+            if (_settleView(receipts[i])) settled++;
+        }
+        
+        emit ViewsSettled(msg.sender, settled, receipts.length - settled);
+    }
+
+    /// @notice Settles receipts from a Merkle tree whose root an attestor signed
+    /// once; a root can be settled over several calls until its deadline
+    function settleViewBatch(
+        bytes32 root,
+        uint256 deadline,
+        bytes calldata signature,
+        ViewReceipt[] calldata receipts,
+        bytes32[][] calldata proofs
+    ) external nonReentrant whenNotPaused returns (uint256 settled) {
+        require(receipts.length == proofs.length, "Array length mismatch");
+        require(block.timestamp <= deadline, "Batch expired");
+        address signer = ECDSA.recover(
+            _hashTypedDataV4(keccak256(abi.encode(VIEW_BATCH_TYPEHASH, root, deadline))),
+            signature
+        );
+        require(attestors[signer], "Invalid attestor");
         
+        for (uint256 i = 0; i < receipts.length; i++) {
+            bytes32 leaf = keccak256(bytes.concat(_hashReceipt(receipts[i])));
+            require(MerkleProof.verifyCalldata(proofs[i], root, leaf), "Invalid proof");
+            if (_settleView(receipts[i])) settled++;
+        }
+        
+        emit ViewsSettled(msg.sender, settled, receipts.length - settled);
+    }
+
+    function getCampaignTargetingTags(uint256 campaignId) external view returns (string[] memory) {
+        return campaigns[campaignId].targetingTags;
+    }
+
+    function getCampaignViews(uint256 campaignId) external view returns (uint256) {
+        return campaignViews[campaignId];
+    }
+
+    function getViewerCampaignHistory(address viewer) external view returns (uint256[] memory) {
+        return viewerCampaignHistory[viewer];
+    }
+
+    function getTagPopularity(string memory tag) external view returns (uint256) {
+        return tagPopularity[tag];
+    }
+
+    function setAttestor(address attestor, bool authorized) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(attestor != address(0), "Invalid address");
+        attestors[attestor] = authorized;
+        emit AttestorSet(attestor, authorized);
+    }
+
+    /// @notice Caps views per viewer and campaign to `maxViews` per `window` seconds; 0 disables the cap
+    function setViewCap(uint256 maxViews, uint256 window) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(maxViews == 0 || window > 0, "Invalid duration");
+        viewCap = maxViews;
+        viewCapWindow = window;
+        emit ViewCapSet(maxViews, window);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    function setPlatformAdFee(uint256 _platformAdFee) external onlyRole(FEE_ADMIN_ROLE) {
+        require(_platformAdFee <= 2000, "Fee too high");
+        platformAdFee = _platformAdFee;
+    }
+
+    function withdraw() external nonReentrant {
+        _withdraw(msg.sender);
+    }
+
+    function withdrawFor(address payee) external nonReentrant {
+        _withdraw(payee);
+    }
+
+    function setPushPayments(bool enabled) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        pushPayments = enabled;
+        emit PushPaymentsSet(enabled);
+    }
+
+    function _settleView(ViewReceipt calldata receipt) private returns (bool) {
+        ViewStatus status = _viewStatus(receipt);
+        if (status == ViewStatus.Settled && !_takeViewSlot(receipt.campaignId, receipt.viewer)) {
+            status = ViewStatus.CapReached;
+        }
+        if (status != ViewStatus.Settled) {
+            emit ViewSkipped(receipt.campaignId, receipt.viewer, receipt.nonce, status);
+            return false;
+        }
+        
+        usedViewNonces[receipt.viewer][receipt.nonce] = true;
+        _chargeView(receipt.campaignId, receipt.viewer, receipt.creator);
+        return true;
+    }
+
+    function _viewStatus(ViewReceipt calldata receipt) private view returns (ViewStatus) {
+        AdCampaign storage campaign = campaigns[receipt.campaignId];
+        if (usedViewNonces[receipt.viewer][receipt.nonce]) return ViewStatus.Replayed;
+        if (block.timestamp > receipt.deadline) return ViewStatus.Expired;
+        if (!campaign.isActive || block.timestamp > campaign.endTime) return ViewStatus.CampaignInactive;
+        if (
+            receipt.viewer == address(0) ||
+            receipt.creator == address(0) ||
+            receipt.viewer == receipt.creator ||
+            receipt.viewer == campaign.advertiser
+        ) return ViewStatus.InvalidParties;
+        if (campaign.budget < campaign.spent + _viewCost(receipt.campaignId)) return ViewStatus.InsufficientBudget;
+        return ViewStatus.Settled;
+    }
+
+    function _hashReceipt(ViewReceipt calldata receipt) private pure returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                VIEW_RECEIPT_TYPEHASH,
+                receipt.campaignId,
+                receipt.viewer,
+                receipt.creator,
+                receipt.nonce,
+                receipt.deadline
+            )
+        );
+    }
+
+    /// Counts a view against the viewer's cap for the campaign; false once the window is full
+    function _takeViewSlot(uint256 campaignId, address viewer) private returns (bool) {
+        if (viewCap == 0) return true;
+        ViewWindow storage window = _viewWindows[campaignId][viewer];
+        if (block.timestamp >= window.start + viewCapWindow) {
+            window.start = uint64(block.timestamp);
+            window.count = 0;
+        }
+        if (window.count >= viewCap) return false;
+        window.count++;
+        return true;
+    }
+
+    function _viewCost(uint256 campaignId) private view returns (uint256) {
+        AdCampaign storage campaign = campaigns[campaignId];
+        uint256 totalPayment = campaign.viewerPaymentRate + campaign.creatorPaymentRate;
+        return totalPayment + (totalPayment * platformAdFee) / 10000;
+    }
+
+    function _chargeView(uint256 campaignId, address viewer, address creator) private {
         AdCampaign storage campaign = campaigns[campaignId];
         
         uint256 totalPayment = campaign.viewerPaymentRate + campaign.creatorPaymentRate;
         uint256 platformFee = (totalPayment * platformAdFee) / 10000;
         uint256 totalCost = totalPayment + platformFee;
         
-        require(campaign.budget >= campaign.spent + totalCost, "Insufficient campaign budget");
-        
         campaign.spent += totalCost;
         advertiserBalance[campaign.advertiser] -= totalCost;
         
@@ -136,31 +361,39 @@ contract AdvertisingEngineUpgradeable is
         campaignViews[campaignId]++;
         viewerCampaignHistory[viewer].push(campaignId);
         
-        payable(viewer).transfer(campaign.viewerPaymentRate);
-        payable(creator).transfer(campaign.creatorPaymentRate);
-        payable(adTreasury).transfer(platformFee);
+        _pay(viewer, campaign.viewerPaymentRate);
+        _pay(creator, campaign.creatorPaymentRate);
+        _pay(adTreasury, platformFee);
         
         emit AdViewed(campaignId, viewer, creator, campaign.viewerPaymentRate, campaign.creatorPaymentRate);
     }
 
-    function getCampaignTargetingTags(uint256 campaignId) external view returns (string[] memory) {
-        return campaigns[campaignId].targetingTags;
+    // Fixed domain, so proxies initialized before attestations need no reinitializer
+    function _EIP712Name() internal pure override returns (string memory) {
+        return "JeskeiAdvertisingEngine";
     }
 
-    function getCampaignViews(uint256 campaignId) external view returns (uint256) {
-        return campaignViews[campaignId];
-    }
-
-    function getViewerCampaignHistory(address viewer) external view returns (uint256[] memory) {
-        return viewerCampaignHistory[viewer];
+    function _EIP712Version() internal pure override returns (string memory) {
+        return "1";
     }
 
-    function getTagPopularity(string memory tag) external view returns (uint256) {
-        return tagPopularity[tag];
+    function _pay(address recipient, uint256 amount) private {
+        if (pushPayments) {
+            payable(recipient).transfer(amount);
+        } else if (amount > 0) {
+            claimable[recipient] += amount;
+            totalClaimable += amount;
+            emit PaymentCredited(recipient, amount);
+        }
     }
 
-    function setPlatformAdFee(uint256 _platformAdFee) external onlyOwner {
-        require(_platformAdFee <= 2000, "Fee too high");
-        platformAdFee = _platformAdFee;
+    function _withdraw(address payee) private {
+        uint256 amount = claimable[payee];
+        require(amount > 0, "No balance to withdraw");
+        claimable[payee] = 0;
+        totalClaimable -= amount;
+        (bool ok, ) = payable(payee).call{value: amount}("");
+        require(ok, "Withdrawal failed");
+        emit PaymentWithdrawn(payee, amount);
     }
 }
@@ -3,26 +3,38 @@ pragma solidity ^0.8.22;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URIStorageUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/interfaces/IERC2981.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "./PerformerAuthenticationUpgradeable.sol";
+import "./RoyaltyVault.sol";
+import "./RolesUpgradeable.sol";
 
 // =============================================================================
 // UPGRADEABLE ASSET REGISTRY
 // =============================================================================
 
+/// @notice An asset's contributor list is what RevenueDistributor pays out:
+/// each contributor's share, and the rest to the current owner. Every share
+/// change needs the contributor's consent, either by accepting an offer or by
+/// an EIP-712 ShareConsent signature the owner submits. Resale royalties
+/// (EIP-2981) go to the asset's RoyaltyVault and are split the same way.
 contract AssetRegistryUpgradeable is 
     Initializable,
     ERC721Upgradeable,
     ERC721URIStorageUpgradeable,
-    OwnableUpgradeable,
+    RolesUpgradeable,
     ReentrancyGuardUpgradeable,
     PausableUpgradeable,
-    UUPSUpgradeable
+    EIP712Upgradeable,
+    UUPSUpgradeable,
+    IERC2981
 {
     
     struct MediaAsset {
@@ -45,6 +57,20 @@ contract AssetRegistryUpgradeable is
         string role;
     }
 
+    struct ShareOffer {
+        uint256 sharePercentage; // 0 = removal
+        string role;
+        address offeredBy; // the offer lapses once the asset changes hands
+        bool pending;
+    }
+
+    struct AssetImport {
+        uint256 tokenId;
+        address owner;
+        MediaAsset asset;
+        Contributor[] contributors;
+    }
+
     mapping(uint256 => MediaAsset) public assets;
     mapping(uint256 => Contributor[]) public assetContributors;
     mapping(uint256 => mapping(address => bool)) public contributorExists;
@@ -58,30 +84,80 @@ contract AssetRegistryUpgradeable is
     // New storage variables for future upgrades
     mapping(uint256 => bytes32) public assetDataHash; // For additional asset data
     mapping(address => bool) public verifiedCreators; // For creator verification
-    uint256[50] private __gap; // Reserve storage slots for future upgrades
+    // Contributor roles (e.g. "actor") that need a verified performer
+    PerformerAuthenticationUpgradeable public performerAuthentication;
+    mapping(bytes32 => bool) private _performerRoles;
+    uint256 public performerRoleCount;
+    // Contributor consent
+    mapping(uint256 => mapping(address => ShareOffer)) public shareOffers;
+    mapping(address => uint256) public consentNonces;
+    // Imports legacy state while set (MigrationHelper)
+    address public migrator;
+    // EIP-2981 royalties, in basis points of the sale price
+    IRoyaltyDistributor public revenueDistributor;
+    uint256 public maxRoyaltyRate;
+    mapping(uint256 => uint256) public royaltyRates;
+    // Assets minted while their creator was verified, credited to the creator for good
+    mapping(address => uint256) public verifiedAssetCount;
+    uint256[40] private __gap; // Reserve storage slots for future upgrades
+
+    bytes32 public constant SHARE_CONSENT_TYPEHASH =
+        keccak256(
+            "ShareConsent(uint256 tokenId,address contributor,uint256 sharePercentage,string role,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant FEE_ADMIN_ROLE = keccak256("FEE_ADMIN_ROLE");
+    bytes32 public constant VERIFIER_ADMIN_ROLE = keccak256("VERIFIER_ADMIN_ROLE");
     
     event AssetCreated(uint256 indexed tokenId, address indexed creator, string contentHash, string assetType, uint256 price);
     event ContributorAdded(uint256 indexed tokenId, address indexed contributor, uint256 sharePercentage, string role);
     event HostingFeePaid(address indexed creator, uint256 amount, uint256 platformFee);
+    event PerformerRoleSet(string role, bool required);
+    event ShareOffered(uint256 indexed tokenId, address indexed contributor, uint256 sharePercentage, string role);
+    event ShareOfferCancelled(uint256 indexed tokenId, address indexed contributor);
+    event ContributorUpdated(uint256 indexed tokenId, address indexed contributor, uint256 sharePercentage, string role);
+    event ContributorRemoved(uint256 indexed tokenId, address indexed contributor);
+    event MigratorSet(address indexed migrator);
+    event AssetImported(uint256 indexed tokenId, address indexed creator, address indexed owner);
+    event HostingBalanceImported(address indexed account, uint256 amount);
+    event RoyaltyRateSet(uint256 indexed tokenId, uint256 rate);
+
+    modifier onlyMigrator() {
+        require(msg.sender == migrator, "Not migrator");
+        _;
+    }
     
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
     }
     
-    function initialize(address _hostingTreasury) public initializer {
+    function initialize(
+        address _hostingTreasury,
+        address _performerAuthentication,
+        address _admin
+    ) public onlyUninitialized reinitializer(2) {
         __ERC721_init("Jeskei Media Assets", "JMA");
         __ERC721URIStorage_init();
-        __Ownable_init(msg.sender);
+        __Roles_init(msg.sender, _admin);
         __ReentrancyGuard_init();
         __Pausable_init();
         __UUPSUpgradeable_init();
         
         hostingTreasury = _hostingTreasury;
+        performerAuthentication = PerformerAuthenticationUpgradeable(_performerAuthentication);
         platformHostingFee = 15; // 15% platform fee
+        maxRoyaltyRate = 1000; // 10% cap on resale royalties
     }
     
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
+
+    function _grantRoles(address admin) internal override {
+        super._grantRoles(admin);
+        // governance fee proposals reach this module through the factory
+        _grantRole(FEE_ADMIN_ROLE, owner());
+        _grantRole(FEE_ADMIN_ROLE, admin);
+        _grantRole(VERIFIER_ADMIN_ROLE, admin);
+    }
 
     function createAsset(
         string memory contentHash,
@@ -101,13 +177,15 @@ contract AssetRegistryUpgradeable is
         hostingBalance[hostingTreasury] += platformFee;
         
         uint256 tokenId = _tokenIdCounter++;
+        bool verified = verifiedCreators[msg.sender];
+        if (verified) verifiedAssetCount[msg.sender]++;
         
         assets[tokenId] = MediaAsset({
             creator: msg.sender,
             contentHash: contentHash,
             metadataURI: metadataURI,
             revenueShare: 10000,
-            isVerified: false,
+            isVerified: verified,
             creationTime: block.timestamp,
             storageProvider: storageProvider,
             hostingFeesPaid: msg.value,
@@ -127,32 +205,78 @@ contract AssetRegistryUpgradeable is
         return tokenId;
     }
 
-    function addContributor(
+    /// @notice Offers `contributor` a share, a new one for an existing
+    /// contributor, or 0 to remove them; it applies when they accept it
+    function offerShare(
         uint256 tokenId,
         address contributor,
         uint256 sharePercentage,
         string memory role
-    ) external {
+    ) external whenNotPaused {
         require(ownerOf(tokenId) == msg.sender, "Not asset owner");
         require(contributor != address(0), "Invalid contributor");
-        require(sharePercentage > 0 && sharePercentage <= 10000, "Invalid share");
-        require(!contributorExists[tokenId][contributor], "Contributor already exists");
+        require(sharePercentage <= 10000, "Invalid share");
+        require(sharePercentage > 0 || contributorExists[tokenId][contributor], "Invalid share");
         
-        uint256 totalShares = 0;
-        for (uint i = 0; i < assetContributors[tokenId].length; i++) {
-            totalShares += assetContributors[tokenId][i].sharePercentage;
-        }
-        require(totalShares + sharePercentage <= 10000, "Exceeds 100% shares");
-        
-        assetContributors[tokenId].push(Contributor({
-            contributorAddress: contributor,
+        shareOffers[tokenId][contributor] = ShareOffer({
             sharePercentage: sharePercentage,
-            role: role
-        }));
+            role: role,
+            offeredBy: msg.sender,
+            pending: true
+        });
+        
+        emit ShareOffered(tokenId, contributor, sharePercentage, role);
+    }
+
+    function acceptShare(uint256 tokenId) external whenNotPaused {
+        ShareOffer memory offer = shareOffers[tokenId][msg.sender];
+        require(offer.pending, "No pending offer");
+        require(ownerOf(tokenId) == offer.offeredBy, "Offer outdated");
         
-        contributorExists[tokenId][contributor] = true;
+        delete shareOffers[tokenId][msg.sender];
+        _setContributor(tokenId, msg.sender, offer.sharePercentage, offer.role);
+    }
+
+    /// @notice Withdraws an offer (asset owner) or declines it (contributor)
+    function cancelShareOffer(uint256 tokenId, address contributor) external {
+        require(shareOffers[tokenId][contributor].pending, "No pending offer");
+        require(msg.sender == contributor || msg.sender == ownerOf(tokenId), "Not authorized");
         
-        emit ContributorAdded(tokenId, contributor, sharePercentage, role);
+        delete shareOffers[tokenId][contributor];
+        
+        emit ShareOfferCancelled(tokenId, contributor);
+    }
+
+    /// @notice Applies a share (0 removes) the contributor agreed to by signing
+    /// a ShareConsent for their current `consentNonces` entry
+    function setContributorShare(
+        uint256 tokenId,
+        address contributor,
+        uint256 sharePercentage,
+        string memory role,
+        uint256 deadline,
+        bytes calldata signature
+    ) external whenNotPaused {
+        require(ownerOf(tokenId) == msg.sender, "Not asset owner");
+        require(block.timestamp <= deadline, "Signature expired");
+        
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    SHARE_CONSENT_TYPEHASH,
+                    tokenId,
+                    contributor,
+                    sharePercentage,
+                    keccak256(bytes(role)),
+                    consentNonces[contributor]++,
+                    deadline
+                )
+            )
+        );
+        require(ECDSA.recover(digest, signature) == contributor, "Invalid consent signature");
+        
+        delete shareOffers[tokenId][contributor];
+        _setContributor(tokenId, contributor, sharePercentage, role);
     }
 
     // View functions
@@ -164,6 +288,70 @@ contract AssetRegistryUpgradeable is
         return creatorAssets[creator];
     }
 
+    /// @notice What RevenueDistributor pays out, in basis points: every
+    /// contributor's share, then the rest to the asset's current owner
+    function getRevenueSplit(uint256 tokenId)
+        external
+        view
+        returns (address[] memory recipients, uint256[] memory percentages)
+    {
+        return _split(tokenId, ownerOf(tokenId));
+    }
+
+    /// @notice The split of resale royalties: as `getRevenueSplit`, but the
+    /// rest goes to the creator, since the new owner is who just paid
+    function getRoyaltySplit(uint256 tokenId)
+        external
+        view
+        returns (address[] memory recipients, uint256[] memory percentages)
+    {
+        _requireOwned(tokenId);
+        return _split(tokenId, assets[tokenId].creator);
+    }
+
+    function _split(uint256 tokenId, address remainderTo)
+        private
+        view
+        returns (address[] memory recipients, uint256[] memory percentages)
+    {
+        Contributor[] storage contributors = assetContributors[tokenId];
+        uint256 total = 0;
+        for (uint256 i = 0; i < contributors.length; i++) {
+            total += contributors[i].sharePercentage;
+        }
+        
+        uint256 count = total < 10000 ? contributors.length + 1 : contributors.length;
+        recipients = new address[](count);
+        percentages = new uint256[](count);
+        for (uint256 i = 0; i < contributors.length; i++) {
+            recipients[i] = contributors[i].contributorAddress;
+            percentages[i] = contributors[i].sharePercentage;
+        }
+        if (total < 10000) {
+            recipients[count - 1] = remainderTo;
+            percentages[count - 1] = 10000 - total;
+        }
+    }
+
+    /// @notice Roles match exactly, so "actor" and "Actor" are configured separately
+    function requiresVerifiedPerformer(string memory role) public view returns (bool) {
+        return _performerRoles[keccak256(bytes(role))];
+    }
+
+    /// @notice False once a contributor in a performer role is no longer verified
+    /// (expired or revoked); wallet rotations are followed
+    function hasVerifiedPerformers(uint256 tokenId) external view returns (bool) {
+        if (performerRoleCount == 0) return true;
+        Contributor[] storage contributors = assetContributors[tokenId];
+        for (uint256 i = 0; i < contributors.length; i++) {
+            if (
+                requiresVerifiedPerformer(contributors[i].role) &&
+                !_isVerifiedPerformer(contributors[i].contributorAddress)
+            ) return false;
+        }
+        return true;
+    }
+
     function withdrawHostingBalance() external nonReentrant {
         uint256 balance = hostingBalance[msg.sender];
         require(balance > 0, "No balance to withdraw");
@@ -173,26 +361,174 @@ contract AssetRegistryUpgradeable is
     }
 
     // Admin functions
-    function setPlatformHostingFee(uint256 _fee) external onlyOwner {
+    function setPlatformHostingFee(uint256 _fee) external onlyRole(FEE_ADMIN_ROLE) {
         require(_fee <= 25, "Fee too high");
         platformHostingFee = _fee;
     }
 
-    function setHostingTreasury(address _treasury) external onlyOwner {
+    function setHostingTreasury(address _treasury) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_treasury != address(0), "Invalid treasury");
         hostingTreasury = _treasury;
     }
 
+    function setPerformerAuthentication(address _performerAuthentication) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_performerAuthentication != address(0), "Invalid address");
+        performerAuthentication = PerformerAuthenticationUpgradeable(_performerAuthentication);
+    }
+
+    function setPerformerRole(string memory role, bool required) external onlyRole(VERIFIER_ADMIN_ROLE) {
+        require(address(performerAuthentication) != address(0), "Performer authentication not set");
+        bytes32 key = keccak256(bytes(role));
+        if (_performerRoles[key] == required) return;
+        _performerRoles[key] = required;
+        if (required) {
+            performerRoleCount++;
+        } else {
+            performerRoleCount--;
+        }
+        emit PerformerRoleSet(role, required);
+    }
+
+    function setRevenueDistributor(address _revenueDistributor) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_revenueDistributor != address(0), "Invalid address");
+        revenueDistributor = IRoyaltyDistributor(_revenueDistributor);
+    }
+
+    function setMaxRoyaltyRate(uint256 _rate) external onlyRole(FEE_ADMIN_ROLE) {
+        require(_rate <= 5000, "Fee too high");
+        maxRoyaltyRate = _rate;
+    }
+
+    /// @notice The creator's royalty on every resale; stays with the asset
+    /// whoever owns it
+    function setRoyaltyRate(uint256 tokenId, uint256 rate) external {
+        require(assets[tokenId].creator == msg.sender, "Not asset creator");
+        require(rate <= maxRoyaltyRate, "Royalty above cap");
+        royaltyRates[tokenId] = rate;
+        emit RoyaltyRateSet(tokenId, rate);
+    }
+
+    /// @notice Lowering the platform cap also caps rates set before it
+    function royaltyInfo(uint256 tokenId, uint256 salePrice) external view returns (address receiver, uint256 royaltyAmount) {
+        if (address(revenueDistributor) == address(0)) return (address(0), 0);
+        uint256 rate = royaltyRates[tokenId] < maxRoyaltyRate ? royaltyRates[tokenId] : maxRoyaltyRate;
+        return (revenueDistributor.royaltyVault(tokenId), (salePrice * rate) / 10000);
+    }
+
     // Future upgrade functions
     function setAssetDataHash(uint256 tokenId, bytes32 dataHash) external {
         require(ownerOf(tokenId) == msg.sender, "Not asset owner");
         assetDataHash[tokenId] = dataHash;
     }
 
-    function verifyCreator(address creator) external onlyOwner {
+    /// @notice Lets `_migrator` replay legacy state; cleared once the migration is done
+    function setMigrator(address _migrator) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        migrator = _migrator;
+        emit MigratorSet(_migrator);
+    }
+
+    /// @notice Replays legacy assets under their original ids, each following
+    /// on from the last. Contributors come as agreed on the legacy stack, so
+    /// their consent is not collected again.
+    function importAssets(AssetImport[] calldata batch) external onlyMigrator {
+        for (uint256 i = 0; i < batch.length; i++) {
+            AssetImport calldata item = batch[i];
+            require(item.tokenId == _tokenIdCounter, "Import out of order");
+            _tokenIdCounter++;
+            
+            assets[item.tokenId] = item.asset;
+            creatorAssets[item.asset.creator].push(item.tokenId);
+            _mint(item.owner, item.tokenId);
+            _setTokenURI(item.tokenId, item.asset.metadataURI);
+            
+            uint256 totalShares = 0;
+            for (uint256 j = 0; j < item.contributors.length; j++) {
+                Contributor calldata contributor = item.contributors[j];
+                require(contributor.contributorAddress != address(0), "Invalid contributor");
+                require(!contributorExists[item.tokenId][contributor.contributorAddress], "Invalid contributor");
+                require(contributor.sharePercentage > 0, "Invalid share");
+                totalShares += contributor.sharePercentage;
+                
+                assetContributors[item.tokenId].push(contributor);
+                contributorExists[item.tokenId][contributor.contributorAddress] = true;
+                emit ContributorAdded(item.tokenId, contributor.contributorAddress, contributor.sharePercentage, contributor.role);
+            }
+            require(totalShares <= 10000, "Exceeds 100% shares");
+            
+            emit AssetImported(item.tokenId, item.asset.creator, item.owner);
+        }
+    }
+
+    /// @notice Credits legacy hosting balances, funded by the ETH sent along
+    function importHostingBalances(address[] calldata accounts, uint256[] calldata amounts) external payable onlyMigrator {
+        require(accounts.length == amounts.length, "Array length mismatch");
+        
+        uint256 total = 0;
+        for (uint256 i = 0; i < accounts.length; i++) {
+            hostingBalance[accounts[i]] += amounts[i];
+            total += amounts[i];
+            emit HostingBalanceImported(accounts[i], amounts[i]);
+        }
+        require(total == msg.value, "Incorrect payment amount");
+    }
+
+    function verifyCreator(address creator) external onlyRole(VERIFIER_ADMIN_ROLE) {
         verifiedCreators[creator] = true;
     }
 
+    function _setContributor(uint256 tokenId, address contributor, uint256 sharePercentage, string memory role) private {
+        Contributor[] storage contributors = assetContributors[tokenId];
+        uint256 index = contributors.length;
+        uint256 otherShares = 0;
+        for (uint256 i = 0; i < contributors.length; i++) {
+            if (contributors[i].contributorAddress == contributor) {
+                index = i;
+            } else {
+                otherShares += contributors[i].sharePercentage;
+            }
+        }
+        
+        if (sharePercentage == 0) {
+            require(index < contributors.length, "Not a contributor");
+            contributors[index] = contributors[contributors.length - 1];
+            contributors.pop();
+            contributorExists[tokenId][contributor] = false;
+            emit ContributorRemoved(tokenId, contributor);
+            return;
+        }
+        
+        require(sharePercentage <= 10000, "Invalid share");
+        require(otherShares + sharePercentage <= 10000, "Exceeds 100% shares");
+        require(!requiresVerifiedPerformer(role) || _isVerifiedPerformer(contributor), "Performer not verified");
+        
+        if (index == contributors.length) {
+            contributors.push(Contributor({
+                contributorAddress: contributor,
+                sharePercentage: sharePercentage,
+                role: role
+            }));
+            contributorExists[tokenId][contributor] = true;
+            emit ContributorAdded(tokenId, contributor, sharePercentage, role);
+        } else {
+            contributors[index].sharePercentage = sharePercentage;
+            contributors[index].role = role;
+            emit ContributorUpdated(tokenId, contributor, sharePercentage, role);
+        }
+    }
+
+    function _isVerifiedPerformer(address contributor) private view returns (bool) {
+        return performerAuthentication.isVerifiedPerformer(performerAuthentication.currentWallet(contributor));
+    }
+
+    // Fixed domain, so proxies initialized before share consent need no reinitializer
+    function _EIP712Name() internal pure override returns (string memory) {
+        return "JeskeiAssetRegistry";
+    }
+
+    function _EIP712Version() internal pure override returns (string memory) {
+        return "1";
+    }
+
     // Override required functions
     function _update(address to, uint256 tokenId, address auth) internal override(ERC721Upgradeable) returns (address) {
         return super._update(to, tokenId, auth);
@@ -202,7 +538,7 @@ contract AssetRegistryUpgradeable is
         return super.tokenURI(tokenId);
     }
 
-    function supportsInterface(bytes4 interfaceId) public view override(ERC721Upgradeable, ERC721URIStorageUpgradeable) returns (bool) {
-        return super.supportsInterface(interfaceId);
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721Upgradeable, ERC721URIStorageUpgradeable, AccessControlUpgradeable, IERC165) returns (bool) {
+        return interfaceId == type(IERC2981).interfaceId || super.supportsInterface(interfaceId);
     }
 }
@@ -3,15 +3,19 @@ pragma solidity ^0.8.22;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URIStorageUpgradeable.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "./AssetRegistryUpgradeable.sol";
 import "./RevenueDistributorUpgradeable.sol";
+import "./RolesUpgradeable.sol";
 
 // =============================================================================
 // UPGRADEABLE CONTENT ACCESS
@@ -19,16 +23,42 @@ import "./RevenueDistributorUpgradeable.sol";
 
 contract ContentAccessUpgradeable is 
     Initializable,
-    OwnableUpgradeable,
+    RolesUpgradeable,
     ReentrancyGuardUpgradeable,
+    PausableUpgradeable,
     UUPSUpgradeable
 {
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.AddressSet;
     
     struct AccessGrant {
         uint256 expiryTime;
         bool isActive;
         uint256 grantTime;
     }
+
+    struct Plan {
+        address creator;
+        uint256 assetId; // the asset a plan unlocks; for bundles, the asset whose revenue shares split it
+        bool creatorBundle; // unlocks every asset the creator currently owns
+        address paymentToken; // address(0) = ETH
+        uint256 pricePerPeriod;
+        uint256 period;
+        uint256 gracePeriod;
+        bool active;
+    }
+
+    struct Subscription {
+        uint256 paidUntil;
+        bool cancelled;
+        uint256 pricePerPeriod; // locked in by `subscribe`; what `collectRenewal` charges
+    }
+
+    struct AccessImport {
+        address user;
+        uint256 assetId;
+        AccessGrant grant;
+    }
     
     mapping(address => mapping(uint256 => AccessGrant)) public userAccess;
     mapping(uint256 => uint256) public assetPrices;
@@ -40,65 +70,322 @@ contract ContentAccessUpgradeable is
     // New storage for future upgrades
     mapping(uint256 => uint256) public assetViewCount; // For analytics
     mapping(address => uint256[]) public userPurchaseHistory; // For recommendations
-    mapping(uint256 => mapping(address => bool)) public assetSubscribers; // For subscription model
-    uint256[50] private __gap;
+    mapping(uint256 => mapping(address => bool)) public assetSubscribers; // Unused since plans, kept for storage layout
+    // ERC-20 prices; a token is accepted for an asset while its price is non-zero
+    mapping(uint256 => mapping(address => uint256)) public assetTokenPrices;
+    mapping(uint256 => EnumerableSet.AddressSet) private _assetPaymentTokens;
+    // Subscription plans
+    mapping(uint256 => Plan) public plans;
+    uint256 public planCount;
+    mapping(uint256 => mapping(address => Subscription)) public subscriptions; // planId => subscriber
+    mapping(uint256 => uint256[]) private _assetPlans;
+    mapping(address => uint256[]) private _creatorBundles;
+    // Imports legacy state while set (MigrationHelper)
+    address public migrator;
+    uint256[42] private __gap;
+
+    uint256 public constant MAX_GRACE_PERIOD = 7 days;
+    uint256 public constant MAX_PERIODS_PER_PAYMENT = 12;
+    uint256 public constant RENEWAL_WINDOW = 1 days; // token renewals can be collected this early
+    uint256 public constant ACCESS_PERIOD = 1 days; // asset prices are per period of access
+    uint256 public constant MAX_ACCESS_DURATION = 365 days;
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
     
     event AccessGranted(address indexed user, uint256 indexed assetId, uint256 expiryTime);
     event AccessPurchased(address indexed user, uint256 indexed assetId, uint256 price);
+    event AssetTokenPriceSet(uint256 indexed assetId, address indexed token, uint256 price);
+    event AccessPurchasedWithToken(address indexed user, uint256 indexed assetId, address indexed token, uint256 price);
+    event PlanCreated(
+        uint256 indexed planId,
+        address indexed creator,
+        uint256 indexed assetId,
+        bool creatorBundle,
+        address paymentToken,
+        uint256 pricePerPeriod,
+        uint256 period
+    );
+    event PlanUpdated(uint256 indexed planId, uint256 pricePerPeriod, bool active);
+    event Subscribed(uint256 indexed planId, address indexed subscriber, uint256 periods, uint256 paidUntil, uint256 amount);
+    event SubscriptionRenewed(uint256 indexed planId, address indexed subscriber, uint256 paidUntil, uint256 amount);
+    event SubscriptionCancelled(uint256 indexed planId, address indexed subscriber, uint256 paidUntil);
+    event MigratorSet(address indexed migrator);
+
+    modifier onlyMigrator() {
+        require(msg.sender == migrator, "Not migrator");
+        _;
+    }
     
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
     }
     
-    function initialize(address _assetRegistry, address _revenueDistributor) public initializer {
-        __Ownable_init(msg.sender);
+    function initialize(
+        address _assetRegistry,
+        address _revenueDistributor,
+        address _admin
+    ) public onlyUninitialized reinitializer(2) {
+        __Roles_init(msg.sender, _admin);
         __ReentrancyGuard_init();
+        __Pausable_init();
         __UUPSUpgradeable_init();
         
         assetRegistry = AssetRegistryUpgradeable(_assetRegistry);
         revenueDistributor = RevenueDistributorUpgradeable(_revenueDistributor);
     }
     
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
+
+    function _grantRoles(address admin) internal override {
+        super._grantRoles(admin);
+        _grantRole(PAUSER_ROLE, admin);
+    }
 
     function setAssetPrice(uint256 assetId, uint256 price) external {
         require(assetRegistry.ownerOf(assetId) == msg.sender, "Not asset owner");
         assetPrices[assetId] = price;
     }
 
-    function purchaseAccess(uint256 assetId, uint256 duration) external payable nonReentrant {
+    /// @notice Buys `duration` seconds of access, a whole number of `ACCESS_PERIOD`s at the asset price each
+    function purchaseAccess(uint256 assetId, uint256 duration) external payable nonReentrant whenNotPaused {
         require(!isPublicAsset[assetId], "Asset is public");
         require(assetPrices[assetId] > 0, "Asset not for sale");
-        require(msg.value >= assetPrices[assetId], "Insufficient payment");
+        require(msg.value >= accessCost(assetId, address(0), duration), "Insufficient payment");
+        _requireVerifiedPerformers(assetId);
         
-        userAccess[msg.sender][assetId] = AccessGrant({
-            expiryTime: block.timestamp + duration,
-            isActive: true,
-            grantTime: block.timestamp
-        });
-        
-        // Track analytics
-        assetViewCount[assetId]++;
-        userPurchaseHistory[msg.sender].push(assetId);
+        _grantAccess(assetId, duration);
         
-        revenueDistributor.distributeRevenue{value: msg.value}(assetId, msg.value);
+        revenueDistributor.distributeRevenueFor{value: msg.value}(assetId, msg.value, msg.sender);
         
         emit AccessPurchased(msg.sender, assetId, msg.value);
         emit AccessGranted(msg.sender, assetId, block.timestamp + duration);
     }
 
+    function setAssetTokenPrice(uint256 assetId, address token, uint256 price) external {
+        require(assetRegistry.ownerOf(assetId) == msg.sender, "Not asset owner");
+        require(token != address(0), "Invalid token");
+        
+        assetTokenPrices[assetId][token] = price;
+        if (price > 0) {
+            _assetPaymentTokens[assetId].add(token);
+        } else {
+            _assetPaymentTokens[assetId].remove(token);
+        }
+        
+        emit AssetTokenPriceSet(assetId, token, price);
+    }
+
+    function purchaseAccessWithToken(uint256 assetId, uint256 duration, address token, uint256 amount) external nonReentrant whenNotPaused {
+        _purchaseWithToken(assetId, duration, token, amount);
+    }
+
+    function purchaseAccessWithPermit(
+        uint256 assetId,
+        uint256 duration,
+        address token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        // A front-run permit still leaves the allowance in place, so a failed
+        // permit only matters if the transfer below fails too
+        try IERC20Permit(token).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
+        _purchaseWithToken(assetId, duration, token, amount);
+    }
+
+    /// @notice Price of `duration` seconds of access paid in `token` (address(0) = ETH)
+    function accessCost(uint256 assetId, address token, uint256 duration) public view returns (uint256) {
+        require(
+            duration > 0 && duration % ACCESS_PERIOD == 0 && duration <= MAX_ACCESS_DURATION,
+            "Invalid duration"
+        );
+        uint256 price = token == address(0) ? assetPrices[assetId] : assetTokenPrices[assetId][token];
+        return price * (duration / ACCESS_PERIOD);
+    }
+
     function hasAccess(address user, uint256 assetId) external view returns (bool) {
         if (isPublicAsset[assetId]) return true;
-        if (assetRegistry.ownerOf(assetId) == user) return true;
+        address assetOwner = assetRegistry.ownerOf(assetId);
+        if (assetOwner == user) return true;
         
         AccessGrant memory grant = userAccess[user][assetId];
-        return grant.isActive && block.timestamp <= grant.expiryTime;
+        if (grant.isActive && block.timestamp <= grant.expiryTime) return true;
+        
+        uint256[] storage assetPlans = _assetPlans[assetId];
+        for (uint256 i = 0; i < assetPlans.length; i++) {
+            if (isSubscriptionActive(assetPlans[i], user)) return true;
+        }
+        uint256[] storage bundles = _creatorBundles[assetOwner];
+        for (uint256 i = 0; i < bundles.length; i++) {
+            if (isSubscriptionActive(bundles[i], user)) return true;
+        }
+        return false;
+    }
+
+    /// @notice Lets `_migrator` replay legacy state; cleared once the migration is done
+    function setMigrator(address _migrator) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        migrator = _migrator;
+        emit MigratorSet(_migrator);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    function importAssetPricing(
+        uint256[] calldata assetIds,
+        uint256[] calldata prices,
+        bool[] calldata publicAssets
+    ) external onlyMigrator {
+        require(assetIds.length == prices.length && assetIds.length == publicAssets.length, "Array length mismatch");
+        for (uint256 i = 0; i < assetIds.length; i++) {
+            assetPrices[assetIds[i]] = prices[i];
+            isPublicAsset[assetIds[i]] = publicAssets[i];
+        }
+    }
+
+    /// @notice Replays legacy grants as they stand, expiry and grant time included
+    function importAccessGrants(AccessImport[] calldata grants) external onlyMigrator {
+        for (uint256 i = 0; i < grants.length; i++) {
+            userAccess[grants[i].user][grants[i].assetId] = grants[i].grant;
+            emit AccessGranted(grants[i].user, grants[i].assetId, grants[i].grant.expiryTime);
+        }
+    }
+
+    function getAssetPaymentTokens(uint256 assetId) external view returns (address[] memory) {
+        return _assetPaymentTokens[assetId].values();
+    }
+
+    // Subscription plans
+
+    function isValidPeriod(uint256 period) public pure returns (bool) {
+        return period == 7 days || period == 30 days || period == 90 days || period == 365 days;
+    }
+
+    /// @notice Creates a plan on `assetId`, or a creator-wide bundle whose revenue is split by `assetId`'s shares
+    function createPlan(
+        uint256 assetId,
+        bool creatorBundle,
+        address paymentToken,
+        uint256 pricePerPeriod,
+        uint256 period,
+        uint256 gracePeriod
+    ) external returns (uint256) {
+        require(assetRegistry.ownerOf(assetId) == msg.sender, "Not asset owner");
+        require(pricePerPeriod > 0, "Invalid price");
+        require(isValidPeriod(period), "Invalid period");
+        require(gracePeriod <= MAX_GRACE_PERIOD, "Grace period too long");
+        
+        uint256 planId = planCount++;
+        plans[planId] = Plan({
+            creator: msg.sender,
+            assetId: assetId,
+            creatorBundle: creatorBundle,
+            paymentToken: paymentToken,
+            pricePerPeriod: pricePerPeriod,
+            period: period,
+            gracePeriod: gracePeriod,
+            active: true
+        });
+        if (creatorBundle) {
+            _creatorBundles[msg.sender].push(planId);
+        } else {
+            _assetPlans[assetId].push(planId);
+        }
+        
+        emit PlanCreated(planId, msg.sender, assetId, creatorBundle, paymentToken, pricePerPeriod, period);
+        return planId;
     }
 
-    // Future upgrade functions
-    function subscribeToAsset(uint256 assetId) external {
-        assetSubscribers[assetId][msg.sender] = true;
+    /// @notice New prices apply from the next `subscribe`; renewals collected for existing
+    /// subscribers never charge more than the price they subscribed at. An inactive plan
+    /// takes no payments but honours paid time
+    function updatePlan(uint256 planId, uint256 pricePerPeriod, bool active) external {
+        Plan storage plan = plans[planId];
+        require(plan.creator == msg.sender, "Not plan creator");
+        require(pricePerPeriod > 0, "Invalid price");
+        
+        plan.pricePerPeriod = pricePerPeriod;
+        plan.active = active;
+        
+        emit PlanUpdated(planId, pricePerPeriod, active);
+    }
+
+    /// @notice Subscribes, or renews, for `periods` periods paid up front. A renewal
+    /// within the grace period extends from the old expiry, later ones from now.
+    function subscribe(uint256 planId, uint256 periods) external payable nonReentrant whenNotPaused {
+        Plan storage plan = _payablePlan(planId);
+        require(periods > 0 && periods <= MAX_PERIODS_PER_PAYMENT, "Invalid periods");
+        
+        Subscription storage sub = subscriptions[planId][msg.sender];
+        uint256 grace = sub.cancelled ? 0 : plan.gracePeriod;
+        uint256 start = sub.paidUntil + grace >= block.timestamp ? sub.paidUntil : block.timestamp;
+        sub.paidUntil = start + plan.period * periods;
+        sub.cancelled = false;
+        sub.pricePerPeriod = plan.pricePerPeriod;
+        
+        uint256 amount = plan.pricePerPeriod * periods;
+        if (plan.paymentToken == address(0)) {
+            require(msg.value == amount, "Incorrect payment amount");
+            revenueDistributor.distributeRevenueFor{value: amount}(plan.assetId, amount, msg.sender);
+        } else {
+            require(msg.value == 0, "Incorrect payment amount");
+            _distributeToken(plan.assetId, plan.paymentToken, msg.sender, amount);
+        }
+        
+        emit Subscribed(planId, msg.sender, periods, sub.paidUntil, amount);
+    }
+
+    /// @notice Charges one period of a token plan to `subscriber`'s allowance, at the lower of
+    /// the subscribed and the current price; anyone may call it from `RENEWAL_WINDOW` before
+    /// expiry to the end of the grace period
+    function collectRenewal(uint256 planId, address subscriber) external nonReentrant whenNotPaused {
+        Plan storage plan = _payablePlan(planId);
+        require(plan.paymentToken != address(0), "Not a token plan");
+        
+        Subscription storage sub = subscriptions[planId][subscriber];
+        // subscriptions from before prices were locked in have to subscribe again
+        require(sub.paidUntil > 0 && sub.pricePerPeriod > 0 && !sub.cancelled, "Not renewable");
+        require(block.timestamp + RENEWAL_WINDOW >= sub.paidUntil, "Renewal not due");
+        require(block.timestamp <= sub.paidUntil + plan.gracePeriod, "Subscription lapsed");
+        
+        uint256 amount = plan.pricePerPeriod < sub.pricePerPeriod ? plan.pricePerPeriod : sub.pricePerPeriod;
+        sub.paidUntil += plan.period;
+        _distributeToken(plan.assetId, plan.paymentToken, subscriber, amount);
+        
+        emit SubscriptionRenewed(planId, subscriber, sub.paidUntil, amount);
+    }
+
+    /// @notice Stops renewals; paid time stays usable, the grace period does not
+    function cancelSubscription(uint256 planId) external {
+        Subscription storage sub = subscriptions[planId][msg.sender];
+        require(sub.paidUntil > 0, "Not subscribed");
+        require(!sub.cancelled, "Already cancelled");
+        
+        sub.cancelled = true;
+        
+        emit SubscriptionCancelled(planId, msg.sender, sub.paidUntil);
+    }
+
+    function isSubscriptionActive(uint256 planId, address subscriber) public view returns (bool) {
+        Subscription memory sub = subscriptions[planId][subscriber];
+        if (sub.paidUntil == 0) return false;
+        uint256 grace = sub.cancelled ? 0 : plans[planId].gracePeriod;
+        return block.timestamp <= sub.paidUntil + grace;
+    }
+
+    function getAssetPlans(uint256 assetId) external view returns (uint256[] memory) {
+        return _assetPlans[assetId];
+    }
+
+    function getCreatorBundles(address creator) external view returns (uint256[] memory) {
+        return _creatorBundles[creator];
     }
 
     function getAssetViewCount(uint256 assetId) external view returns (uint256) {
@@ -108,4 +395,48 @@ contract ContentAccessUpgradeable is
     function getUserPurchaseHistory(address user) external view returns (uint256[] memory) {
         return userPurchaseHistory[user];
     }
+
+    function _grantAccess(uint256 assetId, uint256 duration) private {
+        userAccess[msg.sender][assetId] = AccessGrant({
+            expiryTime: block.timestamp + duration,
+            isActive: true,
+            grantTime: block.timestamp
+        });
+        
+        // Track analytics
+        assetViewCount[assetId]++;
+        userPurchaseHistory[msg.sender].push(assetId);
+    }
+
+    function _purchaseWithToken(uint256 assetId, uint256 duration, address token, uint256 amount) private {
+        require(!isPublicAsset[assetId], "Asset is public");
+        require(assetTokenPrices[assetId][token] > 0, "Token not accepted");
+        require(amount >= accessCost(assetId, token, duration), "Insufficient payment");
+        _requireVerifiedPerformers(assetId);
+        
+        _grantAccess(assetId, duration);
+        _distributeToken(assetId, token, msg.sender, amount);
+        
+        emit AccessPurchasedWithToken(msg.sender, assetId, token, amount);
+        emit AccessGranted(msg.sender, assetId, block.timestamp + duration);
+    }
+
+    function _distributeToken(uint256 assetId, address token, address from, uint256 amount) private {
+        IERC20(token).safeTransferFrom(from, address(this), amount);
+        IERC20(token).forceApprove(address(revenueDistributor), amount);
+        revenueDistributor.distributeTokenRevenue(assetId, token, amount);
+    }
+
+    function _payablePlan(uint256 planId) private view returns (Plan storage plan) {
+        plan = plans[planId];
+        require(plan.active, "Plan not active");
+        // a bundle's revenue follows its asset; once that is sold the plan stops taking payments
+        require(assetRegistry.ownerOf(plan.assetId) == plan.creator, "Plan asset transferred");
+        _requireVerifiedPerformers(plan.assetId);
+    }
+
+    // assets whose performers lost their verification are not sold until it is renewed
+    function _requireVerifiedPerformers(uint256 assetId) private view {
+        require(assetRegistry.hasVerifiedPerformers(assetId), "Performer not verified");
+    }
 }
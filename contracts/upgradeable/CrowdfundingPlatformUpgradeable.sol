@@ -0,0 +1,563 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./AssetRegistryUpgradeable.sol";
+import "./RolesUpgradeable.sol";
+
+// =============================================================================
+// UPGRADEABLE CROWDFUNDING - milestone tranches approved by backers
+// =============================================================================
+
+/// @notice Funds raised by a campaign are released to its creator one milestone
+/// tranche at a time, each approved by a contribution-weighted backer vote. A
+/// rejected or missed milestone fails the campaign, and backers reclaim the
+/// unreleased balance pro rata. Backers on a reward tier mint a backer NFT
+/// (this contract's ERC-721) tied to the campaign's AssetRegistry asset.
+contract CrowdfundingPlatformUpgradeable is
+    Initializable,
+    ERC721Upgradeable,
+    RolesUpgradeable,
+    ReentrancyGuardUpgradeable,
+    PausableUpgradeable,
+    UUPSUpgradeable
+{
+    using SafeERC20 for IERC20;
+
+    enum CampaignState {
+        Funding,
+        Active,
+        Completed,
+        Failed
+    }
+
+    enum MilestoneStatus {
+        Pending,
+        Voting,
+        Released,
+        Rejected
+    }
+
+    struct Campaign {
+        address creator;
+        address paymentToken; // address(0) = ETH
+        string metadataURI;
+        uint256 goal;
+        uint256 raised;
+        uint256 released;
+        uint256 refundPool; // unreleased balance when the campaign failed
+        uint64 fundingEnd;
+        uint32 currentMilestone;
+        CampaignState state;
+        bool assetLinked;
+        uint256 assetId;
+    }
+
+    struct MilestoneInput {
+        string description;
+        uint16 share; // basis points of the amount raised
+        uint64 duration; // seconds after the previous milestone's deadline
+    }
+
+    struct Milestone {
+        string description;
+        uint16 share;
+        uint64 duration;
+        uint64 deadline; // last moment to open the vote, fixed when funding closes
+        uint64 voteEnd;
+        uint256 approvals;
+        uint256 rejections;
+        MilestoneStatus status;
+    }
+
+    struct RewardTier {
+        uint256 minContribution;
+        uint32 supply; // 0 = unlimited
+        string uri; // token URI of the tier's backer NFT
+    }
+
+    struct StretchGoal {
+        uint256 target;
+        string description;
+    }
+
+    struct BackerReward {
+        uint256 campaignId;
+        uint256 tier;
+    }
+
+    uint256 public constant NO_REWARD = type(uint256).max;
+    uint256 public constant MAX_MILESTONES = 10;
+    uint256 public constant MAX_FUNDING_DURATION = 90 days;
+    bytes32 public constant FEE_ADMIN_ROLE = keccak256("FEE_ADMIN_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    mapping(uint256 => Campaign) public campaigns;
+    mapping(uint256 => Milestone[]) private _milestones;
+    mapping(uint256 => RewardTier[]) private _rewardTiers;
+    mapping(uint256 => StretchGoal[]) private _stretchGoals;
+    mapping(uint256 => mapping(uint256 => uint256)) public tierBackers;
+    mapping(uint256 => mapping(address => uint256)) public contributions;
+    mapping(uint256 => mapping(address => uint256)) public backerTier; // tier index + 1; 0 = no reward
+    mapping(uint256 => mapping(address => uint256)) public backerToken; // token id + 1 once minted
+    mapping(uint256 => mapping(address => bool)) public refunded;
+    mapping(uint256 => mapping(uint256 => mapping(address => bool))) public hasVoted;
+    mapping(uint256 => BackerReward) public backerRewards;
+    mapping(address => uint256[]) public creatorCampaigns;
+    // Released tranches are credited and claimed with withdraw/withdrawToken
+    mapping(address => uint256) public claimable;
+    mapping(address => mapping(address => uint256)) public tokenClaimable;
+
+    uint256 public campaignCounter;
+    uint256 private _tokenIdCounter;
+    uint256 public platformFee; // basis points of every released tranche
+    uint256 public votingPeriod;
+    uint256 public quorum; // basis points of the amount raised that must vote
+    AssetRegistryUpgradeable public assetRegistry;
+    address public crowdfundingTreasury;
+    uint256[50] private __gap;
+
+    event CampaignCreated(uint256 indexed campaignId, address indexed creator, address paymentToken, uint256 goal);
+    event ContributionMade(uint256 indexed campaignId, address indexed backer, uint256 amount, uint256 tier);
+    event StretchGoalReached(uint256 indexed campaignId, uint256 index, uint256 raised);
+    event CampaignFunded(uint256 indexed campaignId, uint256 raised);
+    event CampaignFailed(uint256 indexed campaignId, uint256 refundPool);
+    event MilestoneVoteOpened(uint256 indexed campaignId, uint256 indexed milestone, uint256 voteEnd);
+    event MilestoneVoted(uint256 indexed campaignId, uint256 indexed milestone, address indexed backer, bool approve, uint256 weight);
+    event MilestoneReleased(uint256 indexed campaignId, uint256 indexed milestone, uint256 amount, uint256 fee);
+    event MilestoneRejected(uint256 indexed campaignId, uint256 indexed milestone);
+    event RefundIssued(uint256 indexed campaignId, address indexed backer, uint256 amount);
+    event BackerNFTMinted(uint256 indexed campaignId, address indexed backer, uint256 tokenId, uint256 tier);
+    event AssetLinked(uint256 indexed campaignId, uint256 indexed assetId);
+    event VotingParamsSet(uint256 votingPeriod, uint256 quorum);
+    event PaymentCredited(address indexed recipient, uint256 amount);
+    event PaymentWithdrawn(address indexed recipient, uint256 amount);
+    event TokenPaymentCredited(address indexed token, address indexed recipient, uint256 amount);
+    event TokenPaymentWithdrawn(address indexed token, address indexed recipient, uint256 amount);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        address _assetRegistry,
+        address _crowdfundingTreasury,
+        address _admin
+    ) public onlyUninitialized reinitializer(2) {
+        __ERC721_init("Jeskei Backers", "JBACK");
+        __Roles_init(msg.sender, _admin);
+        __ReentrancyGuard_init();
+        __Pausable_init();
+        __UUPSUpgradeable_init();
+
+        require(_crowdfundingTreasury != address(0), "Invalid treasury");
+        assetRegistry = AssetRegistryUpgradeable(_assetRegistry);
+        crowdfundingTreasury = _crowdfundingTreasury;
+        platformFee = 500; // 5%
+        votingPeriod = 3 days;
+        quorum = 2000; // 20%
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
+
+    function _grantRoles(address admin) internal override {
+        super._grantRoles(admin);
+        _grantRole(FEE_ADMIN_ROLE, admin);
+        _grantRole(PAUSER_ROLE, admin);
+    }
+
+    function createCampaign(
+        string calldata metadataURI,
+        address paymentToken,
+        uint256 goal,
+        uint256 duration,
+        MilestoneInput[] calldata milestones,
+        RewardTier[] calldata rewardTiers,
+        StretchGoal[] calldata stretchGoals
+    ) external whenNotPaused returns (uint256) {
+        require(goal > 0, "Target amount must be greater than 0");
+        require(duration > 0 && duration <= MAX_FUNDING_DURATION, "Invalid duration");
+        require(milestones.length > 0 && milestones.length <= MAX_MILESTONES, "Invalid milestones");
+
+        uint256 campaignId = campaignCounter++;
+        Campaign storage campaign = campaigns[campaignId];
+        campaign.creator = msg.sender;
+        campaign.paymentToken = paymentToken;
+        campaign.metadataURI = metadataURI;
+        campaign.goal = goal;
+        campaign.fundingEnd = uint64(block.timestamp + duration);
+
+        uint256 totalShare;
+        for (uint256 i = 0; i < milestones.length; i++) {
+            require(milestones[i].share > 0, "Invalid share");
+            require(milestones[i].duration > 0, "Invalid duration");
+            totalShare += milestones[i].share;
+            Milestone storage milestone = _milestones[campaignId].push();
+            milestone.description = milestones[i].description;
+            milestone.share = milestones[i].share;
+            milestone.duration = milestones[i].duration;
+        }
+        require(totalShare == 10000, "Shares must total 100%");
+
+        for (uint256 i = 0; i < rewardTiers.length; i++) {
+            _rewardTiers[campaignId].push(
+                RewardTier(rewardTiers[i].minContribution, rewardTiers[i].supply, rewardTiers[i].uri)
+            );
+        }
+
+        uint256 previousTarget = goal;
+        for (uint256 i = 0; i < stretchGoals.length; i++) {
+            require(stretchGoals[i].target > previousTarget, "Invalid stretch goal");
+            previousTarget = stretchGoals[i].target;
+            _stretchGoals[campaignId].push(StretchGoal(stretchGoals[i].target, stretchGoals[i].description));
+        }
+
+        creatorCampaigns[msg.sender].push(campaignId);
+
+        emit CampaignCreated(campaignId, msg.sender, paymentToken, goal);
+        return campaignId;
+    }
+
+    /// @param tier Reward tier index, or `NO_REWARD`. A backer keeps the first tier they pick.
+    function contribute(uint256 campaignId, uint256 tier) external payable nonReentrant whenNotPaused {
+        require(campaigns[campaignId].paymentToken == address(0), "Token campaign");
+        _recordContribution(campaignId, tier, msg.value);
+    }
+
+    function contributeToken(uint256 campaignId, uint256 tier, uint256 amount) external nonReentrant whenNotPaused {
+        IERC20 token = IERC20(campaigns[campaignId].paymentToken);
+        require(address(token) != address(0), "Not a token campaign");
+
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        require(token.balanceOf(address(this)) - balanceBefore == amount, "Unsupported token");
+
+        _recordContribution(campaignId, tier, amount);
+    }
+
+    /// @notice Closes funding once the deadline has passed: funded campaigns start
+    /// their first milestone, the rest fail with full refunds.
+    function finalizeFunding(uint256 campaignId) external {
+        Campaign storage campaign = campaigns[campaignId];
+        require(campaign.creator != address(0), "Campaign not found");
+        require(campaign.state == CampaignState.Funding, "Funding closed");
+        require(block.timestamp > campaign.fundingEnd, "Funding still open");
+
+        if (campaign.raised < campaign.goal) {
+            _fail(campaignId);
+            return;
+        }
+
+        campaign.state = CampaignState.Active;
+        uint256 deadline = campaign.fundingEnd;
+        Milestone[] storage milestones = _milestones[campaignId];
+        for (uint256 i = 0; i < milestones.length; i++) {
+            deadline += milestones[i].duration;
+            milestones[i].deadline = uint64(deadline);
+        }
+        emit CampaignFunded(campaignId, campaign.raised);
+    }
+
+    /// @notice Asks backers to approve the current milestone's tranche
+    function requestMilestoneVote(uint256 campaignId) external whenNotPaused {
+        Campaign storage campaign = campaigns[campaignId];
+        require(campaign.creator == msg.sender, "Not campaign creator");
+        require(campaign.state == CampaignState.Active, "Campaign not active");
+
+        Milestone storage milestone = _milestones[campaignId][campaign.currentMilestone];
+        require(milestone.status == MilestoneStatus.Pending, "Vote already open");
+        require(block.timestamp <= milestone.deadline, "Milestone deadline passed");
+
+        milestone.status = MilestoneStatus.Voting;
+        milestone.voteEnd = uint64(block.timestamp + votingPeriod);
+        emit MilestoneVoteOpened(campaignId, campaign.currentMilestone, milestone.voteEnd);
+    }
+
+    /// @notice Votes on the open milestone, weighted by the backer's contribution
+    function voteOnMilestone(uint256 campaignId, bool approve) external whenNotPaused {
+        Campaign storage campaign = campaigns[campaignId];
+        require(campaign.state == CampaignState.Active, "Campaign not active");
+        require(msg.sender != campaign.creator, "Creator cannot vote");
+
+        uint256 index = campaign.currentMilestone;
+        Milestone storage milestone = _milestones[campaignId][index];
+        require(milestone.status == MilestoneStatus.Voting, "No open vote");
+        require(block.timestamp <= milestone.voteEnd, "Voting closed");
+        uint256 weight = contributions[campaignId][msg.sender];
+        require(weight > 0, "Not a backer");
+        require(!hasVoted[campaignId][index][msg.sender], "Already voted");
+
+        hasVoted[campaignId][index][msg.sender] = true;
+        if (approve) {
+            milestone.approvals += weight;
+        } else {
+            milestone.rejections += weight;
+        }
+        emit MilestoneVoted(campaignId, index, msg.sender, approve, weight);
+    }
+
+    /// @notice Settles the current milestone once its vote has closed, or once its
+    /// deadline has passed without a vote. Approval needs a majority and quorum;
+    /// anything else fails the campaign.
+    function finalizeMilestone(uint256 campaignId) external nonReentrant {
+        Campaign storage campaign = campaigns[campaignId];
+        require(campaign.state == CampaignState.Active, "Campaign not active");
+
+        uint256 index = campaign.currentMilestone;
+        Milestone storage milestone = _milestones[campaignId][index];
+        bool approved;
+        if (milestone.status == MilestoneStatus.Voting) {
+            require(block.timestamp > milestone.voteEnd, "Voting still open");
+            uint256 turnout = milestone.approvals + milestone.rejections;
+            approved =
+                milestone.approvals > milestone.rejections &&
+                turnout * 10000 >= campaign.raised * quorum;
+        } else {
+            require(block.timestamp > milestone.deadline, "Milestone not due");
+        }
+
+        if (!approved) {
+            milestone.status = MilestoneStatus.Rejected;
+            emit MilestoneRejected(campaignId, index);
+            _fail(campaignId);
+            return;
+        }
+
+        bool last = index == _milestones[campaignId].length - 1;
+        // the last tranche takes the rounding remainder
+        uint256 amount = last ? campaign.raised - campaign.released : (campaign.raised * milestone.share) / 10000;
+        uint256 fee = (amount * platformFee) / 10000;
+
+        milestone.status = MilestoneStatus.Released;
+        campaign.released += amount;
+        if (last) {
+            campaign.state = CampaignState.Completed;
+        } else {
+            campaign.currentMilestone++;
+        }
+
+        _credit(campaign.paymentToken, crowdfundingTreasury, fee);
+        _credit(campaign.paymentToken, campaign.creator, amount - fee);
+        emit MilestoneReleased(campaignId, index, amount, fee);
+    }
+
+    /// @notice Gives up on a campaign; backers can reclaim whatever is unreleased
+    function cancelCampaign(uint256 campaignId) external {
+        Campaign storage campaign = campaigns[campaignId];
+        require(campaign.creator == msg.sender, "Not campaign creator");
+        require(
+            campaign.state == CampaignState.Funding || campaign.state == CampaignState.Active,
+            "Campaign not active"
+        );
+        _fail(campaignId);
+    }
+
+    /// @notice Pays a backer their share of the balance left when the campaign failed
+    function claimRefund(uint256 campaignId) external nonReentrant {
+        Campaign storage campaign = campaigns[campaignId];
+        require(campaign.state == CampaignState.Failed, "Campaign not failed");
+        uint256 contribution = contributions[campaignId][msg.sender];
+        require(contribution > 0, "No contribution found");
+        require(!refunded[campaignId][msg.sender], "Already refunded");
+
+        refunded[campaignId][msg.sender] = true;
+        uint256 amount = (contribution * campaign.refundPool) / campaign.raised;
+        if (amount > 0) _transferOut(campaign.paymentToken, msg.sender, amount);
+
+        emit RefundIssued(campaignId, msg.sender, amount);
+    }
+
+    /// @notice Mints the backer NFT of the backer's reward tier once the campaign is funded
+    function claimBackerNFT(uint256 campaignId) external nonReentrant whenNotPaused returns (uint256) {
+        CampaignState state = campaigns[campaignId].state;
+        require(state == CampaignState.Active || state == CampaignState.Completed, "Campaign not funded");
+        uint256 tier = backerTier[campaignId][msg.sender];
+        require(tier > 0, "No reward tier");
+        require(backerToken[campaignId][msg.sender] == 0, "Already claimed");
+
+        uint256 tokenId = _tokenIdCounter++;
+        backerToken[campaignId][msg.sender] = tokenId + 1;
+        backerRewards[tokenId] = BackerReward(campaignId, tier - 1);
+        _safeMint(msg.sender, tokenId);
+
+        emit BackerNFTMinted(campaignId, msg.sender, tokenId, tier - 1);
+        return tokenId;
+    }
+
+    /// @notice Ties the campaign, and with it every backer NFT, to the asset it produced
+    function linkAsset(uint256 campaignId, uint256 assetId) external {
+        Campaign storage campaign = campaigns[campaignId];
+        require(campaign.creator == msg.sender, "Not campaign creator");
+        require(!campaign.assetLinked, "Asset already linked");
+        require(assetRegistry.ownerOf(assetId) == msg.sender, "Not asset owner");
+
+        campaign.assetLinked = true;
+        campaign.assetId = assetId;
+        emit AssetLinked(campaignId, assetId);
+    }
+
+    function backerAsset(uint256 tokenId) external view returns (bool linked, uint256 assetId) {
+        _requireOwned(tokenId);
+        Campaign storage campaign = campaigns[backerRewards[tokenId].campaignId];
+        return (campaign.assetLinked, campaign.assetId);
+    }
+
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        BackerReward storage reward = backerRewards[tokenId];
+        return _rewardTiers[reward.campaignId][reward.tier].uri;
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721Upgradeable, AccessControlUpgradeable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    function getMilestones(uint256 campaignId) external view returns (Milestone[] memory) {
+        return _milestones[campaignId];
+    }
+
+    function getRewardTiers(uint256 campaignId) external view returns (RewardTier[] memory) {
+        return _rewardTiers[campaignId];
+    }
+
+    function getStretchGoals(uint256 campaignId) external view returns (StretchGoal[] memory) {
+        return _stretchGoals[campaignId];
+    }
+
+    function stretchGoalsReached(uint256 campaignId) public view returns (uint256 count) {
+        StretchGoal[] storage goals = _stretchGoals[campaignId];
+        uint256 raised = campaigns[campaignId].raised;
+        while (count < goals.length && raised >= goals[count].target) count++;
+    }
+
+    function getCreatorCampaigns(address creator) external view returns (uint256[] memory) {
+        return creatorCampaigns[creator];
+    }
+
+    function setPlatformFee(uint256 _platformFee) external onlyRole(FEE_ADMIN_ROLE) {
+        require(_platformFee <= 1000, "Fee too high"); // Max 10%
+        platformFee = _platformFee;
+    }
+
+    /// @notice Applies to votes opened from now on
+    function setVotingParams(uint256 _votingPeriod, uint256 _quorum) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_votingPeriod >= 1 hours && _votingPeriod <= 30 days, "Invalid duration");
+        require(_quorum <= 10000, "Invalid quorum");
+        votingPeriod = _votingPeriod;
+        quorum = _quorum;
+        emit VotingParamsSet(_votingPeriod, _quorum);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    function withdraw() external nonReentrant {
+        _withdraw(msg.sender);
+    }
+
+    function withdrawFor(address payee) external nonReentrant {
+        _withdraw(payee);
+    }
+
+    function withdrawToken(address token) external nonReentrant {
+        _withdrawToken(token, msg.sender);
+    }
+
+    function withdrawTokenFor(address token, address payee) external nonReentrant {
+        _withdrawToken(token, payee);
+    }
+
+    function _recordContribution(uint256 campaignId, uint256 tier, uint256 amount) private {
+        Campaign storage campaign = campaigns[campaignId];
+        require(campaign.creator != address(0), "Campaign not found");
+        require(campaign.state == CampaignState.Funding, "Funding closed");
+        require(block.timestamp <= campaign.fundingEnd, "Campaign ended");
+        require(amount > 0, "Contribution must be greater than 0");
+        // backers' votes release the creator's funds, so the creator cannot be one
+        require(msg.sender != campaign.creator, "Creator cannot back own campaign");
+
+        uint256 total = contributions[campaignId][msg.sender] + amount;
+        contributions[campaignId][msg.sender] = total;
+        if (tier != NO_REWARD) {
+            _chooseTier(campaignId, tier);
+            require(total >= _rewardTiers[campaignId][tier].minContribution, "Insufficient amount for reward tier");
+        }
+
+        uint256 reachedBefore = stretchGoalsReached(campaignId);
+        campaign.raised += amount;
+        uint256 reached = stretchGoalsReached(campaignId);
+        for (uint256 i = reachedBefore; i < reached; i++) {
+            emit StretchGoalReached(campaignId, i, campaign.raised);
+        }
+
+        emit ContributionMade(campaignId, msg.sender, amount, tier);
+    }
+
+    function _chooseTier(uint256 campaignId, uint256 tier) private {
+        uint256 chosen = backerTier[campaignId][msg.sender];
+        if (chosen != 0) {
+            require(chosen == tier + 1, "Tier already chosen");
+            return;
+        }
+        require(tier < _rewardTiers[campaignId].length, "Invalid reward tier");
+        uint256 supply = _rewardTiers[campaignId][tier].supply;
+        require(supply == 0 || tierBackers[campaignId][tier] < supply, "Reward tier sold out");
+        tierBackers[campaignId][tier]++;
+        backerTier[campaignId][msg.sender] = tier + 1;
+    }
+
+    function _fail(uint256 campaignId) private {
+        Campaign storage campaign = campaigns[campaignId];
+        campaign.state = CampaignState.Failed;
+        campaign.refundPool = campaign.raised - campaign.released;
+        emit CampaignFailed(campaignId, campaign.refundPool);
+    }
+
+    function _credit(address token, address recipient, uint256 amount) private {
+        if (amount == 0) return;
+        if (token == address(0)) {
+            claimable[recipient] += amount;
+            emit PaymentCredited(recipient, amount);
+        } else {
+            tokenClaimable[token][recipient] += amount;
+            emit TokenPaymentCredited(token, recipient, amount);
+        }
+    }
+
+    function _transferOut(address token, address to, uint256 amount) private {
+        if (token == address(0)) {
+            (bool ok, ) = payable(to).call{value: amount}("");
+            require(ok, "Withdrawal failed");
+        } else {
+            IERC20(token).safeTransfer(to, amount);
+        }
+    }
+
+    function _withdraw(address payee) private {
+        uint256 amount = claimable[payee];
+        require(amount > 0, "No balance to withdraw");
+        claimable[payee] = 0;
+        _transferOut(address(0), payee, amount);
+        emit PaymentWithdrawn(payee, amount);
+    }
+
+    function _withdrawToken(address token, address payee) private {
+        uint256 amount = tokenClaimable[token][payee];
+        require(amount > 0, "No balance to withdraw");
+        tokenClaimable[token][payee] = 0;
+        _transferOut(token, payee, amount);
+        emit TokenPaymentWithdrawn(token, payee, amount);
+    }
+}
@@ -19,6 +19,7 @@ contract DeploymentHelper {
         address adTreasury;
         address crowdfundingTreasury;
         uint256 upgradeTimelock;
+        uint256 performerVerificationPeriod;
     }
     
     event PlatformDeployed(
@@ -61,13 +62,28 @@ contract DeploymentHelper {
         RevenueDistributorUpgradeable revenueImpl = new RevenueDistributorUpgradeable();
         PerformerAuthenticationUpgradeable performerImpl = new PerformerAuthenticationUpgradeable();
         
-        // Deploy proxies through factory
+        // Deploy proxies through factory; the caller administers their roles
         JeskeiProxyFactory factory = JeskeiProxyFactory(proxyFactory);
         
+        // Performer Authentication
+        bytes memory performerInitData = abi.encodeWithSelector(
+            PerformerAuthenticationUpgradeable.initialize.selector,
+            config.performerVerificationPeriod,
+            msg.sender
+        );
+        performerAuth = factory.deployProxy(
+            "PerformerAuthentication",
+            address(performerImpl),
+            performerInitData,
+            "1.0.0"
+        );
+        
         // Asset Registry
         bytes memory assetInitData = abi.encodeWithSelector(
             AssetRegistryUpgradeable.initialize.selector,
-            config.hostingTreasury
+            config.hostingTreasury,
+            performerAuth,
+            msg.sender
         );
         assetRegistry = factory.deployProxy(
             "AssetRegistry",
@@ -80,7 +96,8 @@ contract DeploymentHelper {
         bytes memory revenueInitData = abi.encodeWithSelector(
             RevenueDistributorUpgradeable.initialize.selector,
             assetRegistry,
-            config.platformTreasury
+            config.platformTreasury,
+            msg.sender
         );
         revenueDistributor = factory.deployProxy(
             "RevenueDistributor",
@@ -89,17 +106,6 @@ contract DeploymentHelper {
             "1.0.0"
         );
         
-        // Performer Authentication
-        bytes memory performerInitData = abi.encodeWithSelector(
-            PerformerAuthenticationUpgradeable.initialize.selector
-        );
-        performerAuth = factory.deployProxy(
-            "PerformerAuthentication",
-            address(performerImpl),
-            performerInitData,
-            "1.0.0"
-        );
-        
         // Authorize upgrade manager as upgrader
         factory.authorizeUpgrader(upgradeManager);
         
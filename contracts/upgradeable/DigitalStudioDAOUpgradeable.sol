@@ -10,6 +10,9 @@ import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URIStorageUpgradeable.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
 import "./AssetRegistryUpgradeable.sol";
 
 // =============================================================================
@@ -20,8 +23,10 @@ contract DigitalStudioDAOUpgradeable is
     Initializable,
     ReentrancyGuardUpgradeable,
     PausableUpgradeable,
-    UUPSUpgradeable
+    UUPSUpgradeable,
+    IERC721Receiver
 {
+    using SafeERC20 for IERC20;
     
     struct StudioMember {
         bool isActive;
@@ -55,7 +60,23 @@ contract DigitalStudioDAOUpgradeable is
         bytes targetData;
     }
     
-    enum ProposalType { AddMember, RemoveMember, ProjectFunding, General }
+    /// @notice A project budget tranche held by the studio: streamed linearly
+    /// over `duration`, or escrowed and unlocked one milestone at a time
+    struct Funding {
+        uint256 projectId;
+        address token; // address(0) for ETH
+        uint256 amount;
+        uint256 start;
+        uint256 duration; // 0 for milestone escrow
+        uint256[] milestones;
+        uint256 milestonesReleased;
+        uint256 paid;
+    }
+    
+    enum ProposalType { AddMember, RemoveMember, ProjectFunding, General, MilestoneRelease }
+    
+    uint256 public constant VOTING_PERIOD = 3 days;
+    uint256 public constant DEFAULT_ROLE_WEIGHT = 100;
     
     string public studioName;
     address public founder;
@@ -76,11 +97,30 @@ contract DigitalStudioDAOUpgradeable is
     mapping(address => uint256) public memberReputationScore; // For reputation system
     mapping(uint256 => string[]) public projectTags; // For project categorization
     mapping(address => uint256[]) public memberProjects; // For member project history
-    uint256[50] private __gap;
+    address public revenueDistributor; // Unused since shares are offered through AssetRegistry, kept for storage layout
+    // Treasury: `committed` is held for fundings and not yet paid out (token => amount)
+    mapping(address => uint256) public committed;
+    mapping(uint256 => Funding) private _fundings;
+    uint256 public fundingCounter;
+    mapping(uint256 => mapping(address => uint256)) public fundingClaimed;
+    mapping(bytes32 => uint256) private _roleWeights;
+    mapping(uint256 => uint256) private _assetProjects; // assetId => projectId + 1
+    // May upgrade the implementation: whoever initialized the proxy, e.g. JeskeiProxyFactory
+    address public upgrader;
+    uint256[42] private __gap;
     
     event MemberAdded(address indexed member, string role);
+    event MemberRemoved(address indexed member);
     event ProjectCreated(uint256 indexed projectId, string name, uint256 budget);
     event ProposalCreated(uint256 indexed proposalId, address proposer, string description);
+    event VoteCast(uint256 indexed proposalId, address indexed voter, bool support);
+    event ProposalExecuted(uint256 indexed proposalId, bool passed);
+    event TreasuryDeposit(address indexed from, address indexed token, uint256 amount);
+    event FundingStarted(uint256 indexed fundingId, uint256 indexed projectId, address token, uint256 amount, bool streamed);
+    event MilestoneReleased(uint256 indexed fundingId, uint256 milestone, uint256 amount);
+    event FundingClaimed(uint256 indexed fundingId, address indexed contributor, uint256 amount);
+    event AssetAddedToProject(uint256 indexed projectId, uint256 indexed assetId);
+    event RoleWeightSet(string role, uint256 weight);
     
     modifier onlyMember() {
         require(members[msg.sender].isActive, "Not a studio member");
@@ -98,46 +138,58 @@ contract DigitalStudioDAOUpgradeable is
     }
     
     function initialize(string memory _studioName, address _assetRegistry) public initializer {
+        _initializeStudio(_studioName, msg.sender, _assetRegistry);
+    }
+    
+    /// @notice Initializer for studios whose founder is not the caller: those spawned
+    /// behind StudioFactory's beacon and the stack's own, deployed by JeskeiProxyFactory
+    function initializeStudio(
+        string memory _studioName,
+        address _founder,
+        address _assetRegistry
+    ) public initializer {
+        require(_founder != address(0), "Invalid address");
+        _initializeStudio(_studioName, _founder, _assetRegistry);
+    }
+    
+    function _initializeStudio(
+        string memory _studioName,
+        address _founder,
+        address _assetRegistry
+    ) private {
         __ReentrancyGuard_init();
         __Pausable_init();
         __UUPSUpgradeable_init();
         
         studioName = _studioName;
-        founder = msg.sender;
+        founder = _founder;
+        upgrader = msg.sender;
         assetRegistry = AssetRegistryUpgradeable(_assetRegistry);
         
-        members[msg.sender] = StudioMember({
+        members[_founder] = StudioMember({
             isActive: true,
             joinTime: block.timestamp,
             contributionScore: 100,
             role: "Founder"
         });
         
-        memberList.push(msg.sender);
+        memberList.push(_founder);
         memberCount = 1;
-        memberReputationScore[msg.sender] = 100;
+        memberReputationScore[_founder] = 100;
         
-        emit MemberAdded(msg.sender, "Founder");
+        emit MemberAdded(_founder, "Founder");
     }
     
-    function _authorizeUpgrade(address newImplementation) internal override onlyFounder {}
+    // proxies initialized before `upgrader` existed are upgraded by their founder
+    function _authorizeUpgrade(address newImplementation) internal override {
+        require(msg.sender == (upgrader == address(0) ? founder : upgrader), "Not upgrader");
+    }
 
     function addMember(address newMember, string memory role) external onlyFounder {
         require(!members[newMember].isActive, "Already a member");
         require(newMember != address(0), "Invalid address");
         
-        members[newMember] = StudioMember({
-            isActive: true,
-            joinTime: block.timestamp,
-            contributionScore: 50,
-            role: role
-        });
-        
-        memberList.push(newMember);
-        memberCount++;
-        memberReputationScore[newMember] = 50;
-        
-        emit MemberAdded(newMember, role);
+        _addMember(newMember, role);
     }
 
     function createProject(
@@ -200,5 +252,387 @@ contract DigitalStudioDAOUpgradeable is
         memberReputationScore[member] = newScore;
     }
 
-    receive() external payable {}
+    // ---- Treasury ----
+
+    function deposit() external payable {
+        require(msg.value > 0, "Amount must be greater than 0");
+        emit TreasuryDeposit(msg.sender, address(0), msg.value);
+    }
+
+    function depositToken(address token, uint256 amount) external nonReentrant {
+        require(token != address(0), "Invalid token");
+        require(amount > 0, "Amount must be greater than 0");
+
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        require(IERC20(token).balanceOf(address(this)) - balanceBefore == amount, "Unsupported token");
+
+        emit TreasuryDeposit(msg.sender, token, amount);
+    }
+
+    /// @notice Treasury balance not yet committed to a funding
+    function available(address token) public view returns (uint256) {
+        uint256 balance = token == address(0) ? address(this).balance : IERC20(token).balanceOf(address(this));
+        return balance - committed[token];
+    }
+
+    // ---- Proposals ----
+    // One vote per member. A proposal passes once its voting period has ended
+    // with more votes for than against and at least half the members voting.
+
+    function proposeMember(address newMember, string memory role, string memory description) external onlyMember returns (uint256) {
+        require(newMember != address(0), "Invalid address");
+        require(!members[newMember].isActive, "Already a member");
+        return _propose(ProposalType.AddMember, description, newMember, 0, abi.encode(role));
+    }
+
+    function proposeMemberRemoval(address member, string memory description) external onlyMember returns (uint256) {
+        require(members[member].isActive, "Not a member");
+        require(member != founder, "Cannot remove founder");
+        return _propose(ProposalType.RemoveMember, description, member, 0, "");
+    }
+
+    /// @notice Proposes paying `amount` of `token` (address(0) for ETH) from the
+    /// treasury to a project's contributors, pro rata to their shares: streamed
+    /// over `duration` seconds, or escrowed in `milestones` (which then sum to `amount`)
+    function proposeProjectFunding(
+        uint256 projectId,
+        address token,
+        uint256 amount,
+        uint256 duration,
+        uint256[] memory milestones,
+        string memory description
+    ) external onlyMember returns (uint256) {
+        require(projectId < projectCounter, "Project not found");
+        require(projects[projectId].isActive, "Project not active");
+        require(amount > 0, "Amount must be greater than 0");
+        require(projects[projectId].raised + amount <= projects[projectId].budget, "Exceeds project budget");
+        if (milestones.length == 0) {
+            require(duration > 0, "Invalid duration");
+        } else {
+            require(duration == 0, "Invalid duration");
+            uint256 total = 0;
+            for (uint i = 0; i < milestones.length; i++) {
+                require(milestones[i] > 0, "Invalid milestones");
+                total += milestones[i];
+            }
+            require(total == amount, "Invalid milestones");
+        }
+        return _propose(ProposalType.ProjectFunding, description, token, amount, abi.encode(projectId, duration, milestones));
+    }
+
+    function proposeMilestoneRelease(uint256 fundingId, string memory description) external onlyMember returns (uint256) {
+        Funding storage funding = _fundings[fundingId];
+        require(fundingId < fundingCounter && funding.duration == 0, "Not a milestone funding");
+        require(funding.milestonesReleased < funding.milestones.length, "All milestones released");
+        return _propose(ProposalType.MilestoneRelease, description, address(0), fundingId, "");
+    }
+
+    /// @notice A proposal without on-chain effect
+    function createProposal(string memory description) external onlyMember returns (uint256) {
+        return _propose(ProposalType.General, description, address(0), 0, "");
+    }
+
+    function vote(uint256 proposalId, bool support) external onlyMember whenNotPaused {
+        require(proposalId < proposalCounter, "Invalid proposal");
+        Proposal storage proposal = proposals[proposalId];
+        require(block.timestamp <= proposal.deadline, "Voting period ended");
+        require(!hasVoted[proposalId][msg.sender], "Already voted");
+
+        hasVoted[proposalId][msg.sender] = true;
+        if (support) {
+            proposal.votesFor++;
+        } else {
+            proposal.votesAgainst++;
+        }
+
+        emit VoteCast(proposalId, msg.sender, support);
+    }
+
+    /// @notice Records the outcome once voting has ended and applies a passed
+    /// proposal. Callable by anyone.
+    function executeProposal(uint256 proposalId) external nonReentrant whenNotPaused {
+        require(proposalId < proposalCounter, "Invalid proposal");
+        Proposal storage proposal = proposals[proposalId];
+        require(block.timestamp > proposal.deadline, "Voting still active");
+        require(!proposal.executed, "Already executed");
+
+        proposal.executed = true;
+        uint256 cast = proposal.votesFor + proposal.votesAgainst;
+        bool passed = proposal.votesFor > proposal.votesAgainst && cast * 2 >= memberCount;
+
+        if (passed) {
+            if (proposal.proposalType == ProposalType.AddMember) {
+                require(!members[proposal.targetAddress].isActive, "Already a member");
+                _addMember(proposal.targetAddress, abi.decode(proposal.targetData, (string)));
+            } else if (proposal.proposalType == ProposalType.RemoveMember) {
+                _removeMember(proposal.targetAddress);
+            } else if (proposal.proposalType == ProposalType.ProjectFunding) {
+                _startFunding(proposal);
+            } else if (proposal.proposalType == ProposalType.MilestoneRelease) {
+                _releaseMilestone(proposal.targetValue);
+            }
+        }
+
+        emit ProposalExecuted(proposalId, passed);
+    }
+
+    // ---- Fundings ----
+
+    function getFunding(uint256 fundingId) external view returns (Funding memory) {
+        return _fundings[fundingId];
+    }
+
+    /// @notice Part of a funding released so far: streamed pro rata to time, or
+    /// the sum of the released milestones
+    function unlocked(uint256 fundingId) public view returns (uint256) {
+        Funding storage funding = _fundings[fundingId];
+        if (funding.duration == 0) {
+            uint256 total = 0;
+            for (uint i = 0; i < funding.milestonesReleased; i++) {
+                total += funding.milestones[i];
+            }
+            return total;
+        }
+        uint256 elapsed = block.timestamp - funding.start;
+        if (elapsed >= funding.duration) return funding.amount;
+        return (funding.amount * elapsed) / funding.duration;
+    }
+
+    function claimable(uint256 fundingId, address contributor) public view returns (uint256) {
+        uint256 share = projects[_fundings[fundingId].projectId].contributorShares[contributor];
+        return (unlocked(fundingId) * share) / 10000 - fundingClaimed[fundingId][contributor];
+    }
+
+    function claim(uint256 fundingId) external nonReentrant {
+        _claim(fundingId, msg.sender);
+    }
+
+    function claimFor(uint256 fundingId, address contributor) external nonReentrant {
+        _claim(fundingId, contributor);
+    }
+
+    // ---- Assets ----
+
+    /// @notice Adds an asset the studio holds to a project and offers the
+    /// project's contributors their AssetRegistry shares of it
+    function addAssetToProject(uint256 projectId, uint256 assetId) external onlyMember {
+        require(projectId < projectCounter, "Project not found");
+        require(_assetProjects[assetId] == 0, "Asset already in project");
+        require(assetRegistry.ownerOf(assetId) == address(this), "Asset not held by studio");
+
+        _assetProjects[assetId] = projectId + 1;
+        projects[projectId].assetIds.push(assetId);
+        _setRevenueShares(projectId, assetId);
+
+        emit AssetAddedToProject(projectId, assetId);
+    }
+
+    /// @notice Re-offers an asset's shares after roles or reputation changed.
+    /// Contributors accept on the registry, reduced shares before raised ones.
+    function refreshAssetShares(uint256 assetId) external onlyMember {
+        require(_assetProjects[assetId] != 0, "Asset not in project");
+        _setRevenueShares(_assetProjects[assetId] - 1, assetId);
+    }
+
+    function getProjectAssets(uint256 projectId) external view returns (uint256[] memory) {
+        return projects[projectId].assetIds;
+    }
+
+    /// @notice Revenue share of each contributor on a project's assets, in basis
+    /// points: project share × role weight × reputation, normalised to 100%
+    function revenueSplit(uint256 projectId) public view returns (address[] memory recipients, uint256[] memory percentages) {
+        Project storage project = projects[projectId];
+        uint256 count = project.contributors.length;
+        uint256[] memory weights = new uint256[](count);
+        uint256 totalWeight = 0;
+        uint256 eligible = 0;
+        for (uint i = 0; i < count; i++) {
+            address contributor = project.contributors[i];
+            weights[i] =
+                project.contributorShares[contributor] *
+                roleWeight(members[contributor].role) *
+                memberReputationScore[contributor];
+            totalWeight += weights[i];
+            if (weights[i] > 0) eligible++;
+        }
+        require(totalWeight > 0, "No eligible contributors");
+
+        recipients = new address[](eligible);
+        percentages = new uint256[](eligible);
+        uint256 assigned = 0;
+        uint256 j = 0;
+        for (uint i = 0; i < count; i++) {
+            if (weights[i] == 0) continue;
+            recipients[j] = project.contributors[i];
+            percentages[j] = (weights[i] * 10000) / totalWeight;
+            assigned += percentages[j];
+            j++;
+        }
+        // rounding remainder goes to the first recipient
+        percentages[0] += 10000 - assigned;
+        // every share must be non-zero, as a 0 offer on AssetRegistry is a removal
+        for (uint i = 1; i < eligible; i++) {
+            require(percentages[i] > 0, "Share rounds to zero");
+        }
+    }
+
+    function roleWeight(string memory role) public view returns (uint256) {
+        uint256 weight = _roleWeights[keccak256(bytes(role))];
+        return weight == 0 ? DEFAULT_ROLE_WEIGHT : weight;
+    }
+
+    function onERC721Received(address, address, uint256, bytes calldata) external view returns (bytes4) {
+        require(msg.sender == address(assetRegistry), "Unsupported token");
+        return IERC721Receiver.onERC721Received.selector;
+    }
+
+    // ---- Admin ----
+
+    function setRoleWeight(string memory role, uint256 weight) external onlyFounder {
+        require(weight > 0 && weight <= 1000, "Invalid weight");
+        _roleWeights[keccak256(bytes(role))] = weight;
+        emit RoleWeightSet(role, weight);
+    }
+
+    function pause() external onlyFounder {
+        _pause();
+    }
+
+    function unpause() external onlyFounder {
+        _unpause();
+    }
+
+    function _propose(
+        ProposalType proposalType,
+        string memory description,
+        address targetAddress,
+        uint256 targetValue,
+        bytes memory targetData
+    ) private whenNotPaused returns (uint256) {
+        require(bytes(description).length > 0, "Description required");
+
+        uint256 proposalId = proposalCounter++;
+        proposals[proposalId] = Proposal({
+            description: description,
+            proposer: msg.sender,
+            votesFor: 0,
+            votesAgainst: 0,
+            deadline: block.timestamp + VOTING_PERIOD,
+            executed: false,
+            proposalType: proposalType,
+            targetAddress: targetAddress,
+            targetValue: targetValue,
+            targetData: targetData
+        });
+
+        emit ProposalCreated(proposalId, msg.sender, description);
+        return proposalId;
+    }
+
+    function _addMember(address newMember, string memory role) private {
+        members[newMember] = StudioMember({
+            isActive: true,
+            joinTime: block.timestamp,
+            contributionScore: 50,
+            role: role
+        });
+        
+        memberList.push(newMember);
+        memberCount++;
+        memberReputationScore[newMember] = 50;
+        
+        emit MemberAdded(newMember, role);
+    }
+
+    function _removeMember(address member) private {
+        require(members[member].isActive, "Not a member");
+
+        members[member].isActive = false;
+        memberCount--;
+        for (uint i = 0; i < memberList.length; i++) {
+            if (memberList[i] == member) {
+                memberList[i] = memberList[memberList.length - 1];
+                memberList.pop();
+                break;
+            }
+        }
+
+        emit MemberRemoved(member);
+    }
+
+    function _startFunding(Proposal storage proposal) private {
+        (uint256 projectId, uint256 duration, uint256[] memory milestones) =
+            abi.decode(proposal.targetData, (uint256, uint256, uint256[]));
+        address token = proposal.targetAddress;
+        uint256 amount = proposal.targetValue;
+        Project storage project = projects[projectId];
+        require(project.isActive, "Project not active");
+        require(project.raised + amount <= project.budget, "Exceeds project budget");
+        require(available(token) >= amount, "Insufficient treasury");
+
+        project.raised += amount;
+        committed[token] += amount;
+
+        uint256 fundingId = fundingCounter++;
+        Funding storage funding = _fundings[fundingId];
+        funding.projectId = projectId;
+        funding.token = token;
+        funding.amount = amount;
+        funding.start = block.timestamp;
+        funding.duration = duration;
+        funding.milestones = milestones;
+
+        emit FundingStarted(fundingId, projectId, token, amount, duration > 0);
+    }
+
+    function _releaseMilestone(uint256 fundingId) private {
+        Funding storage funding = _fundings[fundingId];
+        require(funding.milestonesReleased < funding.milestones.length, "All milestones released");
+
+        uint256 milestone = funding.milestonesReleased++;
+        emit MilestoneReleased(fundingId, milestone, funding.milestones[milestone]);
+    }
+
+    function _claim(uint256 fundingId, address contributor) private {
+        require(fundingId < fundingCounter, "Funding not found");
+        uint256 amount = claimable(fundingId, contributor);
+        require(amount > 0, "Nothing to claim");
+
+        Funding storage funding = _fundings[fundingId];
+        fundingClaimed[fundingId][contributor] += amount;
+        funding.paid += amount;
+        committed[funding.token] -= amount;
+
+        if (funding.token == address(0)) {
+            (bool ok, ) = payable(contributor).call{value: amount}("");
+            require(ok, "Withdrawal failed");
+        } else {
+            IERC20(funding.token).safeTransfer(contributor, amount);
+        }
+
+        emit FundingClaimed(fundingId, contributor, amount);
+    }
+
+    // Shares only change once each contributor accepts, so contributors the
+    // split no longer includes are offered a removal
+    function _setRevenueShares(uint256 projectId, uint256 assetId) private {
+        (address[] memory recipients, uint256[] memory percentages) = revenueSplit(projectId);
+        for (uint i = 0; i < recipients.length; i++) {
+            assetRegistry.offerShare(assetId, recipients[i], percentages[i], members[recipients[i]].role);
+        }
+
+        AssetRegistryUpgradeable.Contributor[] memory current = assetRegistry.getAssetContributors(assetId);
+        for (uint i = 0; i < current.length; i++) {
+            bool kept = false;
+            for (uint j = 0; j < recipients.length && !kept; j++) {
+                kept = recipients[j] == current[i].contributorAddress;
+            }
+            if (!kept) assetRegistry.offerShare(assetId, current[i].contributorAddress, 0, current[i].role);
+        }
+    }
+
+    receive() external payable {
+        emit TreasuryDeposit(msg.sender, address(0), msg.value);
+    }
 }
@@ -3,19 +3,21 @@ pragma solidity ^0.8.22;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URIStorageUpgradeable.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "./RolesUpgradeable.sol";
 
 // =============================================================================
 // PROXY FACTORY - Manages deployment and upgrades of all platform contracts
 // =============================================================================
 
-contract JeskeiProxyFactory is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+contract JeskeiProxyFactory is Initializable, RolesUpgradeable, UUPSUpgradeable {
     
     struct ProxyInfo {
         address proxyAddress;
@@ -32,6 +34,10 @@ contract JeskeiProxyFactory is Initializable, OwnableUpgradeable, UUPSUpgradeabl
     mapping(address => bool) public authorizedUpgraders;
     
     string[] public contractNames;
+    // Executors relay owner-only calls (e.g. fee changes passed by governance) to managed proxies
+    mapping(address => bool) public authorizedExecutors;
+    // Entries whose `proxyAddress` is an UpgradeableBeacon shared by many proxies
+    mapping(string => bool) public isBeacon;
     
     event ProxyDeployed(
         string indexed contractName,
@@ -48,40 +54,91 @@ contract JeskeiProxyFactory is Initializable, OwnableUpgradeable, UUPSUpgradeabl
         string newVersion
     );
     
+    event BeaconDeployed(
+        string indexed contractName,
+        address indexed beaconAddress,
+        address indexed implementationAddress,
+        string version
+    );
+    
     event UpgraderAuthorized(address indexed upgrader);
     event UpgraderRevoked(address indexed upgrader);
+    event ExecutorAuthorized(address indexed executor);
+    event ExecutorRevoked(address indexed executor);
+    event ProxyCallExecuted(string indexed contractName, address indexed executor, bytes data);
     
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
     }
     
-    function initialize() public initializer {
-        __Ownable_init(msg.sender);
+    function initialize() public onlyUninitialized reinitializer(2) {
+        __Roles_init(msg.sender, msg.sender);
         __UUPSUpgradeable_init();
         
         // Factory owner is authorized upgrader by default
         authorizedUpgraders[msg.sender] = true;
     }
     
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
     
     modifier onlyUpgrader() {
         require(authorizedUpgraders[msg.sender], "Not authorized upgrader");
         _;
     }
     
-    function authorizeUpgrader(address upgrader) external onlyOwner {
+    function authorizeUpgrader(address upgrader) external onlyRole(UPGRADER_ROLE) {
         require(upgrader != address(0), "Invalid upgrader address");
         authorizedUpgraders[upgrader] = true;
         emit UpgraderAuthorized(upgrader);
     }
     
-    function revokeUpgrader(address upgrader) external onlyOwner {
+    function revokeUpgrader(address upgrader) external onlyRole(UPGRADER_ROLE) {
         authorizedUpgraders[upgrader] = false;
         emit UpgraderRevoked(upgrader);
     }
     
+    modifier onlyExecutor() {
+        require(authorizedExecutors[msg.sender], "Not authorized executor");
+        _;
+    }
+    
+    function authorizeExecutor(address executor) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(executor != address(0), "Invalid executor address");
+        authorizedExecutors[executor] = true;
+        emit ExecutorAuthorized(executor);
+    }
+    
+    function revokeExecutor(address executor) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        authorizedExecutors[executor] = false;
+        emit ExecutorRevoked(executor);
+    }
+    
+    /// @notice Calls a managed proxy as its owner. Only the fee setters that
+    /// governance proposals target are relayed; upgrades, ownership and role
+    /// grants stay out of the executors' reach.
+    function executeOnProxy(
+        string memory contractName,
+        bytes calldata data
+    ) external onlyExecutor returns (bytes memory) {
+        address proxyAddress = proxies[contractName].proxyAddress;
+        require(proxyAddress != address(0), "Proxy not found");
+        require(proxies[contractName].isActive, "Proxy not active");
+        require(!isBeacon[contractName], "Call not allowed");
+        require(data.length >= 4, "Invalid call");
+        
+        bytes4 selector = bytes4(data[:4]);
+        require(
+            selector == IFeeSettable.setPlatformFee.selector ||
+                selector == IFeeSettable.setPlatformHostingFee.selector,
+            "Call not allowed"
+        );
+        
+        bytes memory result = Address.functionCall(proxyAddress, data);
+        emit ProxyCallExecuted(contractName, msg.sender, data);
+        return result;
+    }
+    
     function deployProxy(
         string memory contractName,
         address implementationAddress,
@@ -111,6 +168,7 @@ contract JeskeiProxyFactory is Initializable, OwnableUpgradeable, UUPSUpgradeabl
         });
         
         proxyToName[proxyAddress] = contractName;
+        isBeacon[contractName] = false;
         
         if (isNewContract) {
             contractNames.push(contractName);
@@ -120,11 +178,70 @@ contract JeskeiProxyFactory is Initializable, OwnableUpgradeable, UUPSUpgradeabl
         return proxyAddress;
     }
     
+    /// @notice Deploys a beacon owned by this factory. Every BeaconProxy pointing
+    /// at it runs `implementationAddress`, and `upgradeProxy(contractName, …)`
+    /// moves them all at once.
+    function deployBeacon(
+        string memory contractName,
+        address implementationAddress,
+        string memory version
+    ) external onlyUpgrader returns (address) {
+        require(implementationAddress != address(0), "Invalid implementation");
+        require(bytes(contractName).length > 0, "Contract name required");
+        require(bytes(version).length > 0, "Version required");
+        
+        bool isNewContract = proxies[contractName].proxyAddress == address(0);
+        
+        UpgradeableBeacon beacon = new UpgradeableBeacon(implementationAddress, address(this));
+        address beaconAddress = address(beacon);
+        
+        proxies[contractName] = ProxyInfo({
+            proxyAddress: beaconAddress,
+            implementationAddress: implementationAddress,
+            contractName: contractName,
+            version: version,
+            deploymentTime: block.timestamp,
+            lastUpgrade: block.timestamp,
+            isActive: true
+        });
+        
+        proxyToName[beaconAddress] = contractName;
+        isBeacon[contractName] = true;
+        
+        if (isNewContract) {
+            contractNames.push(contractName);
+        }
+        
+        emit BeaconDeployed(contractName, beaconAddress, implementationAddress, version);
+        return beaconAddress;
+    }
+    
     function upgradeProxy(
         string memory contractName,
         address newImplementation,
         string memory newVersion
     ) external onlyUpgrader {
+        _upgradeProxy(contractName, newImplementation, newVersion, "");
+    }
+    
+    /// @notice Upgrades a UUPS proxy and runs `data` (typically a reinitializer
+    /// that migrates state the new implementation relies on) in the same call.
+    /// Beacons have no per-proxy state to migrate and reject `data`.
+    function upgradeProxyAndCall(
+        string memory contractName,
+        address newImplementation,
+        string memory newVersion,
+        bytes memory data
+    ) external onlyUpgrader {
+        _upgradeProxy(contractName, newImplementation, newVersion, data);
+    }
+    
+    function _upgradeProxy(
+        string memory contractName,
+        address newImplementation,
+        string memory newVersion,
+        bytes memory data
+    ) internal {
         require(proxies[contractName].proxyAddress != address(0), "Proxy not found");
         require(newImplementation != address(0), "Invalid implementation");
         require(proxies[contractName].isActive, "Proxy not active");
@@ -133,7 +250,12 @@ contract JeskeiProxyFactory is Initializable, OwnableUpgradeable, UUPSUpgradeabl
         address oldImplementation = proxies[contractName].implementationAddress;
         
         // Perform upgrade
-        IUpgradeableProxy(proxyAddress).upgradeToAndCall(newImplementation, "");
+        if (isBeacon[contractName]) {
+            require(data.length == 0, "Beacon upgrades take no call");
+            UpgradeableBeacon(proxyAddress).upgradeTo(newImplementation);
+        } else {
+            IUpgradeableProxy(proxyAddress).upgradeToAndCall(newImplementation, data);
+        }
         
         // Update proxy info
         proxies[contractName].implementationAddress = newImplementation;
@@ -151,7 +273,7 @@ contract JeskeiProxyFactory is Initializable, OwnableUpgradeable, UUPSUpgradeabl
         return contractNames;
     }
     
-    function deactivateProxy(string memory contractName) external onlyOwner {
+    function deactivateProxy(string memory contractName) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(proxies[contractName].proxyAddress != address(0), "Proxy not found");
         proxies[contractName].isActive = false;
     }
@@ -161,3 +283,9 @@ contract JeskeiProxyFactory is Initializable, OwnableUpgradeable, UUPSUpgradeabl
 interface IUpgradeableProxy {
     function upgradeToAndCall(address newImplementation, bytes calldata data) external;
 }
+
+// Fee setters governance may relay through `executeOnProxy`
+interface IFeeSettable {
+    function setPlatformFee(uint256 platformFee) external;
+    function setPlatformHostingFee(uint256 fee) external;
+}
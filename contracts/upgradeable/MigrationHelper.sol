@@ -10,6 +10,7 @@ import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URIStorageUpgradeable.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
 
 // =============================================================================
 // MIGRATION HELPER - Assists with data migration during upgrades
@@ -24,9 +25,16 @@ contract MigrationHelper is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         uint256 timestamp;
     }
     
+    struct Call {
+        address target;
+        uint256 value;
+        bytes data;
+    }
+    
     mapping(string => mapping(uint256 => MigrationBatch)) public migrationBatches;
     mapping(string => uint256) public migrationProgress;
     mapping(string => bool) public migrationCompleted;
+    mapping(string => uint256) public migrationTotal;
     
     event MigrationStarted(string indexed contractName, uint256 totalItems);
     event BatchMigrated(string indexed contractName, uint256 batchId, uint256 startId, uint256 endId);
@@ -44,19 +52,34 @@ contract MigrationHelper is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
     
+    /// @notice Records how many items the migration covers; calling it again
+    /// keeps the progress made so far, so an interrupted migration resumes
     function startMigration(string memory contractName, uint256 totalItems) external onlyOwner {
         require(!migrationCompleted[contractName], "Migration already completed");
-        migrationProgress[contractName] = 0;
+        migrationTotal[contractName] = totalItems;
         emit MigrationStarted(contractName, totalItems);
     }
     
+    /// @notice Replays items [startId, endId) through the target contracts'
+    /// import functions and checkpoints them in the same transaction, so a
+    /// batch is either migrated and recorded or not at all
     function migrateBatch(
         string memory contractName,
         uint256 batchId,
         uint256 startId,
-        uint256 endId
-    ) external onlyOwner {
+        uint256 endId,
+        Call[] calldata calls
+    ) external payable onlyOwner {
+        require(!migrationCompleted[contractName], "Migration already completed");
         require(!migrationBatches[contractName][batchId].completed, "Batch already migrated");
+        require(startId == migrationProgress[contractName] && endId > startId, "Batch out of order");
+        
+        uint256 totalValue = 0;
+        for (uint256 i = 0; i < calls.length; i++) {
+            Address.functionCallWithValue(calls[i].target, calls[i].data, calls[i].value);
+            totalValue += calls[i].value;
+        }
+        require(totalValue == msg.value, "Incorrect payment amount");
         
         migrationBatches[contractName][batchId] = MigrationBatch({
             startId: startId,
@@ -72,6 +95,7 @@ contract MigrationHelper is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     
     function completeMigration(string memory contractName) external onlyOwner {
         require(!migrationCompleted[contractName], "Already completed");
+        require(migrationProgress[contractName] >= migrationTotal[contractName], "Migration incomplete");
         migrationCompleted[contractName] = true;
         emit MigrationCompleted(contractName);
     }
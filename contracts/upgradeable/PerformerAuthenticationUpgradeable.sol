@@ -3,25 +3,55 @@ pragma solidity ^0.8.22;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URIStorageUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "./RolesUpgradeable.sol";
 
 // =============================================================================
 // UPGRADEABLE PERFORMER AUTHENTICATION
 // =============================================================================
 
+/// @notice Verifications expire after `verificationPeriod` (0 = never) and are
+/// renewed by running the verifier quorum again. A revoked performer may appeal
+/// once per revocation; wallet rotation needs signatures from both wallets.
 contract PerformerAuthenticationUpgradeable is 
     Initializable,
-    OwnableUpgradeable,
+    RolesUpgradeable,
     PausableUpgradeable,
+    EIP712Upgradeable,
     UUPSUpgradeable
 {
     
+    enum RevocationReason {
+        None,
+        IdentityFraud,
+        KeyCompromised,
+        Impersonation,
+        PolicyViolation,
+        Other
+    }
+
+    enum AppealStatus {
+        None,
+        Pending,
+        Granted,
+        Denied
+    }
+
+    struct Revocation {
+        RevocationReason reason;
+        address revokedBy;
+        uint256 revokedAt;
+        AppealStatus appeal;
+        string evidenceURI;
+    }
+
     struct PerformerProfile {
         bool isVerified;
         bytes32 identityHash;
@@ -40,59 +70,292 @@ contract PerformerAuthenticationUpgradeable is
     // New storage for future upgrades
     mapping(address => uint256) public performerTier; // For tiered verification
     mapping(address => string[]) public performerSkills; // For skill verification
-    uint256[50] private __gap;
+    // Verification lifecycle
+    uint256 public verificationPeriod;
+    uint256 public verifierQuorum;
+    uint256 public verifierCount;
+    mapping(address => uint256) public verificationExpiry;
+    mapping(address => uint256) public verificationRound; // bumped on completion, resets pending approvals
+    mapping(bytes32 => address[]) private _approvals; // verification request => verifiers that approved it
+    mapping(address => Revocation) public revocations;
+    mapping(address => address) public rotatedTo;
+    mapping(address => uint256) public rotationNonces;
+    mapping(address => uint256) private _performerIndex; // index + 1 in verifiedPerformers
+    uint256[40] private __gap;
+
+    bytes32 public constant WALLET_ROTATION_TYPEHASH =
+        keccak256("WalletRotation(address oldWallet,address newWallet,uint256 nonce,uint256 deadline)");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant VERIFIER_ADMIN_ROLE = keccak256("VERIFIER_ADMIN_ROLE");
     
     event PerformerVerified(address indexed performer, bytes32 identityHash);
-    event PerformerRevoked(address indexed performer);
+    event PerformerRevoked(address indexed performer, RevocationReason reason, address indexed revokedBy);
     event VerifierAdded(address indexed verifier);
+    event VerifierRemoved(address indexed verifier);
+    event VerifierQuorumSet(uint256 quorum);
+    event VerificationPeriodSet(uint256 period);
+    event VerificationApproved(address indexed performer, address indexed verifier, uint256 approvals);
+    event VerificationExtended(address indexed performer, uint256 expiresAt);
+    event ReputationScoreSet(address indexed performer, uint256 score);
+    event AppealFiled(address indexed performer, RevocationReason reason, string evidenceURI);
+    event AppealResolved(address indexed performer, bool reinstated);
+    event WalletRotated(address indexed oldWallet, address indexed newWallet, bytes32 identityHash);
     
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
     }
     
-    function initialize() public initializer {
-        __Ownable_init(msg.sender);
+    /// @dev Fresh proxies start at version 2, so `initializeVerification` only
+    /// ever runs on proxies upgraded from the original implementation
+    function initialize(uint256 _verificationPeriod, address _admin) public onlyUninitialized reinitializer(2) {
+        __Roles_init(msg.sender, _admin);
         __Pausable_init();
         __UUPSUpgradeable_init();
         
-        verifiers[msg.sender] = true;
+        verifiers[_admin] = true;
+        verifierCount = 1;
+        verifierQuorum = 1;
+        verificationPeriod = _verificationPeriod;
+    }
+
+    /// @notice Migrates a proxy from the original implementation, which kept no
+    /// verifier count, quorum or expiry: `currentVerifiers` must list every
+    /// verifier once, in ascending order. The quorum starts at 1, and verified
+    /// performers without an expiry get a full `_verificationPeriod` from now.
+    /// Also grants the roles `initializeRoles` does elsewhere. Pass it as the
+    /// call of `JeskeiProxyFactory.upgradeProxyAndCall`.
+    function initializeVerification(
+        uint256 _verificationPeriod,
+        address[] calldata currentVerifiers,
+        address _admin
+    ) external reinitializer(2) onlyOwner {
+        _grantRoles(_admin);
+        require(currentVerifiers.length > 0, "Verifiers required");
+        for (uint256 i = 0; i < currentVerifiers.length; i++) {
+            require(verifiers[currentVerifiers[i]], "Not a verifier");
+            require(i == 0 || currentVerifiers[i] > currentVerifiers[i - 1], "Verifiers not sorted");
+        }
+        verifierCount = currentVerifiers.length;
+        verifierQuorum = 1;
+        verificationPeriod = _verificationPeriod;
+        emit VerifierQuorumSet(1);
+        emit VerificationPeriodSet(_verificationPeriod);
+
+        for (uint256 i = 0; i < verifiedPerformers.length; i++) {
+            address performer = verifiedPerformers[i];
+            _performerIndex[performer] = i + 1;
+            if (performers[performer].isVerified && verificationExpiry[performer] == 0) {
+                _extendVerification(performer);
+            }
+        }
+    }
+
+    /// @dev The original implementation also needs the verifier state seeded
+    function initializeRoles(address) external pure override {
+        revert("Use initializeVerification");
     }
     
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
 
-    function addVerifier(address verifier) external onlyOwner {
+    function _grantRoles(address admin) internal override {
+        super._grantRoles(admin);
+        _grantRole(PAUSER_ROLE, admin);
+        _grantRole(VERIFIER_ADMIN_ROLE, admin);
+    }
+
+    modifier onlyVerifier() {
+        require(verifiers[msg.sender], "Not authorized verifier");
+        _;
+    }
+
+    function addVerifier(address verifier) external onlyRole(VERIFIER_ADMIN_ROLE) {
+        require(verifier != address(0), "Invalid verifier address");
+        require(!verifiers[verifier], "Already a verifier");
         verifiers[verifier] = true;
+        verifierCount++;
         emit VerifierAdded(verifier);
     }
 
+    function removeVerifier(address verifier) external onlyRole(VERIFIER_ADMIN_ROLE) {
+        require(verifiers[verifier], "Not a verifier");
+        require(verifierCount > verifierQuorum, "Invalid quorum");
+        verifiers[verifier] = false;
+        verifierCount--;
+        emit VerifierRemoved(verifier);
+    }
+
+    /// @notice Approvals a verification needs before it takes effect
+    function setVerifierQuorum(uint256 quorum) external onlyRole(VERIFIER_ADMIN_ROLE) {
+        require(quorum > 0 && quorum <= verifierCount, "Invalid quorum");
+        verifierQuorum = quorum;
+        emit VerifierQuorumSet(quorum);
+    }
+
+    /// @notice Applies to verifications completed from now on; 0 = never expire
+    function setVerificationPeriod(uint256 period) external onlyRole(VERIFIER_ADMIN_ROLE) {
+        verificationPeriod = period;
+        emit VerificationPeriodSet(period);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /// @notice Approves verifying (or re-verifying) `performer`; it takes effect,
+    /// and the expiry restarts, once `verifierQuorum` current verifiers approved
+    /// the same details in the same round
     function verifyPerformer(
         address performer,
         bytes32 identityHash,
         string memory publicKey,
         string memory metadataURI
-    ) external whenNotPaused {
-        require(verifiers[msg.sender], "Not authorized verifier");
+    ) external whenNotPaused onlyVerifier {
         require(performer != address(0), "Invalid performer address");
-        require(identityHashToAddress[identityHash] == address(0), "Identity already used");
+        require(rotatedTo[performer] == address(0), "Wallet rotated");
+        address holder = identityHashToAddress[identityHash];
+        require(holder == address(0) || holder == performer, "Identity already used");
+        bytes32 current = performers[performer].identityHash;
+        require(current == bytes32(0) || current == identityHash, "Identity mismatch");
         
-        performers[performer] = PerformerProfile({
-            isVerified: true,
-            identityHash: identityHash,
-            publicKey: publicKey,
-            verificationTime: block.timestamp,
-            metadataURI: metadataURI,
-            reputationScore: 100
+        bytes32 request = keccak256(
+            abi.encode(performer, identityHash, publicKey, metadataURI, verificationRound[performer])
+        );
+        address[] storage approvals = _approvals[request];
+        uint256 count = 1;
+        for (uint256 i = 0; i < approvals.length; i++) {
+            require(approvals[i] != msg.sender, "Already approved");
+            if (verifiers[approvals[i]]) count++;
+        }
+        approvals.push(msg.sender);
+        emit VerificationApproved(performer, msg.sender, count);
+        
+        if (count < verifierQuorum) return;
+        delete _approvals[request];
+        _completeVerification(performer, identityHash, publicKey, metadataURI);
+    }
+
+    function revokePerformer(address performer, RevocationReason reason) external onlyVerifier {
+        require(reason != RevocationReason.None, "Invalid reason");
+        require(performers[performer].isVerified, "Performer not verified");
+        
+        performers[performer].isVerified = false;
+        revocations[performer] = Revocation({
+            reason: reason,
+            revokedBy: msg.sender,
+            revokedAt: block.timestamp,
+            appeal: AppealStatus.None,
+            evidenceURI: ""
         });
         
-        identityHashToAddress[identityHash] = performer;
-        verifiedPerformers.push(performer);
+        emit PerformerRevoked(performer, reason, msg.sender);
+    }
+
+    /// @notice One appeal per revocation, decided by the owner
+    function appealRevocation(string memory evidenceURI) external whenNotPaused {
+        Revocation storage revocation = revocations[msg.sender];
+        require(revocation.reason != RevocationReason.None, "Not revoked");
+        require(revocation.appeal == AppealStatus.None, "Appeal already filed");
+        require(bytes(evidenceURI).length > 0, "Evidence required");
         
-        emit PerformerVerified(performer, identityHash);
+        revocation.appeal = AppealStatus.Pending;
+        revocation.evidenceURI = evidenceURI;
+        
+        emit AppealFiled(msg.sender, revocation.reason, evidenceURI);
     }
 
-    function isVerifiedPerformer(address performer) external view returns (bool) {
-        return performers[performer].isVerified;
+    /// @notice Reinstating restarts the verification period; a denied appeal
+    /// leaves re-verification through the quorum as the way back
+    function resolveAppeal(address performer, bool reinstate) external onlyRole(VERIFIER_ADMIN_ROLE) {
+        Revocation storage revocation = revocations[performer];
+        require(revocation.appeal == AppealStatus.Pending, "No pending appeal");
+        
+        if (reinstate) {
+            delete revocations[performer];
+            performers[performer].isVerified = true;
+            _extendVerification(performer);
+        } else {
+            revocation.appeal = AppealStatus.Denied;
+        }
+        
+        emit AppealResolved(performer, reinstate);
+    }
+
+    /// @notice Moves a profile to `newWallet`; anyone may submit it with EIP-712
+    /// signatures over the same WalletRotation from both wallets
+    function rotateWallet(
+        address oldWallet,
+        address newWallet,
+        uint256 deadline,
+        bytes calldata oldWalletSignature,
+        bytes calldata newWalletSignature
+    ) external whenNotPaused {
+        require(block.timestamp <= deadline, "Signature expired");
+        require(newWallet != address(0) && newWallet != oldWallet, "Invalid wallet");
+        bytes32 identityHash = performers[oldWallet].identityHash;
+        require(identityHash != bytes32(0), "Not a performer");
+        require(
+            performers[newWallet].identityHash == bytes32(0) && rotatedTo[newWallet] == address(0),
+            "Wallet already registered"
+        );
+        
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(WALLET_ROTATION_TYPEHASH, oldWallet, newWallet, rotationNonces[oldWallet]++, deadline))
+        );
+        require(ECDSA.recover(digest, oldWalletSignature) == oldWallet, "Invalid old wallet signature");
+        require(ECDSA.recover(digest, newWalletSignature) == newWallet, "Invalid new wallet signature");
+        
+        performers[newWallet] = performers[oldWallet];
+        verificationExpiry[newWallet] = verificationExpiry[oldWallet];
+        performerTier[newWallet] = performerTier[oldWallet];
+        performerSkills[newWallet] = performerSkills[oldWallet];
+        revocations[newWallet] = revocations[oldWallet];
+        identityHashToAddress[identityHash] = newWallet;
+        uint256 index = _performerIndex[oldWallet];
+        if (index > 0) {
+            verifiedPerformers[index - 1] = newWallet;
+            _performerIndex[newWallet] = index;
+        }
+        
+        delete performers[oldWallet];
+        delete verificationExpiry[oldWallet];
+        delete performerTier[oldWallet];
+        delete performerSkills[oldWallet];
+        delete revocations[oldWallet];
+        delete _performerIndex[oldWallet];
+        rotatedTo[oldWallet] = newWallet;
+        
+        emit WalletRotated(oldWallet, newWallet, identityHash);
+    }
+
+    /// @notice Verified, not revoked and not expired
+    function isVerifiedPerformer(address performer) public view returns (bool) {
+        uint256 expiry = verificationExpiry[performer];
+        return performers[performer].isVerified && (expiry == 0 || block.timestamp < expiry);
+    }
+
+    /// @notice The wallet `wallet` was (possibly repeatedly) rotated to, or `wallet` itself
+    function currentWallet(address wallet) public view returns (address) {
+        while (rotatedTo[wallet] != address(0)) {
+            wallet = rotatedTo[wallet];
+        }
+        return wallet;
+    }
+
+    /// @notice Approvals recorded so far for a verification request in the performer's current round
+    function verificationApprovals(
+        address performer,
+        bytes32 identityHash,
+        string memory publicKey,
+        string memory metadataURI
+    ) external view returns (address[] memory) {
+        return _approvals[keccak256(
+            abi.encode(performer, identityHash, publicKey, metadataURI, verificationRound[performer])
+        )];
     }
 
     function getVerifiedPerformers() external view returns (address[] memory) {
@@ -111,4 +374,51 @@ contract PerformerAuthenticationUpgradeable is
         require(performers[performer].isVerified, "Performer not verified");
         performerSkills[performer].push(skill);
     }
-}
\ No newline at end of file
+
+    function setReputationScore(address performer, uint256 score) external onlyVerifier {
+        require(performers[performer].isVerified, "Performer not verified");
+        performers[performer].reputationScore = score;
+        emit ReputationScoreSet(performer, score);
+    }
+
+    // Fixed domain, so proxies initialized before wallet rotation need no reinitializer
+    function _EIP712Name() internal pure override returns (string memory) {
+        return "JeskeiPerformerAuthentication";
+    }
+
+    function _EIP712Version() internal pure override returns (string memory) {
+        return "1";
+    }
+
+    function _completeVerification(
+        address performer,
+        bytes32 identityHash,
+        string memory publicKey,
+        string memory metadataURI
+    ) private {
+        PerformerProfile storage profile = performers[performer];
+        if (profile.identityHash == bytes32(0)) {
+            profile.identityHash = identityHash;
+            profile.reputationScore = 100;
+            identityHashToAddress[identityHash] = performer;
+            verifiedPerformers.push(performer);
+            _performerIndex[performer] = verifiedPerformers.length;
+        }
+        profile.isVerified = true;
+        profile.publicKey = publicKey;
+        profile.verificationTime = block.timestamp;
+        profile.metadataURI = metadataURI;
+        
+        verificationRound[performer]++;
+        delete revocations[performer];
+        _extendVerification(performer);
+        
+        emit PerformerVerified(performer, identityHash);
+    }
+
+    function _extendVerification(address performer) private {
+        uint256 expiry = verificationPeriod == 0 ? 0 : block.timestamp + verificationPeriod;
+        verificationExpiry[performer] = expiry;
+        emit VerificationExtended(performer, expiry);
+    }
+}
@@ -3,14 +3,19 @@ pragma solidity ^0.8.22;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URIStorageUpgradeable.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/utils/Create2.sol";
 import "./AssetRegistryUpgradeable.sol";
+import "./RoyaltyVault.sol";
+import "./RolesUpgradeable.sol";
 
 // =============================================================================
 // UPGRADEABLE REVENUE DISTRIBUTOR
@@ -18,11 +23,13 @@ import "./AssetRegistryUpgradeable.sol";
 
 contract RevenueDistributorUpgradeable is 
     Initializable,
-    OwnableUpgradeable,
+    RolesUpgradeable,
     ReentrancyGuardUpgradeable,
     PausableUpgradeable,
-    UUPSUpgradeable
+    UUPSUpgradeable,
+    IRoyaltyDistributor
 {
+    using SafeERC20 for IERC20;
     
     struct RevenueShare {
         address recipient;
@@ -30,6 +37,7 @@ contract RevenueDistributorUpgradeable is
         bool isActive;
     }
     
+    // Unused since splits are read from AssetRegistry, kept for storage layout
     mapping(uint256 => RevenueShare[]) public assetShares;
     mapping(uint256 => uint256) public totalRevenue;
     mapping(uint256 => mapping(address => uint256)) public contributorEarnings;
@@ -41,18 +49,53 @@ contract RevenueDistributorUpgradeable is
     // New storage for future upgrades
     mapping(uint256 => uint256) public assetRevenueStreaks; // For gamification
     mapping(address => uint256) public creatorTotalEarnings; // For analytics
-    uint256[50] private __gap;
+    // Rounding dust and unassigned shares kept by this contract until swept
+    uint256 public accumulatedResidue;
+    // Payouts are credited to `claimable` and claimed with withdraw/withdrawFor;
+    // the owner can switch back to pushing them with transfer()
+    bool public pushPayments;
+    mapping(address => uint256) public claimable;
+    uint256 public totalClaimable;
+    // ERC-20 revenue (token => …); token payouts are always credited, never pushed
+    mapping(uint256 => mapping(address => uint256)) public totalTokenRevenue;
+    mapping(uint256 => mapping(address => mapping(address => uint256))) public contributorTokenEarnings;
+    mapping(address => mapping(address => uint256)) public tokenClaimable;
+    mapping(address => uint256) public totalTokenClaimable;
+    mapping(address => uint256) public tokenResidue;
+    // EIP-2981 royalties received through each asset's RoyaltyVault
+    mapping(uint256 => uint256) public totalRoyalties;
+    // Part of creatorTotalEarnings credited to the account that paid it
+    mapping(address => uint256) public selfFundedEarnings;
+    uint256[39] private __gap;
+
+    bytes32 public constant FEE_ADMIN_ROLE = keccak256("FEE_ADMIN_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
     
     event RevenueDistributed(uint256 indexed assetId, address indexed recipient, uint256 amount);
-    event RevenueSharesSet(uint256 indexed assetId, address[] recipients, uint256[] percentages);
+    event RevenueResidue(uint256 indexed assetId, uint256 amount);
+    event ResidueSwept(address indexed to, uint256 amount);
+    event PushPaymentsSet(bool enabled);
+    event PaymentCredited(address indexed recipient, uint256 amount);
+    event PaymentWithdrawn(address indexed recipient, uint256 amount);
+    event TokenRevenueDistributed(uint256 indexed assetId, address indexed token, address indexed recipient, uint256 amount);
+    event TokenRevenueResidue(uint256 indexed assetId, address indexed token, uint256 amount);
+    event TokenPaymentCredited(address indexed token, address indexed recipient, uint256 amount);
+    event TokenPaymentWithdrawn(address indexed token, address indexed recipient, uint256 amount);
+    event TokenResidueSwept(address indexed token, address indexed to, uint256 amount);
+    event RoyaltyVaultDeployed(uint256 indexed assetId, address vault);
+    event RoyaltiesDistributed(uint256 indexed assetId, uint256 amount);
     
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
     }
     
-    function initialize(address _assetRegistry, address _platformTreasury) public initializer {
-        __Ownable_init(msg.sender);
+    function initialize(
+        address _assetRegistry,
+        address _platformTreasury,
+        address _admin
+    ) public onlyUninitialized reinitializer(2) {
+        __Roles_init(msg.sender, _admin);
         __ReentrancyGuard_init();
         __Pausable_init();
         __UUPSUpgradeable_init();
@@ -62,83 +105,246 @@ contract RevenueDistributorUpgradeable is
         platformFee = 1500; // 15%
     }
     
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
+
+    function _grantRoles(address admin) internal override {
+        super._grantRoles(admin);
+        // governance fee proposals reach this module through the factory
+        _grantRole(FEE_ADMIN_ROLE, owner());
+        _grantRole(FEE_ADMIN_ROLE, admin);
+        _grantRole(PAUSER_ROLE, admin);
+    }
+
+    function distributeRevenue(uint256 assetId, uint256 amount) external payable nonReentrant whenNotPaused {
+        _distributeRevenue(assetId, amount, msg.sender);
+    }
 
-    function setRevenueShares(
+    /// @notice `distributeRevenue` for a payment made on behalf of `payer`, e.g. a
+    /// ContentAccess purchase; what `payer` is credited counts as self-funded
+    function distributeRevenueFor(
         uint256 assetId,
-        address[] calldata recipients,
-        uint256[] calldata percentages
-    ) external {
-        require(assetRegistry.ownerOf(assetId) == msg.sender, "Not asset owner");
-        require(recipients.length == percentages.length, "Array length mismatch");
+        uint256 amount,
+        address payer
+    ) external payable nonReentrant whenNotPaused {
+        _distributeRevenue(assetId, amount, payer);
+    }
+
+    /// @notice Splits `amount` of `token`, pulled from the caller, exactly like `distributeRevenue` splits ETH
+    function distributeTokenRevenue(uint256 assetId, address token, uint256 amount) external nonReentrant whenNotPaused {
+        require(token != address(0), "Invalid token");
+        require(amount > 0, "Amount must be greater than 0");
         
-        delete assetShares[assetId];
+        // fee-on-transfer and rebasing tokens would break the accounting
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        require(IERC20(token).balanceOf(address(this)) - balanceBefore == amount, "Unsupported token");
         
-        uint256 totalPercentage = 0;
-        for (uint i = 0; i < recipients.length; i++) {
-            require(recipients[i] != address(0), "Invalid recipient");
-            require(percentages[i] > 0, "Invalid percentage");
-            
-            totalPercentage += percentages[i];
-            
-            assetShares[assetId].push(RevenueShare({
-                recipient: recipients[i],
-                percentage: percentages[i],
-                isActive: true
-            }));
+        (address[] memory recipients, uint256[] memory percentages) = assetRegistry.getRevenueSplit(assetId);
+        _distribute(assetId, token, amount, recipients, percentages, msg.sender);
+        
+        totalTokenRevenue[assetId][token] += amount;
+        assetRevenueStreaks[assetId]++;
+    }
+
+    /// @notice The asset's EIP-2981 royalty receiver; it takes payments before
+    /// `collectRoyalties` first deploys it
+    function royaltyVault(uint256 assetId) public view returns (address) {
+        return Clones.predictDeterministicAddressWithImmutableArgs(
+            _royaltyVaultImplementation(),
+            abi.encode(assetId),
+            bytes32(0)
+        );
+    }
+
+    /// @notice Splits the royalties paid into the asset's vault; anyone may
+    /// call it, e.g. a marketplace right after a sale
+    function collectRoyalties(uint256 assetId) external {
+        address vault = royaltyVault(assetId);
+        if (vault.code.length == 0) {
+            address implementation = _royaltyVaultImplementation();
+            if (implementation.code.length == 0) new RoyaltyVault{salt: bytes32(0)}();
+            Clones.cloneDeterministicWithImmutableArgs(implementation, abi.encode(assetId), bytes32(0));
+            emit RoyaltyVaultDeployed(assetId, vault);
         }
+        RoyaltyVault(payable(vault)).release();
+    }
+
+    /// @notice Called by the asset's vault; royalties pay the platform fee and
+    /// the contributors like `distributeRevenue`, the rest goes to the creator
+    function distributeRoyalties(uint256 assetId) external payable nonReentrant whenNotPaused {
+        require(msg.sender == royaltyVault(assetId), "Not royalty vault");
+        require(msg.value > 0, "Amount must be greater than 0");
         
-        require(totalPercentage <= 10000, "Total percentage exceeds 100%");
+        (address[] memory recipients, uint256[] memory percentages) = assetRegistry.getRoyaltySplit(assetId);
+        _distribute(assetId, address(0), msg.value, recipients, percentages, msg.sender);
         
-        emit RevenueSharesSet(assetId, recipients, percentages);
+        totalRoyalties[assetId] += msg.value;
+        emit RoyaltiesDistributed(assetId, msg.value);
     }
 
-    function distributeRevenue(uint256 assetId, uint256 amount) external payable nonReentrant whenNotPaused {
+    /// @notice The asset's current split, as AssetRegistry's contributors
+    /// have consented to it plus the owner's remainder
+    function getAssetShares(uint256 assetId) external view returns (RevenueShare[] memory shares) {
+        (address[] memory recipients, uint256[] memory percentages) = assetRegistry.getRevenueSplit(assetId);
+        shares = new RevenueShare[](recipients.length);
+        for (uint i = 0; i < recipients.length; i++) {
+            shares[i] = RevenueShare({recipient: recipients[i], percentage: percentages[i], isActive: true});
+        }
+    }
+
+    function setPlatformFee(uint256 _platformFee) external onlyRole(FEE_ADMIN_ROLE) {
+        require(_platformFee <= 2500, "Platform fee too high");
+        platformFee = _platformFee;
+    }
+
+    function updateAssetRegistry(address _assetRegistry) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_assetRegistry != address(0), "Invalid address");
+        assetRegistry = AssetRegistryUpgradeable(_assetRegistry);
+    }
+
+    function withdraw() external nonReentrant {
+        _withdraw(msg.sender);
+    }
+
+    function withdrawFor(address payee) external nonReentrant {
+        _withdraw(payee);
+    }
+
+    function withdrawToken(address token) external nonReentrant {
+        _withdrawToken(token, msg.sender);
+    }
+
+    function withdrawTokenFor(address token, address payee) external nonReentrant {
+        _withdrawToken(token, payee);
+    }
+
+    function setPushPayments(bool enabled) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        pushPayments = enabled;
+        emit PushPaymentsSet(enabled);
+    }
+
+    function sweepResidue() external onlyRole(FEE_ADMIN_ROLE) nonReentrant {
+        uint256 amount = accumulatedResidue;
+        require(amount > 0, "No residue");
+        accumulatedResidue = 0;
+        payable(platformTreasury).transfer(amount);
+        emit ResidueSwept(platformTreasury, amount);
+    }
+
+    function sweepTokenResidue(address token) external onlyRole(FEE_ADMIN_ROLE) nonReentrant {
+        uint256 amount = tokenResidue[token];
+        require(amount > 0, "No residue");
+        tokenResidue[token] = 0;
+        IERC20(token).safeTransfer(platformTreasury, amount);
+        emit TokenResidueSwept(token, platformTreasury, amount);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    // Deployed with CREATE2 on first use; vault addresses depend on its code,
+    // so RoyaltyVault must never change
+    function _royaltyVaultImplementation() private view returns (address) {
+        return Create2.computeAddress(bytes32(0), keccak256(type(RoyaltyVault).creationCode));
+    }
+
+    function _distributeRevenue(uint256 assetId, uint256 amount, address payer) private {
         require(msg.value == amount, "Incorrect payment amount");
         require(amount > 0, "Amount must be greater than 0");
         
+        (address[] memory recipients, uint256[] memory percentages) = assetRegistry.getRevenueSplit(assetId);
+        _distribute(assetId, address(0), amount, recipients, percentages, payer);
+        
+        totalRevenue[assetId] += amount;
+        assetRevenueStreaks[assetId]++;
+    }
+
+    // Shared by the ETH (token == address(0)) and ERC-20 paths, so fees,
+    // shares and rounding are identical for every payment token
+    function _distribute(
+        uint256 assetId,
+        address token,
+        uint256 amount,
+        address[] memory recipients,
+        uint256[] memory percentages,
+        address payer
+    ) private {
         uint256 platformFeeAmount = (amount * platformFee) / 10000;
         uint256 availableRevenue = amount - platformFeeAmount;
         
-        payable(platformTreasury).transfer(platformFeeAmount);
-        
-        RevenueShare[] storage shares = assetShares[assetId];
+        _pay(token, platformTreasury, platformFeeAmount);
         
-        if (shares.length == 0) {
-            address owner = assetRegistry.ownerOf(assetId);
-            payable(owner).transfer(availableRevenue);
-            contributorEarnings[assetId][owner] += availableRevenue;
-            creatorTotalEarnings[owner] += availableRevenue;
-            emit RevenueDistributed(assetId, owner, availableRevenue);
-        } else {
-            for (uint i = 0; i < shares.length; i++) {
-                if (shares[i].isActive) {
-                    uint256 payment = (availableRevenue * shares[i].percentage) / 10000;
-                    if (payment > 0) {
-                        payable(shares[i].recipient).transfer(payment);
-                        contributorEarnings[assetId][shares[i].recipient] += payment;
-                        creatorTotalEarnings[shares[i].recipient] += payment;
-                        emit RevenueDistributed(assetId, shares[i].recipient, payment);
-                    }
-                }
+        uint256 distributed = 0;
+        for (uint i = 0; i < recipients.length; i++) {
+            uint256 payment = (availableRevenue * percentages[i]) / 10000;
+            if (payment > 0) {
+                _credit(assetId, token, recipients[i], payment, payer);
+                distributed += payment;
             }
         }
         
-        totalRevenue[assetId] += amount;
-        assetRevenueStreaks[assetId]++;
+        uint256 residue = availableRevenue - distributed;
+        if (residue == 0) return;
+        if (token == address(0)) {
+            accumulatedResidue += residue;
+            emit RevenueResidue(assetId, residue);
+        } else {
+            tokenResidue[token] += residue;
+            emit TokenRevenueResidue(assetId, token, residue);
+        }
+    }
+
+    function _credit(uint256 assetId, address token, address recipient, uint256 amount, address payer) private {
+        _pay(token, recipient, amount);
+        if (token == address(0)) {
+            contributorEarnings[assetId][recipient] += amount;
+            creatorTotalEarnings[recipient] += amount;
+            // a caller naming another payer only widens this, never narrows it
+            if (recipient == payer || recipient == msg.sender) selfFundedEarnings[recipient] += amount;
+            emit RevenueDistributed(assetId, recipient, amount);
+        } else {
+            contributorTokenEarnings[assetId][token][recipient] += amount;
+            emit TokenRevenueDistributed(assetId, token, recipient, amount);
+        }
     }
 
-    function getAssetShares(uint256 assetId) external view returns (RevenueShare[] memory) {
-        return assetShares[assetId];
+    function _pay(address token, address recipient, uint256 amount) private {
+        if (token != address(0)) {
+            if (amount > 0) {
+                tokenClaimable[token][recipient] += amount;
+                totalTokenClaimable[token] += amount;
+                emit TokenPaymentCredited(token, recipient, amount);
+            }
+        } else if (pushPayments) {
+            payable(recipient).transfer(amount);
+        } else if (amount > 0) {
+            claimable[recipient] += amount;
+            totalClaimable += amount;
+            emit PaymentCredited(recipient, amount);
+        }
     }
 
-    function setPlatformFee(uint256 _platformFee) external onlyOwner {
-        require(_platformFee <= 2500, "Platform fee too high");
-        platformFee = _platformFee;
+    function _withdraw(address payee) private {
+        uint256 amount = claimable[payee];
+        require(amount > 0, "No balance to withdraw");
+        claimable[payee] = 0;
+        totalClaimable -= amount;
+        (bool ok, ) = payable(payee).call{value: amount}("");
+        require(ok, "Withdrawal failed");
+        emit PaymentWithdrawn(payee, amount);
     }
 
-    function updateAssetRegistry(address _assetRegistry) external onlyOwner {
-        require(_assetRegistry != address(0), "Invalid address");
-        assetRegistry = AssetRegistryUpgradeable(_assetRegistry);
+    function _withdrawToken(address token, address payee) private {
+        uint256 amount = tokenClaimable[token][payee];
+        require(amount > 0, "No balance to withdraw");
+        tokenClaimable[token][payee] = 0;
+        totalTokenClaimable[token] -= amount;
+        IERC20(token).safeTransfer(payee, amount);
+        emit TokenPaymentWithdrawn(token, payee, amount);
     }
 }
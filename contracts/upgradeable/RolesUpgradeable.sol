@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+
+// =============================================================================
+// ROLES - Operator roles split off the module owner
+// =============================================================================
+
+/// @notice Modules gate their admin functions by role instead of `onlyOwner`
+/// and declare the `*_ROLE` constants they use, which is how `jeskei:roles`
+/// tells which module supports which role. Ownership confers no role: the
+/// owner (JeskeiProxyFactory for factory-deployed modules) is granted
+/// UPGRADER and `admin` DEFAULT_ADMIN plus the module's operator roles, each
+/// revocable like any other grant. UPGRADER administers itself, so the admin
+/// cannot route around the factory's timelocked upgrades. Proxies upgraded
+/// from the owner-only implementations get the same grants from `initializeRoles`.
+/// AccessControl keeps its state in its ERC-7201 namespace, so no module
+/// storage slot or gap moves.
+abstract contract RolesUpgradeable is Initializable, OwnableUpgradeable, AccessControlUpgradeable {
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+
+    /// @dev Guards each module's `initialize`, which runs at version 2 so fresh
+    /// proxies start with their roles. A proxy an owner-only implementation
+    /// initialized stays at version 1 after a plain upgrade; without this guard
+    /// anyone could initialize it again and take every role.
+    modifier onlyUninitialized() {
+        if (_getInitializedVersion() != 0) revert InvalidInitialization();
+        _;
+    }
+
+    function __Roles_init(address initialOwner, address admin) internal onlyInitializing {
+        __Ownable_init(initialOwner);
+        __AccessControl_init();
+        _grantRoles(admin);
+    }
+
+    /// @notice Grants the roles the owner used to hold implicitly; run it as the
+    /// call of the upgrade from an owner-only implementation, which is the only
+    /// way such a proxy reaches version 2. Fresh proxies start there.
+    function initializeRoles(address admin) external virtual reinitializer(2) onlyOwner {
+        _grantRoles(admin);
+    }
+
+    /// @dev Modules extend this with the operator roles they declare
+    function _grantRoles(address admin) internal virtual {
+        require(admin != address(0), "Invalid admin");
+        _setRoleAdmin(UPGRADER_ROLE, UPGRADER_ROLE);
+        _grantRole(UPGRADER_ROLE, owner());
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    }
+}
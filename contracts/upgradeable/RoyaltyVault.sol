@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/proxy/Clones.sol";
+
+interface IRoyaltyDistributor {
+    function royaltyVault(uint256 assetId) external view returns (address);
+    function distributeRoyalties(uint256 assetId) external payable;
+}
+
+// =============================================================================
+// ROYALTY VAULT - EIP-2981 receiver of one asset
+// =============================================================================
+
+/// @notice RevenueDistributor clones one vault per asset, with the asset id
+/// as immutable argument, at an address AssetRegistry reports as the asset's
+/// royalty receiver before the vault exists. Whatever a marketplace pays in is
+/// handed to the distributor and split like any other revenue of the asset.
+/// Once deployed the vault needs more than the 2300 gas of `transfer()`.
+contract RoyaltyVault {
+    address public immutable distributor;
+
+    event RoyaltiesReleased(uint256 indexed assetId, uint256 amount);
+
+    // Shared by every clone, so they all report to the deploying distributor
+    constructor() {
+        distributor = msg.sender;
+    }
+
+    receive() external payable {}
+
+    function assetId() public view returns (uint256) {
+        return abi.decode(Clones.fetchCloneArgs(address(this)), (uint256));
+    }
+
+    function release() external {
+        uint256 amount = address(this).balance;
+        require(amount > 0, "No royalties");
+
+        uint256 id = assetId();
+        IRoyaltyDistributor(distributor).distributeRoyalties{value: amount}(id);
+        emit RoyaltiesReleased(id, amount);
+    }
+}
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts/proxy/beacon/BeaconProxy.sol";
+import "@openzeppelin/contracts/proxy/beacon/IBeacon.sol";
+import "./DigitalStudioDAOUpgradeable.sol";
+import "./RolesUpgradeable.sol";
+
+// =============================================================================
+// STUDIO FACTORY - One DigitalStudioDAO per production house
+// =============================================================================
+
+/// @notice Spawns DigitalStudioDAO instances as BeaconProxies of `studioBeacon`,
+/// which JeskeiProxyFactory owns, so every studio upgrades together through
+/// UpgradeManager. Anyone may create a studio and becomes its founder.
+contract StudioFactoryUpgradeable is
+    Initializable,
+    RolesUpgradeable,
+    PausableUpgradeable,
+    UUPSUpgradeable
+{
+    address public studioBeacon;
+    address public assetRegistry;
+    // Unused since studios offer shares through AssetRegistry, kept for storage layout
+    address public revenueDistributor;
+
+    address[] public studios;
+    mapping(address => bool) public isStudio;
+    mapping(address => address[]) private _studiosByFounder;
+    uint256[44] private __gap;
+
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    event StudioCreated(uint256 indexed studioId, address indexed studio, address indexed founder, string name);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        address _studioBeacon,
+        address _assetRegistry,
+        address _admin
+    ) public onlyUninitialized reinitializer(2) {
+        __Roles_init(msg.sender, _admin);
+        __Pausable_init();
+        __UUPSUpgradeable_init();
+
+        studioBeacon = _studioBeacon;
+        assetRegistry = _assetRegistry;
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
+
+    function _grantRoles(address admin) internal override {
+        super._grantRoles(admin);
+        _grantRole(PAUSER_ROLE, admin);
+    }
+
+    function createStudio(string memory name) external whenNotPaused returns (address) {
+        require(bytes(name).length > 0, "Studio name required");
+
+        bytes memory initData = abi.encodeCall(
+            DigitalStudioDAOUpgradeable.initializeStudio,
+            (name, msg.sender, assetRegistry)
+        );
+        address studio = address(new BeaconProxy(studioBeacon, initData));
+
+        uint256 studioId = studios.length;
+        studios.push(studio);
+        isStudio[studio] = true;
+        _studiosByFounder[msg.sender].push(studio);
+
+        emit StudioCreated(studioId, studio, msg.sender, name);
+        return studio;
+    }
+
+    function studioCount() external view returns (uint256) {
+        return studios.length;
+    }
+
+    function getStudiosByFounder(address founder) external view returns (address[] memory) {
+        return _studiosByFounder[founder];
+    }
+
+    /// @notice Implementation every studio currently runs
+    function studioImplementation() external view returns (address) {
+        return IBeacon(studioBeacon).implementation();
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+}
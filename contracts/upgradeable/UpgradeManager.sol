@@ -3,7 +3,6 @@ pragma solidity ^0.8.22;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
@@ -11,12 +10,13 @@ import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URISto
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
 import "./JeskeiProxyFactory.sol";
+import "./RolesUpgradeable.sol";
 
 // =============================================================================
 // UPGRADE MANAGER - Manages upgrade process and permissions
 // =============================================================================
 
-contract UpgradeManager is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+contract UpgradeManager is Initializable, RolesUpgradeable, UUPSUpgradeable {
     
     struct UpgradeProposal {
         string contractName;
@@ -37,6 +37,8 @@ contract UpgradeManager is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     uint256 public proposalCounter;
     uint256 public timelock; // Minimum time between proposal and execution
     JeskeiProxyFactory public proxyFactory;
+    /// @notice Call run on the proxy as it is upgraded (empty for a plain upgrade)
+    mapping(uint256 => bytes) public upgradeCalls;
     
     event UpgradeProposed(uint256 indexed proposalId, string contractName, address newImplementation);
     event UpgradeApproved(uint256 indexed proposalId);
@@ -49,8 +51,8 @@ contract UpgradeManager is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         _disableInitializers();
     }
     
-    function initialize(address _proxyFactory, uint256 _timelock) public initializer {
-        __Ownable_init(msg.sender);
+    function initialize(address _proxyFactory, uint256 _timelock) public onlyUninitialized reinitializer(2) {
+        __Roles_init(msg.sender, msg.sender);
         __UUPSUpgradeable_init();
         
         proxyFactory = JeskeiProxyFactory(_proxyFactory);
@@ -61,7 +63,7 @@ contract UpgradeManager is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         upgradeApprovers[msg.sender] = true;
     }
     
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
     
     modifier onlyProposer() {
         require(upgradeProposers[msg.sender], "Not authorized proposer");
@@ -73,12 +75,12 @@ contract UpgradeManager is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         _;
     }
     
-    function addProposer(address proposer) external onlyOwner {
+    function addProposer(address proposer) external onlyRole(UPGRADER_ROLE) {
         upgradeProposers[proposer] = true;
         emit ProposerAdded(proposer);
     }
     
-    function addApprover(address approver) external onlyOwner {
+    function addApprover(address approver) external onlyRole(UPGRADER_ROLE) {
         upgradeApprovers[approver] = true;
         emit ApproverAdded(approver);
     }
@@ -89,6 +91,29 @@ contract UpgradeManager is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         string memory newVersion,
         string memory description
     ) external onlyProposer returns (uint256) {
+        return _proposeUpgrade(contractName, newImplementation, newVersion, description, "");
+    }
+    
+    /// @notice Proposes an upgrade that runs `data` on the proxy as part of it,
+    /// e.g. a reinitializer migrating state the new implementation relies on.
+    function proposeUpgradeAndCall(
+        string memory contractName,
+        address newImplementation,
+        string memory newVersion,
+        string memory description,
+        bytes memory data
+    ) external onlyProposer returns (uint256) {
+        require(data.length >= 4, "Invalid call");
+        return _proposeUpgrade(contractName, newImplementation, newVersion, description, data);
+    }
+    
+    function _proposeUpgrade(
+        string memory contractName,
+        address newImplementation,
+        string memory newVersion,
+        string memory description,
+        bytes memory data
+    ) internal returns (uint256) {
         require(newImplementation != address(0), "Invalid implementation");
         require(bytes(contractName).length > 0, "Contract name required");
         
@@ -105,6 +130,7 @@ contract UpgradeManager is Initializable, OwnableUpgradeable, UUPSUpgradeable {
             approved: false,
             proposer: msg.sender
         });
+        upgradeCalls[proposalId] = data;
         
         emit UpgradeProposed(proposalId, contractName, newImplementation);
         return proposalId;
@@ -128,16 +154,26 @@ contract UpgradeManager is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         proposal.executed = true;
         
         // Execute upgrade through proxy factory
-        proxyFactory.upgradeProxy(
-            proposal.contractName,
-            proposal.newImplementation,
-            proposal.newVersion
-        );
+        bytes memory data = upgradeCalls[proposalId];
+        if (data.length == 0) {
+            proxyFactory.upgradeProxy(
+                proposal.contractName,
+                proposal.newImplementation,
+                proposal.newVersion
+            );
+        } else {
+            proxyFactory.upgradeProxyAndCall(
+                proposal.contractName,
+                proposal.newImplementation,
+                proposal.newVersion,
+                data
+            );
+        }
         
         emit UpgradeExecuted(proposalId);
     }
     
-    function setTimelock(uint256 _timelock) external onlyOwner {
+    function setTimelock(uint256 _timelock) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_timelock >= 1 hours, "Timelock too short");
         require(_timelock <= 30 days, "Timelock too long");
         timelock = _timelock;
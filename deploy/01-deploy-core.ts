@@ -2,30 +2,43 @@ import { ethers } from "hardhat";
 import * as hre from "hardhat";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
+import { initializerOf, planDeployment, resolveArgs } from "../utils/manifest";
+import { MODULES } from "../utils/modules";
+import { DeploymentJournal } from "../utils/journal";
+import { getImplementation, hasCode } from "../utils/erc1967";
+import { getStorageLayout } from "../utils/upgradeSafety";
+import { gasOverrides, networkProfile } from "../utils/networks";
 
 /**
- * Master deploy script – spins up **every upgradeable module currently in the
- * repo** so the front‑end team can consume a single JSON of proxy addresses.
+ * Master deploy script – spins up **every module in `utils/modules.ts`** so the
+ * front‑end team can consume a single JSON of proxy addresses.
  *
- * If you later add more contracts, just extend the `MODULES` array. Each entry
- * defines:
- *   ‑ `label`                Human‑readable name + proxy key in /deployments
- *   ‑ `impl`                 Solidity factory name of the upgradeable impl.
- *   ‑ `init`                 Initialize selector string.
- *   ‑ `args(hre, addrs)`     Function returning constructor‑style args. It
- *                            receives the HardhatRuntimeEnvironment and a
- *                            map of addresses already deployed during this
- *                            run (so you can reference AssetRegistry, etc.).
+ * To add a contract, extend `MODULES` there. The manifest is resolved and
+ * type‑checked by `planDeployment` before anything is sent, so a missing
+ * dependency or an initializer argument of the wrong type aborts the run
+ * instead of leaving a half‑wired stack on chain.
+ *
+ * The script is safe to re‑run after a failure: every step is written to a
+ * `DeploymentJournal` as soon as it is mined, and on the next run journaled
+ * contracts are reused once their code (and, for proxies, ERC‑1967
+ * implementation slot) checks out on chain.
+ *
+ * Each proxy's deployment file also records its implementation address and
+ * storage layout, which the `jeskei:upgrade:*` tasks compare upgrades against.
+ *
+ * Confirmation depth, gas strategy, explorer and the UpgradeManager timelock
+ * come from the network's profile in `utils/networks.ts`.
  */
 
-const DAY = 24 * 60 * 60;
-const CONFIRMATIONS = hre.network.name === "hardhat" ? 1 : 5; // wait for Etherscan propagation
+const PROFILE = networkProfile(hre.network.name);
+const CONFIRMATIONS = PROFILE.confirmations;
+const GAS = gasOverrides(PROFILE);
 
 // --------------------------------------------------------------------
-// Helper: attempt Etherscan verify (skips when local or missing API key)
+// Helper: attempt explorer verify (skips when local or missing API key)
 // --------------------------------------------------------------------
 async function verifyIfLive(address: string, constructorArguments: unknown[] = []) {
-  if (hre.network.name === "hardhat" || !process.env.ETHERSCAN_API_KEY) return;
+  if (!PROFILE.live || !PROFILE.explorer || !process.env[PROFILE.explorer.apiKeyEnv]) return;
   try {
     await hre.run("verify:verify", { address, constructorArguments });
     console.log(`      ✔︎ verified ${address}`);
@@ -38,55 +51,6 @@ async function verifyIfLive(address: string, constructorArguments: unknown[] = [
   }
 }
 
-type Module = {
-  label: string;
-  impl: string;
-  init: string;
-  args: (addrs: Record<string, string>) => unknown[];
-};
-
-const MODULES: Module[] = [
-  {
-    label: "AssetRegistry",
-    impl: "AssetRegistryUpgradeable",
-    init: "initialize",
-    args: (a) => [a.hostingTreasury],
-  },
-  {
-    label: "RevenueDistributor",
-    impl: "RevenueDistributorUpgradeable",
-    init: "initialize",
-    args: (a) => [a.AssetRegistry, a.platformTreasury],
-  },
-  {
-    label: "PerformerAuthentication",
-    impl: "PerformerAuthenticationUpgradeable",
-    init: "initialize",
-    args: () => [],
-  },
-  // ---- Additional modules ----
-  {
-    label: "AdvertisingEngine",
-    impl: "AdvertisingEngineUpgradeable",
-    init: "initialize",
-    args: (a) => [a.AssetRegistry],
-  },
-  {
-    label: "ContentAccess",
-    impl: "ContentAccessUpgradeable",
-    init: "initialize",
-    args: (a) => [a.AssetRegistry, a.PerformerAuthentication],
-  },
-  {
-    label: "DigitalStudioDAO",
-    impl: "DigitalStudioDAOUpgradeable",
-    init: "initialize",
-    args: (a) => [a.AssetRegistry, a.PerformerAuthentication],
-  },
-  // Non‑upgradeable CommunityGovernance (immutable implementation)
-  // Deployed as a plain contract (not proxy)
-];
-
 const func: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
   const { deployments, getNamedAccounts } = hre;
   const { save, log } = deployments;
@@ -98,114 +62,247 @@ const func: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
     platformTreasury: named.platformTreasury,
     adTreasury: named.adTreasury,
     crowdfundingTreasury: named.crowdfundingTreasury,
+    studioFounder: named.studioFounder,
+    roleAdmin: named.roleAdmin,
   };
 
+  /* -------------------------------------------------------------------- */
+  /* 0. Resolve + type‑check the manifest before sending anything          */
+  /* -------------------------------------------------------------------- */
+
+  const plan = await planDeployment(hre, MODULES, addrs);
+
   log(`
 ▶︎ Deploying full Jeskei stack…`);
   log(`   deployer: ${addrs.deployer}`);
+  log(`   order:    ${plan.map((m) => m.label).join(" → ")}`);
+
+  const journal = await DeploymentJournal.open(hre);
+  if (journal.file) log(`   journal:  ${journal.file}`);
+
+  const deployer = await ethers.getSigner(addrs.deployer);
+  const ProxyFactoryABI = (await ethers.getContractFactory("JeskeiProxyFactory")).interface;
+  const factoryAt = () => new ethers.Contract(addrs.JeskeiProxyFactory, ProxyFactoryABI, deployer);
 
   /* -------------------------------------------------------------------- */
-  /* Helper: deploy impl + UUPS proxy                                     */
+  /* Helpers: one per deploy kind. Each step is journaled as soon as it   */
+  /* is mined and reused on rerun once confirmed on chain.                */
   /* -------------------------------------------------------------------- */
 
-  async function deployUUPS(
-    label: string,
-    implFactoryName: string,
-    initSelector: string,
-    initArgs: unknown[]
-  ) {
+  // Journaled impl is reused only if it has code and was built from the same bytecode
+  async function deployImpl(label: string, implFactoryName: string, ctorArgs: unknown[] = []) {
     const ImplF = await ethers.getContractFactory(implFactoryName);
-    const impl = await ImplF.deploy();
+    const bytecodeHash = ethers.keccak256(ImplF.bytecode);
+    const entry = journal.get(label);
+
+    if (
+      entry?.impl &&
+      entry.implBytecodeHash === bytecodeHash &&
+      (await hasCode(ethers.provider, entry.impl))
+    ) {
+      log(`   ${label} impl   → ${entry.impl} (journal)`);
+      await verifyIfLive(entry.impl, ctorArgs);
+      return { ImplF, implAddr: entry.impl };
+    }
+    if (entry) journal.forget(label);
+
+    const impl = await ImplF.deploy(...ctorArgs, GAS);
     await impl.waitForDeployment();
-    if (impl.deploymentTransaction()) await impl.deploymentTransaction()!.wait(CONFIRMATIONS);
     // wait extra confirmations so Etherscan indexes bytecode
     if (impl.deploymentTransaction()) await impl.deploymentTransaction()!.wait(CONFIRMATIONS);
     const implAddr = await impl.getAddress();
+    journal.record(label, { impl: implAddr, implBytecodeHash: bytecodeHash });
     log(`   ${label} impl   → ${implAddr}`);
-    await verifyIfLive(implAddr);
+    await verifyIfLive(implAddr, ctorArgs);
+    return { ImplF, implAddr };
+  }
+
+  // impl + standalone UUPS proxy; a journaled proxy whose implementation
+  // slot still matches the journal is reused as is
+  async function deployUUPS(label: string, implFactoryName: string, initArgs: unknown[]) {
+    const entry = journal.get(label);
+    if (
+      entry?.proxy &&
+      entry.impl &&
+      (await hasCode(ethers.provider, entry.proxy)) &&
+      (await getImplementation(ethers.provider, entry.proxy)) === entry.impl
+    ) {
+      const ImplF = await ethers.getContractFactory(implFactoryName);
+      log(`   ${label} proxy  → ${entry.proxy} (journal)`);
+      return { ImplF, address: entry.proxy, implAddr: entry.impl };
+    }
+
+    const { ImplF, implAddr } = await deployImpl(label, implFactoryName);
+    const initData = ImplF.interface.encodeFunctionData(initializerOf(implFactoryName), initArgs);
 
-    const initData = ImplF.interface.encodeFunctionData(initSelector, initArgs);
     const ProxyF = await ethers.getContractFactory("ERC1967Proxy");
-    const proxy = await ProxyF.deploy(implAddr, initData);
+    const proxy = await ProxyF.deploy(implAddr, initData, GAS);
     await proxy.waitForDeployment();
     if (proxy.deploymentTransaction()) await proxy.deploymentTransaction()!.wait(CONFIRMATIONS);
     const proxyAddr = await proxy.getAddress();
+    journal.record(label, { proxy: proxyAddr });
     log(`   ${label} proxy  → ${proxyAddr}`);
     await verifyIfLive(proxyAddr, [implAddr, initData]);
 
-    await save(label, {
-      abi: ImplF.interface.format("json") as string[],
-      address: proxyAddr,
-    });
+    return { ImplF, address: proxyAddr, implAddr };
+  }
 
-    addrs[label] = proxyAddr; // expose for later module args
+  // impl + proxy created (and tracked) by JeskeiProxyFactory; labels the
+  // factory already reports as active are never deployed twice
+  async function deployViaFactory(label: string, implFactoryName: string, initArgs: unknown[]) {
+    const proxyFactory = factoryAt();
+    const existing = await proxyFactory.getProxy(label);
+    if (existing.isActive && (await hasCode(ethers.provider, existing.proxyAddress))) {
+      const ImplF = await ethers.getContractFactory(implFactoryName);
+      const onChainImpl = await getImplementation(ethers.provider, existing.proxyAddress);
+      journal.record(label, { impl: onChainImpl, proxy: existing.proxyAddress });
+      log(`   ${label} proxy  → ${existing.proxyAddress} (factory, v${existing.version})`);
+      return { ImplF, address: existing.proxyAddress as string, implAddr: onChainImpl };
+    }
+
+    const { ImplF, implAddr } = await deployImpl(label, implFactoryName);
+    const initData = ImplF.interface.encodeFunctionData(initializerOf(implFactoryName), initArgs);
+
+    const deployFn = proxyFactory.getFunction("deployProxy");
+    const proxyAddr: string = await deployFn.staticCall(label, implAddr, initData, "1.0.0");
+    const txDeploy = await deployFn(label, implAddr, initData, "1.0.0", GAS);
+    await txDeploy.wait(CONFIRMATIONS);
+    journal.record(label, { proxy: proxyAddr });
+
+    log(`   ${label} proxy  → ${proxyAddr}`);
+    await verifyIfLive(proxyAddr, [implAddr, initData]);
+    return { ImplF, address: proxyAddr, implAddr };
   }
 
-  /* -------------------------------------------------------------------- */
-  /* 1. Infrastructure: ProxyFactory + UpgradeManager                     */
-  /* -------------------------------------------------------------------- */
+  // impl + UpgradeableBeacon created (and owned) by JeskeiProxyFactory; a
+  // beacon the factory already tracks is reused as is
+  async function deployBeacon(label: string, implFactoryName: string) {
+    const proxyFactory = factoryAt();
+    const BeaconF = await ethers.getContractFactory("UpgradeableBeacon");
+    const existing = await proxyFactory.getProxy(label);
+    if (
+      existing.isActive &&
+      (await proxyFactory.isBeacon(label)) &&
+      (await hasCode(ethers.provider, existing.proxyAddress))
+    ) {
+      const onChainImpl: string = await BeaconF.attach(existing.proxyAddress).getFunction("implementation")();
+      journal.record(label, { impl: onChainImpl, proxy: existing.proxyAddress });
+      log(`   ${label} beacon → ${existing.proxyAddress} (factory, v${existing.version})`);
+      return { ImplF: BeaconF, address: existing.proxyAddress as string, implAddr: onChainImpl };
+    }
+
+    const { implAddr } = await deployImpl(label, implFactoryName);
+    const deployFn = proxyFactory.getFunction("deployBeacon");
+    const beaconAddr: string = await deployFn.staticCall(label, implAddr, "1.0.0");
+    const txDeploy = await deployFn(label, implAddr, "1.0.0", GAS);
+    await txDeploy.wait(CONFIRMATIONS);
+    journal.record(label, { proxy: beaconAddr });
 
-  await deployUUPS("JeskeiProxyFactory", "JeskeiProxyFactory", "initialize", []);
-  await deployUUPS("UpgradeManager", "UpgradeManager", "initialize", [addrs.JeskeiProxyFactory, DAY]);
+    log(`   ${label} beacon → ${beaconAddr}`);
+    await verifyIfLive(beaconAddr, [implAddr, addrs.JeskeiProxyFactory]);
+    return { ImplF: BeaconF, address: beaconAddr, implAddr };
+  }
 
-  /* Attach factory proxy with correct ABI */
-  const ProxyFactoryABI = (await ethers.getContractFactory("JeskeiProxyFactory")).interface;
-  const proxyFactory = new ethers.Contract(addrs.JeskeiProxyFactory, ProxyFactoryABI, await ethers.getSigner(addrs.deployer));
+  // plain constructor deployment (no proxy)
+  async function deployPlain(label: string, factoryName: string, ctorArgs: unknown[]) {
+    const { ImplF, implAddr } = await deployImpl(label, factoryName, ctorArgs);
+    return { ImplF, address: implAddr, implAddr: undefined };
+  }
 
   /* -------------------------------------------------------------------- */
-  /* 2. Deploy every upgradeable module via ProxyFactory                   */
+  /* 1‑3. Infrastructure, factory modules and CommunityGovernance, in     */
+  /*      dependency order                                                */
   /* -------------------------------------------------------------------- */
 
-  for (const mod of MODULES) {
-    const ImplF = await ethers.getContractFactory(mod.impl);
-    const impl = await ImplF.deploy();
-    await impl.waitForDeployment();
-    if (impl.deploymentTransaction()) await impl.deploymentTransaction()!.wait(CONFIRMATIONS);
-    const implAddr = await impl.getAddress();
-
-    const initArgs = mod.args(addrs);
-    const initData = ImplF.interface.encodeFunctionData(mod.init, initArgs);
+  for (const mod of plan) {
+    const args = resolveArgs(mod, addrs, PROFILE);
+    const deployed =
+      mod.kind === "uups"
+        ? await deployUUPS(mod.label, mod.impl, args)
+        : mod.kind === "factory"
+          ? await deployViaFactory(mod.label, mod.impl, args)
+          : mod.kind === "beacon"
+            ? await deployBeacon(mod.label, mod.impl)
+            : await deployPlain(mod.label, mod.impl, args);
 
-    const deployFn = proxyFactory.getFunction("deployProxy");
-    const proxyAddr: string = await deployFn.staticCall(mod.label, implAddr, initData, "1.0.0");
-    const txDeploy = await deployFn(mod.label, implAddr, initData, "1.0.0");
-    await txDeploy.wait(CONFIRMATIONS);
-
-    log(`   ${mod.label} proxy  → ${proxyAddr}`);
-    await verifyIfLive(implAddr);
-    await verifyIfLive(proxyAddr, [implAddr, initData]);
+    // keep what a `jeskei:upgrade:execute` recorded while the proxy still runs that implementation
+    const previous = await deployments.getOrNull(mod.label);
+    const upgraded = deployed.implAddr !== undefined && previous?.implementation === deployed.implAddr;
     await save(mod.label, {
-      abi: ImplF.interface.format("json") as string[],
-      address: proxyAddr,
+      abi: upgraded ? previous!.abi : (deployed.ImplF.interface.format("json") as string[]),
+      address: deployed.address,
+      ...(deployed.implAddr && {
+        implementation: deployed.implAddr,
+        storageLayout:
+          upgraded && previous!.storageLayout ? previous!.storageLayout : await getStorageLayout(hre, mod.impl),
+      }),
     });
 
-    addrs[mod.label] = proxyAddr;
+    addrs[mod.label] = deployed.address; // expose for later module args
   }
 
   /* -------------------------------------------------------------------- */
-  /* 3. Non‑upgradeable CommunityGovernance (optional)                     */
+  /* 4. Set UpgradeManager as global upgrader                              */
   /* -------------------------------------------------------------------- */
 
-    const GovF = await ethers.getContractFactory("CommunityGovernance");
-  // constructor(address _assetRegistry, address _revenueDistributor)
-  const governance = await GovF.deploy(addrs.AssetRegistry, addrs.RevenueDistributor);
-  await governance.waitForDeployment();
-  if (governance.deploymentTransaction()) await governance.deploymentTransaction()!.wait(CONFIRMATIONS);
-  const govAddr = await governance.getAddress();
-  log(`   CommunityGovernance impl → ${govAddr}`);
-  await verifyIfLive(govAddr, [addrs.AssetRegistry, addrs.RevenueDistributor]);
-  await save("CommunityGovernance", {
-    abi: GovF.interface.format("json") as string[],
-    address: govAddr,
-  });
+  const proxyFactory = factoryAt();
+  const upgradeMgr = addrs.UpgradeManager;
+  if (await proxyFactory.authorizedUpgraders(upgradeMgr)) {
+    log("   UpgradeManager already authorised as upgrader ✅");
+  } else {
+    const tx = await proxyFactory.authorizeUpgrader(upgradeMgr, GAS);
+    await tx.wait(CONFIRMATIONS);
+    journal.recordUpgrader(upgradeMgr, tx.hash);
+    log("   UpgradeManager authorised as upgrader ✅");
+  }
 
   /* -------------------------------------------------------------------- */
-  /* 4. Set UpgradeManager as global upgrader                              */
+  /* 5. Let passed governance proposals act through GovernanceExecutor    */
   /* -------------------------------------------------------------------- */
 
-  const upgradeMgr = addrs.UpgradeManager;
-  await (await proxyFactory.authorizeUpgrader(upgradeMgr)).wait();
-  log("   UpgradeManager authorised as upgrader ✅");
+  const executor = addrs.GovernanceExecutor;
+  const governance = await ethers.getContractAt("CommunityGovernance", addrs.CommunityGovernance, deployer);
+  if ((await governance.executor()) === executor) {
+    log("   GovernanceExecutor already set on CommunityGovernance ✅");
+  } else {
+    await (await governance.setExecutor(executor, GAS)).wait(CONFIRMATIONS);
+    log("   GovernanceExecutor set on CommunityGovernance ✅");
+  }
+  if (await proxyFactory.authorizedExecutors(executor)) {
+    log("   GovernanceExecutor already authorised as executor ✅");
+  } else {
+    const tx = await proxyFactory.authorizeExecutor(executor, GAS);
+    await tx.wait(CONFIRMATIONS);
+    journal.recordExecutor(executor, tx.hash);
+    log("   GovernanceExecutor authorised as executor ✅");
+  }
+
+  /* -------------------------------------------------------------------- */
+  /* 6. Route EIP-2981 royalties of AssetRegistry to RevenueDistributor    */
+  /* -------------------------------------------------------------------- */
+
+  // the deployer's executor rights are revoked only if the journal shows a deploy
+  // granted them; a grant made any other way is deliberate and stays
+  if (await proxyFactory.authorizedExecutors(addrs.deployer)) {
+    if (journal.grantedExecutor(addrs.deployer)) {
+      await (await proxyFactory.revokeExecutor(addrs.deployer, GAS)).wait(CONFIRMATIONS);
+      journal.forgetExecutor(addrs.deployer);
+      log("   deployer executor granted by an earlier run revoked ✅");
+    } else {
+      log(`   ⚠︎ deployer ${addrs.deployer} is authorised as executor outside this deploy; left in place`);
+    }
+  }
+  const registry = await ethers.getContractAt("AssetRegistryUpgradeable", addrs.AssetRegistry, deployer);
+  if ((await registry.revenueDistributor()) === addrs.RevenueDistributor) {
+    log("   RevenueDistributor already set on AssetRegistry ✅");
+  } else if (await registry.hasRole(ethers.ZeroHash, addrs.deployer)) {
+    await (await registry.setRevenueDistributor(addrs.RevenueDistributor, GAS)).wait(CONFIRMATIONS);
+    log("   RevenueDistributor set on AssetRegistry ✅");
+  } else {
+    log(
+      `   ⚠︎ roleAdmin ${addrs.roleAdmin} must call AssetRegistry.setRevenueDistributor(${addrs.RevenueDistributor})`
+    );
+  }
 
   log("Jeskei full stack deployed ✔︎");
 };
@@ -1,7 +1,23 @@
-import { HardhatUserConfig } from "hardhat/config";
+import { HardhatUserConfig, extendEnvironment } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "hardhat-deploy";
 import * as dotenv from "dotenv";
+import "./tasks/verify-stack";
+import "./tasks/upgrade";
+import "./tasks/indexer";
+import "./tasks/payments";
+import "./tasks/ads";
+import "./tasks/governance";
+import "./tasks/studio";
+import "./tasks/migrate";
+import "./tasks/roles";
+import "./tasks/scenario";
+import {
+  assertNetworkReady,
+  buildExplorerKeys,
+  buildNamedAccounts,
+  buildNetworks,
+} from "./utils/networks";
 
 dotenv.config();
 
@@ -16,46 +32,16 @@ const config: HardhatUserConfig = {
       },
     },
   },
-  networks: {
-    // Local node for tests / scripts
-    hardhat: {
-      chainId: 31337,
-      allowUnlimitedContractSize: true, // dev‑only – lets you unit‑test oversize contracts
-    },
-
-    // Sepolia test‑net
-    sepolia: {
-      url: process.env.SEPOLIA_URL || "",
-      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
-      chainId: 11155111,
-    },
-  },
-  namedAccounts: {
-    // index → address mapping for deploy‑scripts
-    deployer: {
-      default: 0,
-      sepolia: process.env.DEPLOYER_ADDRESS || "",
-    },
-    hostingTreasury: {
-      default: 1,
-      sepolia: process.env.HOSTING_TREASURY || "",
-    },
-    platformTreasury: {
-      default: 2,
-      sepolia: process.env.PLATFORM_TREASURY || "",
-    },
-    adTreasury: {
-      default: 3,
-      sepolia: process.env.AD_TREASURY || "",
-    },
-    crowdfundingTreasury: {
-      default: 4,
-      sepolia: process.env.CROWDFUNDING_TREASURY || "",
-    },
-  },
+  // one entry per profile in utils/networks.ts
+  networks: buildNetworks(process.env),
+  namedAccounts: buildNamedAccounts(process.env),
   etherscan: {
-    apiKey: process.env.ETHERSCAN_API_KEY || "",
+    apiKey: buildExplorerKeys(process.env),
   },
 };
 
+// Fail before any task runs when the selected live network is missing its
+// RPC URL, deployer key or treasury addresses
+extendEnvironment((hre) => assertNetworkReady(hre.network.name, process.env));
+
 export default config;
\ No newline at end of file
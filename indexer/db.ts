@@ -0,0 +1,72 @@
+import * as fs from "fs";
+import * as path from "path";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import { SCHEMA } from "./schema";
+
+/**
+ * Thin wrapper around a sql.js (SQLite compiled to wasm) database.
+ *
+ * sql.js keeps the whole database in memory; `save()` writes it back to
+ * `file` (tmp file + rename, like the deployment journal) so a crash never
+ * leaves a truncated database behind. Without a file the database lives
+ * only as long as the process, which is what the tests use.
+ */
+export class IndexerDb {
+  private constructor(
+    private readonly db: Database,
+    readonly file: string | undefined
+  ) {}
+
+  static async open(file?: string): Promise<IndexerDb> {
+    const SQL = await initSqlJs();
+    const db = file && fs.existsSync(file) ? new SQL.Database(fs.readFileSync(file)) : new SQL.Database();
+    db.exec(SCHEMA);
+    return new IndexerDb(db, file);
+  }
+
+  run(sql: string, params: SqlValue[] = []): void {
+    this.db.run(sql, params);
+  }
+
+  all<T>(sql: string, params: SqlValue[] = []): T[] {
+    const stmt = this.db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: T[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject() as T);
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  get<T>(sql: string, params: SqlValue[] = []): T | undefined {
+    return this.all<T>(sql, params)[0];
+  }
+
+  /** Runs `fn` atomically; nothing it wrote survives an exception. */
+  transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  save(): void {
+    if (!this.file) return;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, Buffer.from(this.db.export()));
+    fs.renameSync(tmp, this.file);
+  }
+
+  close(): void {
+    this.save();
+    this.db.close();
+  }
+}
@@ -0,0 +1,6 @@
+export { IndexerDb } from "./db";
+export { EVENT_TABLES, SCHEMA } from "./schema";
+export type { EventTable } from "./schema";
+export { EventIndexer, INDEXED_MODULES, findDeploymentBlock } from "./indexer";
+export type { FollowOptions, IndexedModule, IndexerOptions, IndexerSource, SyncResult } from "./indexer";
+export * from "./queries";
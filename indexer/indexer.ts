@@ -0,0 +1,367 @@
+import { ethers, Interface, Log, Provider, Result } from "ethers";
+import type { SqlValue } from "sql.js";
+import {
+  AdvertisingEngineUpgradeable__factory,
+  AssetRegistryUpgradeable__factory,
+  CommunityGovernance__factory,
+  ContentAccessUpgradeable__factory,
+  JeskeiProxyFactory__factory,
+  PerformerAuthenticationUpgradeable__factory,
+  RevenueDistributorUpgradeable__factory,
+  StudioFactoryUpgradeable__factory,
+} from "../typechain-types";
+import { MODULES } from "../utils/modules";
+import { IndexerDb } from "./db";
+import { EVENT_TABLES, EventTable } from "./schema";
+
+/**
+ * Backfills platform events into an `IndexerDb` and then follows new blocks.
+ *
+ * Reorgs are detected by keeping the hashes of the last `reorgDepth` indexed
+ * blocks: before each sync the newest stored hash is compared with the chain,
+ * and on a mismatch everything above the deepest block that still matches is
+ * deleted and indexed again.
+ */
+
+interface Handler {
+  table: EventTable;
+  row(args: Result): Record<string, SqlValue>;
+}
+
+const dec = (v: unknown) => (v as bigint).toString();
+
+// Factory names are emitted as indexed strings (topic = keccak256(name))
+const MODULE_NAMES = new Map(MODULES.map((m) => [ethers.id(m.label), m.label]));
+
+const EVENTS = {
+  AssetRegistry: {
+    abi: AssetRegistryUpgradeable__factory.createInterface(),
+    handlers: {
+      AssetCreated: {
+        table: "assets",
+        row: (a) => ({
+          token_id: dec(a.tokenId),
+          creator: a.creator,
+          content_hash: a.contentHash,
+          asset_type: a.assetType,
+          price: dec(a.price),
+        }),
+      },
+      ContributorAdded: {
+        table: "contributors",
+        row: (a) => ({
+          asset_id: dec(a.tokenId),
+          contributor: a.contributor,
+          share_bps: Number(a.sharePercentage),
+          role: a.role,
+        }),
+      },
+      ContributorUpdated: {
+        table: "contributor_updates",
+        row: (a) => ({
+          asset_id: dec(a.tokenId),
+          contributor: a.contributor,
+          share_bps: Number(a.sharePercentage),
+          role: a.role,
+        }),
+      },
+      ContributorRemoved: {
+        table: "contributor_removals",
+        row: (a) => ({ asset_id: dec(a.tokenId), contributor: a.contributor }),
+      },
+      HostingFeePaid: {
+        table: "hosting_fees",
+        row: (a) => ({ creator: a.creator, amount: dec(a.amount), platform_fee: dec(a.platformFee) }),
+      },
+    },
+  },
+  RevenueDistributor: {
+    abi: RevenueDistributorUpgradeable__factory.createInterface(),
+    handlers: {
+      RevenueDistributed: {
+        table: "revenue_distributions",
+        row: (a) => ({ asset_id: dec(a.assetId), recipient: a.recipient, amount: dec(a.amount) }),
+      },
+    },
+  },
+  ContentAccess: {
+    abi: ContentAccessUpgradeable__factory.createInterface(),
+    handlers: {
+      AccessPurchased: {
+        table: "access_purchases",
+        row: (a) => ({ user: a.user, asset_id: dec(a.assetId), price: dec(a.price) }),
+      },
+    },
+  },
+  AdvertisingEngine: {
+    abi: AdvertisingEngineUpgradeable__factory.createInterface(),
+    handlers: {
+      CampaignCreated: {
+        table: "campaigns",
+        row: (a) => ({ campaign_id: dec(a.campaignId), advertiser: a.advertiser, budget: dec(a.budget) }),
+      },
+      AdViewed: {
+        table: "ad_views",
+        row: (a) => ({
+          campaign_id: dec(a.campaignId),
+          viewer: a.viewer,
+          creator: a.creator,
+          viewer_payment: dec(a.viewerPayment),
+          creator_payment: dec(a.creatorPayment),
+        }),
+      },
+    },
+  },
+  PerformerAuthentication: {
+    abi: PerformerAuthenticationUpgradeable__factory.createInterface(),
+    handlers: {
+      PerformerVerified: {
+        table: "performer_verifications",
+        row: (a) => ({ performer: a.performer, identity_hash: a.identityHash }),
+      },
+    },
+  },
+  CommunityGovernance: {
+    abi: CommunityGovernance__factory.createInterface(),
+    handlers: {
+      ProposalCreated: {
+        table: "governance_proposals",
+        row: (a) => ({ proposal_id: dec(a.proposalId), proposer: a.proposer, title: a.title }),
+      },
+      VoteCast: {
+        table: "governance_votes",
+        row: (a) => ({
+          proposal_id: dec(a.proposalId),
+          voter: a.voter,
+          support: a.support ? 1 : 0,
+          weight: dec(a.weight),
+        }),
+      },
+    },
+  },
+  StudioFactory: {
+    abi: StudioFactoryUpgradeable__factory.createInterface(),
+    handlers: {
+      StudioCreated: {
+        table: "studios",
+        row: (a) => ({ studio_id: dec(a.studioId), studio: a.studio, founder: a.founder, name: a.name }),
+      },
+    },
+  },
+  JeskeiProxyFactory: {
+    abi: JeskeiProxyFactory__factory.createInterface(),
+    handlers: {
+      ProxyUpgraded: {
+        table: "proxy_upgrades",
+        row: (a) => ({
+          contract_name: MODULE_NAMES.get(a.contractName.hash) ?? null,
+          contract_name_hash: a.contractName.hash,
+          proxy: a.proxyAddress,
+          old_implementation: a.oldImplementation,
+          new_implementation: a.newImplementation,
+          new_version: a.newVersion,
+        }),
+      },
+    },
+  },
+} satisfies Record<string, { abi: Interface; handlers: Record<string, Handler> }>;
+
+export type IndexedModule = keyof typeof EVENTS;
+export const INDEXED_MODULES = Object.keys(EVENTS) as IndexedModule[];
+
+export interface IndexerSource {
+  module: IndexedModule;
+  address: string;
+  /** First block to scan, normally the block the module was deployed in. */
+  startBlock: number;
+}
+
+export interface IndexerOptions {
+  /** Blocks per `eth_getLogs` call. */
+  batchSize?: number;
+  /** How many recent block hashes are kept for reorg detection. */
+  reorgDepth?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  /** Set when a reorg was detected: the first block that was re‑indexed. */
+  reorgedFrom?: number;
+}
+
+export interface FollowOptions {
+  intervalMs?: number;
+  /** Longest wait between retries while syncs keep failing; 60s by default. */
+  maxBackoffMs?: number;
+  onSync?(result: SyncResult): void;
+  /** Called for every failed sync (logged to stderr by default); the loop keeps retrying. */
+  onError?(err: unknown): void;
+}
+
+/** Lowest block at which `address` has code (binary search; needs an archive node for old blocks). */
+export async function findDeploymentBlock(provider: Provider, address: string): Promise<number> {
+  let lo = 0;
+  let hi = await provider.getBlockNumber();
+  if ((await provider.getCode(address, hi)) === "0x") throw new Error(`${address} has no code`);
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if ((await provider.getCode(address, mid)) === "0x") lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+export class EventIndexer {
+  private readonly byAddress = new Map<string, IndexedModule>();
+  private readonly batchSize: number;
+  private readonly reorgDepth: number;
+
+  constructor(
+    readonly db: IndexerDb,
+    readonly provider: Provider,
+    readonly sources: IndexerSource[],
+    opts: IndexerOptions = {}
+  ) {
+    if (sources.length === 0) throw new Error("EventIndexer needs at least one source");
+    for (const s of sources) this.byAddress.set(s.address.toLowerCase(), s.module);
+    this.batchSize = opts.batchSize ?? 2000;
+    this.reorgDepth = opts.reorgDepth ?? 64;
+  }
+
+  /** Last indexed block, if any. */
+  get lastBlock(): number | undefined {
+    return this.db.get<{ number: number }>("SELECT MAX(number) AS number FROM blocks")?.number ?? undefined;
+  }
+
+  /** Indexes everything up to the current head. */
+  async sync(): Promise<SyncResult> {
+    const head = await this.provider.getBlockNumber();
+    let reorgedFrom: number | undefined;
+
+    const last = this.lastBlock;
+    let cursor = Math.min(...this.sources.map((s) => s.startBlock)) - 1;
+    if (last !== undefined) {
+      cursor = await this.commonAncestor();
+      if (cursor !== last) {
+        this.rollback(cursor);
+        reorgedFrom = cursor + 1;
+      }
+    }
+
+    let events = 0;
+    const fromBlock = cursor + 1;
+    for (let start = fromBlock; start <= head; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, head);
+      const logs = await this.provider.getLogs({
+        address: this.sources.map((s) => s.address),
+        fromBlock: start,
+        toBlock: end,
+      });
+      // hashes for the reorg window, plus the batch end as the resume cursor
+      const tracked = new Map<number, string>();
+      for (let n = Math.max(start, head - this.reorgDepth + 1); n <= end; n++) {
+        tracked.set(n, (await this.provider.getBlock(n))!.hash!);
+      }
+      if (!tracked.has(end)) tracked.set(end, (await this.provider.getBlock(end))!.hash!);
+
+      this.db.transaction(() => {
+        for (const log of logs) if (this.insert(log)) events++;
+        for (const [number, hash] of tracked) {
+          this.db.run("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)", [number, hash]);
+        }
+        this.db.run("DELETE FROM blocks WHERE number <= ?", [end - this.reorgDepth]);
+      });
+      this.db.save();
+    }
+
+    return { fromBlock, toBlock: head, events, reorgedFrom };
+  }
+
+  /**
+   * Polls `sync()` until the returned `stop()` is called. A failed sync never
+   * ends the loop: it is reported and retried, backing off exponentially up to
+   * `maxBackoffMs` until a sync succeeds again.
+   */
+  follow(opts: FollowOptions = {}): { stop(): Promise<void> } {
+    const interval = opts.intervalMs ?? 2000;
+    const onError = opts.onError ?? ((err: unknown) => console.error(`indexer sync failed: ${(err as Error).message}`));
+    let stopped = false;
+    let failures = 0;
+    let wake: (() => void) | undefined;
+    const loop = (async () => {
+      while (!stopped) {
+        try {
+          const result = await this.sync();
+          failures = 0;
+          opts.onSync?.(result);
+        } catch (err) {
+          failures++;
+          try {
+            onError(err);
+          } catch {
+            // a throwing handler must not end the loop either
+          }
+        }
+        if (stopped) break;
+        const delay = failures ? Math.min(interval * 2 ** failures, opts.maxBackoffMs ?? 60_000) : interval;
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, delay);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+      }
+    })();
+    return {
+      async stop() {
+        stopped = true;
+        wake?.();
+        await loop;
+      },
+    };
+  }
+
+  // --------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------
+
+  private async commonAncestor(): Promise<number> {
+    const stored = this.db.all<{ number: number; hash: string }>(
+      "SELECT number, hash FROM blocks ORDER BY number DESC"
+    );
+    for (const { number, hash } of stored) {
+      const block = await this.provider.getBlock(number);
+      if (block?.hash === hash) return number;
+    }
+    throw new Error(
+      `Reorg deeper than the ${stored.length} tracked blocks; remove ${this.db.file ?? "the database"} and re-index`
+    );
+  }
+
+  private rollback(toBlock: number): void {
+    this.db.transaction(() => {
+      for (const table of EVENT_TABLES) this.db.run(`DELETE FROM ${table} WHERE block_number > ?`, [toBlock]);
+      this.db.run("DELETE FROM blocks WHERE number > ?", [toBlock]);
+    });
+  }
+
+  private insert(log: Log): boolean {
+    const module = this.byAddress.get(log.address.toLowerCase());
+    if (!module) return false;
+    const { abi, handlers } = EVENTS[module];
+    const parsed = abi.parseLog({ topics: [...log.topics], data: log.data });
+    const handler = parsed && (handlers as Record<string, Handler>)[parsed.name];
+    if (!handler) return false;
+
+    const row = handler.row(parsed.args);
+    const columns = ["block_number", "log_index", "tx_hash", "contract", ...Object.keys(row)];
+    this.db.run(
+      `INSERT OR REPLACE INTO ${handler.table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+      [log.blockNumber, log.index, log.transactionHash, log.address, ...Object.values(row)]
+    );
+    return true;
+  }
+}
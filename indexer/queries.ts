@@ -0,0 +1,243 @@
+import { getAddress } from "ethers";
+import type { SqlValue } from "sql.js";
+import { IndexerDb } from "./db";
+
+/**
+ * Typed read side of the index. Amounts are summed as bigint in JS because
+ * they are stored as decimal TEXT; address arguments may use any casing.
+ */
+
+export interface ContributorEarnings {
+  assetId: bigint;
+  contributor: string;
+  total: bigint;
+  /** Number of `RevenueDistributed` payments. */
+  payments: number;
+}
+
+export interface AssetContributor {
+  assetId: bigint;
+  contributor: string;
+  shareBps: number;
+  role: string;
+  /** Block of the add or update that set the current share. */
+  blockNumber: number;
+}
+
+export interface Purchase {
+  assetId: bigint;
+  price: bigint;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface UserPurchases {
+  user: string;
+  purchases: number;
+  totalSpent: bigint;
+}
+
+export interface CampaignSpend {
+  campaignId: bigint;
+  advertiser: string;
+  budget: bigint;
+  views: number;
+  viewerPayments: bigint;
+  creatorPayments: bigint;
+  /** Viewer + creator payouts; the platform fee is not part of `AdViewed`. */
+  paidOut: bigint;
+}
+
+export interface IndexedAsset {
+  tokenId: bigint;
+  creator: string;
+  contentHash: string;
+  assetType: string;
+  price: bigint;
+  blockNumber: number;
+}
+
+export interface IndexedStudio {
+  studioId: bigint;
+  studio: string;
+  founder: string;
+  name: string;
+  blockNumber: number;
+}
+
+export interface ProxyUpgrade {
+  /** Module label, when the indexed name hash matches a known module. */
+  contractName: string | null;
+  proxy: string;
+  oldImplementation: string;
+  newImplementation: string;
+  newVersion: string;
+  blockNumber: number;
+}
+
+function where(filters: [string, SqlValue | undefined][]): [string, SqlValue[]] {
+  const used = filters.filter(([, v]) => v !== undefined) as [string, SqlValue][];
+  return [used.length ? `WHERE ${used.map(([col]) => `${col} = ?`).join(" AND ")}` : "", used.map(([, v]) => v)];
+}
+
+export function earningsPerContributor(
+  db: IndexerDb,
+  filter: { assetId?: bigint; contributor?: string } = {}
+): ContributorEarnings[] {
+  const [clause, params] = where([
+    ["asset_id", filter.assetId?.toString()],
+    ["recipient", filter.contributor && getAddress(filter.contributor)],
+  ]);
+  const rows = db.all<{ asset_id: string; recipient: string; amount: string }>(
+    `SELECT asset_id, recipient, amount FROM revenue_distributions ${clause}`,
+    params
+  );
+
+  const byKey = new Map<string, ContributorEarnings>();
+  for (const row of rows) {
+    const key = `${row.asset_id}:${row.recipient}`;
+    const entry = byKey.get(key) ?? { assetId: BigInt(row.asset_id), contributor: row.recipient, total: 0n, payments: 0 };
+    entry.total += BigInt(row.amount);
+    entry.payments++;
+    byKey.set(key, entry);
+  }
+  return [...byKey.values()].sort((a, b) =>
+    a.assetId === b.assetId ? a.contributor.localeCompare(b.contributor) : a.assetId < b.assetId ? -1 : 1
+  );
+}
+
+/**
+ * Current contributors, replayed from their added, updated and removed
+ * events in chain order; the event tables themselves keep the history.
+ */
+export function assetContributors(db: IndexerDb, assetId?: bigint): AssetContributor[] {
+  const [clause, params] = where([["asset_id", assetId?.toString()]]);
+  const changes = db.all<{
+    asset_id: string;
+    contributor: string;
+    share_bps: number;
+    role: string;
+    block_number: number;
+  }>(
+    `SELECT asset_id, contributor, share_bps, role, block_number, log_index FROM (
+       SELECT asset_id, contributor, share_bps, role, block_number, log_index FROM contributors
+       UNION ALL SELECT asset_id, contributor, share_bps, role, block_number, log_index FROM contributor_updates
+       UNION ALL SELECT asset_id, contributor, 0, '', block_number, log_index FROM contributor_removals
+     ) ${clause} ORDER BY block_number, log_index`,
+    params
+  );
+
+  const current = new Map<string, AssetContributor>();
+  for (const c of changes) {
+    const key = `${c.asset_id}:${c.contributor}`;
+    if (c.share_bps === 0) current.delete(key);
+    else {
+      current.set(key, {
+        assetId: BigInt(c.asset_id),
+        contributor: c.contributor,
+        shareBps: c.share_bps,
+        role: c.role,
+        blockNumber: c.block_number,
+      });
+    }
+  }
+  return [...current.values()].sort((a, b) =>
+    a.assetId === b.assetId ? a.contributor.localeCompare(b.contributor) : a.assetId < b.assetId ? -1 : 1
+  );
+}
+
+export function purchasesByUser(db: IndexerDb, user: string): Purchase[] {
+  return db
+    .all<{ asset_id: string; price: string; block_number: number; tx_hash: string }>(
+      "SELECT asset_id, price, block_number, tx_hash FROM access_purchases WHERE user = ? ORDER BY block_number, log_index",
+      [getAddress(user)]
+    )
+    .map((r) => ({ assetId: BigInt(r.asset_id), price: BigInt(r.price), blockNumber: r.block_number, txHash: r.tx_hash }));
+}
+
+export function purchasesPerUser(db: IndexerDb): UserPurchases[] {
+  const totals = new Map<string, UserPurchases>();
+  for (const row of db.all<{ user: string; price: string }>("SELECT user, price FROM access_purchases")) {
+    const entry = totals.get(row.user) ?? { user: row.user, purchases: 0, totalSpent: 0n };
+    entry.purchases++;
+    entry.totalSpent += BigInt(row.price);
+    totals.set(row.user, entry);
+  }
+  return [...totals.values()].sort((a, b) => (a.totalSpent === b.totalSpent ? 0 : a.totalSpent > b.totalSpent ? -1 : 1));
+}
+
+export function spendPerCampaign(db: IndexerDb, campaignId?: bigint): CampaignSpend[] {
+  const [clause, params] = where([["campaign_id", campaignId?.toString()]]);
+  const campaigns = db.all<{ campaign_id: string; advertiser: string; budget: string }>(
+    `SELECT campaign_id, advertiser, budget FROM campaigns ${clause} ORDER BY block_number, log_index`,
+    params
+  );
+  return campaigns.map((c) => {
+    const views = db.all<{ viewer_payment: string; creator_payment: string }>(
+      "SELECT viewer_payment, creator_payment FROM ad_views WHERE campaign_id = ?",
+      [c.campaign_id]
+    );
+    const viewerPayments = views.reduce((sum, v) => sum + BigInt(v.viewer_payment), 0n);
+    const creatorPayments = views.reduce((sum, v) => sum + BigInt(v.creator_payment), 0n);
+    return {
+      campaignId: BigInt(c.campaign_id),
+      advertiser: c.advertiser,
+      budget: BigInt(c.budget),
+      views: views.length,
+      viewerPayments,
+      creatorPayments,
+      paidOut: viewerPayments + creatorPayments,
+    };
+  });
+}
+
+export function assetsByCreator(db: IndexerDb, creator: string): IndexedAsset[] {
+  return db
+    .all<{ token_id: string; creator: string; content_hash: string; asset_type: string; price: string; block_number: number }>(
+      "SELECT token_id, creator, content_hash, asset_type, price, block_number FROM assets WHERE creator = ? ORDER BY block_number, log_index",
+      [getAddress(creator)]
+    )
+    .map((r) => ({
+      tokenId: BigInt(r.token_id),
+      creator: r.creator,
+      contentHash: r.content_hash,
+      assetType: r.asset_type,
+      price: BigInt(r.price),
+      blockNumber: r.block_number,
+    }));
+}
+
+export function studiosByFounder(db: IndexerDb, founder: string): IndexedStudio[] {
+  return db
+    .all<{ studio_id: string; studio: string; founder: string; name: string; block_number: number }>(
+      "SELECT studio_id, studio, founder, name, block_number FROM studios WHERE founder = ? ORDER BY block_number, log_index",
+      [getAddress(founder)]
+    )
+    .map((r) => ({
+      studioId: BigInt(r.studio_id),
+      studio: r.studio,
+      founder: r.founder,
+      name: r.name,
+      blockNumber: r.block_number,
+    }));
+}
+
+export function proxyUpgrades(db: IndexerDb): ProxyUpgrade[] {
+  return db
+    .all<{
+      contract_name: string | null;
+      proxy: string;
+      old_implementation: string;
+      new_implementation: string;
+      new_version: string;
+      block_number: number;
+    }>("SELECT * FROM proxy_upgrades ORDER BY block_number, log_index")
+    .map((r) => ({
+      contractName: r.contract_name,
+      proxy: r.proxy,
+      oldImplementation: r.old_implementation,
+      newImplementation: r.new_implementation,
+      newVersion: r.new_version,
+      blockNumber: r.block_number,
+    }));
+}
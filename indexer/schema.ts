@@ -0,0 +1,155 @@
+/**
+ * SQLite schema of the event index.
+ *
+ * Every event table is keyed by `(block_number, log_index)`, which makes
+ * re‑processing a block idempotent and a reorg rollback a single
+ * `DELETE … WHERE block_number > ?` per table. uint256 values are stored as
+ * decimal TEXT (SQLite integers are 64‑bit) and summed as bigint by the
+ * query functions; addresses are stored checksummed.
+ */
+
+/** Tables holding decoded events, one per indexed event. */
+export const EVENT_TABLES = [
+  "assets",
+  "contributors",
+  "contributor_updates",
+  "contributor_removals",
+  "hosting_fees",
+  "revenue_distributions",
+  "access_purchases",
+  "campaigns",
+  "ad_views",
+  "performer_verifications",
+  "governance_proposals",
+  "governance_votes",
+  "studios",
+  "proxy_upgrades",
+] as const;
+
+export type EventTable = (typeof EVENT_TABLES)[number];
+
+const LOCATION = `
+  block_number INTEGER NOT NULL,
+  log_index    INTEGER NOT NULL,
+  tx_hash      TEXT    NOT NULL,
+  contract     TEXT    NOT NULL,`;
+const KEY = "PRIMARY KEY (block_number, log_index)";
+
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash   TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS assets (${LOCATION}
+  token_id     TEXT NOT NULL,
+  creator      TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  asset_type   TEXT NOT NULL,
+  price        TEXT NOT NULL,
+  ${KEY}
+);
+CREATE INDEX IF NOT EXISTS assets_creator ON assets (creator);
+
+CREATE TABLE IF NOT EXISTS contributors (${LOCATION}
+  asset_id    TEXT    NOT NULL,
+  contributor TEXT    NOT NULL,
+  share_bps   INTEGER NOT NULL,
+  role        TEXT    NOT NULL,
+  ${KEY}
+);
+
+CREATE TABLE IF NOT EXISTS contributor_updates (${LOCATION}
+  asset_id    TEXT    NOT NULL,
+  contributor TEXT    NOT NULL,
+  share_bps   INTEGER NOT NULL,
+  role        TEXT    NOT NULL,
+  ${KEY}
+);
+
+CREATE TABLE IF NOT EXISTS contributor_removals (${LOCATION}
+  asset_id    TEXT NOT NULL,
+  contributor TEXT NOT NULL,
+  ${KEY}
+);
+
+CREATE TABLE IF NOT EXISTS hosting_fees (${LOCATION}
+  creator      TEXT NOT NULL,
+  amount       TEXT NOT NULL,
+  platform_fee TEXT NOT NULL,
+  ${KEY}
+);
+
+CREATE TABLE IF NOT EXISTS revenue_distributions (${LOCATION}
+  asset_id  TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  amount    TEXT NOT NULL,
+  ${KEY}
+);
+CREATE INDEX IF NOT EXISTS revenue_distributions_asset ON revenue_distributions (asset_id, recipient);
+
+CREATE TABLE IF NOT EXISTS access_purchases (${LOCATION}
+  user     TEXT NOT NULL,
+  asset_id TEXT NOT NULL,
+  price    TEXT NOT NULL,
+  ${KEY}
+);
+CREATE INDEX IF NOT EXISTS access_purchases_user ON access_purchases (user);
+
+CREATE TABLE IF NOT EXISTS campaigns (${LOCATION}
+  campaign_id TEXT NOT NULL,
+  advertiser  TEXT NOT NULL,
+  budget      TEXT NOT NULL,
+  ${KEY}
+);
+
+CREATE TABLE IF NOT EXISTS ad_views (${LOCATION}
+  campaign_id     TEXT NOT NULL,
+  viewer          TEXT NOT NULL,
+  creator         TEXT NOT NULL,
+  viewer_payment  TEXT NOT NULL,
+  creator_payment TEXT NOT NULL,
+  ${KEY}
+);
+CREATE INDEX IF NOT EXISTS ad_views_campaign ON ad_views (campaign_id);
+
+CREATE TABLE IF NOT EXISTS performer_verifications (${LOCATION}
+  performer     TEXT NOT NULL,
+  identity_hash TEXT NOT NULL,
+  ${KEY}
+);
+
+CREATE TABLE IF NOT EXISTS governance_proposals (${LOCATION}
+  proposal_id TEXT NOT NULL,
+  proposer    TEXT NOT NULL,
+  title       TEXT NOT NULL,
+  ${KEY}
+);
+
+CREATE TABLE IF NOT EXISTS governance_votes (${LOCATION}
+  proposal_id TEXT    NOT NULL,
+  voter       TEXT    NOT NULL,
+  support     INTEGER NOT NULL,
+  weight      TEXT    NOT NULL,
+  ${KEY}
+);
+
+CREATE TABLE IF NOT EXISTS studios (${LOCATION}
+  studio_id TEXT NOT NULL,
+  studio    TEXT NOT NULL,
+  founder   TEXT NOT NULL,
+  name      TEXT NOT NULL,
+  ${KEY}
+);
+CREATE INDEX IF NOT EXISTS studios_founder ON studios (founder);
+
+CREATE TABLE IF NOT EXISTS proxy_upgrades (${LOCATION}
+  contract_name      TEXT,
+  contract_name_hash TEXT NOT NULL,
+  proxy              TEXT NOT NULL,
+  old_implementation TEXT NOT NULL,
+  new_implementation TEXT NOT NULL,
+  new_version        TEXT NOT NULL,
+  ${KEY}
+);
+`;
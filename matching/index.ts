@@ -0,0 +1,15 @@
+export { PACING_STRATEGIES, UNTARGETED_RELEVANCE, rankCampaigns, viewCost } from "./matcher";
+export type {
+  AssetInfo,
+  CampaignMatch,
+  CampaignState,
+  MarketSnapshot,
+  MatchOptions,
+  MatchResult,
+  PacingStrategy,
+  RejectionReason,
+} from "./matcher";
+export { AdMatcher, ChainMatchingSource } from "./source";
+export type { AssetTagResolver, MatchingSource } from "./source";
+export { simulate } from "./simulation";
+export type { CampaignReport, SimulatedCampaign, SimulationConfig, SimulationReport } from "./simulation";
@@ -0,0 +1,181 @@
+/**
+ * Campaign ranking for a single impression: which active campaigns may show
+ * an ad to `viewer` next to `asset`, best first.
+ *
+ * Everything here is pure – it works on a `MarketSnapshot` – so the chain
+ * source and the simulator rank with exactly the same rules.
+ */
+
+export interface CampaignState {
+  id: bigint;
+  advertiser: string;
+  budget: bigint;
+  spent: bigint;
+  viewerPaymentRate: bigint;
+  creatorPaymentRate: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  isActive: boolean;
+  targetingTags: string[];
+}
+
+export interface AssetInfo {
+  id: bigint;
+  creator: string;
+  assetType: string;
+  /** Tags the asset is matched on; the asset type is always one of them. */
+  tags: string[];
+}
+
+export interface MarketSnapshot {
+  /** Block timestamp the snapshot is valid for. */
+  now: bigint;
+  /** AdvertisingEngine is paused: nothing can settle. */
+  paused: boolean;
+  platformAdFee: bigint;
+  campaigns: CampaignState[];
+  /** Number of campaigns ever created per tag (`getTagPopularity`). */
+  tagPopularity: Map<string, bigint>;
+}
+
+/**
+ * Bid multiplier for a campaign at `now`: above 1 speeds delivery up, below 1
+ * holds it back, 0 withholds the campaign from this impression.
+ */
+export type PacingStrategy = (campaign: CampaignState, now: bigint) => number;
+
+export const PACING_STRATEGIES = {
+  /** Deliver as fast as the budget allows. */
+  asap: () => 1,
+  /**
+   * Spend evenly over the flight: campaigns behind schedule are boosted,
+   * campaigns ahead of it damped, both by at most 4×.
+   */
+  even: (campaign: CampaignState, now: bigint) => {
+    const flight = Number(campaign.endTime - campaign.startTime);
+    if (flight <= 0 || campaign.budget === 0n) return 1;
+    const elapsed = Math.min(1, Math.max(0, Number(now - campaign.startTime) / flight));
+    const spent = Number(campaign.spent) / Number(campaign.budget);
+    return Math.min(4, Math.max(0.25, (elapsed + 0.05) / (spent + 0.05)));
+  },
+} satisfies Record<string, PacingStrategy>;
+
+export type RejectionReason =
+  | "paused"
+  | "inactive"
+  | "not-started"
+  | "expired"
+  | "budget"
+  | "frequency"
+  | "own-campaign"
+  | "no-tag-match"
+  | "paced-out";
+
+export interface CampaignMatch {
+  campaignId: bigint;
+  score: number;
+  matchedTags: string[];
+  /** Wei charged to the campaign per settled view, fee included. */
+  viewCost: bigint;
+  remainingBudget: bigint;
+  /** Views of this campaign already in the viewer's history. */
+  viewerViews: number;
+}
+
+export interface MatchResult {
+  matches: CampaignMatch[];
+  rejected: { campaignId: bigint; reason: RejectionReason }[];
+}
+
+export interface MatchOptions {
+  /** Views of one campaign a viewer may accumulate (default 3). */
+  maxViewsPerViewer?: number;
+  pacing?: PacingStrategy;
+  /** Cap on returned matches (default: all eligible). */
+  limit?: number;
+}
+
+/** Relevance of a campaign without targeting tags; a matched tag scores at most 1. */
+export const UNTARGETED_RELEVANCE = 0.25;
+
+export function viewCost(campaign: CampaignState, platformAdFee: bigint): bigint {
+  const payment = campaign.viewerPaymentRate + campaign.creatorPaymentRate;
+  return payment + (payment * platformAdFee) / 10000n;
+}
+
+/**
+ * Ranks the snapshot's campaigns for one impression. Score is relevance ×
+ * bid × pacing ÷ (1 + earlier views by this viewer); rarer tags count more
+ * towards relevance than popular ones. Ties go to the older campaign.
+ */
+export function rankCampaigns(
+  market: MarketSnapshot,
+  asset: AssetInfo,
+  viewer: string,
+  viewerHistory: readonly bigint[],
+  options: MatchOptions = {}
+): MatchResult {
+  const maxViews = options.maxViewsPerViewer ?? 3;
+  const pacing = options.pacing ?? PACING_STRATEGIES.even;
+  const assetTags = new Set([asset.assetType, ...asset.tags].map(normalizeTag));
+  const views = new Map<bigint, number>();
+  for (const id of viewerHistory) views.set(id, (views.get(id) ?? 0) + 1);
+
+  const result: MatchResult = { matches: [], rejected: [] };
+  for (const campaign of market.campaigns) {
+    const reject = (reason: RejectionReason) => result.rejected.push({ campaignId: campaign.id, reason });
+    const cost = viewCost(campaign, market.platformAdFee);
+    const remainingBudget = campaign.budget - campaign.spent;
+    const viewerViews = views.get(campaign.id) ?? 0;
+
+    if (market.paused) reject("paused");
+    else if (!campaign.isActive) reject("inactive");
+    else if (market.now < campaign.startTime) reject("not-started");
+    else if (market.now > campaign.endTime) reject("expired");
+    else if (remainingBudget < cost) reject("budget");
+    else if (sameAddress(viewer, campaign.advertiser) || sameAddress(viewer, asset.creator)) reject("own-campaign");
+    else if (viewerViews >= maxViews) reject("frequency");
+    else {
+      const matchedTags = campaign.targetingTags.filter((t) => assetTags.has(normalizeTag(t)));
+      if (campaign.targetingTags.length > 0 && matchedTags.length === 0) {
+        reject("no-tag-match");
+        continue;
+      }
+      const relevance =
+        matchedTags.length === 0
+          ? UNTARGETED_RELEVANCE
+          : matchedTags.reduce((sum, tag) => sum + specificity(market.tagPopularity.get(tag) ?? 0n), 0);
+      const paced = pacing(campaign, market.now);
+      if (paced <= 0) {
+        reject("paced-out");
+        continue;
+      }
+      const bid = Number(cost) / 1e18;
+      result.matches.push({
+        campaignId: campaign.id,
+        score: (relevance * bid * paced) / (1 + viewerViews),
+        matchedTags,
+        viewCost: cost,
+        remainingBudget,
+        viewerViews,
+      });
+    }
+  }
+
+  result.matches.sort((a, b) => b.score - a.score || (a.campaignId < b.campaignId ? -1 : 1));
+  if (options.limit !== undefined) result.matches = result.matches.slice(0, options.limit);
+  return result;
+}
+
+// 1 for a tag only this campaign uses, falling off logarithmically
+function specificity(popularity: bigint): number {
+  return 1 / (1 + Math.log2(Math.max(1, Number(popularity))));
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
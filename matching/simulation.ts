@@ -0,0 +1,123 @@
+import { AssetInfo, CampaignState, MatchOptions, PacingStrategy, rankCampaigns, viewCost } from "./matcher";
+
+/**
+ * Deterministic replay of an ad market for tuning pacing: impressions are
+ * drawn from a seeded PRNG, each one goes to the top-ranked campaign and is
+ * charged exactly as `recordAdView` would charge it. The same config always
+ * produces the same report, so strategies can be compared run against run.
+ */
+
+export interface SimulatedCampaign {
+  advertiser: string;
+  budget: bigint;
+  viewerPaymentRate: bigint;
+  creatorPaymentRate: bigint;
+  /** Seconds after the simulation start. */
+  start?: number;
+  duration: number;
+  targetingTags: string[];
+}
+
+export interface SimulationConfig {
+  seed: number;
+  /** Number of impressions to serve. */
+  impressions: number;
+  /** Seconds between impressions. */
+  interval: number;
+  campaigns: SimulatedCampaign[];
+  assets: AssetInfo[];
+  viewers: string[];
+  /** Basis points on top of each view payment (default 1000, as on chain). */
+  platformAdFee?: bigint;
+  pacing?: PacingStrategy;
+  maxViewsPerViewer?: number;
+  startTime?: bigint;
+}
+
+export interface CampaignReport {
+  campaignId: bigint;
+  impressions: number;
+  spent: bigint;
+  /** Share of the budget spent. */
+  delivery: number;
+  /** Impression index at which the budget could no longer pay for a view. */
+  exhaustedAt?: number;
+}
+
+export interface SimulationReport {
+  filled: number;
+  unfilled: number;
+  campaigns: CampaignReport[];
+  /** Winning campaign per impression, undefined when unfilled. */
+  winners: (bigint | undefined)[];
+}
+
+export function simulate(config: SimulationConfig): SimulationReport {
+  const random = mulberry32(config.seed);
+  const startTime = config.startTime ?? 1_700_000_000n;
+  const platformAdFee = config.platformAdFee ?? 1000n;
+  const options: MatchOptions = { pacing: config.pacing, maxViewsPerViewer: config.maxViewsPerViewer };
+
+  const campaigns: CampaignState[] = config.campaigns.map((c, i) => ({
+    id: BigInt(i),
+    advertiser: c.advertiser,
+    budget: c.budget,
+    spent: 0n,
+    viewerPaymentRate: c.viewerPaymentRate,
+    creatorPaymentRate: c.creatorPaymentRate,
+    startTime: startTime + BigInt(c.start ?? 0),
+    endTime: startTime + BigInt((c.start ?? 0) + c.duration),
+    isActive: true,
+    targetingTags: c.targetingTags,
+  }));
+  const tagPopularity = new Map<string, bigint>();
+  for (const tag of campaigns.flatMap((c) => c.targetingTags)) {
+    tagPopularity.set(tag, (tagPopularity.get(tag) ?? 0n) + 1n);
+  }
+  const history = new Map<string, bigint[]>(config.viewers.map((v) => [v, []]));
+  const reports: CampaignReport[] = campaigns.map((c) => ({
+    campaignId: c.id,
+    impressions: 0,
+    spent: 0n,
+    delivery: 0,
+  }));
+  const winners: (bigint | undefined)[] = [];
+
+  for (let i = 0; i < config.impressions; i++) {
+    const now = startTime + BigInt(i * config.interval);
+    const viewer = config.viewers[Math.floor(random() * config.viewers.length)];
+    const asset = config.assets[Math.floor(random() * config.assets.length)];
+    const market = { now, paused: false, platformAdFee, campaigns, tagPopularity };
+    const [winner] = rankCampaigns(market, asset, viewer, history.get(viewer)!, options).matches;
+
+    winners.push(winner?.campaignId);
+    if (!winner) continue;
+    const campaign = campaigns[Number(winner.campaignId)];
+    campaign.spent += winner.viewCost;
+    history.get(viewer)!.push(campaign.id);
+    const report = reports[Number(campaign.id)];
+    report.impressions++;
+    report.spent = campaign.spent;
+    if (report.exhaustedAt === undefined && campaign.budget - campaign.spent < viewCost(campaign, platformAdFee)) {
+      report.exhaustedAt = i;
+    }
+  }
+
+  for (const report of reports) {
+    report.delivery = Number(report.spent) / Number(campaigns[Number(report.campaignId)].budget);
+  }
+  const filled = winners.filter((w) => w !== undefined).length;
+  return { filled, unfilled: winners.length - filled, campaigns: reports, winners };
+}
+
+// Small, fast and good enough for sampling; identical output on every platform
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
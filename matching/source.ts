@@ -0,0 +1,99 @@
+import type { Provider } from "ethers";
+import {
+  AdvertisingEngineUpgradeable,
+  AdvertisingEngineUpgradeable__factory,
+  AssetRegistryUpgradeable,
+  AssetRegistryUpgradeable__factory,
+} from "../typechain-types";
+import { AssetInfo, CampaignState, MarketSnapshot, MatchOptions, MatchResult, rankCampaigns } from "./matcher";
+
+/** Where the matcher reads campaigns, assets and viewer history from. */
+export interface MatchingSource {
+  snapshot(): Promise<MarketSnapshot>;
+  asset(assetId: bigint): Promise<AssetInfo>;
+  viewerHistory(viewer: string): Promise<bigint[]>;
+}
+
+/**
+ * Extra tags for an asset, e.g. parsed from its metadata JSON. The on-chain
+ * `assetType` is always matched on as well.
+ */
+export type AssetTagResolver = (asset: { id: bigint; metadataURI: string; assetType: string }) => Promise<string[]>;
+
+/**
+ * Reads everything from AdvertisingEngine and AssetRegistry at the latest
+ * block. Campaigns are re-read on every snapshot; they are cheap views and
+ * their budgets change with every settled view.
+ */
+export class ChainMatchingSource implements MatchingSource {
+  readonly engine: AdvertisingEngineUpgradeable;
+  readonly registry: AssetRegistryUpgradeable;
+
+  constructor(
+    addresses: { AdvertisingEngine: string; AssetRegistry: string },
+    readonly provider: Provider,
+    private readonly resolveTags: AssetTagResolver = async () => []
+  ) {
+    this.engine = AdvertisingEngineUpgradeable__factory.connect(addresses.AdvertisingEngine, provider);
+    this.registry = AssetRegistryUpgradeable__factory.connect(addresses.AssetRegistry, provider);
+  }
+
+  async snapshot(): Promise<MarketSnapshot> {
+    const block = await this.provider.getBlock("latest");
+    const [count, paused, platformAdFee] = await Promise.all([
+      this.engine.campaignCounter(),
+      this.engine.paused(),
+      this.engine.platformAdFee(),
+    ]);
+
+    const campaigns: CampaignState[] = [];
+    for (let id = 0n; id < count; id++) {
+      const [c, targetingTags] = await Promise.all([
+        this.engine.campaigns(id),
+        this.engine.getCampaignTargetingTags(id),
+      ]);
+      campaigns.push({
+        id,
+        advertiser: c.advertiser,
+        budget: c.budget,
+        spent: c.spent,
+        viewerPaymentRate: c.viewerPaymentRate,
+        creatorPaymentRate: c.creatorPaymentRate,
+        startTime: c.startTime,
+        endTime: c.endTime,
+        isActive: c.isActive,
+        targetingTags: [...targetingTags],
+      });
+    }
+
+    const tags = new Set(campaigns.flatMap((c) => c.targetingTags));
+    const tagPopularity = new Map<string, bigint>();
+    for (const tag of tags) tagPopularity.set(tag, await this.engine.getTagPopularity(tag));
+
+    return { now: BigInt(block!.timestamp), paused, platformAdFee, campaigns, tagPopularity };
+  }
+
+  async asset(assetId: bigint): Promise<AssetInfo> {
+    const a = await this.registry.assets(assetId);
+    const tags = await this.resolveTags({ id: assetId, metadataURI: a.metadataURI, assetType: a.assetType });
+    return { id: assetId, creator: a.creator, assetType: a.assetType, tags };
+  }
+
+  async viewerHistory(viewer: string): Promise<bigint[]> {
+    return [...(await this.engine.getViewerCampaignHistory(viewer))];
+  }
+}
+
+/** Ranks campaigns for impressions, reading state from a `MatchingSource`. */
+export class AdMatcher {
+  constructor(readonly source: MatchingSource, readonly options: MatchOptions = {}) {}
+
+  async match(assetId: bigint, viewer: string, options: MatchOptions = {}): Promise<MatchResult> {
+    const [market, asset, history] = await Promise.all([
+      this.source.snapshot(),
+      this.source.asset(assetId),
+      this.source.viewerHistory(viewer),
+    ]);
+    return rankCampaigns(market, asset, viewer, history, { ...this.options, ...options });
+  }
+}
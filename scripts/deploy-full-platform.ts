@@ -20,6 +20,7 @@ async function main() {
     adTreasury: process.env.AD_TREASURY || deployer.address,
     crowdfundingTreasury: process.env.CROWDFUNDING_TREASURY || deployer.address,
     upgradeTimelock: 24 * 60 * 60, // 24 hours
+    performerVerificationPeriod: 365 * 24 * 60 * 60, // 1 year
   };
 
   // Deploy platform
@@ -1,20 +1,12 @@
-import { ethers } from "hardhat";
+import hre from "hardhat";
 
+// Deploys the full upgradeable stack and seeds it with scenarios/demo.json;
+// see tasks/scenario.ts for other scenarios and seeds.
 async function main() {
-  const [deployer] = await ethers.getSigners();
-  
-  console.log("Deploying contracts with account:", deployer.address);
-  console.log("Account balance:", ethers.formatEther(await deployer.provider.getBalance(deployer.address)));
-
-  // Deploy AssetRegistry
-  const AssetRegistry = await ethers.getContractFactory("AssetRegistry");
-  const assetRegistry = await AssetRegistry.deploy(deployer.address); // Using deployer as treasury for testing
-  await assetRegistry.waitForDeployment();
-  
-  console.log("AssetRegistry deployed to:", await assetRegistry.getAddress());
+  await hre.run("jeskei:scenario", { file: "scenarios/demo.json" });
 }
 
 main().catch((error) => {
   console.error(error);
   process.exitCode = 1;
-});
\ No newline at end of file
+});
@@ -0,0 +1,43 @@
+import * as fs from "fs";
+import * as path from "path";
+import { JeskeiConfigError } from "./errors";
+
+/** Proxy addresses of the modules the SDK talks to. */
+export interface JeskeiAddresses {
+  AssetRegistry: string;
+  RevenueDistributor: string;
+  ContentAccess: string;
+  AdvertisingEngine: string;
+  PerformerAuthentication: string;
+}
+
+export const SDK_MODULES: readonly (keyof JeskeiAddresses)[] = [
+  "AssetRegistry",
+  "RevenueDistributor",
+  "ContentAccess",
+  "AdvertisingEngine",
+  "PerformerAuthentication",
+];
+
+export const DEFAULT_DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+/**
+ * Reads `<dir>/<network>/<Module>.json` as written by hardhat‑deploy. Node only –
+ * browsers should bundle the addresses and use `JeskeiClient.connect`.
+ */
+export function loadAddresses(network: string, dir: string = DEFAULT_DEPLOYMENTS_DIR): JeskeiAddresses {
+  const networkDir = path.join(dir, network);
+  if (!fs.existsSync(networkDir)) {
+    throw new JeskeiConfigError(`No deployments for network "${network}" in ${dir}`);
+  }
+
+  const out: Partial<JeskeiAddresses> = {};
+  for (const label of SDK_MODULES) {
+    const file = path.join(networkDir, `${label}.json`);
+    if (!fs.existsSync(file)) {
+      throw new JeskeiConfigError(`${network}: ${label} has not been deployed (${file} missing)`);
+    }
+    out[label] = JSON.parse(fs.readFileSync(file, "utf8")).address;
+  }
+  return out as JeskeiAddresses;
+}
@@ -0,0 +1,261 @@
+import type {
+  BigNumberish,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+  TypedDataDomain,
+} from "ethers";
+import { concat, keccak256, randomBytes, toBigInt, TypedDataEncoder } from "ethers";
+import type { AdvertisingEngineUpgradeable } from "../typechain-types";
+import { decodeJeskeiError } from "./errors";
+
+/**
+ * Off-chain ad-view attestations for AdvertisingEngine.
+ *
+ * An attestor key (authorized on chain with `setAttestor`) signs EIP-712 view
+ * receipts, either one signature per view or one signature over the Merkle
+ * root of a batch. A relayer, which needs no role, collects them and settles
+ * them in chunks through `settleViews` / `settleViewBatch`.
+ */
+
+export interface ViewReceipt {
+  campaignId: bigint;
+  viewer: string;
+  creator: string;
+  /** Unique per viewer; a settled nonce can never settle again. */
+  nonce: bigint;
+  /** Unix seconds after which the receipt no longer settles. */
+  deadline: bigint;
+}
+
+export interface SignedViewReceipt {
+  receipt: ViewReceipt;
+  signature: string;
+}
+
+/** Receipts under one attestor-signed Merkle root, with a proof per receipt. */
+export interface MerkleViewBatch {
+  root: string;
+  deadline: bigint;
+  signature: string;
+  receipts: ViewReceipt[];
+  proofs: string[][];
+}
+
+/** Mirrors `AdvertisingEngineUpgradeable.ViewStatus`. */
+export const VIEW_STATUS = [
+  "Settled",
+  "Replayed",
+  "Expired",
+  "CapReached",
+  "CampaignInactive",
+  "InsufficientBudget",
+  "InvalidParties",
+] as const;
+export type ViewStatus = (typeof VIEW_STATUS)[number];
+
+export interface SettlementResult {
+  settled: number;
+  skipped: { campaignId: bigint; viewer: string; nonce: bigint; reason: ViewStatus }[];
+  receipt: ContractTransactionReceipt;
+}
+
+export const VIEW_RECEIPT_TYPES = {
+  ViewReceipt: [
+    { name: "campaignId", type: "uint256" },
+    { name: "viewer", type: "address" },
+    { name: "creator", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const VIEW_BATCH_TYPES = {
+  ViewBatch: [
+    { name: "root", type: "bytes32" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export function adEngineDomain(chainId: BigNumberish, engine: string): TypedDataDomain {
+  return { name: "JeskeiAdvertisingEngine", version: "1", chainId, verifyingContract: engine };
+}
+
+/** Merkle leaf of a receipt: the hash of its EIP-712 struct hash, as the contract computes it. */
+export function viewReceiptLeaf(receipt: ViewReceipt): string {
+  return keccak256(TypedDataEncoder.hashStruct("ViewReceipt", VIEW_RECEIPT_TYPES, receipt));
+}
+
+/**
+ * Builds a tree with sorted-pair hashing, the scheme OpenZeppelin's
+ * `MerkleProof` verifies. An odd node is carried up unchanged.
+ */
+export function buildMerkleTree(leaves: string[]): { root: string; proofs: string[][] } {
+  if (leaves.length === 0) throw new Error("cannot build a Merkle tree without leaves");
+  const hashPair = (a: string, b: string) => keccak256(toBigInt(a) < toBigInt(b) ? concat([a, b]) : concat([b, a]));
+
+  const proofs: string[][] = leaves.map(() => []);
+  // position of every leaf in the current layer
+  let positions = leaves.map((_, i) => i);
+  let layer = leaves;
+  while (layer.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    positions = positions.map((pos, leaf) => {
+      const sibling = pos ^ 1;
+      if (sibling < layer.length) proofs[leaf].push(layer[sibling]);
+      return pos >> 1;
+    });
+    layer = next;
+  }
+  return { root: layer[0], proofs };
+}
+
+/** Signs view receipts with an authorized attestor key. */
+export class ViewAttestor {
+  constructor(
+    readonly signer: Signer,
+    readonly domain: TypedDataDomain,
+    /** Seconds a receipt stays settleable when no deadline is given. */
+    readonly ttl = 24 * 60 * 60
+  ) {}
+
+  /** Reads the chain id from the signer's provider. */
+  static async forEngine(signer: Signer, engine: string, ttl?: number): Promise<ViewAttestor> {
+    const { chainId } = await signer.provider!.getNetwork();
+    return new ViewAttestor(signer, adEngineDomain(chainId, engine), ttl);
+  }
+
+  /** A receipt with a random 128-bit nonce, valid for `ttl` seconds from now. */
+  receipt(
+    campaignId: BigNumberish,
+    viewer: string,
+    creator: string,
+    opts: { nonce?: BigNumberish; deadline?: BigNumberish } = {}
+  ): ViewReceipt {
+    return {
+      campaignId: toBigInt(campaignId),
+      viewer,
+      creator,
+      nonce: opts.nonce !== undefined ? toBigInt(opts.nonce) : toBigInt(randomBytes(16)),
+      deadline:
+        opts.deadline !== undefined ? toBigInt(opts.deadline) : BigInt(Math.floor(Date.now() / 1000) + this.ttl),
+    };
+  }
+
+  async sign(receipt: ViewReceipt): Promise<SignedViewReceipt> {
+    return { receipt, signature: await this.signer.signTypedData(this.domain, VIEW_RECEIPT_TYPES, receipt) };
+  }
+
+  /** One signature for any number of receipts; the batch settles until `deadline`. */
+  async signBatch(receipts: ViewReceipt[], deadline?: BigNumberish): Promise<MerkleViewBatch> {
+    const { root, proofs } = buildMerkleTree(receipts.map(viewReceiptLeaf));
+    const batchDeadline =
+      deadline !== undefined
+        ? toBigInt(deadline)
+        : receipts.reduce((max, r) => (r.deadline > max ? r.deadline : max), 0n);
+    const signature = await this.signer.signTypedData(this.domain, VIEW_BATCH_TYPES, { root, deadline: batchDeadline });
+    return { root, deadline: batchDeadline, signature, receipts, proofs };
+  }
+}
+
+/**
+ * Queues signed receipts and settles them in chunks of `maxBatchSize`.
+ * The engine must be connected to the relayer's signer.
+ */
+export class ViewRelayer {
+  private pending = new Map<string, SignedViewReceipt>();
+
+  constructor(
+    readonly engine: AdvertisingEngineUpgradeable,
+    readonly maxBatchSize = 100
+  ) {}
+
+  /** Number of receipts waiting for `flush`. */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /** Queues receipts; a second receipt with the same viewer and nonce is dropped. */
+  add(...signed: SignedViewReceipt[]): void {
+    for (const s of signed) {
+      const key = `${s.receipt.viewer.toLowerCase()}:${s.receipt.nonce}`;
+      if (!this.pending.has(key)) this.pending.set(key, s);
+    }
+  }
+
+  /** Settles everything queued, one transaction per chunk. */
+  async flush(): Promise<SettlementResult[]> {
+    const queued = [...this.pending.values()];
+    this.pending.clear();
+    const results: SettlementResult[] = [];
+    for (let i = 0; i < queued.length; i += this.maxBatchSize) {
+      const chunk = queued.slice(i, i + this.maxBatchSize);
+      results.push(
+        await this.send(() =>
+          this.engine.settleViews(
+            chunk.map((s) => s.receipt),
+            chunk.map((s) => s.signature)
+          )
+        )
+      );
+    }
+    return results;
+  }
+
+  /** Settles a Merkle batch, one transaction per chunk of receipts. */
+  async submitBatch(batch: MerkleViewBatch): Promise<SettlementResult[]> {
+    const results: SettlementResult[] = [];
+    for (let i = 0; i < batch.receipts.length; i += this.maxBatchSize) {
+      const end = i + this.maxBatchSize;
+      results.push(
+        await this.send(() =>
+          this.engine.settleViewBatch(
+            batch.root,
+            batch.deadline,
+            batch.signature,
+            batch.receipts.slice(i, end),
+            batch.proofs.slice(i, end)
+          )
+        )
+      );
+    }
+    return results;
+  }
+
+  private async send(fn: () => Promise<ContractTransactionResponse>): Promise<SettlementResult> {
+    let receipt: ContractTransactionReceipt | null;
+    try {
+      receipt = await (await fn()).wait();
+    } catch (err) {
+      throw decodeJeskeiError(err) ?? err;
+    }
+    if (!receipt) throw new Error("settlement transaction was dropped");
+    return parseSettlement(this.engine, receipt);
+  }
+}
+
+/** Reads the `ViewsSettled` / `ViewSkipped` events a settlement transaction emitted. */
+export function parseSettlement(
+  engine: AdvertisingEngineUpgradeable,
+  receipt: ContractTransactionReceipt
+): SettlementResult {
+  const result: SettlementResult = { settled: 0, skipped: [], receipt };
+  const engineAddress = String(engine.target).toLowerCase();
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== engineAddress) continue;
+    const parsed = engine.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed?.name === "ViewsSettled") result.settled = Number(parsed.args.settled);
+    if (parsed?.name === "ViewSkipped") {
+      result.skipped.push({
+        campaignId: parsed.args.campaignId,
+        viewer: parsed.args.viewer,
+        nonce: parsed.args.nonce,
+        reason: VIEW_STATUS[Number(parsed.args.reason)],
+      });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,549 @@
+import type { BigNumberish, ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import { Signature, ZeroAddress } from "ethers";
+import {
+  AdvertisingEngineUpgradeable,
+  AdvertisingEngineUpgradeable__factory,
+  AssetRegistryUpgradeable,
+  AssetRegistryUpgradeable__factory,
+  ContentAccessUpgradeable,
+  ContentAccessUpgradeable__factory,
+  IERC20Metadata__factory,
+  IERC20Permit__factory,
+  IERC5267__factory,
+  IERC20__factory,
+  PerformerAuthenticationUpgradeable,
+  PerformerAuthenticationUpgradeable__factory,
+  RevenueDistributorUpgradeable,
+  RevenueDistributorUpgradeable__factory,
+} from "../typechain-types";
+import { JeskeiAddresses, loadAddresses } from "./addresses";
+import { MerkleViewBatch, parseSettlement, SettlementResult, SignedViewReceipt } from "./attestor";
+import { signShareConsent, SignedShareConsent } from "./consent";
+import { decodeJeskeiError } from "./errors";
+
+export interface CreateAssetParams {
+  contentHash: string;
+  metadataURI: string;
+  assetType: string;
+  storageProvider: string;
+  isPublic: boolean;
+  price: BigNumberish;
+  /** Hosting fee sent with the call; 15% goes to the hosting treasury by default. */
+  hostingFee: BigNumberish;
+}
+
+export interface PurchaseAccessParams {
+  /** Seconds of access granted from the purchase block; whole days, at most a year. */
+  duration: BigNumberish;
+  /** Amount to pay; defaults to the asset price for each day of `duration`. */
+  value?: BigNumberish;
+}
+
+export interface PurchaseWithTokenParams {
+  /** ERC-20 the asset owner priced the asset in. */
+  token: string;
+  /** Seconds of access granted from the purchase block; whole days, at most a year. */
+  duration: BigNumberish;
+  /** Amount to pay; defaults to the asset's `token` price for each day of `duration`. */
+  amount?: BigNumberish;
+  /**
+   * Sign an EIP-2612 permit instead of relying on an existing allowance;
+   * the value is the permit deadline in unix seconds. Needs a signer runner.
+   */
+  permitDeadline?: BigNumberish;
+}
+
+export interface CreatePlanParams {
+  /** Asset the plan unlocks; for a bundle, the asset whose revenue shares split its income. */
+  assetId: BigNumberish;
+  /** Unlock every asset the creator owns instead of `assetId` alone. */
+  creatorBundle?: boolean;
+  /** ERC-20 to charge; omitted for ETH plans. Only token plans renew automatically. */
+  paymentToken?: string;
+  pricePerPeriod: BigNumberish;
+  /** One of `SUBSCRIPTION_PERIODS`. */
+  period: BigNumberish;
+  /** Seconds of access kept after an unpaid expiry, at most 7 days. */
+  gracePeriod?: BigNumberish;
+}
+
+/** Billing periods a plan may use, in seconds. */
+export const SUBSCRIPTION_PERIODS = {
+  week: 7n * 86400n,
+  month: 30n * 86400n,
+  quarter: 90n * 86400n,
+  year: 365n * 86400n,
+} as const;
+
+export interface CreateCampaignParams {
+  metadataURI: string;
+  viewerPaymentRate: BigNumberish;
+  creatorPaymentRate: BigNumberish;
+  /** Seconds from creation until the campaign expires. */
+  duration: BigNumberish;
+  targetingTags: string[];
+  /** Initial campaign budget in wei. */
+  budget: BigNumberish;
+}
+
+/** Module holding a claimable balance: revenue shares or ad‑view payouts. */
+export type PayoutSource = "revenue" | "advertising";
+
+export interface VerifyPerformerParams {
+  performer: string;
+  identityHash: string;
+  publicKey: string;
+  metadataURI: string;
+}
+
+/**
+ * High‑level client for the Jeskei platform.
+ *
+ * Wraps the typechain bindings of each module; the raw contracts stay
+ * available as properties for anything the helpers do not cover. Every
+ * transaction helper waits for the receipt and rethrows reverts as
+ * `JeskeiError`.
+ */
+export class JeskeiClient {
+  readonly assetRegistry: AssetRegistryUpgradeable;
+  readonly revenueDistributor: RevenueDistributorUpgradeable;
+  readonly contentAccess: ContentAccessUpgradeable;
+  readonly advertisingEngine: AdvertisingEngineUpgradeable;
+  readonly performerAuth: PerformerAuthenticationUpgradeable;
+
+  private constructor(
+    readonly addresses: JeskeiAddresses,
+    readonly runner: ContractRunner
+  ) {
+    this.assetRegistry = AssetRegistryUpgradeable__factory.connect(addresses.AssetRegistry, runner);
+    this.revenueDistributor = RevenueDistributorUpgradeable__factory.connect(addresses.RevenueDistributor, runner);
+    this.contentAccess = ContentAccessUpgradeable__factory.connect(addresses.ContentAccess, runner);
+    this.advertisingEngine = AdvertisingEngineUpgradeable__factory.connect(addresses.AdvertisingEngine, runner);
+    this.performerAuth = PerformerAuthenticationUpgradeable__factory.connect(addresses.PerformerAuthentication, runner);
+  }
+
+  static connect(addresses: JeskeiAddresses, runner: ContractRunner): JeskeiClient {
+    return new JeskeiClient(addresses, runner);
+  }
+
+  /** Loads addresses from `deployments/<network>/` (Node only). */
+  static fromDeployments(network: string, runner: ContractRunner, dir?: string): JeskeiClient {
+    return new JeskeiClient(loadAddresses(network, dir), runner);
+  }
+
+  /** Same addresses, different signer/provider. */
+  withRunner(runner: ContractRunner): JeskeiClient {
+    return new JeskeiClient(this.addresses, runner);
+  }
+
+  // --------------------------------------------------------------------
+  // Assets & contributors
+  // --------------------------------------------------------------------
+
+  async createAsset(params: CreateAssetParams): Promise<{ tokenId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(() =>
+      this.assetRegistry.createAsset(
+        params.contentHash,
+        params.metadataURI,
+        params.assetType,
+        params.storageProvider,
+        params.isPublic,
+        params.price,
+        { value: params.hostingFee }
+      )
+    );
+    const event = this.findEvent(receipt, this.assetRegistry, "AssetCreated");
+    return { tokenId: event.args.tokenId as bigint, receipt };
+  }
+
+  /** Offers a share (0 removes the contributor); it applies once they call `acceptShare`. */
+  offerShare(assetId: BigNumberish, contributor: string, sharePercentage: BigNumberish, role: string) {
+    return this.send(() => this.assetRegistry.offerShare(assetId, contributor, sharePercentage, role));
+  }
+
+  acceptShare(assetId: BigNumberish) {
+    return this.send(() => this.assetRegistry.acceptShare(assetId));
+  }
+
+  /** Withdraws an offer as the asset owner, or declines it as the contributor. */
+  cancelShareOffer(assetId: BigNumberish, contributor: string) {
+    return this.send(() => this.assetRegistry.cancelShareOffer(assetId, contributor));
+  }
+
+  /** Signs the runner's consent to a share, for the asset owner to submit. Needs a signer runner. */
+  signShareConsent(
+    assetId: BigNumberish,
+    sharePercentage: BigNumberish,
+    role: string,
+    opts?: { deadline?: BigNumberish; ttl?: number }
+  ): Promise<SignedShareConsent> {
+    const signer = this.runner as Signer;
+    if (typeof signer.signTypedData !== "function") throw new Error("consent signing needs a signer runner");
+    return this.call(() => signShareConsent(signer, this.assetRegistry, assetId, sharePercentage, role, opts));
+  }
+
+  /** Applies a contributor's signed consent; sent by the asset owner. */
+  setContributorShare({ consent, signature }: SignedShareConsent) {
+    return this.send(() =>
+      this.assetRegistry.setContributorShare(
+        consent.tokenId,
+        consent.contributor,
+        consent.sharePercentage,
+        consent.role,
+        consent.deadline,
+        signature
+      )
+    );
+  }
+
+  /** Sets the creator's resale royalty in basis points, up to the platform's `maxRoyaltyRate`. */
+  setRoyaltyRate(assetId: BigNumberish, rate: BigNumberish) {
+    return this.send(() => this.assetRegistry.setRoyaltyRate(assetId, rate));
+  }
+
+  /** EIP-2981: the asset's royalty vault and the royalty due on a sale at `salePrice`. */
+  getRoyaltyInfo(assetId: BigNumberish, salePrice: BigNumberish) {
+    return this.call(() => this.assetRegistry.royaltyInfo(assetId, salePrice));
+  }
+
+  getContributors(assetId: BigNumberish) {
+    return this.call(() => this.assetRegistry.getAssetContributors(assetId));
+  }
+
+  getCreatorAssets(creator: string) {
+    return this.call(() => this.assetRegistry.getCreatorAssets(creator));
+  }
+
+  // --------------------------------------------------------------------
+  // Revenue
+  // --------------------------------------------------------------------
+
+  /** The asset's contributors and the owner's remainder, as distributions pay them. */
+  getRevenueShares(assetId: BigNumberish) {
+    return this.call(() => this.revenueDistributor.getAssetShares(assetId));
+  }
+
+  /** Splits the royalties paid into the asset's vault; anyone may send it. */
+  collectRoyalties(assetId: BigNumberish) {
+    return this.send(() => this.revenueDistributor.collectRoyalties(assetId));
+  }
+
+  getEarnings(assetId: BigNumberish, contributor: string) {
+    return this.call(() => this.revenueDistributor.contributorEarnings(assetId, contributor));
+  }
+
+  // --------------------------------------------------------------------
+  // Access
+  // --------------------------------------------------------------------
+
+  /** Price of one day of access; a purchase pays it for every day it buys. */
+  setAssetPrice(assetId: BigNumberish, price: BigNumberish) {
+    return this.send(() => this.contentAccess.setAssetPrice(assetId, price));
+  }
+
+  async purchaseAccess(assetId: BigNumberish, params: PurchaseAccessParams) {
+    const value =
+      params.value ?? (await this.call(() => this.contentAccess.accessCost(assetId, ZeroAddress, params.duration)));
+    return this.send(() => this.contentAccess.purchaseAccess(assetId, params.duration, { value }));
+  }
+
+  /** Prices a day of access in `token`; a price of 0 stops accepting it. */
+  setAssetTokenPrice(assetId: BigNumberish, token: string, price: BigNumberish) {
+    return this.send(() => this.contentAccess.setAssetTokenPrice(assetId, token, price));
+  }
+
+  /** Tokens the asset can currently be bought with, and their prices. */
+  async getAssetTokenPrices(assetId: BigNumberish): Promise<{ token: string; price: bigint }[]> {
+    const tokens = await this.call(() => this.contentAccess.getAssetPaymentTokens(assetId));
+    return Promise.all(
+      tokens.map(async (token) => ({
+        token,
+        price: await this.call(() => this.contentAccess.assetTokenPrices(assetId, token)),
+      }))
+    );
+  }
+
+  /**
+   * Buys access with an ERC-20. Without `permitDeadline` the caller must have
+   * approved ContentAccess for `amount` beforehand.
+   */
+  async purchaseAccessWithToken(assetId: BigNumberish, params: PurchaseWithTokenParams) {
+    const amount =
+      params.amount ??
+      (await this.call(() => this.contentAccess.accessCost(assetId, params.token, params.duration)));
+    if (params.permitDeadline === undefined) {
+      return this.send(() =>
+        this.contentAccess.purchaseAccessWithToken(assetId, params.duration, params.token, amount)
+      );
+    }
+    const { v, r, s } = await this.signPermit(
+      params.token,
+      this.addresses.ContentAccess,
+      amount,
+      params.permitDeadline
+    );
+    return this.send(() =>
+      this.contentAccess.purchaseAccessWithPermit(
+        assetId,
+        params.duration,
+        params.token,
+        amount,
+        params.permitDeadline!,
+        v,
+        r,
+        s
+      )
+    );
+  }
+
+  /** Sets the ERC-20 allowance of `spender` (ContentAccess by default) for the caller. */
+  approveToken(token: string, amount: BigNumberish, spender: string = this.addresses.ContentAccess) {
+    return this.send(() => IERC20__factory.connect(token, this.runner).approve(spender, amount));
+  }
+
+  hasAccess(user: string, assetId: BigNumberish) {
+    return this.call(() => this.contentAccess.hasAccess(user, assetId));
+  }
+
+  // --------------------------------------------------------------------
+  // Subscriptions
+  // --------------------------------------------------------------------
+
+  async createPlan(params: CreatePlanParams): Promise<{ planId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(() =>
+      this.contentAccess.createPlan(
+        params.assetId,
+        params.creatorBundle ?? false,
+        params.paymentToken ?? ZeroAddress,
+        params.pricePerPeriod,
+        params.period,
+        params.gracePeriod ?? 0
+      )
+    );
+    const event = this.findEvent(receipt, this.contentAccess, "PlanCreated");
+    return { planId: event.args.planId as bigint, receipt };
+  }
+
+  updatePlan(planId: BigNumberish, pricePerPeriod: BigNumberish, active: boolean) {
+    return this.send(() => this.contentAccess.updatePlan(planId, pricePerPeriod, active));
+  }
+
+  /**
+   * Subscribes or renews for `periods` periods at the current plan price. ETH
+   * is sent with the call; token plans need an allowance for ContentAccess.
+   */
+  async subscribe(planId: BigNumberish, periods: BigNumberish = 1) {
+    const plan = await this.call(() => this.contentAccess.plans(planId));
+    const value = plan.paymentToken === ZeroAddress ? plan.pricePerPeriod * BigInt(periods) : 0n;
+    return this.send(() => this.contentAccess.subscribe(planId, periods, { value }));
+  }
+
+  cancelSubscription(planId: BigNumberish) {
+    return this.send(() => this.contentAccess.cancelSubscription(planId));
+  }
+
+  async getSubscription(planId: BigNumberish, subscriber: string) {
+    const [sub, active] = await Promise.all([
+      this.call(() => this.contentAccess.subscriptions(planId, subscriber)),
+      this.call(() => this.contentAccess.isSubscriptionActive(planId, subscriber)),
+    ]);
+    return { paidUntil: sub.paidUntil, cancelled: sub.cancelled, active };
+  }
+
+  // --------------------------------------------------------------------
+  // Advertising
+  // --------------------------------------------------------------------
+
+  async createCampaign(params: CreateCampaignParams): Promise<{ campaignId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(() =>
+      this.advertisingEngine.createCampaign(
+        params.metadataURI,
+        params.viewerPaymentRate,
+        params.creatorPaymentRate,
+        params.duration,
+        params.targetingTags,
+        { value: params.budget }
+      )
+    );
+    const event = this.findEvent(receipt, this.advertisingEngine, "CampaignCreated");
+    return { campaignId: event.args.campaignId as bigint, receipt };
+  }
+
+  async getCampaign(campaignId: BigNumberish) {
+    const c = await this.call(() => this.advertisingEngine.campaigns(campaignId));
+    const targetingTags = await this.call(() => this.advertisingEngine.getCampaignTargetingTags(campaignId));
+    return {
+      advertiser: c.advertiser,
+      metadataURI: c.metadataURI,
+      budget: c.budget,
+      spent: c.spent,
+      remaining: c.budget - c.spent,
+      viewerPaymentRate: c.viewerPaymentRate,
+      creatorPaymentRate: c.creatorPaymentRate,
+      startTime: c.startTime,
+      endTime: c.endTime,
+      isActive: c.isActive,
+      targetingTags,
+    };
+  }
+
+  /** AD_ORACLE_ROLE only on chain: records a view and credits viewer, creator and treasury. */
+  recordAdView(campaignId: BigNumberish, viewer: string, creator: string) {
+    return this.send(() => this.advertisingEngine.recordAdView(campaignId, viewer, creator));
+  }
+
+  /**
+   * Settles attestor-signed view receipts in one transaction; needs no role.
+   * Replayed, expired or unfundable receipts are skipped, not reverted.
+   */
+  async settleViews(signed: SignedViewReceipt[]): Promise<SettlementResult> {
+    const receipt = await this.send(() =>
+      this.advertisingEngine.settleViews(
+        signed.map((s) => s.receipt),
+        signed.map((s) => s.signature)
+      )
+    );
+    return parseSettlement(this.advertisingEngine, receipt);
+  }
+
+  /** Merkle counterpart of `settleViews`: settles a batch under one signed root. */
+  async settleViewBatch(batch: MerkleViewBatch): Promise<SettlementResult> {
+    const receipt = await this.send(() =>
+      this.advertisingEngine.settleViewBatch(batch.root, batch.deadline, batch.signature, batch.receipts, batch.proofs)
+    );
+    return parseSettlement(this.advertisingEngine, receipt);
+  }
+
+  // --------------------------------------------------------------------
+  // Claimable payouts
+  // --------------------------------------------------------------------
+
+  /** Credited, not yet withdrawn balance of `account` in each payout module. */
+  async getClaimable(account: string): Promise<Record<PayoutSource, bigint>> {
+    const [revenue, advertising] = await Promise.all([
+      this.call(() => this.revenueDistributor.claimable(account)),
+      this.call(() => this.advertisingEngine.claimable(account)),
+    ]);
+    return { revenue, advertising };
+  }
+
+  /**
+   * Withdraws the caller's balance from `source`, or pays out `payee`'s
+   * balance to `payee` when given (anyone may trigger that).
+   */
+  async withdraw(
+    source: PayoutSource,
+    payee?: string
+  ): Promise<{ payee: string; amount: bigint; receipt: ContractTransactionReceipt }> {
+    const contract = source === "revenue" ? this.revenueDistributor : this.advertisingEngine;
+    const receipt = await this.send(() => (payee ? contract.withdrawFor(payee) : contract.withdraw()));
+    const event = this.findEvent(receipt, contract, "PaymentWithdrawn");
+    return { payee: event.args.recipient as string, amount: event.args.amount as bigint, receipt };
+  }
+
+  /** Credited ERC-20 revenue of `account` in `token`. */
+  getClaimableToken(token: string, account: string) {
+    return this.call(() => this.revenueDistributor.tokenClaimable(token, account));
+  }
+
+  /** ERC-20 counterpart of `withdraw("revenue", payee)`. */
+  async withdrawToken(
+    token: string,
+    payee?: string
+  ): Promise<{ payee: string; amount: bigint; receipt: ContractTransactionReceipt }> {
+    const distributor = this.revenueDistributor;
+    const receipt = await this.send(() =>
+      payee ? distributor.withdrawTokenFor(token, payee) : distributor.withdrawToken(token)
+    );
+    const event = this.findEvent(receipt, distributor, "TokenPaymentWithdrawn");
+    return { payee: event.args.recipient as string, amount: event.args.amount as bigint, receipt };
+  }
+
+  // --------------------------------------------------------------------
+  // Performers
+  // --------------------------------------------------------------------
+
+  verifyPerformer(params: VerifyPerformerParams) {
+    return this.send(() =>
+      this.performerAuth.verifyPerformer(params.performer, params.identityHash, params.publicKey, params.metadataURI)
+    );
+  }
+
+  isVerifiedPerformer(performer: string) {
+    return this.call(() => this.performerAuth.isVerifiedPerformer(performer));
+  }
+
+  // --------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------
+
+  private async signPermit(token: string, spender: string, value: BigNumberish, deadline: BigNumberish) {
+    const signer = this.runner as Signer;
+    if (typeof signer.signTypedData !== "function") throw new Error("permit signing needs a signer runner");
+    const owner = await signer.getAddress();
+    const nonce = await this.call(() => IERC20Permit__factory.connect(token, this.runner).nonces(owner));
+    const signature = await signer.signTypedData(
+      await this.permitDomain(token),
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { owner, spender, value, nonce, deadline }
+    );
+    return Signature.from(signature);
+  }
+
+  /** EIP-5267 domain when the token exposes it, else OpenZeppelin's default `(name, "1")`. */
+  private async permitDomain(token: string) {
+    try {
+      const domain = await IERC5267__factory.connect(token, this.runner).eip712Domain();
+      return {
+        name: domain.name,
+        version: domain.version,
+        chainId: domain.chainId,
+        verifyingContract: domain.verifyingContract,
+      };
+    } catch {
+      const name = await this.call(() => IERC20Metadata__factory.connect(token, this.runner).name());
+      const { chainId } = await (this.runner as Signer).provider!.getNetwork();
+      return { name, version: "1", chainId, verifyingContract: token };
+    }
+  }
+
+  private async send(fn: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    try {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (!receipt) throw new Error(`transaction ${tx.hash} was dropped`);
+      return receipt;
+    } catch (err) {
+      throw decodeJeskeiError(err) ?? err;
+    }
+  }
+
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      throw decodeJeskeiError(err) ?? err;
+    }
+  }
+
+  private findEvent(
+    receipt: ContractTransactionReceipt,
+    contract: { interface: { parseLog(log: { topics: string[]; data: string }): any }; target: unknown },
+    name: string
+  ) {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== String(contract.target).toLowerCase()) continue;
+      const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name === name) return parsed;
+    }
+    throw new Error(`${name} not found in transaction ${receipt.hash}`);
+  }
+}
@@ -0,0 +1,85 @@
+import type { BigNumberish, Signer, TypedDataDomain } from "ethers";
+import { toBigInt, verifyTypedData } from "ethers";
+import type { AssetRegistryUpgradeable } from "../typechain-types";
+
+/**
+ * Contributor consent for AssetRegistry revenue shares.
+ *
+ * A contributor's share of an asset (0 removes them) only changes with their
+ * consent: they accept an owner's `offerShare` on chain, or sign an EIP-712
+ * ShareConsent off chain that the asset owner submits with
+ * `setContributorShare`. Each signature is bound to the contributor's current
+ * `consentNonces` entry, so it applies once.
+ */
+
+export interface ShareConsent {
+  tokenId: bigint;
+  contributor: string;
+  /** Basis points of the post-fee revenue; 0 removes the contributor. */
+  sharePercentage: bigint;
+  role: string;
+  /** The contributor's `consentNonces` entry when signing. */
+  nonce: bigint;
+  /** Unix seconds after which the consent no longer applies. */
+  deadline: bigint;
+}
+
+export interface SignedShareConsent {
+  consent: ShareConsent;
+  signature: string;
+}
+
+export const SHARE_CONSENT_TYPES = {
+  ShareConsent: [
+    { name: "tokenId", type: "uint256" },
+    { name: "contributor", type: "address" },
+    { name: "sharePercentage", type: "uint256" },
+    { name: "role", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export function assetRegistryDomain(chainId: BigNumberish, registry: string): TypedDataDomain {
+  return { name: "JeskeiAssetRegistry", version: "1", chainId, verifyingContract: registry };
+}
+
+/**
+ * Signs the contributor's consent to `sharePercentage` of `tokenId`, reading
+ * the nonce from the registry. The signer must be the contributor; the consent
+ * expires `ttl` seconds after the latest block unless `deadline` is given.
+ */
+export async function signShareConsent(
+  contributor: Signer,
+  registry: AssetRegistryUpgradeable,
+  tokenId: BigNumberish,
+  sharePercentage: BigNumberish,
+  role: string,
+  opts: { deadline?: BigNumberish; ttl?: number } = {}
+): Promise<SignedShareConsent> {
+  const address = await contributor.getAddress();
+  const { chainId } = await contributor.provider!.getNetwork();
+  const consent: ShareConsent = {
+    tokenId: toBigInt(tokenId),
+    contributor: address,
+    sharePercentage: toBigInt(sharePercentage),
+    role,
+    nonce: await registry.consentNonces(address),
+    deadline:
+      opts.deadline !== undefined
+        ? toBigInt(opts.deadline)
+        : BigInt((await contributor.provider!.getBlock("latest"))!.timestamp + (opts.ttl ?? 24 * 60 * 60)),
+  };
+  const domain = assetRegistryDomain(chainId, String(registry.target));
+  return { consent, signature: await contributor.signTypedData(domain, SHARE_CONSENT_TYPES, consent) };
+}
+
+/** Whether the signature is the named contributor's; says nothing about nonce or deadline. */
+export function verifyShareConsent(domain: TypedDataDomain, signed: SignedShareConsent): boolean {
+  try {
+    const signer = verifyTypedData(domain, SHARE_CONSENT_TYPES, signed.consent, signed.signature);
+    return signer.toLowerCase() === signed.consent.contributor.toLowerCase();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Revert decoding for the Jeskei contracts.
+ *
+ * The modules revert either with `require` strings or with OpenZeppelin custom
+ * errors. Both are mapped onto one `JeskeiErrorCode` union so callers can
+ * switch on `err.code` instead of matching message text.
+ */
+
+import { AbiCoder, Interface } from "ethers";
+
+export const REVERT_REASONS = {
+  // AssetRegistry
+  "Content hash required": "CONTENT_HASH_REQUIRED",
+  "Hosting fee required": "HOSTING_FEE_REQUIRED",
+  "Not asset owner": "NOT_ASSET_OWNER",
+  "Invalid contributor": "INVALID_CONTRIBUTOR",
+  "Invalid share": "INVALID_SHARE",
+  "Exceeds 100% shares": "SHARES_EXCEED_100",
+  "Not a contributor": "NOT_A_CONTRIBUTOR",
+  "No pending offer": "NO_PENDING_OFFER",
+  "Offer outdated": "OFFER_OUTDATED",
+  "Not authorized": "UNAUTHORIZED",
+  "Invalid consent signature": "INVALID_CONSENT_SIGNATURE",
+  "Not asset creator": "NOT_ASSET_CREATOR",
+  "Royalty above cap": "ROYALTY_ABOVE_CAP",
+  "No balance to withdraw": "NO_BALANCE",
+  // RevenueDistributor
+  "Array length mismatch": "ARRAY_LENGTH_MISMATCH",
+  "Incorrect payment amount": "INCORRECT_PAYMENT",
+  "Amount must be greater than 0": "ZERO_AMOUNT",
+  "No residue": "NO_RESIDUE",
+  "Withdrawal failed": "WITHDRAWAL_FAILED",
+  "Invalid token": "INVALID_TOKEN",
+  "Unsupported token": "UNSUPPORTED_TOKEN",
+  "Not royalty vault": "UNAUTHORIZED",
+  "No royalties": "NO_ROYALTIES",
+  // ContentAccess
+  "Asset is public": "ASSET_IS_PUBLIC",
+  "Asset not for sale": "ASSET_NOT_FOR_SALE",
+  "Insufficient payment": "INSUFFICIENT_PAYMENT",
+  "Token not accepted": "TOKEN_NOT_ACCEPTED",
+  "Invalid price": "INVALID_PRICE",
+  "Invalid period": "INVALID_PERIOD",
+  "Grace period too long": "INVALID_GRACE_PERIOD",
+  "Not plan creator": "NOT_PLAN_CREATOR",
+  "Plan not active": "PLAN_NOT_ACTIVE",
+  "Plan asset transferred": "PLAN_NOT_ACTIVE",
+  "Invalid periods": "INVALID_PERIODS",
+  "Not a token plan": "NOT_TOKEN_PLAN",
+  "Not renewable": "NOT_RENEWABLE",
+  "Renewal not due": "RENEWAL_NOT_DUE",
+  "Subscription lapsed": "SUBSCRIPTION_LAPSED",
+  "Not subscribed": "NOT_SUBSCRIBED",
+  "Already cancelled": "ALREADY_CANCELLED",
+  // AdvertisingEngine
+  "Campaign needs funding": "CAMPAIGN_NEEDS_FUNDING",
+  "Viewer payment required": "VIEWER_PAYMENT_REQUIRED",
+  "Creator payment required": "CREATOR_PAYMENT_REQUIRED",
+  "Invalid duration": "INVALID_DURATION",
+  "Campaign not active": "CAMPAIGN_NOT_ACTIVE",
+  "Campaign expired": "CAMPAIGN_EXPIRED",
+  "Invalid addresses": "INVALID_ADDRESS",
+  "Insufficient campaign budget": "INSUFFICIENT_CAMPAIGN_BUDGET",
+  "View cap reached": "VIEW_CAP_REACHED",
+  "Invalid attestor": "INVALID_ATTESTOR",
+  "Invalid proof": "INVALID_PROOF",
+  "Batch expired": "BATCH_EXPIRED",
+  // CrowdfundingPlatform
+  "Target amount must be greater than 0": "ZERO_AMOUNT",
+  "Contribution must be greater than 0": "ZERO_AMOUNT",
+  "Invalid milestones": "INVALID_MILESTONES",
+  "Shares must total 100%": "INVALID_SHARE",
+  "Invalid stretch goal": "INVALID_STRETCH_GOAL",
+  "Token campaign": "TOKEN_CAMPAIGN",
+  "Not a token campaign": "NOT_TOKEN_CAMPAIGN",
+  "Campaign not found": "CAMPAIGN_NOT_FOUND",
+  "Campaign ended": "FUNDING_CLOSED",
+  "Funding closed": "FUNDING_CLOSED",
+  "Funding still open": "FUNDING_OPEN",
+  "Not campaign creator": "NOT_CAMPAIGN_CREATOR",
+  "Invalid reward tier": "INVALID_REWARD_TIER",
+  "Insufficient amount for reward tier": "INSUFFICIENT_PAYMENT",
+  "Tier already chosen": "TIER_ALREADY_CHOSEN",
+  "Reward tier sold out": "REWARD_TIER_SOLD_OUT",
+  "Vote already open": "VOTE_ALREADY_OPEN",
+  "Milestone deadline passed": "MILESTONE_DEADLINE_PASSED",
+  "Milestone not due": "MILESTONE_NOT_DUE",
+  "No open vote": "NO_OPEN_VOTE",
+  "Voting closed": "VOTING_CLOSED",
+  "Voting still open": "VOTING_OPEN",
+  "Not a backer": "NOT_BACKER",
+  "Creator cannot back own campaign": "CAMPAIGN_CREATOR",
+  "Creator cannot vote": "CAMPAIGN_CREATOR",
+  "Already voted": "ALREADY_VOTED",
+  "Campaign not failed": "CAMPAIGN_NOT_FAILED",
+  "No contribution found": "NOT_BACKER",
+  "Already refunded": "ALREADY_REFUNDED",
+  "Campaign not funded": "CAMPAIGN_NOT_FUNDED",
+  "No reward tier": "NO_REWARD_TIER",
+  "Already claimed": "ALREADY_CLAIMED",
+  "Asset already linked": "ASSET_ALREADY_LINKED",
+  "Invalid quorum": "INVALID_QUORUM",
+  // PerformerAuthentication
+  "Not authorized verifier": "NOT_VERIFIER",
+  "Invalid performer address": "INVALID_ADDRESS",
+  "Identity already used": "IDENTITY_ALREADY_USED",
+  "Performer not verified": "PERFORMER_NOT_VERIFIED",
+  "Invalid verifier address": "INVALID_ADDRESS",
+  "Already a verifier": "ALREADY_VERIFIER",
+  "Not a verifier": "NOT_VERIFIER",
+  "Already approved": "ALREADY_APPROVED",
+  "Identity mismatch": "IDENTITY_MISMATCH",
+  "Wallet rotated": "WALLET_ROTATED",
+  "Invalid reason": "INVALID_REASON",
+  "Not revoked": "NOT_REVOKED",
+  "Evidence required": "EVIDENCE_REQUIRED",
+  "Appeal already filed": "APPEAL_ALREADY_FILED",
+  "No pending appeal": "NO_PENDING_APPEAL",
+  "Signature expired": "SIGNATURE_EXPIRED",
+  "Invalid wallet": "INVALID_ADDRESS",
+  "Not a performer": "NOT_PERFORMER",
+  "Wallet already registered": "WALLET_ALREADY_REGISTERED",
+  "Invalid old wallet signature": "INVALID_SIGNATURE",
+  "Invalid new wallet signature": "INVALID_SIGNATURE",
+  "Performer authentication not set": "PERFORMER_AUTH_NOT_SET",
+  // DigitalStudioDAO
+  "Not a studio member": "NOT_STUDIO_MEMBER",
+  "Not studio founder": "UNAUTHORIZED",
+  "Not upgrader": "UNAUTHORIZED",
+  "Already a member": "ALREADY_MEMBER",
+  "Not a member": "NOT_STUDIO_MEMBER",
+  "Cannot remove founder": "CANNOT_REMOVE_FOUNDER",
+  "Project not found": "PROJECT_NOT_FOUND",
+  "Project not active": "PROJECT_NOT_ACTIVE",
+  "Exceeds project budget": "EXCEEDS_PROJECT_BUDGET",
+  "Insufficient treasury": "INSUFFICIENT_TREASURY",
+  "Not a milestone funding": "NOT_MILESTONE_FUNDING",
+  "All milestones released": "ALL_MILESTONES_RELEASED",
+  "Funding not found": "FUNDING_NOT_FOUND",
+  "Nothing to claim": "NOTHING_TO_CLAIM",
+  "Asset not held by studio": "ASSET_NOT_HELD_BY_STUDIO",
+  "Asset already in project": "ASSET_ALREADY_LINKED",
+  "Asset not in project": "ASSET_NOT_IN_PROJECT",
+  "No eligible contributors": "NO_ELIGIBLE_CONTRIBUTORS",
+  "Share rounds to zero": "INVALID_SHARE",
+  // StudioFactory
+  "Studio name required": "STUDIO_NAME_REQUIRED",
+  // CommunityGovernance
+  "Not a council member": "NOT_COUNCIL_MEMBER",
+  "Invalid proposal": "INVALID_PROPOSAL",
+  "Title required": "TITLE_REQUIRED",
+  "Description required": "DESCRIPTION_REQUIRED",
+  "Insufficient voting power": "INSUFFICIENT_VOTING_POWER",
+  "No voting power": "INSUFFICIENT_VOTING_POWER",
+  "Voting period ended": "VOTING_CLOSED",
+  "Voting still active": "VOTING_OPEN",
+  "Use proposePlatformFee": "USE_PROPOSE_PLATFORM_FEE",
+  "Executor not set": "EXECUTOR_NOT_SET",
+  "Proposal not succeeded": "PROPOSAL_NOT_SUCCEEDED",
+  "Proposal not queued": "PROPOSAL_NOT_QUEUED",
+  "Proposal cancelled": "PROPOSAL_CANCELLED",
+  "Nothing to queue": "NOTHING_TO_QUEUE",
+  "Already executed": "ALREADY_EXECUTED",
+  "Invalid threshold": "INVALID_THRESHOLD",
+  // GovernanceExecutor / JeskeiProxyFactory
+  "Not governance": "UNAUTHORIZED",
+  "Not authorized executor": "UNAUTHORIZED",
+  "Timelock not expired": "TIMELOCKED",
+  "Already queued": "ALREADY_QUEUED",
+  "Not queued": "PROPOSAL_NOT_QUEUED",
+  "Operation cancelled": "PROPOSAL_CANCELLED",
+  "Operation stale": "OPERATION_STALE",
+  "Call not allowed": "CALL_NOT_ALLOWED",
+  // MigrationHelper and the legacy imports
+  "Not migrator": "NOT_MIGRATOR",
+  "Import out of order": "IMPORT_OUT_OF_ORDER",
+  "Batch out of order": "BATCH_OUT_OF_ORDER",
+  "Batch already migrated": "BATCH_OUT_OF_ORDER",
+  "Migration already completed": "MIGRATION_COMPLETED",
+  "Already completed": "MIGRATION_COMPLETED",
+  "Migration incomplete": "MIGRATION_INCOMPLETE",
+  // Admin setters
+  "Fee too high": "FEE_TOO_HIGH",
+  "Platform fee too high": "FEE_TOO_HIGH",
+  "Invalid treasury": "INVALID_ADDRESS",
+  "Invalid address": "INVALID_ADDRESS",
+  "Invalid weight": "INVALID_WEIGHT",
+} as const;
+
+export const CUSTOM_ERRORS = {
+  OwnableUnauthorizedAccount: "UNAUTHORIZED",
+  AccessControlUnauthorizedAccount: "UNAUTHORIZED",
+  AccessControlBadConfirmation: "UNAUTHORIZED",
+  EnforcedPause: "PAUSED",
+  ReentrancyGuardReentrantCall: "REENTRANT_CALL",
+  ERC721NonexistentToken: "NONEXISTENT_ASSET",
+  ERC721InvalidOwner: "INVALID_ADDRESS",
+  ERC721InvalidReceiver: "INVALID_ADDRESS",
+  ERC721IncorrectOwner: "NOT_ASSET_OWNER",
+  ERC721InsufficientApproval: "UNAUTHORIZED",
+  ERC20InsufficientAllowance: "INSUFFICIENT_ALLOWANCE",
+  ERC20InsufficientBalance: "INSUFFICIENT_BALANCE",
+  SafeERC20FailedOperation: "TOKEN_TRANSFER_FAILED",
+  ECDSAInvalidSignature: "INVALID_SIGNATURE",
+  ECDSAInvalidSignatureLength: "INVALID_SIGNATURE",
+  ECDSAInvalidSignatureS: "INVALID_SIGNATURE",
+} as const;
+
+// Custom errors can bubble up from a nested call (e.g. ContentAccess →
+// AssetRegistry.ownerOf), in which case the called contract's ABI does not
+// know them and ethers leaves `revert` empty.
+const customErrorInterface = new Interface([
+  "error OwnableUnauthorizedAccount(address account)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AccessControlBadConfirmation()",
+  "error EnforcedPause()",
+  "error ReentrancyGuardReentrantCall()",
+  "error ERC721NonexistentToken(uint256 tokenId)",
+  "error ERC721InvalidOwner(address owner)",
+  "error ERC721InvalidReceiver(address receiver)",
+  "error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)",
+  "error ERC721InsufficientApproval(address operator, uint256 tokenId)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error SafeERC20FailedOperation(address token)",
+  "error ECDSAInvalidSignature()",
+  "error ECDSAInvalidSignatureLength(uint256 length)",
+  "error ECDSAInvalidSignatureS(bytes32 s)",
+]);
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+export type JeskeiErrorCode =
+  | (typeof REVERT_REASONS)[keyof typeof REVERT_REASONS]
+  | (typeof CUSTOM_ERRORS)[keyof typeof CUSTOM_ERRORS]
+  | "UNKNOWN";
+
+export class JeskeiError extends Error {
+  constructor(
+    readonly code: JeskeiErrorCode,
+    /** Revert string or custom error name as emitted by the contract. */
+    readonly reason: string,
+    /** Custom error arguments, empty for `require` reverts. */
+    readonly args: readonly unknown[] = [],
+    /** The original ethers error. */
+    readonly cause?: unknown
+  ) {
+    super(`${code}: ${reason}`);
+    this.name = "JeskeiError";
+  }
+}
+
+/** Thrown when the SDK is pointed at a network it has no addresses for. */
+export class JeskeiConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JeskeiConfigError";
+  }
+}
+
+/**
+ * Turns an ethers call/transaction error into a `JeskeiError`. Returns
+ * `undefined` for anything that is not a contract revert (network errors,
+ * user rejections…), which callers should rethrow unchanged.
+ */
+export function decodeJeskeiError(err: unknown): JeskeiError | undefined {
+  const e = err as {
+    code?: string;
+    reason?: string | null;
+    revert?: { name: string; args: readonly unknown[] } | null;
+    data?: string | null;
+    message?: string;
+  };
+  if (!e || typeof e !== "object") return undefined;
+
+  if (e.revert && e.revert.name !== "Error") {
+    const code = (CUSTOM_ERRORS as Record<string, JeskeiErrorCode>)[e.revert.name] ?? "UNKNOWN";
+    return new JeskeiError(code, e.revert.name, e.revert.args, err);
+  }
+
+  if (!e.revert && typeof e.data === "string" && e.data.length >= 10) {
+    const parsed = customErrorInterface.parseError(e.data);
+    const code = parsed && (CUSTOM_ERRORS as Record<string, JeskeiErrorCode>)[parsed.name];
+    if (parsed && code) return new JeskeiError(code, parsed.name, [...parsed.args], err);
+  }
+
+  let reason = e.reason ?? undefined;
+  // Hardhat's in‑process provider sometimes only leaves the reason in the message
+  if (!reason && e.message) {
+    reason = /reverted with reason string '([^']*)'/.exec(e.message)?.[1];
+    const custom = /reverted with custom error '(\w+)\(/.exec(e.message)?.[1];
+    if (!reason && custom) {
+      const code = (CUSTOM_ERRORS as Record<string, JeskeiErrorCode>)[custom] ?? "UNKNOWN";
+      return new JeskeiError(code, custom, [], err);
+    }
+  }
+  // or only leaves the raw `Error(string)` payload when it cannot map the trace to a source
+  if (!reason && typeof e.data === "string" && e.data.startsWith(ERROR_STRING_SELECTOR)) {
+    reason = AbiCoder.defaultAbiCoder().decode(["string"], "0x" + e.data.slice(10))[0] as string;
+  }
+
+  if (reason) {
+    const code = (REVERT_REASONS as Record<string, JeskeiErrorCode>)[reason] ?? "UNKNOWN";
+    return new JeskeiError(code, reason, [], err);
+  }
+  if (e.code === "CALL_EXCEPTION") {
+    return new JeskeiError("UNKNOWN", e.message ?? "execution reverted", [], err);
+  }
+  return undefined;
+}
@@ -0,0 +1,34 @@
+export { JeskeiClient, SUBSCRIPTION_PERIODS } from "./client";
+export type {
+  CreateAssetParams,
+  CreateCampaignParams,
+  CreatePlanParams,
+  PayoutSource,
+  PurchaseAccessParams,
+  PurchaseWithTokenParams,
+  VerifyPerformerParams,
+} from "./client";
+export {
+  ViewAttestor,
+  ViewRelayer,
+  VIEW_STATUS,
+  VIEW_RECEIPT_TYPES,
+  VIEW_BATCH_TYPES,
+  adEngineDomain,
+  buildMerkleTree,
+  parseSettlement,
+  viewReceiptLeaf,
+} from "./attestor";
+export type { MerkleViewBatch, SettlementResult, SignedViewReceipt, ViewReceipt, ViewStatus } from "./attestor";
+export { SHARE_CONSENT_TYPES, assetRegistryDomain, signShareConsent, verifyShareConsent } from "./consent";
+export type { ShareConsent, SignedShareConsent } from "./consent";
+export { loadAddresses, DEFAULT_DEPLOYMENTS_DIR, SDK_MODULES } from "./addresses";
+export type { JeskeiAddresses } from "./addresses";
+export {
+  JeskeiError,
+  JeskeiConfigError,
+  decodeJeskeiError,
+  REVERT_REASONS,
+  CUSTOM_ERRORS,
+} from "./errors";
+export type { JeskeiErrorCode } from "./errors";
@@ -0,0 +1,39 @@
+import { task, types } from "hardhat/config";
+
+/**
+ * Ranked ad campaigns for one impression, read from the deployed stack:
+ *
+ *   npx hardhat jeskei:ads:match --network sepolia --asset 3 --viewer 0x… [--limit 5] [--pacing asap|even]
+ *
+ * The matcher is imported lazily: it depends on typechain output, which does
+ * not exist yet when this config is loaded for the first compile.
+ */
+task("jeskei:ads:match", "Lists the campaigns eligible for an impression, best first")
+  .addParam("asset", "Asset the ad is shown next to", undefined, types.string)
+  .addParam("viewer", "Viewer address", undefined, types.string)
+  .addOptionalParam("limit", "Maximum number of matches", undefined, types.int)
+  .addOptionalParam("pacing", "asap or even (default: even)", "even", types.string)
+  .setAction(async (args: { asset: string; viewer: string; limit?: number; pacing: string }, hre) => {
+    const { AdMatcher, ChainMatchingSource, PACING_STRATEGIES } = await import("../matching");
+    const pacing = PACING_STRATEGIES[args.pacing as keyof typeof PACING_STRATEGIES];
+    if (!pacing) throw new Error(`Unknown pacing "${args.pacing}"; expected one of asap, even`);
+
+    const addresses = {
+      AdvertisingEngine: (await hre.deployments.get("AdvertisingEngine")).address,
+      AssetRegistry: (await hre.deployments.get("AssetRegistry")).address,
+    };
+    const matcher = new AdMatcher(new ChainMatchingSource(addresses, hre.ethers.provider), { pacing });
+    const result = await matcher.match(BigInt(args.asset), hre.ethers.getAddress(args.viewer), { limit: args.limit });
+
+    for (const m of result.matches) {
+      const tags = m.matchedTags.length ? m.matchedTags.join(", ") : "untargeted";
+      console.log(
+        `   #${m.campaignId}  score ${m.score.toExponential(3)}  ${hre.ethers.formatEther(
+          m.viewCost
+        )} ETH/view  [${tags}]`
+      );
+    }
+    if (result.matches.length === 0) console.log("   no eligible campaigns");
+    for (const r of result.rejected) console.log(`   #${r.campaignId}  skipped: ${r.reason}`);
+    return result;
+  });
@@ -0,0 +1,225 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { gasOverrides, networkProfile } from "../utils/networks";
+
+/**
+ * Community governance from the command line:
+ *
+ *   npx hardhat jeskei:gov:delegate --network sepolia --to 0x…   [--from creator]
+ *   npx hardhat jeskei:gov:propose  --network sepolia --title "Lower fees" --description "…" \
+ *     --category PlatformFee --fee-target revenue --fee 300
+ *   npx hardhat jeskei:gov:vote     --network sepolia --id 0 --support for [--reason "…"]
+ *   npx hardhat jeskei:gov:queue    --network sepolia --id 0
+ *   npx hardhat jeskei:gov:execute  --network sepolia --id 0
+ *   npx hardhat jeskei:gov:status   --network sepolia [--id 0]
+ *
+ * Voting power is checkpointed: sync (`jeskei:gov:sync`) or delegate before a
+ * proposal is created, otherwise the power does not count for it. `--from`
+ * takes a named account or an address known to the provider; the deployer
+ * signs by default.
+ */
+
+export const PROPOSAL_CATEGORIES = ["PlatformFee", "FeatureRequest", "Partnership", "GeneralGovernance"] as const;
+export const PROPOSAL_STATES = ["Active", "Defeated", "Succeeded", "Queued", "Executed", "Cancelled"] as const;
+const FEE_TARGETS = ["revenue", "hosting"] as const;
+
+export interface GovernanceProposalStatus {
+  id: number;
+  title: string;
+  category: (typeof PROPOSAL_CATEGORIES)[number];
+  state: (typeof PROPOSAL_STATES)[number];
+  /** Module the proposal calls once executed, empty for signalling proposals. */
+  targetModule: string;
+  votesFor: bigint;
+  votesAgainst: bigint;
+  /** Voting power at the snapshot; quorum is measured against it. */
+  totalPower: bigint;
+  endTime: bigint;
+  /** When the executor may apply a queued proposal, 0 otherwise. */
+  eta: bigint;
+}
+
+async function governanceContracts(hre: HardhatRuntimeEnvironment, from?: string) {
+  const accounts = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(from ? accounts[from] ?? from : accounts.deployer);
+  const governance = await hre.ethers.getContractAt(
+    "CommunityGovernance",
+    (await hre.deployments.get("CommunityGovernance")).address,
+    signer
+  );
+  const executor = await hre.ethers.getContractAt(
+    "GovernanceExecutor",
+    (await hre.deployments.get("GovernanceExecutor")).address,
+    signer
+  );
+  return { signer, governance, executor };
+}
+
+async function readProposal(hre: HardhatRuntimeEnvironment, id: number): Promise<GovernanceProposalStatus> {
+  const { governance, executor } = await governanceContracts(hre);
+  if (BigInt(id) >= (await governance.proposalCounter())) throw new Error(`Proposal ${id} does not exist`);
+
+  const p = await governance.proposals(id);
+  const status = await governance.proposalStatus(id);
+  const state = PROPOSAL_STATES[Number(await governance.state(id))];
+  return {
+    id,
+    title: p.title,
+    category: PROPOSAL_CATEGORIES[Number(p.category)],
+    state,
+    targetModule: p.targetModule,
+    votesFor: p.votesFor,
+    votesAgainst: p.votesAgainst,
+    totalPower: status.totalPower,
+    endTime: p.endTime,
+    eta: status.queued ? (await executor.operations(id)).eta : 0n,
+  };
+}
+
+function formatProposal(p: GovernanceProposalStatus): string {
+  const effect = p.targetModule ? ` → ${p.targetModule}` : "";
+  const eta = p.state === "Queued" ? `, executable at ${new Date(Number(p.eta) * 1000).toISOString()}` : "";
+  return (
+    `#${p.id} [${p.category}] ${p.title}${effect}\n` +
+    `    ${p.state}${eta} · for ${p.votesFor} / against ${p.votesAgainst} of ${p.totalPower}`
+  );
+}
+
+task("jeskei:gov:sync", "Re-reads an account's assets and earnings into its voting power")
+  .addOptionalParam("account", "Account to sync (defaults to the signer)")
+  .addOptionalParam("from", "Signing named account or address")
+  .setAction(async (args: { account?: string; from?: string }, hre) => {
+    const { governance, signer } = await governanceContracts(hre, args.from);
+    const account = args.account ?? signer.address;
+    await (await governance.updateVotingPower(account, gasOverrides(networkProfile(hre.network.name)))).wait();
+
+    const power = await governance.userVotingPower(account);
+    console.log(`${account}: ${power} own voting power, ${await governance.getVotes(account)} votes`);
+    return power;
+  });
+
+task("jeskei:gov:delegate", "Delegates the signer's voting power")
+  .addParam("to", "Delegate address (the signer's own address to take power back)")
+  .addOptionalParam("from", "Signing named account or address")
+  .setAction(async (args: { to: string; from?: string }, hre) => {
+    const { governance, signer } = await governanceContracts(hre, args.from);
+    await (await governance.delegate(args.to, gasOverrides(networkProfile(hre.network.name)))).wait();
+
+    console.log(`${signer.address} delegates to ${args.to}, which now has ${await governance.getVotes(args.to)} votes`);
+  });
+
+task("jeskei:gov:propose", "Creates a proposal; PlatformFee proposals change a fee once executed")
+  .addParam("title", "Proposal title")
+  .addParam("description", "Proposal description")
+  .addParam("category", `One of ${PROPOSAL_CATEGORIES.join(", ")}`)
+  .addOptionalParam("feeTarget", `PlatformFee only: ${FEE_TARGETS.join(" or ")}`)
+  .addOptionalParam("fee", "PlatformFee only: basis points for revenue, percent for hosting", undefined, types.int)
+  .addOptionalParam("from", "Signing named account or address")
+  .setAction(
+    async (
+      args: { title: string; description: string; category: string; feeTarget?: string; fee?: number; from?: string },
+      hre
+    ) => {
+      const category = PROPOSAL_CATEGORIES.indexOf(args.category as (typeof PROPOSAL_CATEGORIES)[number]);
+      if (category < 0) {
+        throw new Error(`Unknown category ${args.category}; expected one of ${PROPOSAL_CATEGORIES.join(", ")}`);
+      }
+
+      const { governance } = await governanceContracts(hre, args.from);
+      const gas = gasOverrides(networkProfile(hre.network.name));
+      let tx;
+      if (args.category === "PlatformFee") {
+        const target = FEE_TARGETS.indexOf(args.feeTarget as (typeof FEE_TARGETS)[number]);
+        if (target < 0 || args.fee === undefined) {
+          throw new Error(`PlatformFee proposals need --fee-target (${FEE_TARGETS.join(" or ")}) and --fee`);
+        }
+        tx = await governance.proposePlatformFee(args.title, args.description, target, args.fee, gas);
+      } else {
+        if (args.feeTarget !== undefined || args.fee !== undefined) {
+          throw new Error("--fee-target and --fee only apply to PlatformFee proposals");
+        }
+        tx = await governance.createProposal(args.title, args.description, category, gas);
+      }
+      const receipt = await tx.wait();
+      const created = receipt!.logs
+        .map((log) => governance.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ProposalCreated");
+
+      const status = await readProposal(hre, Number(created!.args.proposalId));
+      console.log(formatProposal(status));
+      return status;
+    }
+  );
+
+task("jeskei:gov:vote", "Votes on an active proposal with the signer's snapshot power")
+  .addParam("id", "Proposal id", undefined, types.int)
+  .addParam("support", "for or against")
+  .addOptionalParam("reason", "Reason recorded with the vote", "", types.string)
+  .addOptionalParam("from", "Signing named account or address")
+  .setAction(async (args: { id: number; support: string; reason: string; from?: string }, hre) => {
+    if (args.support !== "for" && args.support !== "against") {
+      throw new Error(`--support must be "for" or "against", got ${args.support}`);
+    }
+    const { governance } = await governanceContracts(hre, args.from);
+    const before = await readProposal(hre, args.id);
+    if (before.state !== "Active") throw new Error(`Proposal ${args.id} is ${before.state}, voting has closed`);
+
+    await (
+      await governance.vote(
+        args.id,
+        args.support === "for",
+        args.reason,
+        gasOverrides(networkProfile(hre.network.name))
+      )
+    ).wait();
+    const status = await readProposal(hre, args.id);
+    console.log(formatProposal(status));
+    return status;
+  });
+
+task("jeskei:gov:queue", "Starts the executor timelock for a succeeded proposal")
+  .addParam("id", "Proposal id", undefined, types.int)
+  .setAction(async (args: { id: number }, hre) => {
+    const { governance } = await governanceContracts(hre);
+    const before = await readProposal(hre, args.id);
+    if (before.state !== "Succeeded") throw new Error(`Proposal ${args.id} is ${before.state}, not Succeeded`);
+    if (!before.targetModule) throw new Error(`Proposal ${args.id} has no on-chain effect to queue`);
+
+    await (await governance.queueProposal(args.id, gasOverrides(networkProfile(hre.network.name)))).wait();
+    const status = await readProposal(hre, args.id);
+    console.log(formatProposal(status));
+    return status;
+  });
+
+task("jeskei:gov:execute", "Records a finished proposal's outcome and applies it once the timelock has expired")
+  .addParam("id", "Proposal id", undefined, types.int)
+  .setAction(async (args: { id: number }, hre) => {
+    const { governance } = await governanceContracts(hre);
+    const p = await readProposal(hre, args.id);
+    if (p.state === "Active") throw new Error(`Proposal ${args.id} is still being voted on`);
+    if (p.state === "Executed" || p.state === "Cancelled") throw new Error(`Proposal ${args.id} is ${p.state}`);
+    if (p.state === "Succeeded" && p.targetModule) {
+      throw new Error(`Proposal ${args.id} must be queued first (jeskei:gov:queue)`);
+    }
+    if (p.state === "Queued") {
+      const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+      if (p.eta > now) throw new Error(`Proposal ${args.id} is timelocked for another ${p.eta - now}s`);
+    }
+
+    await (await governance.executeProposal(args.id, gasOverrides(networkProfile(hre.network.name)))).wait();
+    const status = await readProposal(hre, args.id);
+    console.log(formatProposal(status));
+    return status;
+  });
+
+task("jeskei:gov:status", "Lists governance proposals")
+  .addOptionalParam("id", "Only this proposal", undefined, types.int)
+  .setAction(async (args: { id?: number }, hre) => {
+    const { governance } = await governanceContracts(hre);
+    const count = Number(await governance.proposalCounter());
+    const ids = args.id !== undefined ? [args.id] : Array.from({ length: count }, (_, i) => i);
+    const statuses = await Promise.all(ids.map((id) => readProposal(hre, id)));
+    if (!statuses.length) console.log("No proposals");
+    for (const s of statuses) console.log(formatProposal(s));
+    return statuses;
+  });
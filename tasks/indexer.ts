@@ -0,0 +1,58 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import type { IndexerSource, SyncResult } from "../indexer";
+
+/**
+ * npx hardhat jeskei:index --network localhost [--db index/localhost.sqlite] [--follow]
+ *
+ * Backfills platform events from every deployed module into a local SQLite
+ * file, then (with --follow) keeps polling for new blocks until interrupted.
+ * Modules are located through deployments/<network>/; the start block is the
+ * deployment receipt's block, or found by bisecting `eth_getCode`.
+ *
+ * The indexer is imported lazily: it depends on typechain output, which does
+ * not exist yet when this config is loaded for the first compile.
+ */
+task("jeskei:index", "Indexes platform events into a local SQLite database")
+  .addOptionalParam("db", "Database file (default: index/<network>.sqlite)", undefined, types.string)
+  .addFlag("follow", "Keep following new blocks after the backfill")
+  .addOptionalParam("interval", "Polling interval in ms when following", 2000, types.int)
+  .setAction(async (args: { db?: string; follow: boolean; interval: number }, hre) => {
+    const { EventIndexer, INDEXED_MODULES, IndexerDb, findDeploymentBlock } = await import("../indexer");
+    const provider = hre.ethers.provider;
+    const sources: IndexerSource[] = [];
+    for (const module of INDEXED_MODULES) {
+      const deployment = await hre.deployments.getOrNull(module);
+      if (!deployment) {
+        console.log(`   • ${module} not deployed on ${hre.network.name}, skipped`);
+        continue;
+      }
+      const startBlock = deployment.receipt?.blockNumber ?? (await findDeploymentBlock(provider, deployment.address));
+      sources.push({ module, address: deployment.address, startBlock });
+      console.log(`   ${module.padEnd(24)} ${deployment.address} from block ${startBlock}`);
+    }
+
+    const file = args.db ?? path.join(hre.config.paths.root, "index", `${hre.network.name}.sqlite`);
+    const db = await IndexerDb.open(file);
+    const indexer = new EventIndexer(db, provider, sources);
+    const report = (r: SyncResult) => {
+      if (r.reorgedFrom !== undefined) console.log(`⚠︎ reorg: re-indexed from block ${r.reorgedFrom}`);
+      if (r.fromBlock <= r.toBlock) console.log(`✔︎ blocks ${r.fromBlock}–${r.toBlock}: ${r.events} events → ${file}`);
+    };
+
+    if (!args.follow) {
+      report(await indexer.sync());
+      db.close();
+      return;
+    }
+
+    const follower = indexer.follow({
+      intervalMs: args.interval,
+      onSync: report,
+      onError: (err) => console.error(`⚠︎ sync failed, retrying: ${(err as Error).message}`),
+    });
+    console.log("following new blocks, Ctrl‑C to stop");
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+    await follower.stop();
+    db.close();
+  });
@@ -0,0 +1,91 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import {
+  LegacyAddresses,
+  MigrationReport,
+  StreamProgress,
+  formatMigrationProgress,
+  formatMigrationReport,
+  migrateLegacy,
+  verifyMigration,
+} from "../utils/migration";
+
+/**
+ * Moves a legacy `contracts/core` deployment into the upgradeable stack:
+ *
+ *   npx hardhat jeskei:migrate --network sepolia --legacy-registry 0x… --legacy-distributor 0x…
+ *       --legacy-access 0x… [--from-block N] [--batch-size 25] [--max-batches N] [--from 0x…] [--json report.json]
+ *   npx hardhat jeskei:migrate:verify --network sepolia --legacy-registry 0x… --legacy-distributor 0x…
+ *       --legacy-access 0x… [--from-block N] [--json report.json]
+ *
+ * The signer must own MigrationHelper and fund the migrated hosting balances.
+ * Rerunning `jeskei:migrate` resumes an interrupted migration; both tasks end
+ * with the verification diff and exit non‑zero while it is not empty.
+ */
+
+export interface MigrationRun {
+  progress: StreamProgress[];
+  report: MigrationReport;
+}
+
+interface LegacyArgs {
+  legacyRegistry: string;
+  legacyDistributor: string;
+  legacyAccess: string;
+  fromBlock: number;
+  json?: string;
+}
+
+function legacyAddresses(args: LegacyArgs): LegacyAddresses {
+  return {
+    assetRegistry: args.legacyRegistry,
+    revenueDistributor: args.legacyDistributor,
+    contentAccess: args.legacyAccess,
+  };
+}
+
+function writeReport(report: MigrationReport, json?: string) {
+  console.log(formatMigrationReport(report));
+  if (json) {
+    fs.writeFileSync(json, JSON.stringify(report, null, 2));
+    console.log(`report written to ${json}`);
+  }
+  if (!report.passed) process.exitCode = 1;
+}
+
+task("jeskei:migrate", "Migrates legacy core contract state into the upgradeable stack, resuming where it left off")
+  .addParam("legacyRegistry", "Legacy AssetRegistry address")
+  .addParam("legacyDistributor", "Legacy RevenueDistributor address")
+  .addParam("legacyAccess", "Legacy ContentAccess address")
+  .addOptionalParam("fromBlock", "First block to search for legacy access grants", 0, types.int)
+  .addOptionalParam("batchSize", "Items per batch transaction", 25, types.int)
+  .addOptionalParam("maxBatches", "Stop after this many batches", undefined, types.int)
+  .addOptionalParam("from", "Signing named account or address")
+  .addOptionalParam("json", "Write the verification report as JSON to this file", undefined, types.string)
+  .setAction(async (args: LegacyArgs & { batchSize: number; maxBatches?: number; from?: string }, hre) => {
+    const legacy = legacyAddresses(args);
+    const progress = await migrateLegacy(hre, {
+      legacy,
+      batchSize: args.batchSize,
+      fromBlock: args.fromBlock,
+      maxBatches: args.maxBatches,
+      from: args.from,
+    });
+    console.log(formatMigrationProgress(progress));
+
+    const report = await verifyMigration(hre, legacy, args.fromBlock);
+    writeReport(report, args.json);
+    return { progress, report } as MigrationRun;
+  });
+
+task("jeskei:migrate:verify", "Diffs legacy core contract state against the upgradeable stack")
+  .addParam("legacyRegistry", "Legacy AssetRegistry address")
+  .addParam("legacyDistributor", "Legacy RevenueDistributor address")
+  .addParam("legacyAccess", "Legacy ContentAccess address")
+  .addOptionalParam("fromBlock", "First block to search for legacy access grants", 0, types.int)
+  .addOptionalParam("json", "Write the report as JSON to this file", undefined, types.string)
+  .setAction(async (args: LegacyArgs, hre) => {
+    const report = await verifyMigration(hre, legacyAddresses(args), args.fromBlock);
+    writeReport(report, args.json);
+    return report;
+  });
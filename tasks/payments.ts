@@ -0,0 +1,64 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { PayoutSource } from "../sdk";
+
+/**
+ * Claimable payouts of RevenueDistributor and AdvertisingEngine:
+ *
+ *   npx hardhat jeskei:payments:balance  --network sepolia [--account 0x…]
+ *   npx hardhat jeskei:payments:withdraw --network sepolia [--account 0x…] [--source revenue|advertising]
+ *
+ * `--account` defaults to the deployer. Withdrawing for another account uses
+ * `withdrawFor`, which pays that account and only costs the caller gas.
+ *
+ * The SDK is imported lazily: it depends on typechain output, which does not
+ * exist yet when this config is loaded for the first compile.
+ */
+
+const SOURCES: readonly PayoutSource[] = ["revenue", "advertising"];
+
+async function paymentsClient(hre: HardhatRuntimeEnvironment) {
+  const { JeskeiClient, SDK_MODULES } = await import("../sdk");
+  const addresses = Object.fromEntries(
+    await Promise.all(SDK_MODULES.map(async (m) => [m, (await hre.deployments.get(m)).address]))
+  );
+  const { deployer } = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(deployer);
+  return { client: JeskeiClient.connect(addresses as Parameters<typeof JeskeiClient.connect>[0], signer), deployer };
+}
+
+task("jeskei:payments:balance", "Shows the claimable revenue and ad payouts of an account")
+  .addOptionalParam("account", "Account to query (default: deployer)", undefined, types.string)
+  .setAction(async (args: { account?: string }, hre) => {
+    const { client, deployer } = await paymentsClient(hre);
+    const account = args.account ?? deployer;
+    const balances = await client.getClaimable(account);
+    console.log(`claimable by ${account}:`);
+    for (const source of SOURCES) console.log(`   ${source.padEnd(12)} ${hre.ethers.formatEther(balances[source])} ETH`);
+    return balances;
+  });
+
+task("jeskei:payments:withdraw", "Withdraws claimable payouts to an account")
+  .addOptionalParam("account", "Account to pay out (default: deployer)", undefined, types.string)
+  .addOptionalParam("source", `One of ${SOURCES.join(", ")} (default: both)`, undefined, types.string)
+  .setAction(async (args: { account?: string; source?: string }, hre) => {
+    if (args.source && !SOURCES.includes(args.source as PayoutSource)) {
+      throw new Error(`Unknown source "${args.source}"; expected one of ${SOURCES.join(", ")}`);
+    }
+    const { client, deployer } = await paymentsClient(hre);
+    const account = hre.ethers.getAddress(args.account ?? deployer);
+    const balances = await client.getClaimable(account);
+    const payee = account === hre.ethers.getAddress(deployer) ? undefined : account;
+
+    const withdrawn: Partial<Record<PayoutSource, bigint>> = {};
+    for (const source of args.source ? [args.source as PayoutSource] : SOURCES) {
+      if (balances[source] === 0n) {
+        console.log(`   ${source.padEnd(12)} nothing to withdraw`);
+        continue;
+      }
+      const { amount, receipt } = await client.withdraw(source, payee);
+      withdrawn[source] = amount;
+      console.log(`   ${source.padEnd(12)} ${hre.ethers.formatEther(amount)} ETH → ${account} (${receipt.hash})`);
+    }
+    return withdrawn;
+  });
@@ -0,0 +1,79 @@
+import { task, types } from "hardhat/config";
+import {
+  formatPauseResults,
+  formatRoleChanges,
+  formatRoleHolders,
+  grantRole,
+  listRoleHolders,
+  pauseAll,
+  revokeRole,
+} from "../utils/roles";
+
+/**
+ * Operator roles and incident response from the command line:
+ *
+ *   npx hardhat jeskei:roles grant  --network sepolia --role PAUSER --account 0x… [--module RevenueDistributor,…]
+ *   npx hardhat jeskei:roles revoke --network sepolia --role FEE_ADMIN --account 0x…
+ *   npx hardhat jeskei:roles list   --network sepolia [--role PAUSER] [--from-block N]
+ *   npx hardhat jeskei:pause-all    --network sepolia [--unpause] [--from 0x…]
+ *
+ * Without `--module` a change applies to every deployed module supporting the
+ * role. `--from` takes a named account or an address known to the provider;
+ * the deployer signs by default. `jeskei:pause-all` exits non‑zero when any
+ * module could not be paused.
+ */
+
+const ACTIONS = ["grant", "revoke", "list"] as const;
+
+function moduleList(modules?: string): string[] | undefined {
+  return modules
+    ?.split(",")
+    .map((m) => m.trim())
+    .filter(Boolean);
+}
+
+task("jeskei:roles", "Grants, revokes or lists operator roles across the deployed modules")
+  .addPositionalParam("action", `One of ${ACTIONS.join(", ")}`)
+  .addOptionalParam("role", "Role name, e.g. PAUSER or FEE_ADMIN (every role when listing)", undefined, types.string)
+  .addOptionalParam("account", "Account to grant the role to or revoke it from", undefined, types.string)
+  .addOptionalParam(
+    "module",
+    "Comma-separated module labels; all supporting the role by default",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("fromBlock", "First block to search for role grants when listing", 0, types.int)
+  .addOptionalParam("from", "Signing named account or address")
+  .setAction(
+    async (
+      args: { action: string; role?: string; account?: string; module?: string; fromBlock: number; from?: string },
+      hre
+    ) => {
+      if (!(ACTIONS as readonly string[]).includes(args.action)) {
+        throw new Error(`Unknown action "${args.action}"; expected one of ${ACTIONS.join(", ")}`);
+      }
+      const modules = moduleList(args.module);
+
+      if (args.action === "list") {
+        const holders = await listRoleHolders(hre, { role: args.role, modules, fromBlock: args.fromBlock });
+        console.log(formatRoleHolders(holders));
+        return holders;
+      }
+
+      if (!args.role || !args.account) throw new Error(`${args.action} needs --role and --account`);
+      const opts = { role: args.role, account: args.account, modules, from: args.from };
+      const changes = args.action === "grant" ? await grantRole(hre, opts) : await revokeRole(hre, opts);
+      console.log(formatRoleChanges(changes));
+      return changes;
+    }
+  );
+
+task("jeskei:pause-all", "Pauses every module the signer may pause, for incident response")
+  .addFlag("unpause", "Unpause instead")
+  .addOptionalParam("from", "Signing named account or address")
+  .setAction(async (args: { unpause: boolean; from?: string }, hre) => {
+    const results = await pauseAll(hre, args);
+    console.log(formatPauseResults(results));
+    if (results.some((r) => r.status === "failed")) process.exitCode = 1;
+    return results;
+  });
@@ -0,0 +1,32 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import { formatScenarioSummary, loadScenario, planScenario, runScenario } from "../utils/scenario";
+
+/**
+ * Seeds a local node from a scenario file:
+ *
+ *   npx hardhat node
+ *   npx hardhat jeskei:scenario --network localhost [--file scenarios/demo.json] [--seed N] [--out manifest.json]
+ *
+ * Deploys the upgradeable stack where it is missing, then creates the
+ * scenario's accounts, performers, assets, purchases, campaigns, studios and
+ * proposals. The manifest the front end reads (addresses, dev keys and the
+ * ids of everything created) goes to scenarios/manifests/<network>.json by
+ * default. `--seed` overrides the file's seed for its `generate` section.
+ */
+task("jeskei:scenario", "Deploys the stack on a local node and populates it from a scenario file")
+  .addOptionalParam("file", "Scenario file", "scenarios/demo.json", types.string)
+  .addOptionalParam("seed", "Seed for generated entities (default: the file's)", undefined, types.int)
+  .addOptionalParam("out", "Manifest file (default: scenarios/manifests/<network>.json)", undefined, types.string)
+  .setAction(async (args: { file: string; seed?: number; out?: string }, hre) => {
+    const plan = planScenario(loadScenario(args.file), args.seed);
+    const manifest = await runScenario(hre, plan, (message) => console.log(`   • ${message}`));
+    console.log(formatScenarioSummary(manifest));
+
+    const out = args.out ?? path.join("scenarios", "manifests", `${hre.network.name}.json`);
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(out, JSON.stringify(manifest, null, 2));
+    console.log(`manifest written to ${out}`);
+    return manifest;
+  });
@@ -0,0 +1,86 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { gasOverrides, networkProfile } from "../utils/networks";
+
+/**
+ * Production-house studios spawned through StudioFactory:
+ *
+ *   npx hardhat jeskei:studio:create --network sepolia --name "Northern Lights Films" [--from 0x…]
+ *   npx hardhat jeskei:studio:list   --network sepolia [--founder 0x…]
+ *
+ * The signer becomes the studio's founder; `--from` takes a named account or
+ * an address known to the provider and defaults to the deployer. Studios are
+ * BeaconProxies of StudioBeacon and are upgraded with
+ * `jeskei:upgrade:propose --module StudioBeacon`.
+ */
+
+export interface StudioInfo {
+  id: number;
+  address: string;
+  name: string;
+  founder: string;
+  memberCount: bigint;
+}
+
+async function studioFactory(hre: HardhatRuntimeEnvironment, from?: string) {
+  const accounts = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(from ? accounts[from] ?? from : accounts.deployer);
+  const factory = await hre.ethers.getContractAt(
+    "StudioFactoryUpgradeable",
+    (await hre.deployments.get("StudioFactory")).address,
+    signer
+  );
+  return { signer, factory };
+}
+
+async function readStudio(hre: HardhatRuntimeEnvironment, id: number, address: string): Promise<StudioInfo> {
+  const studio = await hre.ethers.getContractAt("DigitalStudioDAOUpgradeable", address);
+  return {
+    id,
+    address,
+    name: await studio.studioName(),
+    founder: await studio.founder(),
+    memberCount: await studio.memberCount(),
+  };
+}
+
+function formatStudio(s: StudioInfo): string {
+  return `#${s.id} ${s.name} (${s.address})\n    founder ${s.founder} · ${s.memberCount} member(s)`;
+}
+
+task("jeskei:studio:create", "Creates a studio DAO with the signer as founder")
+  .addParam("name", "Studio name")
+  .addOptionalParam("from", "Signing named account or address")
+  .setAction(async (args: { name: string; from?: string }, hre) => {
+    const { factory } = await studioFactory(hre, args.from);
+    const receipt = await (
+      await factory.createStudio(args.name, gasOverrides(networkProfile(hre.network.name)))
+    ).wait();
+    const created = receipt!.logs
+      .map((log) => factory.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "StudioCreated");
+
+    const studio = await readStudio(hre, Number(created!.args.studioId), created!.args.studio);
+    console.log(formatStudio(studio));
+    return studio;
+  });
+
+task("jeskei:studio:list", "Lists studios, optionally only those of one founder")
+  .addOptionalParam("founder", "Founder address")
+  .setAction(async (args: { founder?: string }, hre) => {
+    const { factory } = await studioFactory(hre);
+    const all = await Promise.all(
+      Array.from({ length: Number(await factory.studioCount()) }, (_, i) => factory.studios(i))
+    );
+    const wanted = args.founder ? new Set(await factory.getStudiosByFounder(args.founder)) : undefined;
+
+    const studios: StudioInfo[] = [];
+    for (const [id, address] of all.entries()) {
+      if (wanted && !wanted.has(address)) continue;
+      studios.push(await readStudio(hre, id, address));
+    }
+    console.log(`implementation: ${await factory.studioImplementation()}`);
+    for (const s of studios) console.log(formatStudio(s));
+    if (!studios.length) console.log("No studios");
+    return studios;
+  });
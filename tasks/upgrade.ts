@@ -0,0 +1,316 @@
+import fs from "fs";
+import { ZeroHash } from "ethers";
+import type { Interface } from "ethers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { MODULES } from "../utils/modules";
+import { IMPLEMENTATION_SLOT } from "../utils/erc1967";
+import { gasOverrides, networkProfile } from "../utils/networks";
+import {
+  StorageLayout,
+  UpgradeSafetyError,
+  checkImplementation,
+  compareStorageLayouts,
+  getStorageLayout,
+} from "../utils/upgradeSafety";
+
+/**
+ * Timelocked upgrades through UpgradeManager:
+ *
+ *   npx hardhat jeskei:upgrade:propose --network sepolia --module AssetRegistry \
+ *     --contract AssetRegistryUpgradeableV2 --new-version 1.1.0 --description "…"
+ *     [--call initializeV2 --call-args '[…]']
+ *   npx hardhat jeskei:upgrade:approve --network sepolia --id 3
+ *   npx hardhat jeskei:upgrade:status  --network sepolia [--id 3]
+ *   npx hardhat jeskei:upgrade:execute --network sepolia --id 3
+ *
+ * `propose` refuses implementations whose storage layout is incompatible with
+ * the layout recorded for the live version (deployments/<network>/<Module>.json)
+ * or that leave `_authorizeUpgrade` / `_disableInitializers` out. The new
+ * layout is kept in `<Module>_Proposal_<id>.json` and becomes the recorded
+ * one once `execute` succeeds. `--call` names a function of the new
+ * implementation (typically a reinitializer that migrates state it relies
+ * on) that the proxy runs as part of the upgrade, with `--call-args` as a
+ * JSON array of its arguments.
+ *
+ * A proxy still on an owner-only implementation holds no roles and sits at
+ * initializer version 1; `propose` refuses to move it to a role module unless
+ * `--call initializeRoles --call-args '["<role admin>"]'` grants them
+ * (`initializeVerification` for PerformerAuthentication).
+ *
+ * Beacon modules (`--module StudioBeacon`) go through the same flow; executing
+ * the proposal moves every studio behind the beacon at once.
+ */
+
+export interface ProposalStatus {
+  id: number;
+  module: string;
+  implementation: string;
+  version: string;
+  description: string;
+  /** Calldata run on the proxy as it is upgraded, "0x" for none. */
+  call: string;
+  executionTime: bigint;
+  approved: boolean;
+  executed: boolean;
+  /** Seconds until the timelock expires, 0 once it has. */
+  remaining: bigint;
+}
+
+const proposalDeployment = (module: string, id: number | bigint) => `${module}_Proposal_${id}`;
+
+async function upgradeContracts(hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(deployer);
+  const manager = await hre.ethers.getContractAt(
+    "UpgradeManager",
+    (await hre.deployments.get("UpgradeManager")).address,
+    signer
+  );
+  const factory = await hre.ethers.getContractAt(
+    "JeskeiProxyFactory",
+    (await hre.deployments.get("JeskeiProxyFactory")).address,
+    signer
+  );
+  return { signer, manager, factory };
+}
+
+/** The role migration an implementation runs when it replaces an owner-only one. */
+function roleMigration(impl: Interface): string | undefined {
+  if (impl.getFunction("initializeVerification")) return "initializeVerification";
+  if (impl.getFunction("initializeRoles")) return "initializeRoles";
+  return undefined;
+}
+
+async function grantsRoles(hre: HardhatRuntimeEnvironment, proxy: string): Promise<boolean> {
+  const roles = await hre.ethers.getContractAt("IAccessControl", proxy);
+  try {
+    await roles.getRoleAdmin(ZeroHash);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function duration(seconds: bigint): string {
+  const s = Number(seconds);
+  const parts = [
+    [Math.floor(s / 86400), "d"],
+    [Math.floor((s % 86400) / 3600), "h"],
+    [Math.floor((s % 3600) / 60), "m"],
+    [s % 60, "s"],
+  ].filter(([n]) => n) as [number, string][];
+  return parts.map(([n, unit]) => `${n}${unit}`).join(" ") || "0s";
+}
+
+function countdown(remaining: bigint): string {
+  return remaining > 0n ? `executable in ${duration(remaining)}` : "timelock expired";
+}
+
+async function readProposal(hre: HardhatRuntimeEnvironment, id: number): Promise<ProposalStatus> {
+  const { manager } = await upgradeContracts(hre);
+  if (BigInt(id) >= (await manager.proposalCounter())) throw new Error(`Proposal ${id} does not exist`);
+  const p = await manager.getProposal(id);
+  const call = await manager.upgradeCalls(id);
+  const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+  return {
+    id,
+    module: p.contractName,
+    implementation: p.newImplementation,
+    version: p.newVersion,
+    description: p.description,
+    call,
+    executionTime: p.executionTime,
+    approved: p.approved,
+    executed: p.executed,
+    remaining: p.executionTime > now ? p.executionTime - now : 0n,
+  };
+}
+
+function formatProposal(p: ProposalStatus): string {
+  const state = p.executed ? "executed" : p.approved ? `approved, ${countdown(p.remaining)}` : `awaiting approval, ${countdown(p.remaining)}`;
+  const call = p.call !== "0x" ? `, then calls ${p.call.slice(0, 10)}` : "";
+  return `#${p.id} ${p.module} → v${p.version} (${p.implementation})${call}\n    ${state}${p.description ? `\n    ${p.description}` : ""}`;
+}
+
+task("jeskei:upgrade:propose", "Deploys a new implementation, checks it is upgrade safe and proposes it to UpgradeManager")
+  .addParam("module", "Module label, as tracked by JeskeiProxyFactory (e.g. AssetRegistry)")
+  .addParam("contract", "Artifact name of the new implementation")
+  .addParam("newVersion", "Version string recorded by the factory once executed")
+  .addOptionalParam("description", "Proposal description", "", types.string)
+  .addOptionalParam(
+    "baseline",
+    "Artifact the live implementation was built from, or a storage layout JSON (e.g. layouts/<Contract>.v1.json); " +
+      "only needed when the deployment file has no recorded storage layout"
+  )
+  .addOptionalParam("call", "Function of the new implementation the proxy runs as part of the upgrade")
+  .addOptionalParam("callArgs", "JSON array of the --call arguments", "[]", types.string)
+  .setAction(
+    async (
+      args: {
+        module: string;
+        contract: string;
+        newVersion: string;
+        description: string;
+        baseline?: string;
+        call?: string;
+        callArgs: string;
+      },
+      hre
+    ) => {
+      const mod = MODULES.find((m) => m.label === args.module);
+      if (!mod || (mod.kind !== "factory" && mod.kind !== "beacon")) {
+        const upgradable = MODULES.filter((m) => m.kind === "factory" || m.kind === "beacon").map((m) => m.label);
+        throw new Error(`${args.module} is not upgraded through UpgradeManager; expected one of ${upgradable.join(", ")}`);
+      }
+      if (args.call && mod.kind === "beacon") {
+        throw new Error(`${args.module} is a beacon; its upgrades cannot run --call`);
+      }
+      await hre.run("compile", { quiet: true });
+
+      // ---- safety checks, before anything is sent ----
+      const { manager, factory, signer } = await upgradeContracts(hre);
+      const live = await hre.deployments.get(args.module);
+      const onChain = await factory.getProxy(args.module);
+      if (live.implementation && live.implementation.toLowerCase() !== onChain.implementationAddress.toLowerCase()) {
+        throw new Error(
+          `deployments/${hre.network.name}/${args.module}.json records implementation ${live.implementation}, ` +
+            `but the factory reports ${onChain.implementationAddress}; the recorded layout is stale`
+        );
+      }
+      let liveLayout = live.storageLayout;
+      if (!liveLayout) {
+        if (!args.baseline) {
+          throw new Error(
+            `No storage layout recorded for ${args.module}; pass --baseline <artifact or layout JSON of the live implementation>`
+          );
+        }
+        liveLayout = args.baseline.endsWith(".json")
+          ? (JSON.parse(fs.readFileSync(args.baseline, "utf8")) as StorageLayout)
+          : await getStorageLayout(hre, args.baseline);
+      }
+      const newLayout = await getStorageLayout(hre, args.contract);
+      const issues = [
+        ...compareStorageLayouts(liveLayout, newLayout),
+        ...(await checkImplementation(hre, args.contract)),
+      ];
+      if (issues.length) throw new UpgradeSafetyError(args.contract, issues);
+      console.log(`✔︎ ${args.contract} is layout compatible with the live ${args.module} (v${onChain.version})`);
+
+      const Impl = await hre.ethers.getContractFactory(args.contract, signer);
+      const migration = roleMigration(Impl.interface);
+      if (migration && args.call !== migration && !(await grantsRoles(hre, onChain.proxyAddress))) {
+        throw new Error(
+          `${args.module} runs an owner-only implementation; upgrade it with --call ${migration} ` +
+            `so its roles are granted and it cannot be initialized again`
+        );
+      }
+      const call = args.call ? Impl.interface.encodeFunctionData(args.call, JSON.parse(args.callArgs)) : "0x";
+
+      // ---- deploy + propose ----
+      const gas = gasOverrides(networkProfile(hre.network.name));
+      const impl = await Impl.deploy(gas);
+      await impl.waitForDeployment();
+      const implementation = await impl.getAddress();
+      const uuid = await impl.getFunction("proxiableUUID").staticCall();
+      if (uuid !== IMPLEMENTATION_SLOT) throw new Error(`${implementation} reports proxiableUUID ${uuid}`);
+      console.log(`  implementation → ${implementation}`);
+
+      const tx =
+        call === "0x"
+          ? await manager.proposeUpgrade(args.module, implementation, args.newVersion, args.description, gas)
+          : await manager.proposeUpgradeAndCall(
+              args.module,
+              implementation,
+              args.newVersion,
+              args.description,
+              call,
+              gas
+            );
+      const receipt = await tx.wait();
+      const proposed = receipt!.logs
+        .map((log) => manager.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "UpgradeProposed");
+      const id = Number(proposed!.args.proposalId);
+
+      await hre.deployments.save(proposalDeployment(args.module, id), {
+        address: implementation,
+        abi: JSON.parse(Impl.interface.formatJson()),
+        storageLayout: newLayout,
+        linkedData: { proposalId: id, contract: args.contract, version: args.newVersion },
+      });
+
+      const status = await readProposal(hre, id);
+      console.log(formatProposal(status));
+      return status;
+    }
+  );
+
+task("jeskei:upgrade:approve", "Approves an upgrade proposal")
+  .addParam("id", "Proposal id", undefined, types.int)
+  .setAction(async (args: { id: number }, hre) => {
+    const { manager } = await upgradeContracts(hre);
+    const before = await readProposal(hre, args.id);
+    if (before.executed) throw new Error(`Proposal ${args.id} was already executed`);
+
+    await (await manager.approveUpgrade(args.id, gasOverrides(networkProfile(hre.network.name)))).wait();
+    const status = await readProposal(hre, args.id);
+    console.log(formatProposal(status));
+    return status;
+  });
+
+task("jeskei:upgrade:execute", "Executes an approved upgrade once its timelock has expired")
+  .addParam("id", "Proposal id", undefined, types.int)
+  .setAction(async (args: { id: number }, hre) => {
+    const { manager } = await upgradeContracts(hre);
+    const p = await readProposal(hre, args.id);
+    if (p.executed) throw new Error(`Proposal ${args.id} was already executed`);
+    if (!p.approved) throw new Error(`Proposal ${args.id} has not been approved`);
+    if (p.remaining > 0n) throw new Error(`Proposal ${args.id} is timelocked: ${countdown(p.remaining)}`);
+
+    // another upgrade may have landed since this one was proposed
+    const live = await hre.deployments.get(p.module);
+    const pending = await hre.deployments.getOrNull(proposalDeployment(p.module, args.id));
+    if (pending?.storageLayout && live.storageLayout) {
+      const issues = compareStorageLayouts(live.storageLayout, pending.storageLayout);
+      if (issues.length) throw new UpgradeSafetyError(pending.linkedData?.contract ?? p.implementation, issues);
+    }
+
+    await (await manager.executeUpgrade(args.id, gasOverrides(networkProfile(hre.network.name)))).wait();
+
+    // a beacon's deployment file keeps the beacon's own ABI
+    const beacon = MODULES.find((m) => m.label === p.module)?.kind === "beacon";
+    await hre.deployments.save(p.module, {
+      ...live,
+      abi: beacon ? live.abi : pending?.abi ?? live.abi,
+      implementation: p.implementation,
+      storageLayout: pending?.storageLayout,
+    });
+    if (pending) {
+      await hre.deployments.delete(proposalDeployment(p.module, args.id));
+    } else {
+      console.log(`⚠︎ no ${proposalDeployment(p.module, args.id)} record; the next proposal for ${p.module} needs --baseline`);
+    }
+
+    const status = await readProposal(hre, args.id);
+    console.log(formatProposal(status));
+    return status;
+  });
+
+task("jeskei:upgrade:status", "Lists upgrade proposals and their timelock countdown")
+  .addOptionalParam("id", "Only show this proposal", undefined, types.int)
+  .setAction(async (args: { id?: number }, hre) => {
+    const { manager } = await upgradeContracts(hre);
+    const count = Number(await manager.proposalCounter());
+    const ids = args.id !== undefined ? [args.id] : [...Array(count).keys()];
+
+    console.log(`UpgradeManager timelock: ${duration(await manager.timelock())}`);
+    const statuses: ProposalStatus[] = [];
+    for (const id of ids) {
+      const status = await readProposal(hre, id);
+      statuses.push(status);
+      console.log(formatProposal(status));
+    }
+    if (statuses.length === 0) console.log("no proposals");
+    return statuses;
+  });
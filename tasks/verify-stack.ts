@@ -0,0 +1,25 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import { formatStackReport, verifyStack } from "../utils/verifyStack";
+
+/**
+ * npx hardhat jeskei:verify-stack --network sepolia [--owner 0x…] [--json report.json]
+ *
+ * Checks the live wiring of everything in deployments/<network>/ and exits
+ * non‑zero when any check fails, so it can gate CI after a deploy.
+ */
+task("jeskei:verify-stack", "Checks proxies, wiring, ownership and upgrader rights of the deployed stack")
+  .addOptionalParam("owner", "Expected owner (multisig) of the infrastructure contracts; defaults to the deployer")
+  .addOptionalParam("json", "Write the report as JSON to this file", undefined, types.string)
+  .setAction(async (args: { owner?: string; json?: string }, hre) => {
+    const owner = args.owner ?? (await hre.getNamedAccounts()).deployer;
+    const report = await verifyStack(hre, { owner });
+
+    console.log(formatStackReport(report));
+    if (args.json) {
+      fs.writeFileSync(args.json, JSON.stringify(report, null, 2));
+      console.log(`report written to ${args.json}`);
+    }
+    if (!report.passed) process.exitCode = 1;
+    return report;
+  });
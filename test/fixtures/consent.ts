@@ -0,0 +1,34 @@
+import type { BigNumberish, ContractTransactionReceipt, Signer } from "ethers";
+import { signShareConsent } from "../../sdk/consent";
+import type { AssetRegistryUpgradeable } from "../../typechain-types";
+
+// Fixed so the same share always signs to the same bytes and costs the same
+// calldata gas; gas-snapshot.json records setContributorShare
+const CONSENT_DEADLINE = 4_102_444_800; // 2100-01-01
+
+/** Contributor, basis points (0 removes them) and an optional role. */
+export type ConsentedShare = [contributor: Signer, percentage: bigint, role?: string];
+
+/**
+ * Sets AssetRegistry contributor shares the way a studio back office would:
+ * each contributor signs a ShareConsent and the asset owner submits it, so
+ * contributors send no transaction. Applied in order, one receipt per share.
+ */
+export async function consentShares(
+  registry: AssetRegistryUpgradeable,
+  owner: Signer,
+  assetId: BigNumberish,
+  shares: ConsentedShare[]
+): Promise<ContractTransactionReceipt[]> {
+  const receipts: ContractTransactionReceipt[] = [];
+  for (const [contributor, percentage, role = "contributor"] of shares) {
+    const { consent, signature } = await signShareConsent(contributor, registry, assetId, percentage, role, {
+      deadline: CONSENT_DEADLINE,
+    });
+    const tx = await registry
+      .connect(owner)
+      .setContributorShare(assetId, consent.contributor, percentage, role, consent.deadline, signature);
+    receipts.push((await tx.wait())!);
+  }
+  return receipts;
+}
@@ -0,0 +1,45 @@
+import fs from "fs";
+import path from "path";
+import type { ContractTransactionReceipt } from "ethers";
+import hre from "hardhat";
+
+export const GAS_SNAPSHOT_FILE = path.join(__dirname, "..", "..", "gas-snapshot.json");
+
+/**
+ * Collects `gasUsed` per labelled operation and checks it against
+ * gas-snapshot.json, which is committed so gas changes show up in review.
+ * `npm run test:gas-snapshot` (UPDATE_GAS_SNAPSHOT=true) merges the new
+ * figures into the file instead. Labels from other suites (or from tests
+ * skipped by `--grep`) are kept; delete the file to drop stale entries.
+ */
+export class GasSnapshot {
+  private readonly entries = new Map<string, bigint>();
+
+  record(label: string, receipt: ContractTransactionReceipt | null): void {
+    if (!receipt) throw new Error(`No receipt for "${label}"`);
+    this.entries.set(label, receipt.gasUsed);
+  }
+
+  /** Writes the snapshot when asked to, otherwise fails on any drift from it. */
+  finish(file = GAS_SNAPSHOT_FILE): void {
+    if (this.entries.size === 0) return;
+    // instrumented contracts spend more gas than the snapshot records
+    if ((hre as { __SOLIDITY_COVERAGE_RUNNING?: boolean }).__SOLIDITY_COVERAGE_RUNNING) return;
+    if (process.env.UPDATE_GAS_SNAPSHOT === "true") return this.write(file);
+
+    const snapshot: Record<string, number> = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+    const drift = [...this.entries]
+      .filter(([label, gas]) => snapshot[label] !== Number(gas))
+      .map(([label, gas]) => `  ${label}: ${snapshot[label] ?? "missing"} → ${gas}`);
+    if (drift.length) {
+      throw new Error(`Gas differs from ${path.basename(file)}; run npm run test:gas-snapshot\n${drift.join("\n")}`);
+    }
+  }
+
+  private write(file: string): void {
+    const snapshot: Record<string, number> = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+    for (const [label, gas] of this.entries) snapshot[label] = Number(gas);
+    const sorted = Object.fromEntries(Object.entries(snapshot).sort(([a], [b]) => a.localeCompare(b)));
+    fs.writeFileSync(file, JSON.stringify(sorted, null, 2) + "\n");
+  }
+}
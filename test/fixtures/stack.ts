@@ -0,0 +1,43 @@
+import { ethers, getNamedAccounts, network } from "hardhat";
+import { initializerOf, NAMED_ACCOUNTS, NamedAccount, resolveArgs, resolveOrder } from "../../utils/manifest";
+import { MODULES } from "../../utils/modules";
+import { networkProfile } from "../../utils/networks";
+
+/**
+ * The manifest's stack with every module behind its own ERC1967Proxy (or, for
+ * beacon modules, an UpgradeableBeacon), initialised (and therefore owned) by
+ * the deployer instead of the proxy factory, so owner‑only flows can be
+ * exercised directly.
+ *
+ * Returns proxy addresses keyed by module label.
+ */
+export async function deployOwnedStack(): Promise<Record<string, string>> {
+  const named = await getNamedAccounts();
+  const addrs: Record<string, string> = {};
+  for (const account of NAMED_ACCOUNTS) addrs[account] = named[account as NamedAccount];
+
+  const profile = networkProfile(network.name);
+  const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+  const Beacon = await ethers.getContractFactory("UpgradeableBeacon");
+  for (const mod of resolveOrder(MODULES)) {
+    const Impl = await ethers.getContractFactory(mod.impl);
+    const args = resolveArgs(mod, addrs, profile);
+    if (mod.kind === "plain") {
+      const plain = await Impl.deploy(...args);
+      addrs[mod.label] = await plain.getAddress();
+      continue;
+    }
+    const impl = await Impl.deploy();
+    if (mod.kind === "beacon") {
+      const beacon = await Beacon.deploy(await impl.getAddress(), named.deployer);
+      addrs[mod.label] = await beacon.getAddress();
+      continue;
+    }
+    const proxy = await Proxy.deploy(
+      await impl.getAddress(),
+      Impl.interface.encodeFunctionData(initializerOf(mod.impl), args)
+    );
+    addrs[mod.label] = await proxy.getAddress();
+  }
+  return addrs;
+}
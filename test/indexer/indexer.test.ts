@@ -0,0 +1,264 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "hardhat";
+import { loadFixture, mine, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  EventIndexer,
+  INDEXED_MODULES,
+  IndexerDb,
+  IndexerSource,
+  assetContributors,
+  assetsByCreator,
+  earningsPerContributor,
+  findDeploymentBlock,
+  proxyUpgrades,
+  purchasesByUser,
+  purchasesPerUser,
+  spendPerCampaign,
+  studiosByFounder,
+} from "../../indexer";
+import { deployOwnedStack } from "../fixtures/stack";
+
+describe("EventIndexer", function () {
+  const price = ethers.parseEther("0.1");
+  const rate = ethers.parseEther("0.001");
+  const DAY = 24 * 60 * 60;
+
+  async function activityFixture() {
+    const [owner, creator, buyer, contributor, viewer] = await ethers.getSigners();
+    const addrs = await deployOwnedStack();
+    const registry = await ethers.getContractAt("AssetRegistryUpgradeable", addrs.AssetRegistry);
+    const distributor = await ethers.getContractAt("RevenueDistributorUpgradeable", addrs.RevenueDistributor);
+    const access = await ethers.getContractAt("ContentAccessUpgradeable", addrs.ContentAccess);
+    const ads = await ethers.getContractAt("AdvertisingEngineUpgradeable", addrs.AdvertisingEngine);
+    const performers = await ethers.getContractAt("PerformerAuthenticationUpgradeable", addrs.PerformerAuthentication);
+    const governance = await ethers.getContractAt("CommunityGovernance", addrs.CommunityGovernance);
+    const factory = await ethers.getContractAt("JeskeiProxyFactory", addrs.JeskeiProxyFactory);
+    const studios = await ethers.getContractAt("StudioFactoryUpgradeable", addrs.StudioFactory);
+
+    await registry.connect(creator).createAsset("QmHash", "ipfs://meta", "video", "ipfs", false, price, {
+      value: ethers.parseEther("0.01"),
+    });
+    await registry.connect(creator).offerShare(0, contributor.address, 3000, "editor");
+    await registry.connect(contributor).acceptShare(0);
+    await access.connect(creator).setAssetPrice(0, price);
+    await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+    await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+
+    await ads.connect(creator).createCampaign("ipfs://ad", rate, rate, DAY, ["music"], { value: ethers.parseEther("1") });
+    await ads.recordAdView(0, viewer.address, creator.address);
+    await ads.recordAdView(0, buyer.address, creator.address);
+
+    await performers.verifyPerformer(creator.address, ethers.id("passport"), "pk", "ipfs://performer");
+    // two purchases earn the creator less than the default proposal threshold
+    await governance.setMinVotingPower(1);
+    await governance.updateVotingPower(creator.address);
+    await governance.connect(creator).createProposal("Featured row", "on the home page", 1);
+    await governance.connect(creator).vote(0, true, "yes");
+    await studios.connect(creator).createStudio("Northern Lights Films");
+
+    const V1 = await ethers.getContractFactory("AssetRegistryUpgradeable");
+    const v1 = await V1.deploy();
+    await factory.deployProxy("AssetRegistry", await v1.getAddress(), V1.interface.encodeFunctionData("initialize", [owner.address, addrs.PerformerAuthentication, owner.address]), "1.0.0");
+    const v2 = await (await ethers.getContractFactory("AssetRegistryUpgradeableV2Mock")).deploy();
+    await factory.upgradeProxy("AssetRegistry", await v2.getAddress(), "1.1.0");
+
+    const sources: IndexerSource[] = [];
+    for (const module of INDEXED_MODULES) {
+      sources.push({ module, address: addrs[module], startBlock: await findDeploymentBlock(ethers.provider, addrs[module]) });
+    }
+    return { sources, registry, access, owner, creator, buyer, contributor, viewer, v2: await v2.getAddress() };
+  }
+
+  async function indexed(file?: string) {
+    const fixture = await loadFixture(activityFixture);
+    const db = await IndexerDb.open(file);
+    const indexer = new EventIndexer(db, ethers.provider, fixture.sources, { batchSize: 5 });
+    const result = await indexer.sync();
+    return { ...fixture, db, indexer, result };
+  }
+
+  it("Should start each module at its deployment block", async function () {
+    const { sources } = await loadFixture(activityFixture);
+    const registry = sources.find((s) => s.module === "AssetRegistry")!;
+
+    expect(await ethers.provider.getCode(registry.address, registry.startBlock - 1)).to.equal("0x");
+    expect(await ethers.provider.getCode(registry.address, registry.startBlock)).to.not.equal("0x");
+  });
+
+  it("Should backfill every indexed event", async function () {
+    const { db, result } = await indexed();
+    const count = (table: string) => db.get<{ n: number }>(`SELECT COUNT(*) AS n FROM ${table}`)!.n;
+
+    expect(result.reorgedFrom).to.equal(undefined);
+    expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+    expect(
+      Object.fromEntries(
+        [
+          "assets",
+          "contributors",
+          "contributor_updates",
+          "contributor_removals",
+          "hosting_fees",
+          "revenue_distributions",
+          "access_purchases",
+          "campaigns",
+          "ad_views",
+          "performer_verifications",
+          "governance_proposals",
+          "governance_votes",
+          "studios",
+          "proxy_upgrades",
+        ].map((t) => [t, count(t)])
+      )
+    ).to.deep.equal({
+      assets: 1,
+      contributors: 1,
+      contributor_updates: 0,
+      contributor_removals: 0,
+      hosting_fees: 1,
+      revenue_distributions: 4,
+      access_purchases: 2,
+      campaigns: 1,
+      ad_views: 2,
+      performer_verifications: 1,
+      governance_proposals: 1,
+      governance_votes: 1,
+      studios: 1,
+      proxy_upgrades: 1,
+    });
+    expect(result.events).to.equal(17);
+  });
+
+  it("Should answer typed queries", async function () {
+    const { db, creator, buyer, contributor, v2 } = await indexed();
+    const afterFee = price - (price * 1500n) / 10000n;
+
+    expect(earningsPerContributor(db, { assetId: 0n })).to.deep.equal(
+      [
+        { assetId: 0n, contributor: creator.address, total: ((afterFee * 7000n) / 10000n) * 2n, payments: 2 },
+        { assetId: 0n, contributor: contributor.address, total: ((afterFee * 3000n) / 10000n) * 2n, payments: 2 },
+      ].sort((a, b) => a.contributor.localeCompare(b.contributor))
+    );
+    expect(earningsPerContributor(db, { contributor: contributor.address.toLowerCase() })).to.have.length(1);
+
+    expect(purchasesByUser(db, buyer.address).map((p) => p.price)).to.deep.equal([price, price]);
+    expect(purchasesPerUser(db)).to.deep.equal([{ user: buyer.address, purchases: 2, totalSpent: price * 2n }]);
+
+    const [campaign] = spendPerCampaign(db, 0n);
+    expect(campaign).to.include({ advertiser: creator.address, views: 2, paidOut: rate * 4n });
+
+    expect(assetsByCreator(db, creator.address).map((a) => a.contentHash)).to.deep.equal(["QmHash"]);
+    expect(studiosByFounder(db, creator.address)).to.have.length(1);
+    expect(studiosByFounder(db, creator.address)[0]).to.include({ studioId: 0n, name: "Northern Lights Films" });
+    expect(proxyUpgrades(db)).to.have.length(1);
+    expect(proxyUpgrades(db)[0]).to.include({ contractName: "AssetRegistry", newImplementation: v2, newVersion: "1.1.0" });
+  });
+
+  it("Should track contributor share changes and removals", async function () {
+    const { indexer, registry, creator, contributor, viewer, db } = await indexed();
+    expect(assetContributors(db, 0n).map((c) => [c.contributor, c.shareBps])).to.deep.equal([[contributor.address, 3000]]);
+
+    await registry.connect(creator).offerShare(0, contributor.address, 2000, "director");
+    await registry.connect(contributor).acceptShare(0);
+    await registry.connect(creator).offerShare(0, viewer.address, 1000, "composer");
+    await registry.connect(viewer).acceptShare(0);
+    await registry.connect(creator).offerShare(0, viewer.address, 0, "");
+    await registry.connect(viewer).acceptShare(0);
+    expect((await indexer.sync()).events).to.equal(3);
+
+    expect(assetContributors(db, 0n)).to.deep.equal([
+      {
+        assetId: 0n,
+        contributor: contributor.address,
+        shareBps: 2000,
+        role: "director",
+        blockNumber: (await ethers.provider.getBlockNumber()) - 4,
+      },
+    ]);
+    expect(assetContributors(db, 1n)).to.deep.equal([]);
+  });
+
+  it("Should only index new blocks on the next sync", async function () {
+    const { indexer, access, buyer, db } = await indexed();
+
+    expect((await indexer.sync()).events).to.equal(0);
+    await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+    expect((await indexer.sync()).events).to.equal(3);
+    expect(purchasesByUser(db, buyer.address)).to.have.length(3);
+  });
+
+  it("Should roll back and re-index after a reorg", async function () {
+    const { indexer, access, buyer, creator, db } = await indexed();
+    const fork = await takeSnapshot();
+    const forkPoint = await ethers.provider.getBlockNumber();
+
+    await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+    await indexer.sync();
+    expect(purchasesByUser(db, buyer.address)).to.have.length(3);
+
+    // replace the indexed block with a different one at the same height
+    await fork.restore();
+    await access.connect(creator).purchaseAccess(0, DAY, { value: price * 2n });
+    await mine(2);
+
+    const result = await indexer.sync();
+    expect(result.reorgedFrom).to.equal(forkPoint + 1);
+    expect(purchasesByUser(db, buyer.address)).to.have.length(2);
+    expect(purchasesByUser(db, creator.address).map((p) => p.price)).to.deep.equal([price * 2n]);
+  });
+
+  it("Should persist to and resume from a SQLite file", async function () {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "jeskei-index-")), "index.sqlite");
+    const { db, sources, buyer } = await indexed(file);
+    db.close();
+
+    const reopened = await IndexerDb.open(file);
+    expect(purchasesByUser(reopened, buyer.address)).to.have.length(2);
+    const resumed = await new EventIndexer(reopened, ethers.provider, sources).sync();
+    expect(resumed.events).to.equal(0);
+    reopened.close();
+  });
+
+  it("Should follow new blocks until stopped", async function () {
+    const { indexer, access, buyer, db } = await indexed();
+    const synced: number[] = [];
+    const follower = indexer.follow({ intervalMs: 10, onSync: (r) => synced.push(r.toBlock) });
+
+    await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+    const head = await ethers.provider.getBlockNumber();
+    while (!synced.includes(head)) await new Promise((r) => setTimeout(r, 10));
+    await follower.stop();
+
+    expect(purchasesByUser(db, buyer.address)).to.have.length(3);
+  });
+
+  it("Should keep following after a failed sync without an error handler", async function () {
+    const { indexer, access, buyer, db } = await indexed();
+    const sync = indexer.sync.bind(indexer);
+    let calls = 0;
+    indexer.sync = async () => {
+      if (calls++ === 0) throw new Error("RPC unavailable");
+      return sync();
+    };
+    const logged: unknown[] = [];
+    const consoleError = console.error;
+    console.error = (...args: unknown[]) => logged.push(args.join(" "));
+
+    const synced: number[] = [];
+    const follower = indexer.follow({ intervalMs: 10, onSync: (r) => synced.push(r.toBlock) });
+    try {
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+      const head = await ethers.provider.getBlockNumber();
+      while (!synced.includes(head)) await new Promise((r) => setTimeout(r, 10));
+    } finally {
+      await follower.stop();
+      console.error = consoleError;
+    }
+
+    expect(logged).to.deep.equal(["indexer sync failed: RPC unavailable"]);
+    expect(purchasesByUser(db, buyer.address)).to.have.length(3);
+  });
+});
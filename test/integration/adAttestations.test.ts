@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { JeskeiError, ViewAttestor, ViewRelayer, buildMerkleTree } from "../../sdk";
+
+/**
+ * Attestor-signed ad views settled in batches by an unprivileged relayer,
+ * against the stack as `deploy/01-deploy-core.ts` wires it.
+ */
+describe("Integration: ad-view attestations", function () {
+  const DAY = 24 * 60 * 60;
+  const rate = ethers.parseEther("0.001");
+  // viewer + creator payment plus the 10% platform fee
+  const viewCost = (rate * 2n * 11000n) / 10000n;
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const named = await getNamedAccounts();
+    const signers = await ethers.getSigners();
+    const [advertiser, creator, attestorKey, relayerKey, outsider] = signers.slice(5, 10);
+    const viewers = signers.slice(10, 14);
+
+    const engineAddress = (await deployments.get("AdvertisingEngine")).address;
+    const engine = await ethers.getContractAt("AdvertisingEngineUpgradeable", engineAddress);
+    await engine.connect(advertiser).createCampaign("ipfs://ad", rate, rate, 7 * DAY, ["music"], {
+      value: viewCost * 20n,
+    });
+
+    // the role admin holds the engine's fee, pauser and oracle roles
+    const admin = await ethers.getSigner(named.roleAdmin);
+    await engine.connect(admin).setAttestor(attestorKey.address, true);
+
+    const attestor = await ViewAttestor.forEngine(attestorKey, engineAddress);
+    const relayer = new ViewRelayer(engine.connect(relayerKey), 3);
+    return { named, engine, admin, advertiser, creator, attestorKey, relayerKey, outsider, viewers, attestor, relayer };
+  }
+
+  const deadline = async () => BigInt((await time.latest()) + 3600);
+
+  describe("Signed receipts", function () {
+    it("Should settle signed receipts in chunks and credit every party", async function () {
+      const { engine, named, creator, viewers, attestor, relayer } = await loadFixture(stackFixture);
+      const until = await deadline();
+      for (const viewer of viewers) {
+        relayer.add(await attestor.sign(attestor.receipt(0, viewer.address, creator.address, { deadline: until })));
+      }
+
+      const results = await relayer.flush();
+
+      expect(results.map((r) => r.settled)).to.deep.equal([3, 1]);
+      expect(relayer.size).to.equal(0);
+      expect(await engine.campaignViews(0)).to.equal(4n);
+      expect(await engine.claimable(viewers[0].address)).to.equal(rate);
+      expect(await engine.claimable(creator.address)).to.equal(rate * 4n);
+      expect(await engine.claimable(named.adTreasury)).to.equal((viewCost - rate * 2n) * 4n);
+      expect((await engine.campaigns(0)).spent).to.equal(viewCost * 4n);
+    });
+
+    it("Should skip replayed and expired receipts without failing the batch", async function () {
+      const { engine, creator, viewers, attestor, relayer } = await loadFixture(stackFixture);
+      const until = await deadline();
+      const first = await attestor.sign(
+        attestor.receipt(0, viewers[0].address, creator.address, { nonce: 1, deadline: until })
+      );
+      relayer.add(first, first);
+      expect(relayer.size).to.equal(1);
+      await relayer.flush();
+
+      const expired = await attestor.sign(
+        attestor.receipt(0, viewers[1].address, creator.address, { deadline: BigInt(await time.latest()) })
+      );
+      relayer.add(first, expired);
+      const [result] = await relayer.flush();
+
+      expect(result.settled).to.equal(0);
+      expect(result.skipped.map((s) => s.reason)).to.deep.equal(["Replayed", "Expired"]);
+      expect(await engine.campaignViews(0)).to.equal(1n);
+      expect(await engine.usedViewNonces(viewers[0].address, 1)).to.equal(true);
+    });
+
+    it("Should reject receipts not signed by an authorized attestor", async function () {
+      const { engine, admin, creator, viewers, attestorKey, outsider, relayer } = await loadFixture(stackFixture);
+      const rogue = await ViewAttestor.forEngine(outsider, await engine.getAddress());
+      relayer.add(await rogue.sign(rogue.receipt(0, viewers[0].address, creator.address)));
+
+      await expect(relayer.flush())
+        .to.be.rejectedWith(JeskeiError)
+        .and.eventually.have.property("code", "INVALID_ATTESTOR");
+
+      await engine.connect(admin).setAttestor(attestorKey.address, false);
+      const revoked = await ViewAttestor.forEngine(attestorKey, await engine.getAddress());
+      relayer.add(await revoked.sign(revoked.receipt(0, viewers[0].address, creator.address)));
+      await expect(relayer.flush())
+        .to.be.rejectedWith(JeskeiError)
+        .and.eventually.have.property("code", "INVALID_ATTESTOR");
+      await expect(engine.connect(outsider).setAttestor(outsider.address, true)).to.be.revertedWithCustomError(
+        engine,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Should refuse self-views and views by the advertiser", async function () {
+      const { advertiser, creator, viewers, attestor, relayer } = await loadFixture(stackFixture);
+      const opts = { deadline: await deadline() };
+      relayer.add(
+        await attestor.sign(attestor.receipt(0, creator.address, creator.address, opts)),
+        await attestor.sign(attestor.receipt(0, advertiser.address, creator.address, opts)),
+        await attestor.sign(attestor.receipt(0, viewers[0].address, creator.address, opts))
+      );
+
+      const [result] = await relayer.flush();
+
+      expect(result.settled).to.equal(1);
+      expect(result.skipped.map((s) => s.reason)).to.deep.equal(["InvalidParties", "InvalidParties"]);
+    });
+  });
+
+  describe("Frequency caps", function () {
+    it("Should cap views per viewer and campaign within the window", async function () {
+      const { engine, admin, creator, viewers, attestor, relayer } = await loadFixture(stackFixture);
+      await engine.connect(admin).setViewCap(2, DAY);
+      const viewer = viewers[0].address;
+      const opts = { deadline: await deadline() };
+      for (let i = 0; i < 3; i++) relayer.add(await attestor.sign(attestor.receipt(0, viewer, creator.address, opts)));
+
+      const [result] = await relayer.flush();
+      expect(result.settled).to.equal(2);
+      expect(result.skipped.map((s) => s.reason)).to.deep.equal(["CapReached"]);
+      await expect(engine.connect(admin).recordAdView(0, viewer, creator.address)).to.be.revertedWith(
+        "View cap reached"
+      );
+
+      await time.increase(DAY);
+      relayer.add(await attestor.sign(attestor.receipt(0, viewer, creator.address, { deadline: await deadline() })));
+      expect((await relayer.flush())[0].settled).to.equal(1);
+    });
+  });
+
+  describe("Merkle batches", function () {
+    it("Should settle a batch under one signed root, in several transactions", async function () {
+      const { engine, creator, viewers, attestor, relayer } = await loadFixture(stackFixture);
+      const until = await deadline();
+      const receipts = [...viewers, ...viewers].map((v) =>
+        attestor.receipt(0, v.address, creator.address, { deadline: until })
+      );
+      const batch = await attestor.signBatch(receipts);
+
+      const results = await relayer.submitBatch(batch);
+
+      expect(results.map((r) => r.settled)).to.deep.equal([3, 3, 2]);
+      expect(await engine.campaignViews(0)).to.equal(8n);
+      // resubmitting settles nothing
+      const again = await relayer.submitBatch(batch);
+      expect(again.reduce((n, r) => n + r.skipped.length, 0)).to.equal(8);
+    });
+
+    it("Should reject receipts outside the signed tree and expired batches", async function () {
+      const { engine, relayerKey, creator, viewers, attestor } = await loadFixture(stackFixture);
+      const until = await deadline();
+      const batch = await attestor.signBatch(
+        viewers.map((v) => attestor.receipt(0, v.address, creator.address, { deadline: until }))
+      );
+      const forged = { ...batch.receipts[0], viewer: creator.address };
+
+      await expect(
+        engine
+          .connect(relayerKey)
+          .settleViewBatch(batch.root, batch.deadline, batch.signature, [forged], [batch.proofs[0]])
+      ).to.be.revertedWith("Invalid proof");
+      await expect(
+        engine.connect(relayerKey).settleViewBatch(batch.root, batch.deadline + 1n, batch.signature, [], [])
+      ).to.be.revertedWith("Invalid attestor");
+
+      await time.increaseTo(batch.deadline + 1n);
+      await expect(
+        engine.connect(relayerKey).settleViewBatch(batch.root, batch.deadline, batch.signature, [], [])
+      ).to.be.revertedWith("Batch expired");
+    });
+
+    it("Should build trees whose proofs verify for every leaf count", function () {
+      for (let n = 1; n <= 9; n++) {
+        const leaves = Array.from({ length: n }, (_, i) => ethers.id(`leaf-${i}`));
+        const { root, proofs } = buildMerkleTree(leaves);
+        leaves.forEach((leaf, i) => {
+          const computed = proofs[i].reduce(
+            (acc, sibling) =>
+              ethers.keccak256(
+                BigInt(acc) < BigInt(sibling) ? ethers.concat([acc, sibling]) : ethers.concat([sibling, acc])
+              ),
+            leaf
+          );
+          expect(computed, `leaf ${i} of ${n}`).to.equal(root);
+        });
+      }
+    });
+  });
+
+  describe("Pausing", function () {
+    it("Should stop settlement while paused", async function () {
+      const { engine, admin, creator, viewers, attestor, relayer } = await loadFixture(stackFixture);
+      await engine.connect(admin).pause();
+      relayer.add(await attestor.sign(attestor.receipt(0, viewers[0].address, creator.address)));
+
+      await expect(relayer.flush()).to.be.rejectedWith(JeskeiError).and.eventually.have.property("code", "PAUSED");
+    });
+  });
+});
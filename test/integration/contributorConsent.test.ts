@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import { deployments, ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { assetRegistryDomain, signShareConsent, verifyShareConsent } from "../../sdk";
+import { consentShares } from "../fixtures/consent";
+
+/**
+ * Contributor consent on AssetRegistry, as `deploy/01-deploy-core.ts` wires
+ * it: shares change only when the contributor accepts an offer or signs a
+ * ShareConsent, and RevenueDistributor pays out exactly the registry's split.
+ */
+describe("Integration: contributor consent", function () {
+  const DAY = 24 * 60 * 60;
+  const price = ethers.parseEther("0.1");
+  const available = price - (price * 1500n) / 10_000n;
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const [creator, editor, composer, buyer, collector] = (await ethers.getSigners()).slice(5);
+
+    const registry = await ethers.getContractAt(
+      "AssetRegistryUpgradeable",
+      (await deployments.get("AssetRegistry")).address
+    );
+    const distributor = await ethers.getContractAt(
+      "RevenueDistributorUpgradeable",
+      (await deployments.get("RevenueDistributor")).address
+    );
+    const access = await ethers.getContractAt(
+      "ContentAccessUpgradeable",
+      (await deployments.get("ContentAccess")).address
+    );
+
+    await registry
+      .connect(creator)
+      .createAsset("QmConsent", "ipfs://meta", "video", "ipfs", false, price, { value: ethers.parseEther("0.01") });
+    await access.connect(creator).setAssetPrice(0, price);
+
+    return { registry, distributor, access, creator, editor, composer, buyer, collector };
+  }
+
+  describe("Offers", function () {
+    it("Should apply an offer only once the contributor accepts it", async function () {
+      const { registry, creator, editor } = await loadFixture(stackFixture);
+
+      await expect(registry.connect(creator).offerShare(0, editor.address, 2500, "editor"))
+        .to.emit(registry, "ShareOffered")
+        .withArgs(0, editor.address, 2500, "editor");
+      expect(await registry.getRevenueSplit(0)).to.deep.equal([[creator.address], [10_000n]]);
+
+      await expect(registry.connect(editor).acceptShare(0))
+        .to.emit(registry, "ContributorAdded")
+        .withArgs(0, editor.address, 2500, "editor");
+      expect(await registry.getRevenueSplit(0)).to.deep.equal([
+        [editor.address, creator.address],
+        [2500n, 7500n],
+      ]);
+      await expect(registry.connect(editor).acceptShare(0)).to.be.revertedWith("No pending offer");
+    });
+
+    it("Should let either side cancel an offer", async function () {
+      const { registry, creator, editor, composer } = await loadFixture(stackFixture);
+      await registry.connect(creator).offerShare(0, editor.address, 2500, "editor");
+      await registry.connect(creator).offerShare(0, composer.address, 1500, "composer");
+
+      await expect(registry.connect(composer).cancelShareOffer(0, editor.address)).to.be.revertedWith("Not authorized");
+      await expect(registry.connect(editor).cancelShareOffer(0, editor.address))
+        .to.emit(registry, "ShareOfferCancelled")
+        .withArgs(0, editor.address);
+      await registry.connect(creator).cancelShareOffer(0, composer.address);
+
+      await expect(registry.connect(editor).acceptShare(0)).to.be.revertedWith("No pending offer");
+      await expect(registry.connect(composer).acceptShare(0)).to.be.revertedWith("No pending offer");
+    });
+
+    it("Should lapse offers when the asset changes hands", async function () {
+      const { registry, creator, editor, collector } = await loadFixture(stackFixture);
+      await registry.connect(creator).offerShare(0, editor.address, 2500, "editor");
+
+      await registry.connect(creator).transferFrom(creator.address, collector.address, 0);
+      await expect(registry.connect(editor).acceptShare(0)).to.be.revertedWith("Offer outdated");
+      expect(await registry.getRevenueSplit(0)).to.deep.equal([[collector.address], [10_000n]]);
+    });
+
+    it("Should only remove a contributor who accepts the removal", async function () {
+      const { registry, creator, editor, composer } = await loadFixture(stackFixture);
+      await consentShares(registry, creator, 0, [
+        [editor, 2500n, "editor"],
+        [composer, 1500n, "composer"],
+      ]);
+
+      await expect(registry.connect(creator).offerShare(0, creator.address, 0, "producer")).to.be.revertedWith(
+        "Invalid share"
+      );
+      await registry.connect(creator).offerShare(0, editor.address, 0, "editor");
+      expect((await registry.getAssetContributors(0)).length).to.equal(2);
+
+      await expect(registry.connect(editor).acceptShare(0))
+        .to.emit(registry, "ContributorRemoved")
+        .withArgs(0, editor.address);
+      expect(await registry.contributorExists(0, editor.address)).to.equal(false);
+      expect(await registry.getRevenueSplit(0)).to.deep.equal([
+        [composer.address, creator.address],
+        [1500n, 8500n],
+      ]);
+    });
+  });
+
+  describe("Signed consent", function () {
+    it("Should apply a signed consent once", async function () {
+      const { registry, creator, editor } = await loadFixture(stackFixture);
+      const signed = await signShareConsent(editor, registry, 0, 2500, "editor");
+      const { consent, signature } = signed;
+      const args = [0, editor.address, 2500, "editor", consent.deadline, signature] as const;
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = assetRegistryDomain(chainId, await registry.getAddress());
+      expect(verifyShareConsent(domain, signed)).to.equal(true);
+      expect(verifyShareConsent(domain, { ...signed, consent: { ...consent, sharePercentage: 5000n } })).to.equal(
+        false
+      );
+
+      await expect(registry.connect(editor).setContributorShare(...args)).to.be.revertedWith("Not asset owner");
+      await expect(registry.connect(creator).setContributorShare(...args))
+        .to.emit(registry, "ContributorAdded")
+        .withArgs(0, editor.address, 2500, "editor");
+      expect(await registry.consentNonces(editor.address)).to.equal(1n);
+      await expect(registry.connect(creator).setContributorShare(...args)).to.be.revertedWith(
+        "Invalid consent signature"
+      );
+    });
+
+    it("Should reject changed terms, other signers and expired consents", async function () {
+      const { registry, creator, editor, composer } = await loadFixture(stackFixture);
+      const { consent, signature } = await signShareConsent(editor, registry, 0, 2500, "editor");
+
+      await expect(
+        registry.connect(creator).setContributorShare(0, editor.address, 3000, "editor", consent.deadline, signature)
+      ).to.be.revertedWith("Invalid consent signature");
+      await expect(
+        registry.connect(creator).setContributorShare(0, composer.address, 2500, "editor", consent.deadline, signature)
+      ).to.be.revertedWith("Invalid consent signature");
+
+      await time.increaseTo(consent.deadline + 1n);
+      await expect(
+        registry.connect(creator).setContributorShare(0, editor.address, 2500, "editor", consent.deadline, signature)
+      ).to.be.revertedWith("Signature expired");
+    });
+  });
+
+  describe("Revenue", function () {
+    it("Should pay out the consented split and the owner's remainder", async function () {
+      const { registry, distributor, access, creator, editor, composer, buyer } = await loadFixture(stackFixture);
+      await consentShares(registry, creator, 0, [
+        [editor, 2500n, "editor"],
+        [composer, 1500n, "composer"],
+      ]);
+      expect((await distributor.getAssetShares(0)).map((s) => [s.recipient, s.percentage])).to.deep.equal([
+        [editor.address, 2500n],
+        [composer.address, 1500n],
+        [creator.address, 6000n],
+      ]);
+
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+
+      expect(await distributor.claimable(editor.address)).to.equal((available * 2500n) / 10_000n);
+      expect(await distributor.claimable(composer.address)).to.equal((available * 1500n) / 10_000n);
+      expect(await distributor.claimable(creator.address)).to.equal((available * 6000n) / 10_000n);
+    });
+
+    it("Should keep a contributor's share after sales until they consent to a change", async function () {
+      const { registry, distributor, access, creator, editor, buyer } = await loadFixture(stackFixture);
+      await consentShares(registry, creator, 0, [[editor, 2500n, "editor"]]);
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+
+      // the cut only applies once the editor accepts it
+      await registry.connect(creator).offerShare(0, editor.address, 500, "editor");
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+      expect(await distributor.contributorEarnings(0, editor.address)).to.equal((available * 2n * 2500n) / 10_000n);
+
+      await expect(registry.connect(editor).acceptShare(0))
+        .to.emit(registry, "ContributorUpdated")
+        .withArgs(0, editor.address, 500, "editor");
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+      expect(await distributor.contributorEarnings(0, editor.address)).to.equal(
+        (available * 2n * 2500n) / 10_000n + (available * 500n) / 10_000n
+      );
+    });
+
+    it("Should pay the new owner the remainder after a transfer", async function () {
+      const { registry, distributor, access, creator, editor, buyer, collector } = await loadFixture(stackFixture);
+      await consentShares(registry, creator, 0, [[editor, 2500n, "editor"]]);
+      await registry.connect(creator).transferFrom(creator.address, collector.address, 0);
+
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+
+      expect(await distributor.claimable(editor.address)).to.equal((available * 2500n) / 10_000n);
+      expect(await distributor.claimable(collector.address)).to.equal((available * 7500n) / 10_000n);
+      expect(await distributor.claimable(creator.address)).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+/**
+ * Milestone-based crowdfunding as `deploy/01-deploy-core.ts` wires it: tranches
+ * are released on backer votes, failures refund the unreleased balance pro
+ * rata and reward tiers mint backer NFTs tied to the resulting asset.
+ */
+describe("Integration: crowdfunding milestones", function () {
+  const DAY = 24 * 60 * 60;
+  const BPS = 10_000n;
+  const goal = ethers.parseEther("10");
+  const NO_REWARD = ethers.MaxUint256;
+  const milestones = [
+    { description: "Pre-production", share: 3000, duration: 30 * DAY },
+    { description: "Shoot", share: 5000, duration: 30 * DAY },
+    { description: "Release", share: 2000, duration: 30 * DAY },
+  ];
+  const tiers = [
+    { minContribution: ethers.parseEther("1"), supply: 0, uri: "ipfs://tier/supporter" },
+    { minContribution: ethers.parseEther("5"), supply: 1, uri: "ipfs://tier/producer" },
+  ];
+  const stretchGoals = [{ target: ethers.parseEther("15"), description: "Orchestral score" }];
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const named = await getNamedAccounts();
+    const [, , , , , creator, alice, bob, carol, outsider] = await ethers.getSigners();
+
+    const crowdfunding = await ethers.getContractAt(
+      "CrowdfundingPlatformUpgradeable",
+      (
+        await deployments.get("CrowdfundingPlatform")
+      ).address
+    );
+    const registry = await ethers.getContractAt(
+      "AssetRegistryUpgradeable",
+      (
+        await deployments.get("AssetRegistry")
+      ).address
+    );
+    await crowdfunding
+      .connect(creator)
+      .createCampaign("ipfs://campaign", ethers.ZeroAddress, goal, 14 * DAY, milestones, tiers, stretchGoals);
+
+    // operator roles are held by the role admin, not the owning factory
+    const admin = await ethers.getSigner(named.roleAdmin);
+
+    return { named, crowdfunding, registry, admin, creator, alice, bob, carol, outsider };
+  }
+
+  // alice 6, bob 3, carol 1 ETH: funded exactly at the goal
+  async function funded() {
+    const ctx = await loadFixture(stackFixture);
+    const { crowdfunding, alice, bob, carol } = ctx;
+    await crowdfunding.connect(alice).contribute(0, 1, { value: ethers.parseEther("6") });
+    await crowdfunding.connect(bob).contribute(0, 0, { value: ethers.parseEther("3") });
+    await crowdfunding.connect(carol).contribute(0, NO_REWARD, { value: ethers.parseEther("1") });
+    await time.increase(15 * DAY);
+    await crowdfunding.finalizeFunding(0);
+    return ctx;
+  }
+
+  async function voteAndFinalize(approve: { alice?: boolean; bob?: boolean; carol?: boolean }) {
+    const { crowdfunding, creator, alice, bob, carol } = await funded();
+    await crowdfunding.connect(creator).requestMilestoneVote(0);
+    const voters = { alice, bob, carol };
+    for (const [name, vote] of Object.entries(approve)) {
+      await crowdfunding.connect(voters[name as keyof typeof voters]).voteOnMilestone(0, vote!);
+    }
+    await time.increase(3 * DAY + 1);
+    return crowdfunding.finalizeMilestone(0);
+  }
+
+  it("Should be deployed through the proxy factory", async function () {
+    const { crowdfunding, named } = await loadFixture(stackFixture);
+    const factory = await ethers.getContractAt(
+      "JeskeiProxyFactory",
+      (
+        await deployments.get("JeskeiProxyFactory")
+      ).address
+    );
+
+    const proxy = await factory.getProxy("CrowdfundingPlatform");
+
+    expect(proxy.isActive).to.be.true;
+    expect(proxy.proxyAddress).to.equal(await crowdfunding.getAddress());
+    expect(await crowdfunding.owner()).to.equal(await factory.getAddress());
+    expect(await crowdfunding.crowdfundingTreasury()).to.equal(named.crowdfundingTreasury);
+  });
+
+  describe("Funding", function () {
+    it("Should reject milestone shares that do not add up to 100%", async function () {
+      const { crowdfunding, creator } = await loadFixture(stackFixture);
+      const short = milestones.map((m, i) => (i === 0 ? { ...m, share: 2000 } : m));
+
+      await expect(
+        crowdfunding.connect(creator).createCampaign("ipfs://x", ethers.ZeroAddress, goal, DAY, short, [], [])
+      ).to.be.revertedWith("Shares must total 100%");
+      await expect(
+        crowdfunding.connect(creator).createCampaign("ipfs://x", ethers.ZeroAddress, goal, DAY, [], [], [])
+      ).to.be.revertedWith("Invalid milestones");
+    });
+
+    it("Should announce stretch goals as they are reached", async function () {
+      const { crowdfunding, alice, bob } = await loadFixture(stackFixture);
+      await crowdfunding.connect(alice).contribute(0, NO_REWARD, { value: ethers.parseEther("12") });
+
+      await expect(crowdfunding.connect(bob).contribute(0, NO_REWARD, { value: ethers.parseEther("4") }))
+        .to.emit(crowdfunding, "StretchGoalReached")
+        .withArgs(0, 0, ethers.parseEther("16"));
+      expect(await crowdfunding.stretchGoalsReached(0)).to.equal(1n);
+    });
+
+    it("Should enforce tier minimums and supply", async function () {
+      const { crowdfunding, alice, bob } = await loadFixture(stackFixture);
+
+      await expect(crowdfunding.connect(alice).contribute(0, 1, { value: ethers.parseEther("4") })).to.be.revertedWith(
+        "Insufficient amount for reward tier"
+      );
+      await crowdfunding.connect(alice).contribute(0, 1, { value: ethers.parseEther("5") });
+      await expect(crowdfunding.connect(bob).contribute(0, 1, { value: ethers.parseEther("5") })).to.be.revertedWith(
+        "Reward tier sold out"
+      );
+      await expect(crowdfunding.connect(alice).contribute(0, 0, { value: ethers.parseEther("1") })).to.be.revertedWith(
+        "Tier already chosen"
+      );
+    });
+
+    it("Should refund everything when the goal is missed", async function () {
+      const { crowdfunding, alice } = await loadFixture(stackFixture);
+      const amount = ethers.parseEther("4");
+      await crowdfunding.connect(alice).contribute(0, 0, { value: amount });
+      await expect(crowdfunding.finalizeFunding(0)).to.be.revertedWith("Funding still open");
+      await time.increase(15 * DAY);
+
+      await expect(crowdfunding.finalizeFunding(0)).to.emit(crowdfunding, "CampaignFailed").withArgs(0, amount);
+      await expect(crowdfunding.connect(alice).claimRefund(0)).to.changeEtherBalances(
+        [alice, crowdfunding],
+        [amount, -amount]
+      );
+      await expect(crowdfunding.connect(alice).claimRefund(0)).to.be.revertedWith("Already refunded");
+    });
+  });
+
+  describe("Milestones", function () {
+    it("Should release each approved tranche minus the platform fee", async function () {
+      const { crowdfunding, named, creator, alice, bob } = await funded();
+      const fee = await crowdfunding.platformFee();
+      let released = 0n;
+
+      for (const [i, milestone] of milestones.entries()) {
+        await crowdfunding.connect(creator).requestMilestoneVote(0);
+        await crowdfunding.connect(alice).voteOnMilestone(0, true);
+        await crowdfunding.connect(bob).voteOnMilestone(0, false);
+        await time.increase(3 * DAY + 1);
+        const tranche = (goal * BigInt(milestone.share)) / BPS;
+
+        await expect(crowdfunding.finalizeMilestone(0))
+          .to.emit(crowdfunding, "MilestoneReleased")
+          .withArgs(0, i, tranche, (tranche * fee) / BPS);
+        released += tranche;
+      }
+
+      const campaign = await crowdfunding.campaigns(0);
+      expect(campaign.state).to.equal(2n); // Completed
+      expect(campaign.released).to.equal(goal);
+      expect(await crowdfunding.claimable(named.crowdfundingTreasury)).to.equal((released * fee) / BPS);
+      const payout = released - (released * fee) / BPS;
+      await expect(crowdfunding.connect(creator).withdraw()).to.changeEtherBalances(
+        [creator, crowdfunding],
+        [payout, -payout]
+      );
+    });
+
+    it("Should refund the unreleased balance pro rata when a milestone is rejected", async function () {
+      const { crowdfunding, creator, alice, bob, carol } = await funded();
+      await crowdfunding.connect(creator).requestMilestoneVote(0);
+      await crowdfunding.connect(alice).voteOnMilestone(0, true);
+      await time.increase(3 * DAY + 1);
+      await crowdfunding.finalizeMilestone(0); // 30% released
+
+      await crowdfunding.connect(creator).requestMilestoneVote(0);
+      await crowdfunding.connect(alice).voteOnMilestone(0, false);
+      await crowdfunding.connect(bob).voteOnMilestone(0, true);
+      await time.increase(3 * DAY + 1);
+      const unreleased = (goal * 7000n) / BPS;
+      await expect(crowdfunding.finalizeMilestone(0))
+        .to.emit(crowdfunding, "MilestoneRejected")
+        .withArgs(0, 1)
+        .and.to.emit(crowdfunding, "CampaignFailed")
+        .withArgs(0, unreleased);
+
+      for (const [backer, share] of [
+        [alice, 6n],
+        [bob, 3n],
+        [carol, 1n],
+      ] as const) {
+        const refund = (unreleased * share) / 10n;
+        await expect(crowdfunding.connect(backer).claimRefund(0)).to.changeEtherBalance(backer, refund);
+      }
+    });
+
+    it("Should reject a tranche that misses quorum", async function () {
+      const { crowdfunding } = await funded();
+      // carol's 10% of the raise is below the 20% quorum
+      const tx = await voteAndFinalize({ carol: true });
+
+      await expect(tx).to.emit(crowdfunding, "MilestoneRejected").withArgs(0, 0);
+    });
+
+    it("Should fail a milestone whose deadline passes without a vote", async function () {
+      const { crowdfunding, creator, outsider } = await funded();
+      await expect(crowdfunding.connect(outsider).finalizeMilestone(0)).to.be.revertedWith("Milestone not due");
+      await time.increase(31 * DAY);
+
+      await expect(crowdfunding.connect(creator).requestMilestoneVote(0)).to.be.revertedWith(
+        "Milestone deadline passed"
+      );
+      await expect(crowdfunding.connect(outsider).finalizeMilestone(0))
+        .to.emit(crowdfunding, "CampaignFailed")
+        .withArgs(0, goal);
+    });
+
+    it("Should only let backers vote, once each, while the vote is open", async function () {
+      const { crowdfunding, creator, alice, outsider } = await funded();
+      await expect(crowdfunding.connect(alice).voteOnMilestone(0, true)).to.be.revertedWith("No open vote");
+      await crowdfunding.connect(creator).requestMilestoneVote(0);
+
+      await expect(crowdfunding.connect(outsider).voteOnMilestone(0, true)).to.be.revertedWith("Not a backer");
+      await expect(crowdfunding.connect(alice).voteOnMilestone(0, true))
+        .to.emit(crowdfunding, "MilestoneVoted")
+        .withArgs(0, 0, alice.address, true, ethers.parseEther("6"));
+      await expect(crowdfunding.connect(alice).voteOnMilestone(0, true)).to.be.revertedWith("Already voted");
+      await expect(crowdfunding.finalizeMilestone(0)).to.be.revertedWith("Voting still open");
+    });
+
+    it("Should keep the creator out of funding and milestone votes", async function () {
+      const { crowdfunding, creator } = await loadFixture(stackFixture);
+      await expect(
+        crowdfunding.connect(creator).contribute(0, NO_REWARD, { value: goal })
+      ).to.be.revertedWith("Creator cannot back own campaign");
+
+      await funded();
+      await crowdfunding.connect(creator).requestMilestoneVote(0);
+      await expect(crowdfunding.connect(creator).voteOnMilestone(0, true)).to.be.revertedWith("Creator cannot vote");
+    });
+
+    it("Should apply the admin's voting parameters to new votes", async function () {
+      const { crowdfunding, admin, creator, carol } = await funded();
+      await crowdfunding.connect(admin).setVotingParams(DAY, 1000);
+      await crowdfunding.connect(creator).requestMilestoneVote(0);
+      await crowdfunding.connect(carol).voteOnMilestone(0, true);
+      await time.increase(DAY + 1);
+
+      await expect(crowdfunding.finalizeMilestone(0)).to.emit(crowdfunding, "MilestoneReleased");
+      await expect(crowdfunding.connect(carol).setVotingParams(DAY, 1000)).to.be.revertedWithCustomError(
+        crowdfunding,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Backer NFTs", function () {
+    it("Should mint the backer's tier NFT tied to the linked asset", async function () {
+      const { crowdfunding, registry, creator, alice } = await funded();
+      await registry.connect(creator).createAsset("QmFilm", "ipfs://film", "video", "ipfs", false, 0, {
+        value: ethers.parseEther("0.01"),
+      });
+      await crowdfunding.connect(creator).linkAsset(0, 0);
+
+      await expect(crowdfunding.connect(alice).claimBackerNFT(0))
+        .to.emit(crowdfunding, "BackerNFTMinted")
+        .withArgs(0, alice.address, 0, 1);
+      expect(await crowdfunding.ownerOf(0)).to.equal(alice.address);
+      expect(await crowdfunding.tokenURI(0)).to.equal("ipfs://tier/producer");
+      expect(await crowdfunding.backerAsset(0)).to.deep.equal([true, 0n]);
+      await expect(crowdfunding.connect(alice).claimBackerNFT(0)).to.be.revertedWith("Already claimed");
+    });
+
+    it("Should only mint once the campaign is funded", async function () {
+      const { crowdfunding, alice } = await loadFixture(stackFixture);
+      await crowdfunding.connect(alice).contribute(0, 0, { value: ethers.parseEther("1") });
+      await expect(crowdfunding.connect(alice).claimBackerNFT(0)).to.be.revertedWith("Campaign not funded");
+    });
+
+    it("Should not mint for backers without a reward tier", async function () {
+      const { crowdfunding, carol } = await funded();
+      await expect(crowdfunding.connect(carol).claimBackerNFT(0)).to.be.revertedWith("No reward tier");
+    });
+
+    it("Should only link an asset the creator owns", async function () {
+      const { crowdfunding, registry, creator, alice } = await loadFixture(stackFixture);
+      await registry.connect(alice).createAsset("QmOther", "ipfs://other", "video", "ipfs", false, 0, {
+        value: ethers.parseEther("0.01"),
+      });
+
+      await expect(crowdfunding.connect(creator).linkAsset(0, 0)).to.be.revertedWith("Not asset owner");
+      await expect(crowdfunding.connect(alice).linkAsset(0, 0)).to.be.revertedWith("Not campaign creator");
+    });
+  });
+
+  describe("Token campaigns", function () {
+    it("Should raise, release and withdraw in the campaign's token", async function () {
+      const { crowdfunding, named, creator, alice } = await loadFixture(stackFixture);
+      const token = await (await ethers.getContractFactory("ERC20PermitMock")).deploy("USD Coin", "USDC", 6);
+      const target = 1_000_000_000n;
+      await token.mint(alice.address, target);
+      await crowdfunding
+        .connect(creator)
+        .createCampaign("ipfs://t", token, target, DAY, [{ description: "All", share: 10000, duration: DAY }], [], []);
+      await token.connect(alice).approve(crowdfunding, target);
+
+      await expect(crowdfunding.connect(alice).contribute(1, NO_REWARD, { value: 1 })).to.be.revertedWith(
+        "Token campaign"
+      );
+      await crowdfunding.connect(alice).contributeToken(1, NO_REWARD, target);
+      await time.increase(DAY + 1);
+      await crowdfunding.finalizeFunding(1);
+      await crowdfunding.connect(creator).requestMilestoneVote(1);
+      await crowdfunding.connect(alice).voteOnMilestone(1, true);
+      await time.increase(3 * DAY + 1);
+      await crowdfunding.finalizeMilestone(1);
+
+      const fee = (target * 500n) / BPS;
+      expect(await crowdfunding.tokenClaimable(token, named.crowdfundingTreasury)).to.equal(fee);
+      await crowdfunding.connect(creator).withdrawToken(token);
+      expect(await token.balanceOf(creator.address)).to.equal(target - fee);
+    });
+  });
+});
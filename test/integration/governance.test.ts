@@ -0,0 +1,410 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import { impersonateAccount, loadFixture, mine, setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { GovernanceProposalStatus } from "../../tasks/governance";
+
+/**
+ * CommunityGovernance as `deploy/01-deploy-core.ts` wires it: voting power
+ * from verified mints and earnings paid by others, checkpointed per block, and PlatformFee proposals applied
+ * to the factory-owned modules through GovernanceExecutor.
+ */
+describe("Integration: community governance", function () {
+  const DAY = 24 * 60 * 60;
+  const VOTING_PERIOD = 7 * DAY;
+  const hostingFee = ethers.parseEther("0.01");
+
+  enum Category {
+    PlatformFee,
+    FeatureRequest,
+    Partnership,
+    GeneralGovernance,
+  }
+  enum State {
+    Active,
+    Defeated,
+    Succeeded,
+    Queued,
+    Executed,
+    Cancelled,
+  }
+  const REVENUE = 0;
+  const HOSTING = 1;
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const [owner] = await ethers.getSigners();
+    const [alice, bob, carol, dave] = (await ethers.getSigners()).slice(5);
+
+    const registry = await ethers.getContractAt(
+      "AssetRegistryUpgradeable",
+      (await deployments.get("AssetRegistry")).address
+    );
+    const distributor = await ethers.getContractAt(
+      "RevenueDistributorUpgradeable",
+      (await deployments.get("RevenueDistributor")).address
+    );
+    const governance = await ethers.getContractAt(
+      "CommunityGovernance",
+      (await deployments.get("CommunityGovernance")).address
+    );
+    const executor = await ethers.getContractAt(
+      "GovernanceExecutor",
+      (await deployments.get("GovernanceExecutor")).address
+    );
+    const factory = await ethers.getContractAt(
+      "JeskeiProxyFactory",
+      (await deployments.get("JeskeiProxyFactory")).address
+    );
+
+    // 1 ETH of revenue leaves the creator 0.85 ETH after the 15% platform fee: 100 power
+    await governance.setPowerWeights(100, ethers.parseEther("0.0085"));
+    const earn = async (holder: typeof alice, units: number) => {
+      const hash = `Qm${holder.address}${units}`;
+      const create = registry.connect(holder).createAsset;
+      const assetId = await create.staticCall(hash, "ipfs://meta", "video", "ipfs", false, 0, { value: hostingFee });
+      await create(hash, "ipfs://meta", "video", "ipfs", false, 0, { value: hostingFee });
+      const revenue = ethers.parseEther(String(units));
+      await distributor.distributeRevenue(assetId, revenue, { value: revenue });
+      return assetId;
+    };
+
+    // alice 300, bob 100, carol 100 voting power from assets 0, 1 and 2
+    for (const [holder, units] of [
+      [alice, 3],
+      [bob, 1],
+      [carol, 1],
+    ] as const) {
+      await earn(holder, units);
+      await governance.updateVotingPower(holder.address);
+    }
+
+    return { registry, distributor, governance, executor, factory, owner, alice, bob, carol, dave, earn };
+  }
+
+  async function proposalId(
+    tx: Promise<{ wait(): Promise<unknown> }>,
+    governance: { proposalCounter(): Promise<bigint> }
+  ) {
+    await (await tx).wait();
+    return (await governance.proposalCounter()) - 1n;
+  }
+
+  describe("Voting power", function () {
+    it("Should weigh votes by the power held at the proposal snapshot", async function () {
+      const { governance, alice, bob, dave, earn } = await loadFixture(stackFixture);
+      const id = await proposalId(
+        governance.connect(alice).createProposal("Dark mode", "for the player", Category.FeatureRequest),
+        governance
+      );
+
+      // power gained after the snapshot does not count for this proposal
+      await earn(dave, 1);
+      await governance.updateVotingPower(dave.address);
+
+      expect(await governance.getVotes(dave.address)).to.equal(100n);
+      await expect(governance.connect(dave).vote(id, true, "")).to.be.revertedWith("No voting power");
+      await expect(governance.connect(bob).vote(id, true, ""))
+        .to.emit(governance, "VoteCast")
+        .withArgs(id, bob.address, true, 100n);
+      expect((await governance.proposalStatus(id)).totalPower).to.equal(500n);
+    });
+
+    it("Should not grow total power when assets change hands or are minted cheaply", async function () {
+      const { registry, governance, alice, dave } = await loadFixture(stackFixture);
+      const totalPower = async () => governance.getPastTotalPower((await ethers.provider.getBlockNumber()) - 1);
+      await mine();
+      const before = await totalPower();
+
+      await registry.connect(alice).transferFrom(alice.address, dave.address, 0);
+      await registry.connect(dave).createAsset("QmCheap", "ipfs://meta", "video", "ipfs", false, 0, { value: 1n });
+      await governance.updateVotingPower(alice.address);
+      await governance.updateVotingPower(dave.address);
+      await mine();
+
+      expect(await totalPower()).to.equal(before);
+      expect(await governance.getVotes(alice.address)).to.equal(300n);
+      expect(await governance.getVotes(dave.address)).to.equal(0n);
+    });
+
+    it("Should count verified mints for their creator only", async function () {
+      const { registry, governance, owner, alice, dave } = await loadFixture(stackFixture);
+      await registry.connect(owner).verifyCreator(dave.address);
+
+      await registry.connect(dave).createAsset("QmVerified", "ipfs://meta", "video", "ipfs", false, 0, { value: 1n });
+      const assetId = (await registry.getCreatorAssets(dave.address))[0];
+      expect((await registry.assets(assetId)).isVerified).to.equal(true);
+      await registry.connect(dave).transferFrom(dave.address, alice.address, assetId);
+      await governance.updateVotingPower(dave.address);
+      await governance.updateVotingPower(alice.address);
+
+      expect(await registry.verifiedAssetCount(dave.address)).to.equal(1n);
+      expect(await governance.getVotes(dave.address)).to.equal(100n);
+      expect(await governance.getVotes(alice.address)).to.equal(300n);
+    });
+
+    it("Should not count earnings from paying for one's own asset", async function () {
+      const { registry, distributor, governance, alice, bob } = await loadFixture(stackFixture);
+      const access = await ethers.getContractAt(
+        "ContentAccessUpgradeable",
+        (await deployments.get("ContentAccess")).address
+      );
+      const assetId = (await registry.getCreatorAssets(alice.address))[0];
+      const price = ethers.parseEther("1");
+      await access.connect(alice).setAssetPrice(assetId, price);
+
+      await access.connect(alice).purchaseAccess(assetId, 24 * 60 * 60, { value: price });
+      await distributor.connect(alice).distributeRevenue(assetId, price, { value: price });
+      await governance.updateVotingPower(alice.address);
+      expect(await distributor.selfFundedEarnings(alice.address)).to.equal(ethers.parseEther("1.7"));
+      expect(await governance.getVotes(alice.address)).to.equal(300n);
+
+      await access.connect(bob).purchaseAccess(assetId, 24 * 60 * 60, { value: price });
+      await governance.updateVotingPower(alice.address);
+      expect(await governance.getVotes(alice.address)).to.equal(400n);
+    });
+
+    it("Should move power to a delegate and back", async function () {
+      const { governance, alice, bob } = await loadFixture(stackFixture);
+
+      await expect(governance.connect(bob).delegate(alice.address))
+        .to.emit(governance, "DelegateChanged")
+        .withArgs(bob.address, bob.address, alice.address);
+      expect(await governance.getVotes(alice.address)).to.equal(400n);
+      expect(await governance.getVotes(bob.address)).to.equal(0n);
+
+      const id = await proposalId(
+        governance.connect(alice).createProposal("Partner label", "distribution deal", Category.Partnership),
+        governance
+      );
+      await expect(governance.connect(bob).vote(id, true, "")).to.be.revertedWith("No voting power");
+      await governance.connect(alice).vote(id, true, "");
+      expect((await governance.proposals(id)).votesFor).to.equal(400n);
+
+      await governance.connect(bob).delegate(bob.address);
+      expect(await governance.getVotes(alice.address)).to.equal(300n);
+      expect(await governance.getVotes(bob.address)).to.equal(100n);
+    });
+
+    it("Should refuse proposers below the minimum power", async function () {
+      const { governance, dave } = await loadFixture(stackFixture);
+
+      await expect(
+        governance.connect(dave).createProposal("Spam", "spam", Category.GeneralGovernance)
+      ).to.be.revertedWith("Insufficient voting power");
+    });
+  });
+
+  describe("Quorum and threshold", function () {
+    it("Should apply each category's quorum", async function () {
+      const { governance, alice, carol } = await loadFixture(stackFixture);
+
+      // 100 of 500 votes: enough for FeatureRequest (10%), not once raised to 30%
+      const passes = await proposalId(
+        governance.connect(alice).createProposal("Playlists", "shared playlists", Category.FeatureRequest),
+        governance
+      );
+      await governance.connect(carol).vote(passes, true, "");
+      await time.increase(VOTING_PERIOD + 1);
+      expect(await governance.state(passes)).to.equal(State.Succeeded);
+
+      await expect(governance.setCategoryConfig(Category.FeatureRequest, 3000, 5000))
+        .to.emit(governance, "CategoryConfigSet")
+        .withArgs(Category.FeatureRequest, 3000, 5000);
+      expect(await governance.state(passes)).to.equal(State.Defeated);
+
+      await expect(governance.executeProposal(passes)).to.emit(governance, "ProposalExecuted").withArgs(passes, false);
+      await expect(governance.executeProposal(passes)).to.be.revertedWith("Already executed");
+    });
+
+    it("Should require more than the category threshold in favour", async function () {
+      const { governance, alice, bob, carol } = await loadFixture(stackFixture);
+
+      // PlatformFee needs > 60% in favour: 300 for / 200 against is exactly 60%
+      const id = await proposalId(
+        governance.connect(alice).proposePlatformFee("Cut fee", "to 10%", REVENUE, 1000),
+        governance
+      );
+      await governance.connect(alice).vote(id, true, "");
+      await governance.connect(bob).vote(id, false, "");
+      await governance.connect(carol).vote(id, false, "");
+      await time.increase(VOTING_PERIOD + 1);
+
+      expect(await governance.state(id)).to.equal(State.Defeated);
+      await expect(governance.queueProposal(id)).to.be.revertedWith("Proposal not succeeded");
+    });
+
+    it("Should validate category settings", async function () {
+      const { governance, alice } = await loadFixture(stackFixture);
+
+      await expect(governance.setCategoryConfig(Category.Partnership, 10001, 5000)).to.be.revertedWith(
+        "Invalid quorum"
+      );
+      await expect(governance.setCategoryConfig(Category.Partnership, 1000, 4999)).to.be.revertedWith(
+        "Invalid threshold"
+      );
+      await expect(
+        governance.connect(alice).setCategoryConfig(Category.Partnership, 1000, 5000)
+      ).to.be.revertedWithCustomError(governance, "OwnableUnauthorizedAccount");
+      await expect(governance.connect(alice).createProposal("Fee", "fee", Category.PlatformFee)).to.be.revertedWith(
+        "Use proposePlatformFee"
+      );
+    });
+  });
+
+  describe("Execution", function () {
+    async function passedFeeProposal(target: number, fee: number) {
+      const fixture = await loadFixture(stackFixture);
+      const { governance, alice, bob } = fixture;
+      const id = await proposalId(
+        governance.connect(alice).proposePlatformFee("Fee", "new fee", target, fee),
+        governance
+      );
+      await governance.connect(alice).vote(id, true, "");
+      await governance.connect(bob).vote(id, true, "");
+      await time.increase(VOTING_PERIOD + 1);
+      return { ...fixture, id };
+    }
+
+    it("Should apply a passed platform fee after the timelock", async function () {
+      const { governance, distributor, executor, id } = await passedFeeProposal(REVENUE, 1000);
+
+      await expect(governance.executeProposal(id)).to.be.revertedWith("Proposal not queued");
+      await expect(governance.queueProposal(id)).to.emit(governance, "ProposalQueued");
+      expect(await governance.state(id)).to.equal(State.Queued);
+      await expect(governance.executeProposal(id)).to.be.revertedWith("Timelock not expired");
+
+      await time.increase(await executor.delay());
+      await expect(governance.executeProposal(id)).to.emit(governance, "ProposalExecuted").withArgs(id, true);
+      expect(await distributor.platformFee()).to.equal(1000n);
+      expect(await governance.state(id)).to.equal(State.Executed);
+    });
+
+    it("Should apply a passed hosting fee to the asset registry", async function () {
+      const { governance, registry, executor, id } = await passedFeeProposal(HOSTING, 10);
+
+      await governance.queueProposal(id);
+      await time.increase(await executor.delay());
+      await governance.executeProposal(id);
+
+      expect(await registry.platformHostingFee()).to.equal(10n);
+    });
+
+    it("Should leave the proposal queued when the module rejects the fee", async function () {
+      const { governance, distributor, executor, id } = await passedFeeProposal(REVENUE, 3000);
+
+      await governance.queueProposal(id);
+      await time.increase(await executor.delay());
+
+      await expect(governance.executeProposal(id)).to.be.revertedWith("Platform fee too high");
+      expect(await governance.state(id)).to.equal(State.Queued);
+      expect(await distributor.platformFee()).to.equal(1500n);
+    });
+
+    it("Should let the council cancel a queued proposal", async function () {
+      const { governance, executor, alice, id } = await passedFeeProposal(REVENUE, 1000);
+      await governance.queueProposal(id);
+
+      await expect(governance.connect(alice).cancelProposal(id)).to.be.revertedWith("Not a council member");
+      await expect(governance.cancelProposal(id)).to.emit(executor, "OperationCancelled").withArgs(id);
+
+      await time.increase(await executor.delay());
+      expect(await governance.state(id)).to.equal(State.Cancelled);
+      await expect(governance.executeProposal(id)).to.be.revertedWith("Proposal cancelled");
+    });
+
+    it("Should only relay calls from governance and authorized executors", async function () {
+      const { factory, executor, owner, alice } = await loadFixture(stackFixture);
+      const distributor = await ethers.getContractAt("RevenueDistributorUpgradeable", ethers.ZeroAddress);
+      const setFee = distributor.interface.encodeFunctionData("setPlatformFee", [1000]);
+
+      await expect(executor.connect(alice).queue(0, "RevenueDistributor", setFee)).to.be.revertedWith("Not governance");
+      await expect(factory.connect(alice).executeOnProxy("RevenueDistributor", setFee)).to.be.revertedWith(
+        "Not authorized executor"
+      );
+
+      const executorAddress = await executor.getAddress();
+      expect(await factory.authorizedExecutors(executorAddress)).to.equal(true);
+      await impersonateAccount(executorAddress);
+      await setBalance(executorAddress, ethers.parseEther("1"));
+      const asExecutor = factory.connect(await ethers.getSigner(executorAddress));
+
+      const upgrade = (await ethers.getContractFactory("RevenueDistributorUpgradeable")).interface.encodeFunctionData(
+        "upgradeToAndCall",
+        [owner.address, "0x"]
+      );
+      const transfer = distributor.interface.encodeFunctionData("transferOwnership", [alice.address]);
+      const pause = distributor.interface.encodeFunctionData("pause");
+      const grant = distributor.interface.encodeFunctionData("grantRole", [ethers.id("PAUSER_ROLE"), alice.address]);
+      for (const call of [upgrade, transfer, pause, grant]) {
+        await expect(asExecutor.executeOnProxy("RevenueDistributor", call)).to.be.revertedWith("Call not allowed");
+      }
+      await expect(asExecutor.executeOnProxy("Missing", setFee)).to.be.revertedWith("Proxy not found");
+      await expect(asExecutor.executeOnProxy("RevenueDistributor", "0x")).to.be.revertedWith("Invalid call");
+      await expect(asExecutor.executeOnProxy("RevenueDistributor", setFee)).to.emit(factory, "ProxyCallExecuted");
+
+      await factory.revokeExecutor(executorAddress);
+      await expect(asExecutor.executeOnProxy("RevenueDistributor", setFee)).to.be.revertedWith(
+        "Not authorized executor"
+      );
+    });
+  });
+
+  describe("jeskei:gov tasks", function () {
+    it("Should propose, vote, queue and execute a fee change", async function () {
+      const { distributor, executor, alice, bob } = await loadFixture(stackFixture);
+
+      await hre.run("jeskei:gov:delegate", { to: alice.address, from: bob.address });
+      const proposed = (await hre.run("jeskei:gov:propose", {
+        title: "Cut fee",
+        description: "to 12%",
+        category: "PlatformFee",
+        feeTarget: "revenue",
+        fee: 1200,
+        from: alice.address,
+      })) as GovernanceProposalStatus;
+      expect(proposed).to.include({
+        id: 0,
+        category: "PlatformFee",
+        state: "Active",
+        targetModule: "RevenueDistributor",
+      });
+
+      const voted = (await hre.run("jeskei:gov:vote", {
+        id: 0,
+        support: "for",
+        reason: "",
+        from: alice.address,
+      })) as GovernanceProposalStatus;
+      expect(voted.votesFor).to.equal(400n);
+      await expect(hre.run("jeskei:gov:execute", { id: 0 })).to.be.rejectedWith("still being voted on");
+
+      await time.increase(VOTING_PERIOD + 1);
+      await expect(hre.run("jeskei:gov:execute", { id: 0 })).to.be.rejectedWith("must be queued first");
+      const queued = (await hre.run("jeskei:gov:queue", { id: 0 })) as GovernanceProposalStatus;
+      expect(queued.state).to.equal("Queued");
+      expect(queued.eta).to.be.greaterThan(0n);
+      await expect(hre.run("jeskei:gov:execute", { id: 0 })).to.be.rejectedWith("timelocked");
+
+      await time.increase(await executor.delay());
+      const executed = (await hre.run("jeskei:gov:execute", { id: 0 })) as GovernanceProposalStatus;
+      expect(executed.state).to.equal("Executed");
+      expect(await distributor.platformFee()).to.equal(1200n);
+
+      const [status] = (await hre.run("jeskei:gov:status", {})) as GovernanceProposalStatus[];
+      expect(status.state).to.equal("Executed");
+    });
+
+    it("Should reject malformed proposals before sending anything", async function () {
+      const { governance, alice } = await loadFixture(stackFixture);
+      const propose = (extra: Record<string, unknown>) =>
+        hre.run("jeskei:gov:propose", { title: "t", description: "d", from: alice.address, ...extra });
+
+      await expect(propose({ category: "Fees" })).to.be.rejectedWith("Unknown category");
+      await expect(propose({ category: "PlatformFee", fee: 100 })).to.be.rejectedWith("need --fee-target");
+      await expect(propose({ category: "Partnership", feeTarget: "revenue" })).to.be.rejectedWith(
+        "only apply to PlatformFee"
+      );
+      expect(await governance.proposalCounter()).to.equal(0n);
+    });
+  });
+});
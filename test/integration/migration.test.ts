@@ -0,0 +1,253 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { MigrationRun } from "../../tasks/migrate";
+import { LegacyAddresses, migrateLegacy, verifyMigration } from "../../utils/migration";
+
+/**
+ * Migration of a legacy `contracts/core` deployment into the stack that
+ * `deploy/01-deploy-core.ts` wires: `jeskei:migrate` replays assets, hosting
+ * balances and access grants in checkpointed MigrationHelper batches and ends
+ * with a legacy/upgraded diff.
+ */
+describe("Integration: legacy migration", function () {
+  const DAY = 24 * 60 * 60;
+  const price = ethers.parseEther("0.1");
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const [alice, bob, carol, dave, erin, legacyTreasury] = (await ethers.getSigners()).slice(5);
+
+    const legacyRegistry = await (await ethers.getContractFactory("AssetRegistry")).deploy(legacyTreasury.address);
+    const legacyDistributor = await (
+      await ethers.getContractFactory("RevenueDistributor")
+    ).deploy(await legacyRegistry.getAddress(), legacyTreasury.address);
+    const legacyAccess = await (
+      await ethers.getContractFactory("ContentAccess")
+    ).deploy(await legacyRegistry.getAddress(), await legacyDistributor.getAddress());
+    const legacy: LegacyAddresses = {
+      assetRegistry: await legacyRegistry.getAddress(),
+      revenueDistributor: await legacyDistributor.getAddress(),
+      contentAccess: await legacyAccess.getAddress(),
+    };
+
+    // #0: a share table naming the owner and, twice, the editor
+    await legacyRegistry
+      .connect(alice)
+      .createAsset("QmFilm", "ipfs://film", "video", "ipfs", false, price, { value: ethers.parseEther("0.01") });
+    await legacyRegistry.connect(alice).addContributor(0, carol.address, 2000, "editor");
+    await legacyDistributor
+      .connect(alice)
+      .setRevenueShares(0, [alice.address, carol.address, carol.address], [5000, 2500, 500]);
+    await legacyAccess.connect(alice).setAssetPrice(0, price);
+    // #1: public, contributors only declared on the registry; bob withdraws his hosting balance
+    await legacyRegistry
+      .connect(bob)
+      .createAsset("QmScore", "ipfs://score", "audio", "ipfs", true, 0, { value: ethers.parseEther("0.02") });
+    await legacyRegistry.connect(bob).addContributor(1, carol.address, 1000, "composer");
+    await legacyAccess.connect(bob).setPublicAsset(1, true);
+    await legacyRegistry.connect(bob).withdrawHostingBalance();
+    // #2: sold on to erin
+    await legacyRegistry
+      .connect(alice)
+      .createAsset("QmShort", "ipfs://short", "video", "azure", false, price, { value: ethers.parseEther("0.03") });
+    await legacyRegistry.connect(alice).transferFrom(alice.address, erin.address, 2);
+    await legacyAccess.connect(erin).setAssetPrice(2, ethers.parseEther("0.05"));
+
+    await legacyAccess.connect(dave).purchaseAccess(0, 30 * DAY, { value: price });
+    await legacyAccess.connect(alice).grantAccess(erin.address, 0, 7 * DAY);
+    await legacyAccess.connect(alice).grantAccess(bob.address, 0, DAY);
+    await legacyAccess.connect(alice).revokeAccess(bob.address, 0);
+    await legacyAccess.connect(erin).grantAccess(dave.address, 2, 10 * DAY);
+
+    const at = async (label: string) => (await deployments.get(label)).address;
+    const registry = await ethers.getContractAt("AssetRegistryUpgradeable", await at("AssetRegistry"));
+    const access = await ethers.getContractAt("ContentAccessUpgradeable", await at("ContentAccess"));
+    const helper = await ethers.getContractAt("MigrationHelper", await at("MigrationHelper"));
+
+    return {
+      legacy,
+      legacyRegistry,
+      legacyAccess,
+      registry,
+      access,
+      helper,
+      alice,
+      bob,
+      carol,
+      dave,
+      erin,
+      legacyTreasury,
+    };
+  }
+
+  const taskArgs = (legacy: LegacyAddresses) => ({
+    legacyRegistry: legacy.assetRegistry,
+    legacyDistributor: legacy.revenueDistributor,
+    legacyAccess: legacy.contentAccess,
+    batchSize: 2,
+  });
+
+  describe("jeskei:migrate", function () {
+    it("Should carry assets, splits, balances and grants over and verify clean", async function () {
+      const { legacy, legacyRegistry, legacyAccess, registry, access, alice, bob, carol, dave, erin, legacyTreasury } =
+        await loadFixture(stackFixture);
+
+      const { progress, report } = (await hre.run("jeskei:migrate", taskArgs(legacy))) as MigrationRun;
+      expect(progress.map((p) => [p.stream, p.migrated, p.total, p.completed])).to.deep.equal([
+        ["Assets", 3, 3, true],
+        ["HostingBalances", 3, 3, true],
+        ["AccessGrants", 4, 4, true],
+      ]);
+      expect(report.diffs).to.deep.equal([]);
+      expect(report.passed).to.equal(true);
+
+      expect(await registry.ownerOf(2)).to.equal(erin.address);
+      expect(await registry.tokenURI(1)).to.equal("ipfs://score");
+      expect((await registry.assets(0)).creationTime).to.equal((await legacyRegistry.assets(0)).creationTime);
+      expect(await registry.getCreatorAssets(alice.address)).to.deep.equal([0n, 2n]);
+      expect(await registry.getRevenueSplit(0)).to.deep.equal([
+        [carol.address, alice.address],
+        [3000n, 7000n],
+      ]);
+      expect((await registry.getAssetContributors(0))[0].role).to.equal("editor");
+      expect(await registry.getRevenueSplit(1)).to.deep.equal([
+        [carol.address, bob.address],
+        [1000n, 9000n],
+      ]);
+
+      for (const account of [alice.address, legacyTreasury.address]) {
+        expect(await registry.hostingBalance(account)).to.equal(await legacyRegistry.hostingBalance(account));
+      }
+      expect(await ethers.provider.getBalance(await registry.getAddress())).to.equal(
+        (await legacyRegistry.hostingBalance(alice.address)) +
+          (await legacyRegistry.hostingBalance(legacyTreasury.address))
+      );
+
+      expect(await access.assetPrices(2)).to.equal(ethers.parseEther("0.05"));
+      expect(await access.hasAccess(carol.address, 1)).to.equal(true);
+      expect(await access.hasAccess(dave.address, 0)).to.equal(true);
+      expect(await access.hasAccess(dave.address, 2)).to.equal(true);
+      expect(await access.hasAccess(bob.address, 0)).to.equal(false);
+      expect(await access.userAccess(erin.address, 0)).to.deep.equal(await legacyAccess.userAccess(erin.address, 0));
+
+      // imports are closed again and new assets continue after the legacy ids
+      expect(await registry.migrator()).to.equal(ethers.ZeroAddress);
+      expect(await access.migrator()).to.equal(ethers.ZeroAddress);
+      const next = await registry
+        .connect(bob)
+        .createAsset.staticCall("QmNew", "ipfs://new", "video", "ipfs", false, price, {
+          value: ethers.parseEther("0.01"),
+        });
+      expect(next).to.equal(3n);
+    });
+
+    it("Should resume an interrupted migration from its last checkpoint", async function () {
+      const { legacy, registry, helper, alice } = await loadFixture(stackFixture);
+
+      const partial = await migrateLegacy(hre, { legacy, batchSize: 2, maxBatches: 2 });
+      expect(partial.map((p) => [p.stream, p.migrated, p.batches, p.completed])).to.deep.equal([
+        ["Assets", 3, 2, true],
+        ["HostingBalances", 0, 0, false],
+        ["AccessGrants", 0, 0, false],
+      ]);
+      expect(await helper.getMigrationProgress("Assets")).to.equal(3n);
+      expect(await registry.migrator()).to.equal(await helper.getAddress());
+
+      const pending = await verifyMigration(hre, legacy);
+      expect(pending.passed).to.equal(false);
+      expect(
+        pending.diffs.filter((d) => d.field === "progress").map((d) => [d.stream, d.legacy, d.upgraded])
+      ).to.deep.equal([
+        ["HostingBalances", "3", "0"],
+        ["AccessGrants", "4", "0"],
+      ]);
+      expect(pending.diffs.some((d) => d.field === "hostingBalance" && d.key === alice.address)).to.equal(true);
+
+      const resumed = await migrateLegacy(hre, { legacy, batchSize: 2 });
+      expect(resumed.map((p) => [p.stream, p.batches, p.completed])).to.deep.equal([
+        ["Assets", 0, true],
+        ["HostingBalances", 2, true],
+        ["AccessGrants", 2, true],
+      ]);
+      expect((await verifyMigration(hre, legacy)).passed).to.equal(true);
+      expect(await registry.getCreatorAssets(alice.address)).to.deep.equal([0n, 2n]);
+
+      // a further run has nothing left to do
+      const again = await migrateLegacy(hre, { legacy });
+      expect(again.every((p) => p.completed && p.batches === 0)).to.equal(true);
+    });
+
+    it("Should report legacy changes made after the migration", async function () {
+      const { legacy, legacyRegistry, legacyAccess, alice, erin } = await loadFixture(stackFixture);
+      await migrateLegacy(hre, { legacy });
+
+      await legacyRegistry.connect(alice).withdrawHostingBalance();
+      await legacyAccess.connect(alice).revokeAccess(erin.address, 0);
+
+      const report = await verifyMigration(hre, legacy);
+      expect(report.passed).to.equal(false);
+      expect(report.diffs.map((d) => [d.stream, d.field])).to.deep.equal([
+        ["HostingBalances", "hostingBalance"],
+        ["AccessGrants", "grant"],
+      ]);
+      expect(report.diffs[0]).to.include({ key: alice.address, legacy: "0" });
+      expect(report.diffs[1]).to.include({ key: `${erin.address} #0`, legacy: "inactive" });
+    });
+
+    it("Should refuse a signer that does not own MigrationHelper", async function () {
+      const { legacy, alice } = await loadFixture(stackFixture);
+      await expect(migrateLegacy(hre, { legacy, from: alice.address })).to.be.rejectedWith(
+        "MigrationHelper is owned by"
+      );
+    });
+  });
+
+  describe("Checkpoints", function () {
+    it("Should only accept batches in order and complete once everything is migrated", async function () {
+      const { helper, alice } = await loadFixture(stackFixture);
+
+      await helper.startMigration("Assets", 2);
+      await expect(helper.migrateBatch("Assets", 1, 1, 2, [])).to.be.revertedWith("Batch out of order");
+      await expect(helper.connect(alice).migrateBatch("Assets", 0, 0, 1, [])).to.be.revertedWithCustomError(
+        helper,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(helper.migrateBatch("Assets", 0, 0, 1, []))
+        .to.emit(helper, "BatchMigrated")
+        .withArgs("Assets", 0, 0, 1);
+      await expect(helper.completeMigration("Assets")).to.be.revertedWith("Migration incomplete");
+
+      await helper.migrateBatch("Assets", 1, 1, 2, []);
+      await helper.completeMigration("Assets");
+      await expect(helper.migrateBatch("Assets", 2, 2, 3, [])).to.be.revertedWith("Migration already completed");
+    });
+
+    it("Should keep the import functions to the migrator and roll a failed batch back", async function () {
+      const { registry, access, helper, alice } = await loadFixture(stackFixture);
+
+      await expect(
+        registry.connect(alice).importHostingBalances([alice.address], [1n], { value: 1n })
+      ).to.be.revertedWith("Not migrator");
+      await expect(access.connect(alice).importAccessGrants([])).to.be.revertedWith("Not migrator");
+
+      // the role admin (the deployer here) points the registry at the helper
+      await expect(registry.connect(alice).setMigrator(alice.address)).to.be.revertedWithCustomError(
+        registry,
+        "AccessControlUnauthorizedAccount"
+      );
+      await registry.setMigrator(await helper.getAddress());
+
+      const underfunded = {
+        target: await registry.getAddress(),
+        value: 1n,
+        data: registry.interface.encodeFunctionData("importHostingBalances", [[alice.address], [2n]]),
+      };
+      await expect(helper.migrateBatch("HostingBalances", 0, 0, 1, [underfunded], { value: 1n })).to.be.revertedWith(
+        "Incorrect payment amount"
+      );
+      expect(await helper.getMigrationProgress("HostingBalances")).to.equal(0n);
+      expect(await registry.hostingBalance(alice.address)).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { consentShares } from "../fixtures/consent";
+import { GasSnapshot } from "../fixtures/gas";
+
+/**
+ * End-to-end money flow through the stack exactly as `deploy/01-deploy-core.ts`
+ * wires it: AssetRegistry → RevenueDistributor ← ContentAccess, with the
+ * distributor owned by the proxy factory.
+ */
+describe("Integration: asset purchase money flow", function () {
+  const DAY = 24 * 60 * 60;
+  const BPS = 10_000n;
+  const hostingFee = ethers.parseEther("0.01");
+  const price = ethers.parseEther("0.1");
+  const gas = new GasSnapshot();
+
+  after(function () {
+    gas.finish();
+  });
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const named = await getNamedAccounts();
+    const signers = await ethers.getSigners();
+    const [creator, buyer, editor, composer] = signers.slice(5);
+
+    const registry = await ethers.getContractAt(
+      "AssetRegistryUpgradeable",
+      (await deployments.get("AssetRegistry")).address
+    );
+    const distributor = await ethers.getContractAt(
+      "RevenueDistributorUpgradeable",
+      (await deployments.get("RevenueDistributor")).address
+    );
+    const access = await ethers.getContractAt(
+      "ContentAccessUpgradeable",
+      (await deployments.get("ContentAccess")).address
+    );
+
+    const create = await registry
+      .connect(creator)
+      .createAsset("QmMoneyFlow", "ipfs://meta", "video", "ipfs", false, price, { value: hostingFee });
+    gas.record("AssetRegistry.createAsset", await create.wait());
+    const assetId = 0n;
+    gas.record("ContentAccess.setAssetPrice", await (await access.connect(creator).setAssetPrice(assetId, price)).wait());
+
+    return { registry, distributor, access, named, creator, buyer, editor, composer, assetId };
+  }
+
+  // payouts are credited to `claimable` and withdrawn separately
+  async function credits(distributor: { claimable(a: string): Promise<bigint> }, addresses: string[]) {
+    return Promise.all(addresses.map((a) => distributor.claimable(a)));
+  }
+
+  describe("Revenue split", function () {
+    it("Should credit the 15% platform fee and every recipient's exact share", async function () {
+      const { registry, distributor, access, named, creator, buyer, editor, composer, assetId } =
+        await loadFixture(stackFixture);
+      // contributors' shares, with the remaining 60% going to the owner
+      const [setShare] = await consentShares(registry, creator, assetId, [
+        [editor, 2500n, "editor"],
+        [composer, 1500n, "composer"],
+      ]);
+      gas.record("AssetRegistry.setContributorShare", setShare);
+      const shares = [
+        [creator.address, 6000n],
+        [editor.address, 2500n],
+        [composer.address, 1500n],
+      ] as const;
+
+      const watched = [named.platformTreasury, ...shares.map(([r]) => r)];
+      const before = await credits(distributor, watched);
+      const purchase = await access.connect(buyer).purchaseAccess(assetId, DAY, { value: price });
+      gas.record("ContentAccess.purchaseAccess (3 recipients)", await purchase.wait());
+      const after = await credits(distributor, watched);
+
+      const fee = (price * 1500n) / BPS;
+      const available = price - fee;
+      expect(fee).to.equal(ethers.parseEther("0.015"));
+      expect(after[0] - before[0]).to.equal(fee);
+      shares.forEach(([, bps], i) => expect(after[i + 1] - before[i + 1], `recipient ${i}`).to.equal((available * bps) / BPS));
+      expect(await ethers.provider.getBalance(distributor)).to.equal(await distributor.totalClaimable());
+
+      expect(await distributor.totalRevenue(assetId)).to.equal(price);
+      expect(await distributor.contributorEarnings(assetId, editor.address)).to.equal((available * 2500n) / BPS);
+      expect(await access.hasAccess(buyer.address, assetId)).to.equal(true);
+    });
+
+    it("Should credit the asset owner everything after the fee when no shares are set", async function () {
+      const { distributor, access, named, creator, buyer, assetId } = await loadFixture(stackFixture);
+      const before = await credits(distributor, [named.platformTreasury, creator.address]);
+
+      const purchase = await access.connect(buyer).purchaseAccess(assetId, DAY, { value: price });
+      gas.record("ContentAccess.purchaseAccess (owner only)", await purchase.wait());
+      const after = await credits(distributor, [named.platformTreasury, creator.address]);
+
+      expect(after[0] - before[0]).to.equal(ethers.parseEther("0.015"));
+      expect(after[1] - before[1]).to.equal(ethers.parseEther("0.085"));
+      expect(await distributor.creatorTotalEarnings(creator.address)).to.equal(ethers.parseEther("0.085"));
+    });
+
+    it("Should leave rounding dust in the distributor", async function () {
+      const { registry, distributor, access, named, creator, buyer, editor, composer, assetId } =
+        await loadFixture(stackFixture);
+      await access.connect(creator).setAssetPrice(assetId, 1000n);
+      await consentShares(registry, creator, assetId, [
+        [editor, 3333n],
+        [composer, 3333n],
+      ]);
+
+      const watched = [named.platformTreasury, creator.address, editor.address, composer.address];
+      const before = await credits(distributor, watched);
+      await access.connect(buyer).purchaseAccess(assetId, DAY, { value: 1000n });
+      const after = await credits(distributor, watched);
+
+      // fee 150, available 850, 850 × 33.33% = 283.305 → 283 each, and the
+      // owner's 33.34% = 283.39 → 283
+      expect(after.map((b, i) => b - before[i])).to.deep.equal([150n, 283n, 283n, 283n]);
+      expect(await distributor.accumulatedResidue()).to.equal(1n);
+      expect(await ethers.provider.getBalance(distributor)).to.equal(1000n);
+    });
+
+    it("Should split an overpayment like the price", async function () {
+      const { distributor, access, named, buyer, assetId } = await loadFixture(stackFixture);
+      const paid = price + 7n;
+      const [before] = await credits(distributor, [named.platformTreasury]);
+
+      await access.connect(buyer).purchaseAccess(assetId, DAY, { value: paid });
+
+      const [after] = await credits(distributor, [named.platformTreasury]);
+      expect(after - before).to.equal((paid * 1500n) / BPS);
+      expect(await distributor.totalRevenue(assetId)).to.equal(paid);
+    });
+  });
+
+  describe("Reverts", function () {
+    it("Should reject shares above 100%", async function () {
+      const { registry, creator, editor, composer, assetId } = await loadFixture(stackFixture);
+      await consentShares(registry, creator, assetId, [[editor, 6000n]]);
+
+      await expect(consentShares(registry, creator, assetId, [[composer, 4001n]])).to.be.revertedWith(
+        "Exceeds 100% shares"
+      );
+    });
+
+    it("Should reject shares offered by anyone but the asset owner", async function () {
+      const { registry, editor, assetId } = await loadFixture(stackFixture);
+
+      await expect(registry.connect(editor).offerShare(assetId, editor.address, 10000n, "editor")).to.be.revertedWith(
+        "Not asset owner"
+      );
+    });
+
+    it("Should expire access after the purchased duration", async function () {
+      const { access, buyer, assetId } = await loadFixture(stackFixture);
+      await access.connect(buyer).purchaseAccess(assetId, DAY, { value: price });
+
+      await time.increase(DAY);
+      expect(await access.hasAccess(buyer.address, assetId)).to.equal(true);
+      await time.increase(1);
+      expect(await access.hasAccess(buyer.address, assetId)).to.equal(false);
+    });
+
+    it("Should reject an underpaid purchase", async function () {
+      const { access, buyer, assetId } = await loadFixture(stackFixture);
+
+      await expect(access.connect(buyer).purchaseAccess(assetId, DAY, { value: price - 1n })).to.be.revertedWith(
+        "Insufficient payment"
+      );
+    });
+
+    it("Should price access per day and only sell whole days up to a year", async function () {
+      const { access, buyer, assetId } = await loadFixture(stackFixture);
+
+      expect(await access.accessCost(assetId, ethers.ZeroAddress, 30 * DAY)).to.equal(price * 30n);
+      await expect(
+        access.connect(buyer).purchaseAccess(assetId, 30 * DAY, { value: price * 30n - 1n })
+      ).to.be.revertedWith("Insufficient payment");
+      for (const duration of [0, DAY + 1, 366 * DAY]) {
+        await expect(
+          access.connect(buyer).purchaseAccess(assetId, duration, { value: price * 400n })
+        ).to.be.revertedWith("Invalid duration");
+      }
+
+      await access.connect(buyer).purchaseAccess(assetId, 30 * DAY, { value: price * 30n });
+      expect((await access.userAccess(buyer.address, assetId)).expiryTime).to.equal(
+        BigInt(await time.latest()) + BigInt(30 * DAY)
+      );
+    });
+
+    it("Should block purchases while the distributor is paused", async function () {
+      const { distributor, access, named, buyer, assetId } = await loadFixture(stackFixture);
+      const admin = await ethers.getSigner(named.roleAdmin);
+
+      await distributor.connect(admin).pause();
+      await expect(
+        access.connect(buyer).purchaseAccess(assetId, DAY, { value: price })
+      ).to.be.revertedWithCustomError(distributor, "EnforcedPause");
+      expect(await access.hasAccess(buyer.address, assetId)).to.equal(false);
+
+      await distributor.connect(admin).unpause();
+      await expect(access.connect(buyer).purchaseAccess(assetId, DAY, { value: price })).to.emit(
+        access,
+        "AccessPurchased"
+      );
+    });
+
+    it("Should only let the pauser pause the distributor", async function () {
+      const { distributor, creator } = await loadFixture(stackFixture);
+
+      await expect(distributor.connect(creator).pause()).to.be.revertedWithCustomError(
+        distributor,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+});
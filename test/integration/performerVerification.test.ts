@@ -0,0 +1,480 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { impersonateAccount, loadFixture, setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { PerformerAuthenticationUpgradeable } from "../../typechain-types";
+
+/**
+ * PerformerAuthentication's verification lifecycle against the stack as
+ * `deploy/01-deploy-core.ts` wires it: a 2-of-3 verifier quorum, expiry and
+ * renewal, revocation with appeals, wallet rotation, AssetRegistry /
+ * ContentAccess requiring verified performers for "actor" contributors, and
+ * the upgrade of a proxy still running the original implementation.
+ */
+describe("Integration: performer verification", function () {
+  const DAY = 24 * 60 * 60;
+  const YEAR = 365 * DAY;
+  const price = ethers.parseEther("0.1");
+  const identity = ethers.id("passport:alice");
+
+  // PerformerAuthenticationUpgradeable.RevocationReason / AppealStatus
+  const Reason = { None: 0n, KeyCompromised: 2n, Impersonation: 3n, PolicyViolation: 4n };
+  const Appeal = { Pending: 1n, Denied: 3n };
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const [v1, v2, v3, alice, creator, buyer, newWallet] = (await ethers.getSigners()).slice(5);
+
+    const auth = await ethers.getContractAt(
+      "PerformerAuthenticationUpgradeable",
+      (await deployments.get("PerformerAuthentication")).address
+    );
+    const registry = await ethers.getContractAt(
+      "AssetRegistryUpgradeable",
+      (await deployments.get("AssetRegistry")).address
+    );
+    const access = await ethers.getContractAt(
+      "ContentAccessUpgradeable",
+      (await deployments.get("ContentAccess")).address
+    );
+
+    // the role admin holds VERIFIER_ADMIN and is the first verifier
+    const admin = await ethers.getSigner((await getNamedAccounts()).roleAdmin);
+    // factory-deployed modules are owned by the proxy factory
+    const factory = (await deployments.get("JeskeiProxyFactory")).address;
+    await impersonateAccount(factory);
+    await setBalance(factory, ethers.parseEther("1"));
+    const owner = await ethers.getSigner(factory);
+
+    for (const verifier of [v1, v2, v3]) await auth.connect(admin).addVerifier(verifier.address);
+    await auth.connect(admin).removeVerifier(admin.address);
+    await auth.connect(admin).setVerifierQuorum(2);
+
+    return { auth, registry, access, admin, owner, v1, v2, v3, alice, creator, buyer, newWallet };
+  }
+
+  const approve = (auth: PerformerAuthenticationUpgradeable, verifier: HardhatEthersSigner, performer: string) =>
+    auth.connect(verifier).verifyPerformer(performer, identity, "pk", "ipfs://alice");
+
+  async function signRotation(
+    auth: PerformerAuthenticationUpgradeable,
+    signer: HardhatEthersSigner,
+    oldWallet: string,
+    newWallet: string,
+    deadline: bigint
+  ) {
+    const domain = {
+      name: "JeskeiPerformerAuthentication",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await auth.getAddress(),
+    };
+    const types = {
+      WalletRotation: [
+        { name: "oldWallet", type: "address" },
+        { name: "newWallet", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+    const nonce = await auth.rotationNonces(oldWallet);
+    return signer.signTypedData(domain, types, { oldWallet, newWallet, nonce, deadline });
+  }
+
+  async function verifiedFixture() {
+    const fixture = await loadFixture(stackFixture);
+    await approve(fixture.auth, fixture.v1, fixture.alice.address);
+    await approve(fixture.auth, fixture.v2, fixture.alice.address);
+    return fixture;
+  }
+
+  describe("Verifier quorum", function () {
+    it("Should verify once the quorum approved the same details", async function () {
+      const { auth, v1, v2, v3, alice } = await loadFixture(stackFixture);
+
+      await expect(approve(auth, v1, alice.address))
+        .to.emit(auth, "VerificationApproved")
+        .withArgs(alice.address, v1.address, 1)
+        .and.not.to.emit(auth, "PerformerVerified");
+      await expect(approve(auth, v1, alice.address)).to.be.revertedWith("Already approved");
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(false);
+      expect(await auth.verificationApprovals(alice.address, identity, "pk", "ipfs://alice")).to.deep.equal([
+        v1.address,
+      ]);
+
+      // a different key is a different request
+      await auth.connect(v2).verifyPerformer(alice.address, identity, "other-pk", "ipfs://alice");
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(false);
+
+      await expect(approve(auth, v3, alice.address))
+        .to.emit(auth, "PerformerVerified")
+        .withArgs(alice.address, identity)
+        .and.to.emit(auth, "VerificationExtended");
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(true);
+      expect(await auth.verificationExpiry(alice.address)).to.equal(BigInt((await time.latest()) + YEAR));
+      expect((await auth.performers(alice.address)).reputationScore).to.equal(100n);
+      expect(await auth.getVerifiedPerformers()).to.deep.equal([alice.address]);
+    });
+
+    it("Should only count approvals from current verifiers", async function () {
+      const { auth, admin, v1, v2, v3, alice } = await loadFixture(stackFixture);
+
+      await approve(auth, v1, alice.address);
+      await auth.connect(admin).removeVerifier(v1.address);
+      await expect(approve(auth, v2, alice.address)).to.not.emit(auth, "PerformerVerified");
+      await expect(approve(auth, v3, alice.address)).to.emit(auth, "PerformerVerified");
+
+      await expect(auth.connect(admin).removeVerifier(v2.address)).to.be.revertedWith("Invalid quorum");
+      await expect(auth.connect(admin).setVerifierQuorum(3)).to.be.revertedWith("Invalid quorum");
+      await expect(approve(auth, v1, alice.address)).to.be.revertedWith("Not authorized verifier");
+    });
+
+    it("Should keep an identity bound to one performer", async function () {
+      const { auth, v1, v2, alice, creator } = await verifiedFixture();
+
+      await expect(approve(auth, v1, creator.address)).to.be.revertedWith("Identity already used");
+      await expect(
+        auth.connect(v1).verifyPerformer(alice.address, ethers.id("passport:other"), "pk", "ipfs://alice")
+      ).to.be.revertedWith("Identity mismatch");
+      await expect(auth.connect(v2).setReputationScore(alice.address, 180))
+        .to.emit(auth, "ReputationScoreSet")
+        .withArgs(alice.address, 180);
+    });
+  });
+
+  describe("Expiry and renewal", function () {
+    it("Should expire and be renewed by the quorum", async function () {
+      const { auth, v2, v3, alice } = await verifiedFixture();
+      await auth.connect(v2).setReputationScore(alice.address, 180);
+
+      await time.increaseTo((await auth.verificationExpiry(alice.address)) + 1n);
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(false);
+
+      // same details again, in the next round
+      await approve(auth, v2, alice.address);
+      await expect(approve(auth, v3, alice.address)).to.emit(auth, "PerformerVerified");
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(true);
+      expect(await auth.verificationExpiry(alice.address)).to.equal(BigInt((await time.latest()) + YEAR));
+      expect((await auth.performers(alice.address)).reputationScore).to.equal(180n);
+      expect(await auth.getVerifiedPerformers()).to.deep.equal([alice.address]);
+    });
+
+    it("Should not expire with a zero verification period", async function () {
+      const { auth, admin, v1, v2, alice } = await loadFixture(stackFixture);
+      await expect(auth.connect(admin).setVerificationPeriod(0)).to.emit(auth, "VerificationPeriodSet").withArgs(0);
+
+      await approve(auth, v1, alice.address);
+      await approve(auth, v2, alice.address);
+      await time.increase(10 * YEAR);
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(true);
+    });
+  });
+
+  describe("Revocation and appeals", function () {
+    it("Should revoke with a reason and reinstate on a granted appeal", async function () {
+      const { auth, admin, v1, alice } = await verifiedFixture();
+
+      await expect(auth.connect(v1).revokePerformer(alice.address, Reason.None)).to.be.revertedWith("Invalid reason");
+      await expect(auth.connect(v1).revokePerformer(alice.address, Reason.KeyCompromised))
+        .to.emit(auth, "PerformerRevoked")
+        .withArgs(alice.address, Reason.KeyCompromised, v1.address);
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(false);
+
+      await expect(auth.connect(alice).appealRevocation("ipfs://evidence"))
+        .to.emit(auth, "AppealFiled")
+        .withArgs(alice.address, Reason.KeyCompromised, "ipfs://evidence");
+      expect((await auth.revocations(alice.address)).appeal).to.equal(Appeal.Pending);
+      await expect(auth.connect(alice).appealRevocation("ipfs://more")).to.be.revertedWith("Appeal already filed");
+      await expect(auth.connect(v1).resolveAppeal(alice.address, true)).to.be.revertedWithCustomError(
+        auth,
+        "AccessControlUnauthorizedAccount"
+      );
+
+      await time.increase(100 * DAY);
+      await expect(auth.connect(admin).resolveAppeal(alice.address, true))
+        .to.emit(auth, "AppealResolved")
+        .withArgs(alice.address, true);
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(true);
+      expect(await auth.verificationExpiry(alice.address)).to.equal(BigInt((await time.latest()) + YEAR));
+      expect((await auth.revocations(alice.address)).reason).to.equal(Reason.None);
+    });
+
+    it("Should leave a denied appeal to re-verification", async function () {
+      const { auth, admin, v1, v2, v3, alice } = await verifiedFixture();
+      await auth.connect(v1).revokePerformer(alice.address, Reason.Impersonation);
+      await auth.connect(alice).appealRevocation("ipfs://evidence");
+
+      await auth.connect(admin).resolveAppeal(alice.address, false);
+      expect((await auth.revocations(alice.address)).appeal).to.equal(Appeal.Denied);
+      await expect(auth.connect(alice).appealRevocation("ipfs://again")).to.be.revertedWith("Appeal already filed");
+      await expect(auth.connect(admin).resolveAppeal(alice.address, true)).to.be.revertedWith("No pending appeal");
+
+      await approve(auth, v2, alice.address);
+      await approve(auth, v3, alice.address);
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(true);
+      expect((await auth.revocations(alice.address)).reason).to.equal(Reason.None);
+    });
+  });
+
+  describe("Wallet rotation", function () {
+    it("Should move a verified profile when both wallets sign", async function () {
+      const { auth, v1, alice, newWallet, buyer } = await verifiedFixture();
+      await auth.connect(v1).setPerformerTier(alice.address, 2);
+      await auth.connect(v1).addPerformerSkill(alice.address, "stunts");
+      const deadline = BigInt((await time.latest()) + 3600);
+
+      const oldSig = await signRotation(auth, alice, alice.address, newWallet.address, deadline);
+      const forged = await signRotation(auth, buyer, alice.address, newWallet.address, deadline);
+      await expect(auth.rotateWallet(alice.address, newWallet.address, deadline, oldSig, forged)).to.be.revertedWith(
+        "Invalid new wallet signature"
+      );
+
+      const newSig = await signRotation(auth, newWallet, alice.address, newWallet.address, deadline);
+      // anyone may relay it
+      await expect(auth.connect(buyer).rotateWallet(alice.address, newWallet.address, deadline, oldSig, newSig))
+        .to.emit(auth, "WalletRotated")
+        .withArgs(alice.address, newWallet.address, identity);
+
+      expect(await auth.isVerifiedPerformer(newWallet.address)).to.equal(true);
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(false);
+      expect(await auth.identityHashToAddress(identity)).to.equal(newWallet.address);
+      expect(await auth.currentWallet(alice.address)).to.equal(newWallet.address);
+      expect(await auth.performerTier(newWallet.address)).to.equal(2n);
+      expect(await auth.performerSkills(newWallet.address, 0)).to.equal("stunts");
+      expect(await auth.getVerifiedPerformers()).to.deep.equal([newWallet.address]);
+
+      // the signatures were for nonce 0
+      await expect(auth.rotateWallet(alice.address, newWallet.address, deadline, oldSig, newSig)).to.be.revertedWith(
+        "Not a performer"
+      );
+      await expect(approve(auth, v1, alice.address)).to.be.revertedWith("Wallet rotated");
+    });
+
+    it("Should refuse expired signatures and taken wallets", async function () {
+      const { auth, alice, newWallet, v1, v3 } = await verifiedFixture();
+      const deadline = BigInt((await time.latest()) + 60);
+      const oldSig = await signRotation(auth, alice, alice.address, newWallet.address, deadline);
+      const newSig = await signRotation(auth, newWallet, alice.address, newWallet.address, deadline);
+
+      await time.increase(120);
+      await expect(auth.rotateWallet(alice.address, newWallet.address, deadline, oldSig, newSig)).to.be.revertedWith(
+        "Signature expired"
+      );
+
+      await auth.connect(v1).verifyPerformer(newWallet.address, ethers.id("passport:new"), "pk", "ipfs://new");
+      await auth.connect(v3).verifyPerformer(newWallet.address, ethers.id("passport:new"), "pk", "ipfs://new");
+      const later = BigInt((await time.latest()) + 3600);
+      await expect(
+        auth.rotateWallet(
+          alice.address,
+          newWallet.address,
+          later,
+          await signRotation(auth, alice, alice.address, newWallet.address, later),
+          await signRotation(auth, newWallet, alice.address, newWallet.address, later)
+        )
+      ).to.be.revertedWith("Wallet already registered");
+    });
+  });
+
+  describe("Performer roles", function () {
+    async function assetFixture() {
+      const fixture = await loadFixture(stackFixture);
+      const { registry, access, admin, creator } = fixture;
+      await registry.connect(admin).setPerformerRole("actor", true);
+      await registry
+        .connect(creator)
+        .createAsset("QmFilm", "ipfs://meta", "video", "ipfs", false, price, { value: ethers.parseEther("0.01") });
+      await access.connect(creator).setAssetPrice(0, price);
+      return fixture;
+    }
+
+    it("Should only add verified performers in performer roles", async function () {
+      const { registry, auth, v1, v2, alice, buyer, creator } = await assetFixture();
+      expect(await registry.requiresVerifiedPerformer("actor")).to.equal(true);
+      expect(await registry.requiresVerifiedPerformer("editor")).to.equal(false);
+
+      await registry.connect(creator).offerShare(0, alice.address, 2000, "actor");
+      await expect(registry.connect(alice).acceptShare(0)).to.be.revertedWith("Performer not verified");
+      await registry.connect(creator).offerShare(0, buyer.address, 1000, "editor");
+      await registry.connect(buyer).acceptShare(0);
+
+      await approve(auth, v1, alice.address);
+      await approve(auth, v2, alice.address);
+      await expect(registry.connect(alice).acceptShare(0))
+        .to.emit(registry, "ContributorAdded")
+        .withArgs(0, alice.address, 2000, "actor");
+      expect(await registry.hasVerifiedPerformers(0)).to.equal(true);
+    });
+
+    it("Should stop sales while a performer is not verified", async function () {
+      const { registry, access, auth, v1, v2, v3, alice, buyer, creator } = await assetFixture();
+      await approve(auth, v1, alice.address);
+      await approve(auth, v2, alice.address);
+      await registry.connect(creator).offerShare(0, alice.address, 2000, "actor");
+      await registry.connect(alice).acceptShare(0);
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+
+      await auth.connect(v3).revokePerformer(alice.address, Reason.PolicyViolation);
+      expect(await registry.hasVerifiedPerformers(0)).to.equal(false);
+      await expect(access.connect(buyer).purchaseAccess(0, DAY, { value: price })).to.be.revertedWith(
+        "Performer not verified"
+      );
+      await access.connect(creator).createPlan(0, false, ethers.ZeroAddress, price, 30 * DAY, 0);
+      await expect(access.connect(buyer).subscribe(0, 1, { value: price })).to.be.revertedWith(
+        "Performer not verified"
+      );
+
+      // re-verified: sales resume
+      await approve(auth, v1, alice.address);
+      await approve(auth, v3, alice.address);
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+    });
+
+    it("Should follow a performer's rotated wallet", async function () {
+      const { registry, auth, v1, v2, alice, newWallet, creator } = await assetFixture();
+      await approve(auth, v1, alice.address);
+      await approve(auth, v2, alice.address);
+      await registry.connect(creator).offerShare(0, alice.address, 2000, "actor");
+      await registry.connect(alice).acceptShare(0);
+
+      const deadline = BigInt((await time.latest()) + 3600);
+      await auth.rotateWallet(
+        alice.address,
+        newWallet.address,
+        deadline,
+        await signRotation(auth, alice, alice.address, newWallet.address, deadline),
+        await signRotation(auth, newWallet, alice.address, newWallet.address, deadline)
+      );
+
+      expect(await registry.hasVerifiedPerformers(0)).to.equal(true);
+    });
+
+    it("Should let the verifier admin drop a performer role", async function () {
+      const { registry, admin, creator, alice } = await assetFixture();
+
+      await expect(registry.connect(admin).setPerformerRole("actor", false))
+        .to.emit(registry, "PerformerRoleSet")
+        .withArgs("actor", false);
+      expect(await registry.performerRoleCount()).to.equal(0n);
+      await registry.connect(creator).offerShare(0, alice.address, 2000, "actor");
+      await registry.connect(alice).acceptShare(0);
+      await expect(registry.connect(creator).setPerformerRole("actor", true)).to.be.revertedWithCustomError(
+        registry,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Upgrade from the original implementation", function () {
+    async function legacyFixture() {
+      const fixture = await loadFixture(stackFixture);
+      const { owner, v1, v2, alice } = fixture;
+      const deployer = await ethers.getSigner((await getNamedAccounts()).deployer);
+      const factory = await ethers.getContractAt("JeskeiProxyFactory", owner.address, deployer);
+      const manager = await ethers.getContractAt(
+        "UpgradeManager",
+        (await deployments.get("UpgradeManager")).address,
+        deployer
+      );
+
+      const original = await (await ethers.getContractFactory("PerformerAuthenticationUpgradeableV1Mock")).deploy();
+      const init = original.interface.encodeFunctionData("initialize");
+      await factory.deployProxy("LegacyPerformerAuthentication", await original.getAddress(), init, "1.0.0");
+      const address = (await factory.getProxy("LegacyPerformerAuthentication")).proxyAddress;
+      const legacy = await ethers.getContractAt("PerformerAuthenticationUpgradeableV1Mock", address);
+      await legacy.connect(owner).addVerifier(v1.address);
+      await legacy.connect(owner).addVerifier(v2.address);
+      await legacy.connect(v1).verifyPerformer(alice.address, identity, "pk", "ipfs://alice");
+
+      const implementation = await (await ethers.getContractFactory("PerformerAuthenticationUpgradeable")).deploy();
+      const verifiers = [owner.address, v1.address, v2.address].sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+      const auth = await ethers.getContractAt("PerformerAuthenticationUpgradeable", address);
+      return { ...fixture, auth, stackAuth: fixture.auth, factory, manager, implementation, verifiers };
+    }
+
+    it("Should seed the verifier count, quorum and expiry through UpgradeManager", async function () {
+      const { auth, admin, owner, v1, v2, alice, manager, implementation, verifiers } = await legacyFixture();
+      const call = implementation.interface.encodeFunctionData("initializeVerification", [
+        YEAR,
+        verifiers,
+        admin.address,
+      ]);
+
+      await manager.proposeUpgradeAndCall(
+        "LegacyPerformerAuthentication",
+        await implementation.getAddress(),
+        "2.0.0",
+        "verifier quorum and expiry",
+        call
+      );
+      const id = (await manager.proposalCounter()) - 1n;
+      expect(await manager.upgradeCalls(id)).to.equal(call);
+      await manager.approveUpgrade(id);
+      await time.increase(await manager.timelock());
+      await expect(manager.executeUpgrade(id))
+        .to.emit(auth, "VerificationExtended")
+        .withArgs(alice.address, BigInt((await time.latest()) + 1 + YEAR));
+
+      expect(await auth.verifierCount()).to.equal(3n);
+      expect(await auth.verifierQuorum()).to.equal(1n);
+      expect(await auth.verificationPeriod()).to.equal(BigInt(YEAR));
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(true);
+      await time.increase(YEAR);
+      expect(await auth.isVerifiedPerformer(alice.address)).to.equal(false);
+
+      // the roles the factory held implicitly go to the admin, bar UPGRADER
+      expect(await auth.hasRole(await auth.UPGRADER_ROLE(), owner.address)).to.equal(true);
+      expect(await auth.hasRole(await auth.VERIFIER_ADMIN_ROLE(), owner.address)).to.equal(false);
+      await auth.connect(admin).removeVerifier(v1.address);
+      await auth.connect(admin).removeVerifier(v2.address);
+      expect(await auth.verifierCount()).to.equal(1n);
+      await expect(auth.connect(admin).removeVerifier(owner.address)).to.be.revertedWith("Invalid quorum");
+      await expect(
+        auth.connect(owner).initializeVerification(YEAR, [owner.address], admin.address)
+      ).to.be.revertedWithCustomError(auth, "InvalidInitialization");
+      await expect(auth.connect(owner).initializeRoles(admin.address)).to.be.revertedWith(
+        "Use initializeVerification"
+      );
+    });
+
+    it("Should refuse unsorted, unknown or empty verifier lists and fresh proxies", async function () {
+      const { auth, stackAuth, admin, owner, v1, factory, implementation, verifiers } = await legacyFixture();
+      const upgrade = (list: string[]) =>
+        factory.upgradeProxyAndCall(
+          "LegacyPerformerAuthentication",
+          implementation.getAddress(),
+          "2.0.0",
+          implementation.interface.encodeFunctionData("initializeVerification", [YEAR, list, admin.address])
+        );
+
+      await expect(upgrade([...verifiers].reverse())).to.be.revertedWith("Verifiers not sorted");
+      await expect(upgrade([v1.address, v1.address])).to.be.revertedWith("Verifiers not sorted");
+      await expect(upgrade([...verifiers, ethers.ZeroAddress])).to.be.revertedWith("Not a verifier");
+      await expect(upgrade([])).to.be.revertedWith("Verifiers required");
+      await expect(
+        factory.upgradeProxyAndCall("StudioBeacon", implementation.getAddress(), "2.0.0", "0x12345678")
+      ).to.be.revertedWith("Beacon upgrades take no call");
+
+      await upgrade(verifiers);
+      expect(await auth.verifierCount()).to.equal(3n);
+      await expect(auth.connect(v1).initialize(YEAR, v1.address)).to.be.revertedWithCustomError(
+        auth,
+        "InvalidInitialization"
+      );
+      await expect(
+        stackAuth.connect(owner).initializeVerification(YEAR, [owner.address], admin.address)
+      ).to.be.revertedWithCustomError(stackAuth, "InvalidInitialization");
+    });
+
+    it("Should keep initialize closed after a plain upgrade", async function () {
+      const { auth, factory, implementation, buyer } = await legacyFixture();
+      await factory.upgradeProxy("LegacyPerformerAuthentication", implementation.getAddress(), "2.0.0");
+
+      await expect(auth.connect(buyer).initialize(YEAR, buyer.address)).to.be.revertedWithCustomError(
+        auth,
+        "InvalidInitialization"
+      );
+      expect(await auth.hasRole(await auth.VERIFIER_ADMIN_ROLE(), buyer.address)).to.equal(false);
+    });
+  });
+});
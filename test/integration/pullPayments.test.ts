@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import hre, { deployments, ethers, getNamedAccounts } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import fs from "fs";
+import path from "path";
+import { compareStorageLayouts, getStorageLayout, StorageLayout } from "../../utils/upgradeSafety";
+
+/**
+ * Credit-and-withdraw payouts in RevenueDistributor and AdvertisingEngine, on
+ * the stack as `deploy/01-deploy-core.ts` wires it.
+ */
+describe("Integration: pull payments", function () {
+  const DAY = 24 * 60 * 60;
+  const price = ethers.parseEther("0.1");
+  const rate = ethers.parseEther("0.001");
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const named = await getNamedAccounts();
+    const [, , , , , creator, buyer, viewer, keeper] = await ethers.getSigners();
+
+    const registry = await ethers.getContractAt("AssetRegistryUpgradeable", (await deployments.get("AssetRegistry")).address);
+    const distributor = await ethers.getContractAt(
+      "RevenueDistributorUpgradeable",
+      (await deployments.get("RevenueDistributor")).address
+    );
+    const access = await ethers.getContractAt("ContentAccessUpgradeable", (await deployments.get("ContentAccess")).address);
+    const engine = await ethers.getContractAt(
+      "AdvertisingEngineUpgradeable",
+      (await deployments.get("AdvertisingEngine")).address
+    );
+    const rejecting = await (await ethers.getContractFactory("RejectingReceiverMock")).deploy();
+
+    await registry.connect(creator).createAsset("QmPull", "ipfs://meta", "video", "ipfs", false, price, {
+      value: ethers.parseEther("0.01"),
+    });
+    await access.connect(creator).setAssetPrice(0, price);
+    await registry.connect(creator).offerShare(0, rejecting, 5000n, "composer");
+    await rejecting.acceptShare(registry, 0);
+
+    // operator roles are held by the role admin, not the owning factory
+    const admin = await ethers.getSigner(named.roleAdmin);
+
+    return { named, creator, buyer, viewer, keeper, admin, registry, distributor, access, engine, rejecting };
+  }
+
+  const half = (price - (price * 1500n) / 10000n) / 2n;
+
+  describe("RevenueDistributor", function () {
+    it("Should sell access even when a recipient rejects ETH", async function () {
+      const { distributor, access, buyer, creator, rejecting } = await loadFixture(stackFixture);
+
+      await expect(access.connect(buyer).purchaseAccess(0, DAY, { value: price }))
+        .to.emit(distributor, "PaymentCredited")
+        .withArgs(await rejecting.getAddress(), half);
+
+      expect(await access.hasAccess(buyer.address, 0)).to.equal(true);
+      expect(await distributor.claimable(creator.address)).to.equal(half);
+      expect(await distributor.totalClaimable()).to.equal(price);
+    });
+
+    it("Should withdraw to the caller and, through withdrawFor, to any payee", async function () {
+      const { distributor, access, named, buyer, creator, keeper } = await loadFixture(stackFixture);
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+
+      await expect(distributor.connect(creator).withdraw()).to.changeEtherBalances([creator, distributor], [half, -half]);
+      const fee = (price * 1500n) / 10000n;
+      await expect(distributor.connect(keeper).withdrawFor(named.platformTreasury))
+        .to.emit(distributor, "PaymentWithdrawn")
+        .withArgs(named.platformTreasury, fee);
+
+      expect(await distributor.claimable(creator.address)).to.equal(0n);
+      expect(await distributor.totalClaimable()).to.equal(half);
+      await expect(distributor.connect(creator).withdraw()).to.be.revertedWith("No balance to withdraw");
+    });
+
+    it("Should keep a rejected withdrawal claimable", async function () {
+      const { distributor, access, buyer, keeper, rejecting } = await loadFixture(stackFixture);
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+
+      await expect(distributor.connect(keeper).withdrawFor(rejecting)).to.be.revertedWith("Withdrawal failed");
+      expect(await distributor.claimable(rejecting)).to.equal(half);
+
+      await rejecting.setAccepting(true);
+      await expect(distributor.connect(keeper).withdrawFor(rejecting)).to.changeEtherBalance(rejecting, half);
+    });
+
+    it("Should push payments again once the admin opts in", async function () {
+      const { registry, distributor, access, admin, buyer, creator, rejecting } = await loadFixture(stackFixture);
+
+      await expect(distributor.connect(creator).setPushPayments(true)).to.be.revertedWithCustomError(
+        distributor,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(distributor.connect(admin).setPushPayments(true)).to.emit(distributor, "PushPaymentsSet").withArgs(true);
+
+      // one rejecting recipient blocks the whole sale in push mode
+      await expect(access.connect(buyer).purchaseAccess(0, DAY, { value: price })).to.be.reverted;
+      await registry.connect(creator).offerShare(0, rejecting, 0n, "composer");
+      await rejecting.acceptShare(registry, 0);
+      await expect(access.connect(buyer).purchaseAccess(0, DAY, { value: price })).to.changeEtherBalance(
+        creator,
+        half * 2n
+      );
+      expect(await distributor.totalClaimable()).to.equal(0n);
+    });
+  });
+
+  describe("AdvertisingEngine", function () {
+    it("Should credit viewer, creator and treasury for a recorded view", async function () {
+      const { engine, named, admin, creator, viewer, rejecting } = await loadFixture(stackFixture);
+      await engine.connect(creator).createCampaign("ipfs://ad", rate, rate, DAY, [], { value: ethers.parseEther("1") });
+
+      await engine.connect(admin).recordAdView(0, viewer.address, rejecting);
+
+      const fee = (rate * 2n * 1000n) / 10000n;
+      expect(await engine.claimable(viewer.address)).to.equal(rate);
+      expect(await engine.claimable(rejecting)).to.equal(rate);
+      expect(await engine.claimable(named.adTreasury)).to.equal(fee);
+      await expect(engine.connect(viewer).withdraw()).to.changeEtherBalance(viewer, rate);
+      await expect(engine.withdrawFor(rejecting)).to.be.revertedWith("Withdrawal failed");
+    });
+  });
+
+  describe("Upgrade", function () {
+    for (const contract of ["RevenueDistributorUpgradeable", "AdvertisingEngineUpgradeable"]) {
+      it(`Should keep ${contract} layout compatible with the deployed v1`, async function () {
+        const file = path.join(__dirname, "..", "..", "layouts", `${contract}.v1.json`);
+        const v1 = JSON.parse(fs.readFileSync(file, "utf8")) as StorageLayout;
+
+        expect(compareStorageLayouts(v1, await getStorageLayout(hre, contract))).to.deep.equal([]);
+      });
+    }
+  });
+
+  describe("Tasks", function () {
+    it("Should report and withdraw claimable balances", async function () {
+      const { access, distributor, buyer, creator } = await loadFixture(stackFixture);
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: price });
+
+      const balances = await hre.run("jeskei:payments:balance", { account: creator.address });
+      expect(balances).to.deep.equal({ revenue: half, advertising: 0n });
+
+      const withdrawn = await hre.run("jeskei:payments:withdraw", { account: creator.address });
+      expect(withdrawn).to.deep.equal({ revenue: half });
+      expect(await distributor.claimable(creator.address)).to.equal(0n);
+      await expect(hre.run("jeskei:payments:withdraw", { source: "ads" })).to.be.rejectedWith('Unknown source "ads"');
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { getStorageLayout } from "../../utils/upgradeSafety";
+import { PauseResult, RoleChange, RoleHolders, pauseAll, roleId } from "../../utils/roles";
+
+/**
+ * Operator roles on the stack `deploy/01-deploy-core.ts` wires: the module
+ * owner holds UPGRADER, the role admin every other role, `jeskei:roles` hands
+ * single roles to other keys and `jeskei:pause-all` halts every module a
+ * pauser may pause.
+ */
+describe("Integration: operator roles", function () {
+  const DAY = 24 * 60 * 60;
+  const PAUSABLE = [
+    "PerformerAuthentication",
+    "RevenueDistributor",
+    "AdvertisingEngine",
+    "ContentAccess",
+    "StudioFactory",
+    "CrowdfundingPlatform",
+  ];
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const [ops, treasurer, oracle, creator, viewer, outsider] = (await ethers.getSigners()).slice(5);
+    const { deployer } = await hre.getNamedAccounts();
+
+    const at = async (label: string) => (await deployments.get(label)).address;
+    const registry = await ethers.getContractAt("AssetRegistryUpgradeable", await at("AssetRegistry"));
+    const distributor = await ethers.getContractAt("RevenueDistributorUpgradeable", await at("RevenueDistributor"));
+    const engine = await ethers.getContractAt("AdvertisingEngineUpgradeable", await at("AdvertisingEngine"));
+    const auth = await ethers.getContractAt("PerformerAuthenticationUpgradeable", await at("PerformerAuthentication"));
+    const access = await ethers.getContractAt("ContentAccessUpgradeable", await at("ContentAccess"));
+    const factory = await ethers.getContractAt("JeskeiProxyFactory", await at("JeskeiProxyFactory"));
+
+    return {
+      registry,
+      distributor,
+      engine,
+      auth,
+      access,
+      factory,
+      deployer,
+      ops,
+      treasurer,
+      oracle,
+      creator,
+      viewer,
+      outsider,
+    };
+  }
+
+  const roles = (action: string, args: Record<string, unknown> = {}) => hre.run("jeskei:roles", { action, ...args });
+
+  describe("Modules", function () {
+    it("Should grant UPGRADER to the owner, the other roles to the role admin and none to others", async function () {
+      const { distributor, factory, deployer, outsider } = await loadFixture(stackFixture);
+      const owner = await factory.getAddress();
+
+      expect(await distributor.hasRole(roleId("UPGRADER"), owner)).to.equal(true);
+      // governance fee proposals reach the distributor through the factory
+      expect(await distributor.hasRole(roleId("FEE_ADMIN"), owner)).to.equal(true);
+      for (const role of ["PAUSER", "DEFAULT_ADMIN"] as const) {
+        expect(await distributor.hasRole(roleId(role), owner), role).to.equal(false);
+      }
+      for (const role of ["FEE_ADMIN", "PAUSER", "DEFAULT_ADMIN"] as const) {
+        expect(await distributor.hasRole(roleId(role), deployer), role).to.equal(true);
+      }
+      expect(await distributor.hasRole(roleId("UPGRADER"), deployer)).to.equal(false);
+      await expect(distributor.connect(outsider).pause())
+        .to.be.revertedWithCustomError(distributor, "AccessControlUnauthorizedAccount")
+        .withArgs(outsider.address, roleId("PAUSER"));
+    });
+
+    it("Should keep role state out of the modules' own storage slots", async function () {
+      for (const name of ["AssetRegistryUpgradeable", "RevenueDistributorUpgradeable", "ContentAccessUpgradeable"]) {
+        const layout = await getStorageLayout(hre, name);
+
+        expect(
+          layout.storage.filter((e) => /AccessControl|Roles/.test(e.contract ?? "")),
+          name
+        ).to.deep.equal([]);
+      }
+    });
+
+    it("Should keep UPGRADER out of the role admin's reach", async function () {
+      const { registry, deployer, outsider } = await loadFixture(stackFixture);
+      const admin = await ethers.getSigner(deployer);
+
+      expect(await registry.getRoleAdmin(roleId("UPGRADER"))).to.equal(roleId("UPGRADER"));
+      await expect(registry.connect(admin).grantRole(roleId("UPGRADER"), outsider.address))
+        .to.be.revertedWithCustomError(registry, "AccessControlUnauthorizedAccount")
+        .withArgs(deployer, roleId("UPGRADER"));
+      await registry.connect(admin).grantRole(roleId("FEE_ADMIN"), outsider.address);
+      expect(await registry.hasRole(roleId("FEE_ADMIN"), outsider.address)).to.equal(true);
+    });
+
+    it("Should migrate an owner-only proxy through initializeRoles and never re-initialize it", async function () {
+      const { factory, deployer, outsider } = await loadFixture(stackFixture);
+      const original = await (await ethers.getContractFactory("StudioFactoryUpgradeableV1Mock")).deploy();
+      const implementation = await (await ethers.getContractFactory("StudioFactoryUpgradeable")).deploy();
+      const beacon = (await deployments.get("StudioBeacon")).address;
+      const legacy = async (name: string) => {
+        const init = original.interface.encodeFunctionData("initialize", [beacon, deployer, deployer]);
+        await factory.deployProxy(name, await original.getAddress(), init, "1.0.0");
+        return ethers.getContractAt("StudioFactoryUpgradeable", (await factory.getProxy(name)).proxyAddress);
+      };
+      const takeover = (studios: Awaited<ReturnType<typeof legacy>>) =>
+        studios.connect(outsider).initialize(outsider.address, outsider.address, outsider.address);
+
+      // a plain upgrade leaves the proxy at version 1, closed to `initialize`
+      const plain = await legacy("PlainStudioFactory");
+      await factory.upgradeProxy("PlainStudioFactory", await implementation.getAddress(), "2.0.0");
+      await expect(takeover(plain)).to.be.revertedWithCustomError(plain, "InvalidInitialization");
+      await expect(plain.connect(outsider).initializeRoles(outsider.address))
+        .to.be.revertedWithCustomError(plain, "OwnableUnauthorizedAccount")
+        .withArgs(outsider.address);
+
+      const studios = await legacy("LegacyStudioFactory");
+      await factory.upgradeProxyAndCall(
+        "LegacyStudioFactory",
+        await implementation.getAddress(),
+        "2.0.0",
+        implementation.interface.encodeFunctionData("initializeRoles", [deployer])
+      );
+      expect(await studios.studioBeacon()).to.equal(beacon);
+      expect(await studios.hasRole(roleId("UPGRADER"), await factory.getAddress())).to.equal(true);
+      for (const role of ["PAUSER", "DEFAULT_ADMIN"] as const) {
+        expect(await studios.hasRole(roleId(role), deployer), role).to.equal(true);
+      }
+      await expect(takeover(studios)).to.be.revertedWithCustomError(studios, "InvalidInitialization");
+    });
+  });
+
+  describe("jeskei:roles", function () {
+    it("Should grant a role on every module supporting it", async function () {
+      const { distributor, access, ops } = await loadFixture(stackFixture);
+
+      const changes: RoleChange[] = await roles("grant", { role: "PAUSER", account: ops.address });
+      expect(changes.map((c) => c.module)).to.have.members(PAUSABLE);
+      expect(changes.every((c) => c.status === "granted")).to.equal(true);
+
+      await expect(distributor.connect(ops).pause()).to.emit(distributor, "Paused");
+      await expect(access.connect(ops).pause()).to.emit(access, "Paused");
+      // one role does not carry another
+      await expect(distributor.connect(ops).setPlatformFee(100)).to.be.revertedWithCustomError(
+        distributor,
+        "AccessControlUnauthorizedAccount"
+      );
+
+      const again: RoleChange[] = await roles("grant", { role: "pauser_role", account: ops.address });
+      expect(again.every((c) => c.status === "unchanged")).to.equal(true);
+    });
+
+    it("Should grant fee, oracle and verifier roles on the named modules", async function () {
+      const { registry, distributor, engine, auth, treasurer, oracle, creator, viewer } = await loadFixture(
+        stackFixture
+      );
+
+      await roles("grant", { role: "FEE_ADMIN", account: treasurer.address, module: "RevenueDistributor" });
+      await roles("grant", { role: "AD_ORACLE", account: oracle.address });
+      await roles("grant", {
+        role: "VERIFIER_ADMIN",
+        account: oracle.address,
+        module: "PerformerAuthentication,AssetRegistry",
+      });
+
+      await distributor.connect(treasurer).setPlatformFee(1000);
+      expect(await distributor.platformFee()).to.equal(1000n);
+      await expect(engine.connect(treasurer).setPlatformAdFee(500)).to.be.revertedWithCustomError(
+        engine,
+        "AccessControlUnauthorizedAccount"
+      );
+
+      const rate = ethers.parseEther("0.001");
+      await engine.connect(creator).createCampaign("ipfs://ad", rate, rate, DAY, [], { value: ethers.parseEther("1") });
+      await expect(engine.connect(oracle).recordAdView(0, viewer.address, creator.address)).to.emit(engine, "AdViewed");
+
+      await expect(auth.connect(oracle).addVerifier(viewer.address)).to.emit(auth, "VerifierAdded");
+      await registry.connect(oracle).verifyCreator(creator.address);
+      expect(await registry.verifiedCreators(creator.address)).to.equal(true);
+
+      await expect(
+        roles("grant", { role: "AD_ORACLE", account: oracle.address, module: "RevenueDistributor" })
+      ).to.be.rejectedWith("RevenueDistributor has no AD_ORACLE_ROLE");
+      await expect(roles("grant", { role: "CURATOR", account: oracle.address })).to.be.rejectedWith(
+        'Unknown role "CURATOR"'
+      );
+    });
+
+    it("Should leave upgrades of factory proxies with the factory", async function () {
+      const { factory, ops, outsider } = await loadFixture(stackFixture);
+
+      const changes: RoleChange[] = await roles("grant", { role: "UPGRADER", account: ops.address });
+      expect(changes.map((c) => c.module)).to.deep.equal(["JeskeiProxyFactory", "UpgradeManager"]);
+      await expect(factory.connect(ops).authorizeUpgrader(outsider.address))
+        .to.emit(factory, "UpgraderAuthorized")
+        .withArgs(outsider.address);
+
+      await expect(
+        roles("grant", { role: "UPGRADER", account: ops.address, module: "AssetRegistry" })
+      ).to.be.rejectedWith("UPGRADER on AssetRegistry stays with JeskeiProxyFactory");
+    });
+
+    it("Should list and revoke holders", async function () {
+      const { distributor, deployer, ops, treasurer } = await loadFixture(stackFixture);
+      await roles("grant", { role: "PAUSER", account: ops.address });
+      await roles("grant", { role: "PAUSER", account: treasurer.address, module: "RevenueDistributor" });
+
+      let holders: RoleHolders[] = await roles("list", { role: "PAUSER" });
+      expect(holders.map((h) => h.module)).to.have.members(PAUSABLE);
+      const onDistributor = holders.find((h) => h.module === "RevenueDistributor")!;
+      expect(onDistributor.holders).to.deep.equal([deployer, ops.address, treasurer.address]);
+
+      const changes: RoleChange[] = await roles("revoke", { role: "PAUSER", account: ops.address });
+      expect(changes.every((c) => c.status === "revoked")).to.equal(true);
+      await expect(distributor.connect(ops).pause()).to.be.revertedWithCustomError(
+        distributor,
+        "AccessControlUnauthorizedAccount"
+      );
+
+      holders = await roles("list", { role: "PAUSER", module: "RevenueDistributor" });
+      expect(holders[0].holders).to.deep.equal([deployer, treasurer.address]);
+      const upgraders: RoleHolders[] = await roles("list", { role: "UPGRADER", module: "RevenueDistributor" });
+      expect(upgraders[0].holders).to.deep.equal([(await deployments.get("JeskeiProxyFactory")).address]);
+      await expect(
+        roles("revoke", { role: "UPGRADER", account: upgraders[0].holders[0], module: "RevenueDistributor" })
+      ).to.be.rejectedWith("UPGRADER on RevenueDistributor stays with JeskeiProxyFactory");
+    });
+  });
+
+  describe("jeskei:pause-all", function () {
+    it("Should pause every module from the role admin", async function () {
+      const { registry, access, distributor, creator, viewer } = await loadFixture(stackFixture);
+      const price = ethers.parseEther("0.1");
+      await registry
+        .connect(creator)
+        .createAsset("QmFilm", "ipfs://film", "video", "ipfs", false, price, { value: ethers.parseEther("0.01") });
+      await access.connect(creator).setAssetPrice(0, price);
+
+      const results: PauseResult[] = await hre.run("jeskei:pause-all");
+      for (const module of PAUSABLE) {
+        expect(results.find((r) => r.module === module)?.status, module).to.equal("paused");
+      }
+      // a studio pauses at its founder's discretion only
+      expect(results.find((r) => r.module === "DigitalStudioDAO")).to.deep.equal({
+        module: "DigitalStudioDAO",
+        status: "skipped",
+        reason: "no PAUSER_ROLE",
+      });
+      expect(await distributor.paused()).to.equal(true);
+      await expect(access.connect(viewer).purchaseAccess(0, DAY, { value: price })).to.be.revertedWithCustomError(
+        access,
+        "EnforcedPause"
+      );
+
+      const resumed: PauseResult[] = await hre.run("jeskei:pause-all", { unpause: true });
+      expect(resumed.filter((r) => r.status === "unpaused").map((r) => r.module)).to.have.members(PAUSABLE);
+      await access.connect(viewer).purchaseAccess(0, DAY, { value: price });
+    });
+
+    it("Should pause directly with PAUSER_ROLE and report what a key may not pause", async function () {
+      const { distributor, ops, outsider } = await loadFixture(stackFixture);
+      await roles("grant", { role: "PAUSER", account: ops.address, module: "RevenueDistributor,ContentAccess" });
+
+      const results = await pauseAll(hre, { from: ops.address });
+      expect(results.filter((r) => r.status === "paused").map((r) => r.module)).to.have.members([
+        "RevenueDistributor",
+        "ContentAccess",
+      ]);
+      expect(results.filter((r) => r.status === "failed")).to.have.length(PAUSABLE.length - 2);
+      expect(await distributor.paused()).to.equal(true);
+
+      const again = await pauseAll(hre, { from: outsider.address });
+      expect(again.find((r) => r.module === "RevenueDistributor")?.status).to.equal("unchanged");
+      expect(again.find((r) => r.module === "AdvertisingEngine")?.status).to.equal("failed");
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { consentShares } from "../fixtures/consent";
+import { GasSnapshot } from "../fixtures/gas";
+
+/**
+ * EIP-2981 royalties as `deploy/01-deploy-core.ts` wires them: AssetRegistry
+ * reports the asset's RoyaltyVault as receiver, a marketplace pays into it on
+ * resale, and RevenueDistributor splits what it collects by the asset's
+ * contributors with the rest to the creator.
+ */
+describe("Integration: resale royalties", function () {
+  const salePrice = ethers.parseEther("1");
+  const royalty = (salePrice * 500n) / 10_000n;
+  const available = royalty - (royalty * 1500n) / 10_000n;
+  const gas = new GasSnapshot();
+
+  after(() => gas.finish());
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const [creator, editor, collector, buyer, anyone] = (await ethers.getSigners()).slice(5);
+
+    const registry = await ethers.getContractAt(
+      "AssetRegistryUpgradeable",
+      (await deployments.get("AssetRegistry")).address
+    );
+    const distributor = await ethers.getContractAt(
+      "RevenueDistributorUpgradeable",
+      (await deployments.get("RevenueDistributor")).address
+    );
+    const marketplace = await (await ethers.getContractFactory("MarketplaceMock")).deploy();
+
+    await registry
+      .connect(creator)
+      .createAsset("QmRoyalty", "ipfs://meta", "video", "ipfs", false, 0, { value: ethers.parseEther("0.01") });
+    await consentShares(registry, creator, 0, [[editor, 2500n, "editor"]]);
+    await registry.connect(creator).setRoyaltyRate(0, 500);
+
+    // the role admin sets royalty limits and pauses the distributor
+    const admin = await ethers.getSigner((await getNamedAccounts()).roleAdmin);
+
+    return { registry, distributor, marketplace, admin, creator, editor, collector, buyer, anyone };
+  }
+
+  async function resell(
+    fixture: Awaited<ReturnType<typeof stackFixture>>,
+    seller = fixture.creator,
+    purchaser = fixture.buyer
+  ) {
+    const { registry, marketplace } = fixture;
+    await registry.connect(seller).approve(await marketplace.getAddress(), 0);
+    await marketplace.connect(seller).list(await registry.getAddress(), 0, salePrice);
+    return marketplace.connect(purchaser).buy(await registry.getAddress(), 0, { value: salePrice });
+  }
+
+  describe("EIP-2981", function () {
+    it("Should report the asset's vault and the creator's rate", async function () {
+      const { registry, distributor } = await loadFixture(stackFixture);
+
+      expect(await registry.supportsInterface("0x2a55205a")).to.equal(true);
+      expect(await registry.revenueDistributor()).to.equal(await distributor.getAddress());
+      expect(await registry.royaltyInfo(0, salePrice)).to.deep.equal([await distributor.royaltyVault(0), royalty]);
+      expect(await distributor.royaltyVault(1)).to.not.equal(await distributor.royaltyVault(0));
+    });
+
+    it("Should keep the rate to the creator and within the platform cap", async function () {
+      const { registry, admin, creator, collector } = await loadFixture(stackFixture);
+
+      await expect(registry.connect(creator).setRoyaltyRate(0, 1001)).to.be.revertedWith("Royalty above cap");
+      await registry.connect(creator).transferFrom(creator.address, collector.address, 0);
+      await expect(registry.connect(collector).setRoyaltyRate(0, 0)).to.be.revertedWith("Not asset creator");
+      await expect(registry.connect(creator).setRoyaltyRate(0, 1000))
+        .to.emit(registry, "RoyaltyRateSet")
+        .withArgs(0, 1000);
+
+      // a lower cap also applies to rates set before it
+      await expect(registry.connect(admin).setMaxRoyaltyRate(5001)).to.be.revertedWith("Fee too high");
+      await registry.connect(admin).setMaxRoyaltyRate(250);
+      expect((await registry.royaltyInfo(0, salePrice))[1]).to.equal((salePrice * 250n) / 10_000n);
+    });
+  });
+
+  describe("Marketplace resale", function () {
+    it("Should split the royalty of a resale by the asset's shares", async function () {
+      const fixture = await loadFixture(stackFixture);
+      const { registry, distributor, marketplace, creator, editor, buyer, anyone } = fixture;
+      const vault = await distributor.royaltyVault(0);
+
+      await expect(resell(fixture))
+        .to.emit(marketplace, "Sold")
+        .withArgs(await registry.getAddress(), 0, creator.address, buyer.address, salePrice, royalty);
+      expect(await registry.ownerOf(0)).to.equal(buyer.address);
+      expect(await ethers.provider.getBalance(vault)).to.equal(royalty);
+
+      const tx = distributor.connect(anyone).collectRoyalties(0);
+      await expect(tx).to.emit(distributor, "RoyaltyVaultDeployed").withArgs(0, vault);
+      await expect(tx).to.emit(distributor, "RoyaltiesDistributed").withArgs(0, royalty);
+      gas.record("RevenueDistributor.collectRoyalties (first)", await (await tx).wait());
+
+      expect(await ethers.provider.getBalance(vault)).to.equal(0n);
+      expect(await distributor.totalRoyalties(0)).to.equal(royalty);
+      expect(await distributor.claimable(editor.address)).to.equal((available * 2500n) / 10_000n);
+      expect(await distributor.claimable(creator.address)).to.equal((available * 7500n) / 10_000n);
+      // the remainder is the creator's, not the buyer's who now owns the asset
+      expect(await distributor.claimable(buyer.address)).to.equal(0n);
+    });
+
+    it("Should keep collecting into the deployed vault on later resales", async function () {
+      const fixture = await loadFixture(stackFixture);
+      const { registry, distributor, creator, editor, collector, buyer, anyone } = fixture;
+      await resell(fixture);
+      await distributor.connect(anyone).collectRoyalties(0);
+
+      await resell(fixture, buyer, collector);
+      expect(await registry.ownerOf(0)).to.equal(collector.address);
+      gas.record(
+        "RevenueDistributor.collectRoyalties",
+        await (await distributor.connect(anyone).collectRoyalties(0)).wait()
+      );
+
+      expect(await distributor.totalRoyalties(0)).to.equal(royalty * 2n);
+      expect(await distributor.claimable(editor.address)).to.equal(((available * 2500n) / 10_000n) * 2n);
+      expect(await distributor.claimable(creator.address)).to.equal(((available * 7500n) / 10_000n) * 2n);
+      await expect(distributor.connect(anyone).collectRoyalties(0)).to.be.revertedWith("No royalties");
+    });
+
+    it("Should only take royalties from the asset's own vault", async function () {
+      const fixture = await loadFixture(stackFixture);
+      const { distributor, admin, anyone } = fixture;
+
+      await expect(distributor.connect(anyone).distributeRoyalties(0, { value: royalty })).to.be.revertedWith(
+        "Not royalty vault"
+      );
+
+      // while paused the royalties wait in the vault
+      await resell(fixture);
+      await distributor.connect(admin).pause();
+      await expect(distributor.connect(anyone).collectRoyalties(0)).to.be.revertedWithCustomError(
+        distributor,
+        "EnforcedPause"
+      );
+      expect(await ethers.provider.getBalance(await distributor.royaltyVault(0))).to.equal(royalty);
+    });
+  });
+});
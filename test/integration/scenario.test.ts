@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ScenarioManifest } from "../../utils/scenario";
+
+/**
+ * `jeskei:scenario` on the in-process network: the bundled demo scenario is
+ * replayed onto the stack `deploy/01-deploy-core.ts` wires and the manifest
+ * is checked against chain state.
+ */
+describe("Integration: devnet scenarios", function () {
+  const out = path.join(os.tmpdir(), `jeskei-scenario-${process.pid}.json`);
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const at = async (label: string) => (await deployments.get(label)).address;
+    return {
+      registry: await ethers.getContractAt("AssetRegistryUpgradeable", await at("AssetRegistry")),
+      access: await ethers.getContractAt("ContentAccessUpgradeable", await at("ContentAccess")),
+      auth: await ethers.getContractAt("PerformerAuthenticationUpgradeable", await at("PerformerAuthentication")),
+      engine: await ethers.getContractAt("AdvertisingEngineUpgradeable", await at("AdvertisingEngine")),
+      governance: await ethers.getContractAt("CommunityGovernance", await at("CommunityGovernance")),
+    };
+  }
+
+  const scenario = (seed?: number): Promise<ScenarioManifest> =>
+    hre.run("jeskei:scenario", { file: "scenarios/demo.json", seed, out });
+
+  after(function () {
+    fs.rmSync(out, { force: true });
+  });
+
+  it("Should populate the stack and describe it in the manifest", async function () {
+    const { registry, access, auth, engine, governance } = await loadFixture(stackFixture);
+
+    const manifest = await scenario();
+    expect(JSON.parse(fs.readFileSync(out, "utf8"))).to.deep.equal(manifest);
+    expect(manifest.contracts.AssetRegistry).to.equal(await registry.getAddress());
+    const { alice, maya, sam, bob } = manifest.accounts;
+    expect(await ethers.provider.getBalance(bob.address)).to.be.lessThan(ethers.parseEther("50"));
+
+    expect((await auth.performers(maya.address)).isVerified).to.equal(true);
+    expect(await registry.verifiedCreators(alice.address)).to.equal(true);
+    const film = manifest.assets.find((a) => a.key === "northern-lights")!;
+    expect(film.id).to.equal(0);
+    expect(await registry.ownerOf(film.id)).to.equal(alice.address);
+    const contributors = await registry.getAssetContributors(film.id);
+    expect(contributors.map((c) => c.contributorAddress)).to.deep.equal([maya.address, sam.address]);
+
+    // two days on, the 1-day pass has lapsed and the 30-day one has not
+    expect(manifest.purchases.slice(0, 2).map((p) => p.active)).to.deep.equal([true, false]);
+    expect(await access.hasAccess(bob.address, film.id)).to.equal(true);
+
+    const launch = manifest.campaigns.find((c) => c.key === "launch")!;
+    expect(launch.views).to.equal(2);
+    expect(await engine.getCampaignViews(launch.id)).to.equal(2n);
+
+    const studio = await ethers.getContractAt("DigitalStudioDAOUpgradeable", manifest.studios[0].address);
+    expect(await studio.founder()).to.equal(alice.address);
+    expect((await studio.members(sam.address)).isActive).to.equal(true);
+    expect(await studio.projectCounter()).to.equal(1n);
+
+    expect(manifest.proposals).to.deep.equal([{ id: 0, title: "Add subtitles", proposer: "alice", state: "Active" }]);
+    expect((await governance.votes(0, sam.address)).hasVoted).to.equal(true);
+  });
+
+  it("Should reproduce the same entities from the same seed", async function () {
+    await loadFixture(stackFixture);
+    const first = await scenario(7);
+    await loadFixture(stackFixture);
+    const second = await scenario(7);
+    await loadFixture(stackFixture);
+    const other = await scenario(8);
+
+    const entities = (m: ScenarioManifest) => ({ accounts: m.accounts, assets: m.assets, campaigns: m.campaigns });
+    expect(entities(second)).to.deep.equal(entities(first));
+    expect(second.purchases.map((p) => p.assetId)).to.deep.equal(first.purchases.map((p) => p.assetId));
+    expect(entities(other).assets).to.not.deep.equal(entities(first).assets);
+  });
+});
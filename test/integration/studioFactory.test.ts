@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { StudioInfo } from "../../tasks/studio";
+import type { ProposalStatus } from "../../tasks/upgrade";
+
+/**
+ * StudioFactory as `deploy/01-deploy-core.ts` wires it: anyone spawns a
+ * DigitalStudioDAO BeaconProxy and becomes its founder, and every studio moves
+ * to a new implementation when UpgradeManager upgrades StudioBeacon.
+ */
+describe("Integration: studio factory", function () {
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const [alice, bob, carol] = (await ethers.getSigners()).slice(5);
+
+    const studios = await ethers.getContractAt(
+      "StudioFactoryUpgradeable",
+      (await deployments.get("StudioFactory")).address
+    );
+    const proxyFactory = await ethers.getContractAt(
+      "JeskeiProxyFactory",
+      (await deployments.get("JeskeiProxyFactory")).address
+    );
+
+    await studios.connect(alice).createStudio("Northern Lights Films");
+    await studios.connect(bob).createStudio("Harbour Docs");
+    await studios.connect(alice).createStudio("Northern Lights Animation");
+
+    return { studios, proxyFactory, alice, bob, carol };
+  }
+
+  const studioAt = (address: string) => ethers.getContractAt("DigitalStudioDAOUpgradeable", address);
+
+  describe("Creating studios", function () {
+    it("Should make the caller founder of a new studio", async function () {
+      const { studios, carol } = await loadFixture(stackFixture);
+
+      const address = await studios.connect(carol).createStudio.staticCall("Carol Pictures");
+      await expect(studios.connect(carol).createStudio("Carol Pictures"))
+        .to.emit(studios, "StudioCreated")
+        .withArgs(3, address, carol.address, "Carol Pictures");
+
+      const studio = await studioAt(address);
+      expect(await studios.studioCount()).to.equal(4n);
+      expect(await studios.isStudio(address)).to.equal(true);
+      expect(await studio.studioName()).to.equal("Carol Pictures");
+      expect(await studio.founder()).to.equal(carol.address);
+      expect((await studio.members(carol.address)).role).to.equal("Founder");
+      expect(await studio.assetRegistry()).to.equal((await deployments.get("AssetRegistry")).address);
+    });
+
+    it("Should keep a registry of studios by founder", async function () {
+      const { studios, alice, bob, carol } = await loadFixture(stackFixture);
+
+      const names = async (founder: string) =>
+        Promise.all((await studios.getStudiosByFounder(founder)).map(async (a) => (await studioAt(a)).studioName()));
+      expect(await names(alice.address)).to.deep.equal(["Northern Lights Films", "Northern Lights Animation"]);
+      expect(await names(bob.address)).to.deep.equal(["Harbour Docs"]);
+      expect(await studios.getStudiosByFounder(carol.address)).to.deep.equal([]);
+    });
+
+    it("Should give each founder control of their own studio only", async function () {
+      const { studios, alice, bob, carol } = await loadFixture(stackFixture);
+      const films = await studioAt(await studios.studios(0));
+
+      await expect(films.connect(alice).addMember(carol.address, "Editor"))
+        .to.emit(films, "MemberAdded")
+        .withArgs(carol.address, "Editor");
+      await expect(films.connect(bob).addMember(bob.address, "Editor")).to.be.revertedWith("Not studio founder");
+      await expect(
+        films.initializeStudio("Hijacked", bob.address, ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(films, "InvalidInitialization");
+    });
+
+    it("Should require a name and respect the pause", async function () {
+      const { studios, alice } = await loadFixture(stackFixture);
+
+      await expect(studios.connect(alice).createStudio("")).to.be.revertedWith("Studio name required");
+
+      // the role admin, not the owning factory, holds the pauser role
+      await studios.connect(await ethers.getSigner((await hre.getNamedAccounts()).roleAdmin)).pause();
+      await expect(studios.connect(alice).createStudio("Paused Pictures")).to.be.revertedWithCustomError(
+        studios,
+        "EnforcedPause"
+      );
+    });
+  });
+
+  describe("Upgrading studios", function () {
+    it("Should track StudioBeacon in the proxy factory", async function () {
+      const { studios, proxyFactory } = await loadFixture(stackFixture);
+      const beacon = await studios.studioBeacon();
+
+      expect(beacon).to.equal((await deployments.get("StudioBeacon")).address);
+      expect(await proxyFactory.isBeacon("StudioBeacon")).to.equal(true);
+      expect((await proxyFactory.getProxy("StudioBeacon")).implementationAddress).to.equal(
+        await studios.studioImplementation()
+      );
+      expect(await (await ethers.getContractAt("UpgradeableBeacon", beacon)).owner()).to.equal(
+        await proxyFactory.getAddress()
+      );
+    });
+
+    it("Should only upgrade studios through the beacon", async function () {
+      const { studios, proxyFactory, alice } = await loadFixture(stackFixture);
+      const films = await studioAt(await studios.studios(0));
+      const v2 = await (await ethers.getContractFactory("DigitalStudioDAOUpgradeableV2Mock")).deploy();
+
+      await expect(films.connect(alice).upgradeToAndCall(await v2.getAddress(), "0x")).to.be.revertedWithCustomError(
+        films,
+        "UUPSUnauthorizedCallContext"
+      );
+
+      const [deployer] = await ethers.getSigners();
+      await proxyFactory.authorizeExecutor(deployer.address);
+      const upgradeTo = (
+        await ethers.getContractAt("UpgradeableBeacon", await studios.studioBeacon())
+      ).interface.encodeFunctionData("upgradeTo", [await v2.getAddress()]);
+      await expect(proxyFactory.executeOnProxy("StudioBeacon", upgradeTo)).to.be.revertedWith("Call not allowed");
+    });
+
+    it("Should move every studio to a new implementation with one upgrade", async function () {
+      const { studios, alice, bob } = await loadFixture(stackFixture);
+      const films = await studioAt(await studios.studios(0));
+      const docs = await studioAt(await studios.studios(1));
+
+      const proposed = (await hre.run("jeskei:upgrade:propose", {
+        module: "StudioBeacon",
+        contract: "DigitalStudioDAOUpgradeableV2Mock",
+        newVersion: "1.1.0",
+        description: "studio taglines",
+      })) as ProposalStatus;
+      await hre.run("jeskei:upgrade:approve", { id: proposed.id });
+      await time.increase(24 * 60 * 60);
+      const executed = (await hre.run("jeskei:upgrade:execute", { id: proposed.id })) as ProposalStatus;
+      expect(executed.executed).to.equal(true);
+
+      expect(await studios.studioImplementation()).to.equal(proposed.implementation);
+      for (const [studio, founder] of [
+        [films, alice],
+        [docs, bob],
+      ] as const) {
+        const upgraded = await ethers.getContractAt("DigitalStudioDAOUpgradeableV2Mock", await studio.getAddress());
+        expect(await upgraded.version()).to.equal("2.0.0");
+        expect(await upgraded.founder()).to.equal(founder.address);
+        await upgraded.connect(founder).setTagline("independent since 2026");
+      }
+      expect(await films.studioName()).to.equal("Northern Lights Films");
+      expect((await deployments.get("StudioBeacon")).implementation).to.equal(proposed.implementation);
+    });
+  });
+
+  describe("Tasks", function () {
+    it("Should create and list studios", async function () {
+      const { alice } = await loadFixture(stackFixture);
+      const { deployer } = await hre.getNamedAccounts();
+
+      const created = (await hre.run("jeskei:studio:create", { name: "Deployer Studios" })) as StudioInfo;
+      expect(created).to.include({ id: 3, name: "Deployer Studios", founder: deployer, memberCount: 1n });
+
+      const fromAlice = (await hre.run("jeskei:studio:create", {
+        name: "Alice Shorts",
+        from: alice.address,
+      })) as StudioInfo;
+      expect(fromAlice.founder).to.equal(alice.address);
+
+      const all = (await hre.run("jeskei:studio:list", {})) as StudioInfo[];
+      expect(all).to.have.length(5);
+      const mine = (await hre.run("jeskei:studio:list", { founder: alice.address })) as StudioInfo[];
+      expect(mine.map((s) => s.name)).to.deep.equal([
+        "Northern Lights Films",
+        "Northern Lights Animation",
+        "Alice Shorts",
+      ]);
+    });
+  });
+});
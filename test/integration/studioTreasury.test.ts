@@ -0,0 +1,276 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+/**
+ * DigitalStudioDAO treasury as `deploy/01-deploy-core.ts` wires it: member
+ * proposals fund projects from the studio's ETH / ERC-20 balance, streamed or
+ * milestone-escrowed, and project contributors are offered AssetRegistry shares
+ * of project assets.
+ * The studio's founder is the `studioFounder` named account.
+ */
+describe("Integration: studio treasury", function () {
+  const DAY = 24 * 60 * 60;
+  const VOTING_PERIOD = 3 * DAY;
+  const hostingFee = ethers.parseEther("0.01");
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const [alice, bob, carol, dave] = (await ethers.getSigners()).slice(5);
+
+    const dao = await ethers.getContractAt(
+      "DigitalStudioDAOUpgradeable",
+      (await deployments.get("DigitalStudioDAO")).address
+    );
+    const registry = await ethers.getContractAt(
+      "AssetRegistryUpgradeable",
+      (await deployments.get("AssetRegistry")).address
+    );
+    const token = await (await ethers.getContractFactory("ERC20PermitMock")).deploy("USD Coin", "USDC", 6);
+
+    const founder = await ethers.getSigner((await getNamedAccounts()).studioFounder);
+
+    await dao.connect(founder).addMember(alice.address, "Director");
+    await dao.connect(founder).addMember(bob.address, "Editor");
+    await dao.connect(founder).addMember(carol.address, "Composer");
+    await dao
+      .connect(alice)
+      .createProject(
+        "Short film",
+        "festival cut",
+        ethers.parseEther("10"),
+        [alice.address, bob.address],
+        [6000, 4000],
+        []
+      );
+
+    return { dao, registry, token, founder, alice, bob, carol, dave };
+  }
+
+  type Fixture = Awaited<ReturnType<typeof stackFixture>>;
+
+  // alice and bob vote for: 2 of 4 members (the founder included) is a quorum
+  async function pass({ dao, alice, bob }: Fixture, propose: Promise<unknown>) {
+    await propose;
+    const id = (await dao.proposalCounter()) - 1n;
+    await dao.connect(alice).vote(id, true);
+    await dao.connect(bob).vote(id, true);
+    await time.increase(VOTING_PERIOD + 1);
+    await dao.executeProposal(id);
+    return id;
+  }
+
+  describe("Deposits", function () {
+    it("Should hold ETH and ERC-20 and report what is uncommitted", async function () {
+      const { dao, token, alice } = await loadFixture(stackFixture);
+      const studio = await dao.getAddress();
+
+      await expect(dao.connect(alice).deposit({ value: ethers.parseEther("1") }))
+        .to.emit(dao, "TreasuryDeposit")
+        .withArgs(alice.address, ethers.ZeroAddress, ethers.parseEther("1"));
+      await expect(alice.sendTransaction({ to: studio, value: ethers.parseEther("2") })).to.emit(
+        dao,
+        "TreasuryDeposit"
+      );
+
+      await token.mint(alice.address, 500_000000n);
+      await token.connect(alice).approve(studio, 500_000000n);
+      await expect(dao.connect(alice).depositToken(await token.getAddress(), 500_000000n))
+        .to.emit(dao, "TreasuryDeposit")
+        .withArgs(alice.address, await token.getAddress(), 500_000000n);
+
+      expect(await dao.available(ethers.ZeroAddress)).to.equal(ethers.parseEther("3"));
+      expect(await dao.available(await token.getAddress())).to.equal(500_000000n);
+      await expect(dao.deposit()).to.be.revertedWith("Amount must be greater than 0");
+    });
+  });
+
+  describe("Project funding", function () {
+    it("Should stream an approved budget to contributors by share", async function () {
+      const fixture = await loadFixture(stackFixture);
+      const { dao, alice, bob } = fixture;
+      await dao.deposit({ value: ethers.parseEther("5") });
+
+      const amount = ethers.parseEther("4");
+      await pass(
+        fixture,
+        dao.connect(alice).proposeProjectFunding(0, ethers.ZeroAddress, amount, 10 * DAY, [], "phase 1")
+      );
+      const funding = await dao.getFunding(0);
+      expect(funding.amount).to.equal(amount);
+      expect((await dao.projects(0)).raised).to.equal(amount);
+      expect(await dao.committed(ethers.ZeroAddress)).to.equal(amount);
+      expect(await dao.available(ethers.ZeroAddress)).to.equal(ethers.parseEther("1"));
+
+      // half way: 60% of 2 ETH
+      await time.setNextBlockTimestamp(funding.start + BigInt(5 * DAY));
+      await expect(dao.connect(alice).claim(0)).to.changeEtherBalances(
+        [alice, dao],
+        [ethers.parseEther("1.2"), -ethers.parseEther("1.2")]
+      );
+
+      await time.increaseTo(funding.start + BigInt(20 * DAY));
+      await expect(dao.claimFor(0, bob.address)).to.changeEtherBalance(bob, ethers.parseEther("1.6"));
+      await dao.connect(alice).claim(0);
+      await expect(dao.connect(alice).claim(0)).to.be.revertedWith("Nothing to claim");
+      expect(await dao.committed(ethers.ZeroAddress)).to.equal(0n);
+      expect((await dao.getFunding(0)).paid).to.equal(amount);
+    });
+
+    it("Should escrow a token budget and unlock it milestone by milestone", async function () {
+      const fixture = await loadFixture(stackFixture);
+      const { dao, token, alice, bob } = fixture;
+      const usdc = await token.getAddress();
+      await token.mint(await dao.getAddress(), 4000_000000n);
+
+      await pass(
+        fixture,
+        dao.connect(alice).proposeProjectFunding(0, usdc, 4000_000000n, 0, [1000_000000n, 3000_000000n], "escrow")
+      );
+      expect((await dao.getFunding(0)).duration).to.equal(0n);
+      await expect(dao.connect(alice).claim(0)).to.be.revertedWith("Nothing to claim");
+
+      await pass(fixture, dao.connect(bob).proposeMilestoneRelease(0, "rough cut delivered"));
+      await expect(dao.connect(alice).claim(0)).to.changeTokenBalance(token, alice, 600_000000n);
+      await expect(dao.connect(bob).claim(0)).to.changeTokenBalance(token, bob, 400_000000n);
+      expect(await dao.unlocked(0)).to.equal(1000_000000n);
+
+      await pass(fixture, dao.connect(bob).proposeMilestoneRelease(0, "final cut"));
+      await expect(dao.connect(alice).claim(0)).to.changeTokenBalance(token, alice, 1800_000000n);
+      await expect(dao.connect(bob).proposeMilestoneRelease(0, "again")).to.be.revertedWith("All milestones released");
+    });
+
+    it("Should enforce the project budget and the uncommitted treasury", async function () {
+      const fixture = await loadFixture(stackFixture);
+      const { dao, alice } = fixture;
+
+      await expect(
+        dao.connect(alice).proposeProjectFunding(0, ethers.ZeroAddress, ethers.parseEther("11"), DAY, [], "too much")
+      ).to.be.revertedWith("Exceeds project budget");
+      await expect(
+        dao.connect(alice).proposeProjectFunding(0, ethers.ZeroAddress, 100n, 0, [40n, 50n], "bad split")
+      ).to.be.revertedWith("Invalid milestones");
+
+      await dao.deposit({ value: ethers.parseEther("1") });
+      await dao
+        .connect(alice)
+        .proposeProjectFunding(0, ethers.ZeroAddress, ethers.parseEther("2"), DAY, [], "unfunded");
+      await dao.connect(alice).vote(0, true);
+      await dao.connect(fixture.bob).vote(0, true);
+      await time.increase(VOTING_PERIOD + 1);
+      await expect(dao.executeProposal(0)).to.be.revertedWith("Insufficient treasury");
+
+      await dao.deposit({ value: ethers.parseEther("1") });
+      await expect(dao.executeProposal(0)).to.emit(dao, "FundingStarted");
+    });
+
+    it("Should not fund a proposal without a quorum", async function () {
+      const { dao, alice } = await loadFixture(stackFixture);
+      await dao.deposit({ value: ethers.parseEther("1") });
+
+      await dao.connect(alice).proposeProjectFunding(0, ethers.ZeroAddress, ethers.parseEther("1"), DAY, [], "solo");
+      await dao.connect(alice).vote(0, true);
+      await expect(dao.executeProposal(0)).to.be.revertedWith("Voting still active");
+      await time.increase(VOTING_PERIOD + 1);
+
+      await expect(dao.executeProposal(0)).to.emit(dao, "ProposalExecuted").withArgs(0, false);
+      expect(await dao.fundingCounter()).to.equal(0n);
+      expect(await dao.committed(ethers.ZeroAddress)).to.equal(0n);
+    });
+  });
+
+  describe("Membership proposals", function () {
+    it("Should add and remove members by vote", async function () {
+      const fixture = await loadFixture(stackFixture);
+      const { dao, alice, carol, dave } = fixture;
+
+      await expect(dao.connect(dave).createProposal("hello")).to.be.revertedWith("Not a studio member");
+      await pass(fixture, dao.connect(alice).proposeMember(dave.address, "Animator", "joins the team"));
+      expect((await dao.members(dave.address)).role).to.equal("Animator");
+      expect(await dao.memberCount()).to.equal(5n);
+
+      // five members now: alice and bob alone are no longer a quorum
+      await dao.connect(dave).proposeMemberRemoval(carol.address, "left the studio");
+      await dao.connect(dave).vote(1, true);
+      await pass(fixture, Promise.resolve());
+      expect((await dao.members(carol.address)).isActive).to.equal(false);
+      expect(await dao.memberCount()).to.equal(4n);
+      await expect(dao.connect(carol).vote(0, true)).to.be.revertedWith("Not a studio member");
+    });
+  });
+
+  describe("Project assets", function () {
+    async function studioAsset(fixture: Fixture) {
+      const { dao, registry, alice } = fixture;
+      await registry
+        .connect(alice)
+        .createAsset("QmFilm", "ipfs://meta", "video", "ipfs", false, 0, { value: hostingFee });
+      await registry
+        .connect(alice)
+        ["safeTransferFrom(address,address,uint256)"](alice.address, await dao.getAddress(), 0);
+      return 0n;
+    }
+
+    it("Should derive revenue shares from project share, role weight and reputation", async function () {
+      const fixture = await loadFixture(stackFixture);
+      const { dao, registry, founder, alice, bob } = fixture;
+      const assetId = await studioAsset(fixture);
+
+      // alice 6000 × 200 × 50, bob 4000 × 100 × 50 → 75% / 25%
+      await expect(dao.connect(founder).setRoleWeight("Director", 200))
+        .to.emit(dao, "RoleWeightSet")
+        .withArgs("Director", 200);
+      await expect(dao.connect(alice).addAssetToProject(0, assetId))
+        .to.emit(registry, "ShareOffered")
+        .withArgs(assetId, alice.address, 7500n, "Director")
+        .and.to.emit(registry, "ShareOffered")
+        .withArgs(assetId, bob.address, 2500n, "Editor");
+      expect(await dao.getProjectAssets(0)).to.deep.equal([assetId]);
+      await registry.connect(alice).acceptShare(assetId);
+      await registry.connect(bob).acceptShare(assetId);
+      expect(await registry.getRevenueSplit(assetId)).to.deep.equal([
+        [alice.address, bob.address],
+        [7500n, 2500n],
+      ]);
+
+      // bob's raise only fits once alice has accepted her cut
+      await dao.connect(founder).updateMemberReputation(bob.address, 150);
+      await dao.connect(bob).refreshAssetShares(assetId);
+      await expect(registry.connect(bob).acceptShare(assetId)).to.be.revertedWith("Exceeds 100% shares");
+      await registry.connect(alice).acceptShare(assetId);
+      await registry.connect(bob).acceptShare(assetId);
+      expect(await registry.getRevenueSplit(assetId)).to.deep.equal([
+        [alice.address, bob.address],
+        [5000n, 5000n],
+      ]);
+      await expect(dao.connect(alice).addAssetToProject(0, assetId)).to.be.revertedWith("Asset already in project");
+    });
+
+    it("Should only take assets the studio holds", async function () {
+      const { dao, registry, alice } = await loadFixture(stackFixture);
+      await registry
+        .connect(alice)
+        .createAsset("QmOwn", "ipfs://meta", "video", "ipfs", false, 0, { value: hostingFee });
+
+      await expect(dao.connect(alice).addAssetToProject(0, 0)).to.be.revertedWith("Asset not held by studio");
+      await expect(dao.connect(alice).setRoleWeight("Director", 200)).to.be.revertedWith("Not studio founder");
+    });
+  });
+
+  describe("Upgrades", function () {
+    it("Should leave upgrades to the proxy factory rather than the founder", async function () {
+      const { dao, founder } = await loadFixture(stackFixture);
+      const factory = await ethers.getContractAt(
+        "JeskeiProxyFactory",
+        (await deployments.get("JeskeiProxyFactory")).address
+      );
+      const v2 = await (await ethers.getContractFactory("DigitalStudioDAOUpgradeable")).deploy();
+
+      await expect(dao.connect(founder).upgradeToAndCall(await v2.getAddress(), "0x")).to.be.revertedWith(
+        "Not upgrader"
+      );
+      await factory.upgradeProxy("DigitalStudioDAO", await v2.getAddress(), "1.1.0");
+      expect((await factory.getProxy("DigitalStudioDAO")).implementationAddress).to.equal(await v2.getAddress());
+    });
+  });
+});
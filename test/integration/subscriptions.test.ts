@@ -0,0 +1,227 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { consentShares } from "../fixtures/consent";
+
+/**
+ * Subscription plans in ContentAccess: fixed billing periods, renewals, grace
+ * periods, cancellation and creator-wide bundles, with every payment split by
+ * RevenueDistributor.
+ */
+describe("Integration: subscriptions", function () {
+  const DAY = 24 * 60 * 60;
+  const MONTH = 30 * DAY;
+  const BPS = 10_000n;
+  const monthly = ethers.parseEther("0.05");
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const named = await getNamedAccounts();
+    const [, , , , , creator, fan, editor, other, keeper] = await ethers.getSigners();
+
+    const registry = await ethers.getContractAt("AssetRegistryUpgradeable", (await deployments.get("AssetRegistry")).address);
+    const distributor = await ethers.getContractAt(
+      "RevenueDistributorUpgradeable",
+      (await deployments.get("RevenueDistributor")).address
+    );
+    const access = await ethers.getContractAt("ContentAccessUpgradeable", (await deployments.get("ContentAccess")).address);
+    const token = await (await ethers.getContractFactory("ERC20PermitMock")).deploy("USD Coin", "USDC", 6);
+    await token.mint(fan.address, 1_000_000_000n);
+
+    // assets 0 and 1 belong to the creator, 2 to someone else
+    for (const [owner, hash] of [
+      [creator, "QmSubA"],
+      [creator, "QmSubB"],
+      [other, "QmOther"],
+    ] as const) {
+      await registry.connect(owner).createAsset(hash, "ipfs://meta", "video", "ipfs", false, monthly, {
+        value: ethers.parseEther("0.01"),
+      });
+    }
+    // plan 0: asset 0 monthly in ETH with a 3-day grace period
+    await access.connect(creator).createPlan(0, false, ethers.ZeroAddress, monthly, MONTH, 3 * DAY);
+
+    return { named, creator, fan, editor, other, keeper, registry, distributor, access, token };
+  }
+
+  describe("Plans", function () {
+    it("Should grant access for the paid periods and split the payment", async function () {
+      const { registry, access, distributor, creator, fan, editor } = await loadFixture(stackFixture);
+      await consentShares(registry, creator, 0, [[editor, 2000n, "editor"]]);
+      expect(await access.hasAccess(fan.address, 0)).to.equal(false);
+
+      const tx = access.connect(fan).subscribe(0, 2, { value: monthly * 2n });
+      await expect(tx).to.emit(access, "Subscribed");
+      const paidUntil = BigInt(await time.latest()) + BigInt(2 * MONTH);
+      expect((await access.subscriptions(0, fan.address)).paidUntil).to.equal(paidUntil);
+
+      const available = monthly * 2n - (monthly * 2n * 1500n) / BPS;
+      expect(await distributor.claimable(editor.address)).to.equal((available * 2000n) / BPS);
+      expect(await distributor.totalRevenue(0)).to.equal(monthly * 2n);
+
+      expect(await access.hasAccess(fan.address, 0)).to.equal(true);
+      expect(await access.hasAccess(fan.address, 1)).to.equal(false);
+    });
+
+    it("Should only accept fixed periods and bounded grace periods from the asset owner", async function () {
+      const { access, creator, fan } = await loadFixture(stackFixture);
+
+      expect(await access.isValidPeriod(7 * DAY)).to.equal(true);
+      await expect(access.connect(creator).createPlan(0, false, ethers.ZeroAddress, monthly, 10 * DAY, 0)).to.be.revertedWith(
+        "Invalid period"
+      );
+      await expect(
+        access.connect(creator).createPlan(0, false, ethers.ZeroAddress, monthly, MONTH, 8 * DAY)
+      ).to.be.revertedWith("Grace period too long");
+      await expect(access.connect(creator).createPlan(0, false, ethers.ZeroAddress, 0, MONTH, 0)).to.be.revertedWith(
+        "Invalid price"
+      );
+      await expect(access.connect(fan).createPlan(0, false, ethers.ZeroAddress, monthly, MONTH, 0)).to.be.revertedWith(
+        "Not asset owner"
+      );
+    });
+
+    it("Should charge the current price and stop taking payments once deactivated", async function () {
+      const { access, creator, fan } = await loadFixture(stackFixture);
+
+      await expect(access.connect(fan).updatePlan(0, monthly, false)).to.be.revertedWith("Not plan creator");
+      await access.connect(creator).updatePlan(0, monthly * 2n, true);
+      await expect(access.connect(fan).subscribe(0, 1, { value: monthly })).to.be.revertedWith("Incorrect payment amount");
+      await expect(access.connect(fan).subscribe(0, 13, { value: monthly * 26n })).to.be.revertedWith("Invalid periods");
+      await access.connect(fan).subscribe(0, 1, { value: monthly * 2n });
+
+      await access.connect(creator).updatePlan(0, monthly * 2n, false);
+      await expect(access.connect(fan).subscribe(0, 1, { value: monthly * 2n })).to.be.revertedWith("Plan not active");
+      expect(await access.hasAccess(fan.address, 0)).to.equal(true);
+    });
+  });
+
+  describe("Renewals and grace", function () {
+    it("Should keep access through the grace period, then lapse", async function () {
+      const { access, fan } = await loadFixture(stackFixture);
+      await access.connect(fan).subscribe(0, 1, { value: monthly });
+      const { paidUntil } = await access.subscriptions(0, fan.address);
+
+      await time.increaseTo(paidUntil + BigInt(3 * DAY));
+      expect(await access.hasAccess(fan.address, 0)).to.equal(true);
+      await time.increase(1);
+      expect(await access.hasAccess(fan.address, 0)).to.equal(false);
+    });
+
+    it("Should extend a renewal within the grace period from the old expiry", async function () {
+      const { access, fan } = await loadFixture(stackFixture);
+      await access.connect(fan).subscribe(0, 1, { value: monthly });
+      const { paidUntil } = await access.subscriptions(0, fan.address);
+
+      await time.increaseTo(paidUntil + BigInt(DAY));
+      await access.connect(fan).subscribe(0, 1, { value: monthly });
+
+      expect((await access.subscriptions(0, fan.address)).paidUntil).to.equal(paidUntil + BigInt(MONTH));
+    });
+
+    it("Should restart a lapsed subscription from the renewal", async function () {
+      const { access, fan } = await loadFixture(stackFixture);
+      await access.connect(fan).subscribe(0, 1, { value: monthly });
+      const { paidUntil } = await access.subscriptions(0, fan.address);
+
+      await time.increaseTo(paidUntil + BigInt(10 * DAY));
+      await access.connect(fan).subscribe(0, 1, { value: monthly });
+
+      expect((await access.subscriptions(0, fan.address)).paidUntil).to.equal(BigInt(await time.latest()) + BigInt(MONTH));
+    });
+
+    it("Should let anyone collect a due token renewal from the subscriber's allowance", async function () {
+      const { access, distributor, token, creator, fan, keeper } = await loadFixture(stackFixture);
+      await access.connect(creator).createPlan(0, false, token, 5_000_000n, MONTH, 2 * DAY);
+      await token.connect(fan).approve(access, 15_000_000n);
+      await access.connect(fan).subscribe(1, 1);
+      const { paidUntil } = await access.subscriptions(1, fan.address);
+
+      await expect(access.connect(keeper).collectRenewal(1, fan.address)).to.be.revertedWith("Renewal not due");
+      await expect(access.connect(keeper).collectRenewal(0, fan.address)).to.be.revertedWith("Not a token plan");
+
+      await time.increaseTo(paidUntil - BigInt(DAY));
+      await expect(access.connect(keeper).collectRenewal(1, fan.address))
+        .to.emit(access, "SubscriptionRenewed")
+        .withArgs(1n, fan.address, paidUntil + BigInt(MONTH), 5_000_000n);
+      expect(await distributor.totalTokenRevenue(0, token)).to.equal(10_000_000n);
+
+      await time.increaseTo(paidUntil + BigInt(MONTH + 2 * DAY + 1));
+      await expect(access.connect(keeper).collectRenewal(1, fan.address)).to.be.revertedWith("Subscription lapsed");
+    });
+
+    it("Should renew at the subscribed price until the subscriber subscribes again", async function () {
+      const { access, token, creator, fan, keeper } = await loadFixture(stackFixture);
+      await access.connect(creator).createPlan(0, false, token, 5_000_000n, MONTH, 2 * DAY);
+      await token.connect(fan).approve(access, 1_000_000_000n);
+      await access.connect(fan).subscribe(1, 1);
+      const { paidUntil } = await access.subscriptions(1, fan.address);
+
+      await access.connect(creator).updatePlan(1, 500_000_000n, true);
+      await time.increaseTo(paidUntil - BigInt(DAY));
+      await expect(access.connect(keeper).collectRenewal(1, fan.address)).to.changeTokenBalance(token, fan, -5_000_000n);
+
+      // a cut applies to renewals at once, a raise only after subscribing again
+      await access.connect(creator).updatePlan(1, 4_000_000n, true);
+      await time.increaseTo(paidUntil + BigInt(MONTH - DAY));
+      await expect(access.connect(keeper).collectRenewal(1, fan.address)).to.changeTokenBalance(token, fan, -4_000_000n);
+
+      await access.connect(creator).updatePlan(1, 6_000_000n, true);
+      await access.connect(fan).subscribe(1, 1);
+      expect((await access.subscriptions(1, fan.address)).pricePerPeriod).to.equal(6_000_000n);
+    });
+  });
+
+  describe("Cancellation", function () {
+    it("Should honour paid time without grace and stop renewals", async function () {
+      const { access, token, creator, fan, keeper } = await loadFixture(stackFixture);
+      await access.connect(creator).createPlan(0, false, token, 5_000_000n, MONTH, 3 * DAY);
+      await token.connect(fan).approve(access, 10_000_000n);
+      await access.connect(fan).subscribe(1, 1);
+      const { paidUntil } = await access.subscriptions(1, fan.address);
+
+      await expect(access.connect(fan).cancelSubscription(1))
+        .to.emit(access, "SubscriptionCancelled")
+        .withArgs(1n, fan.address, paidUntil);
+      await expect(access.connect(fan).cancelSubscription(1)).to.be.revertedWith("Already cancelled");
+      await expect(access.connect(keeper).collectRenewal(1, fan.address)).to.be.revertedWith("Not renewable");
+
+      await time.increaseTo(paidUntil);
+      expect(await access.hasAccess(fan.address, 0)).to.equal(true);
+      await time.increase(1);
+      expect(await access.hasAccess(fan.address, 0)).to.equal(false);
+      await expect(access.connect(keeper).cancelSubscription(1)).to.be.revertedWith("Not subscribed");
+    });
+  });
+
+  describe("Creator bundles", function () {
+    it("Should unlock every asset the creator owns, including later ones", async function () {
+      const { access, registry, distributor, creator, fan, other } = await loadFixture(stackFixture);
+      await access.connect(creator).createPlan(1, true, ethers.ZeroAddress, monthly, MONTH, 0);
+      expect(await access.getCreatorBundles(creator.address)).to.deep.equal([1n]);
+
+      await access.connect(fan).subscribe(1, 1, { value: monthly });
+      await registry.connect(creator).createAsset("QmSubC", "ipfs://meta", "video", "ipfs", false, monthly, {
+        value: ethers.parseEther("0.01"),
+      });
+
+      for (const assetId of [0, 1, 3]) expect(await access.hasAccess(fan.address, assetId), `asset ${assetId}`).to.equal(true);
+      expect(await access.hasAccess(fan.address, 2)).to.equal(false);
+      expect(await access.hasAccess(other.address, 0)).to.equal(false);
+      // the bundle is paid into its anchor asset
+      expect(await distributor.totalRevenue(1)).to.equal(monthly);
+    });
+
+    it("Should stop taking payments once the anchor asset is transferred", async function () {
+      const { access, registry, creator, fan, other } = await loadFixture(stackFixture);
+      await access.connect(creator).createPlan(1, true, ethers.ZeroAddress, monthly, MONTH, 0);
+      await access.connect(fan).subscribe(1, 1, { value: monthly });
+
+      await registry.connect(creator).transferFrom(creator.address, other.address, 1);
+
+      await expect(access.connect(fan).subscribe(1, 1, { value: monthly })).to.be.revertedWith("Plan asset transferred");
+      expect(await access.hasAccess(fan.address, 0)).to.equal(true);
+      expect(await access.hasAccess(fan.address, 1)).to.equal(false);
+    });
+  });
+});
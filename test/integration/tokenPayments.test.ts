@@ -0,0 +1,304 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { impersonateAccount, loadFixture, setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { JeskeiClient, JeskeiError, SDK_MODULES } from "../../sdk";
+import type { CrowdfundingPlatform, ERC20PermitMock } from "../../typechain-types";
+import { consentShares } from "../fixtures/consent";
+
+/**
+ * ERC-20 payments: per-asset token prices in ContentAccess, token revenue in
+ * RevenueDistributor and token-denominated crowdfunding campaigns. The token
+ * path must split exactly like the ETH path.
+ */
+describe("Integration: ERC-20 payments", function () {
+  const DAY = 24 * 60 * 60;
+  const BPS = 10_000n;
+  const usdc = (n: number) => BigInt(n) * 1_000_000n;
+  const price = usdc(10);
+
+  async function stackFixture() {
+    await deployments.fixture(["FullStack"]);
+    const named = await getNamedAccounts();
+    const [, , , , , creator, buyer, editor, keeper] = await ethers.getSigners();
+
+    const registry = await ethers.getContractAt(
+      "AssetRegistryUpgradeable",
+      (
+        await deployments.get("AssetRegistry")
+      ).address
+    );
+    const distributor = await ethers.getContractAt(
+      "RevenueDistributorUpgradeable",
+      (
+        await deployments.get("RevenueDistributor")
+      ).address
+    );
+    const access = await ethers.getContractAt(
+      "ContentAccessUpgradeable",
+      (
+        await deployments.get("ContentAccess")
+      ).address
+    );
+    const token = await (await ethers.getContractFactory("ERC20PermitMock")).deploy("USD Coin", "USDC", 6);
+    await token.mint(buyer.address, usdc(1_000));
+
+    await registry.connect(creator).createAsset("QmToken", "ipfs://meta", "video", "ipfs", false, price, {
+      value: ethers.parseEther("0.01"),
+    });
+    await access.connect(creator).setAssetTokenPrice(0, token, price);
+
+    // factory-deployed modules are owned by the proxy factory
+    const factory = (await deployments.get("JeskeiProxyFactory")).address;
+    await impersonateAccount(factory);
+    await setBalance(factory, ethers.parseEther("1"));
+    const owner = await ethers.getSigner(factory);
+
+    const addresses = Object.fromEntries(
+      await Promise.all(SDK_MODULES.map(async (m) => [m, (await deployments.get(m)).address]))
+    );
+    const client = JeskeiClient.connect(addresses as Parameters<typeof JeskeiClient.connect>[0], buyer);
+    const platform = await (await ethers.getContractFactory("CrowdfundingPlatform")).deploy(named.platformTreasury);
+
+    return { named, creator, buyer, editor, keeper, owner, registry, distributor, access, token, client, platform };
+  }
+
+  describe("ContentAccess", function () {
+    it("Should list and delist accepted tokens through their price", async function () {
+      const { access, token, creator, buyer } = await loadFixture(stackFixture);
+
+      expect(await access.getAssetPaymentTokens(0)).to.deep.equal([await token.getAddress()]);
+      await expect(access.connect(buyer).setAssetTokenPrice(0, token, 1n)).to.be.revertedWith("Not asset owner");
+      await expect(access.connect(creator).setAssetTokenPrice(0, ethers.ZeroAddress, 1n)).to.be.revertedWith(
+        "Invalid token"
+      );
+
+      await expect(access.connect(creator).setAssetTokenPrice(0, token, 0n))
+        .to.emit(access, "AssetTokenPriceSet")
+        .withArgs(0n, await token.getAddress(), 0n);
+      expect(await access.getAssetPaymentTokens(0)).to.deep.equal([]);
+      await token.connect(buyer).approve(access, price);
+      await expect(access.connect(buyer).purchaseAccessWithToken(0, DAY, token, price)).to.be.revertedWith(
+        "Token not accepted"
+      );
+    });
+
+    it("Should split a token purchase exactly like an ETH purchase of the same amount", async function () {
+      const { registry, access, distributor, token, named, creator, buyer, editor } = await loadFixture(stackFixture);
+      // 1000 units leave rounding dust with two 33.33% shares and the owner's 33.34%
+      await access.connect(creator).setAssetTokenPrice(0, token, 1000n);
+      await access.connect(creator).setAssetPrice(0, 1000n);
+      const recipients = [creator.address, editor.address, named.platformTreasury];
+      await consentShares(registry, creator, 0, [
+        [editor, 3333n],
+        [await ethers.getSigner(named.platformTreasury), 3333n],
+      ]);
+
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: 1000n });
+      await token.connect(buyer).approve(access, 1000n);
+      await expect(access.connect(buyer).purchaseAccessWithToken(0, DAY, token, 1000n))
+        .to.emit(access, "AccessPurchasedWithToken")
+        .withArgs(buyer.address, 0n, await token.getAddress(), 1000n);
+
+      for (const account of recipients) {
+        expect(await distributor.tokenClaimable(token, account), account).to.equal(
+          await distributor.claimable(account)
+        );
+        expect(await distributor.contributorTokenEarnings(0, token, account)).to.equal(
+          await distributor.contributorEarnings(0, account)
+        );
+      }
+      expect(await distributor.tokenResidue(token)).to.equal(await distributor.accumulatedResidue());
+      expect(await distributor.tokenResidue(token)).to.equal(1n);
+      expect(await distributor.totalTokenRevenue(0, token)).to.equal(1000n);
+      expect(await token.balanceOf(distributor)).to.equal(1000n);
+      expect(await token.balanceOf(access)).to.equal(0n);
+      expect(await token.allowance(access, distributor)).to.equal(0n);
+    });
+
+    it("Should reject a token payment below the token price", async function () {
+      const { access, token, buyer } = await loadFixture(stackFixture);
+      await token.connect(buyer).approve(access, price);
+
+      await expect(access.connect(buyer).purchaseAccessWithToken(0, DAY, token, price - 1n)).to.be.revertedWith(
+        "Insufficient payment"
+      );
+      expect(await access.hasAccess(buyer.address, 0)).to.equal(false);
+    });
+
+    it("Should reject tokens that deliver less than the amount sent", async function () {
+      const { distributor, buyer } = await loadFixture(stackFixture);
+      const feeToken = await (await ethers.getContractFactory("FeeOnTransferTokenMock")).deploy();
+      await feeToken.mint(buyer.address, 10_000n);
+      await feeToken.connect(buyer).approve(distributor, 10_000n);
+
+      await expect(distributor.connect(buyer).distributeTokenRevenue(0, feeToken, 10_000n)).to.be.revertedWith(
+        "Unsupported token"
+      );
+    });
+  });
+
+  describe("Permit", function () {
+    it("Should buy access in one transaction with an EIP-2612 permit", async function () {
+      const { client, access, token, buyer, creator } = await loadFixture(stackFixture);
+      const deadline = (await time.latest()) + 3600;
+
+      expect(await client.getAssetTokenPrices(0)).to.deep.equal([{ token: await token.getAddress(), price }]);
+      await client.purchaseAccessWithToken(0, {
+        token: await token.getAddress(),
+        duration: DAY,
+        permitDeadline: deadline,
+      });
+
+      expect(await access.hasAccess(buyer.address, 0)).to.equal(true);
+      expect(await token.balanceOf(buyer.address)).to.equal(usdc(1_000) - price);
+      expect(await client.getClaimableToken(await token.getAddress(), creator.address)).to.equal(
+        price - (price * 1500n) / BPS
+      );
+    });
+
+    it("Should reject an expired permit without an allowance", async function () {
+      const { client, access, token, buyer } = await loadFixture(stackFixture);
+      const deadline = (await time.latest()) - 1;
+
+      await expect(
+        client.purchaseAccessWithToken(0, { token: await token.getAddress(), duration: DAY, permitDeadline: deadline })
+      )
+        .to.be.rejectedWith(JeskeiError)
+        .and.eventually.have.property("code", "INSUFFICIENT_ALLOWANCE");
+      expect(await access.hasAccess(buyer.address, 0)).to.equal(false);
+    });
+
+    it("Should withdraw credited token revenue through the client", async function () {
+      const { client, token, buyer, creator, keeper } = await loadFixture(stackFixture);
+      const tokenAddress = await token.getAddress();
+      await client.approveToken(tokenAddress, price);
+      await client.purchaseAccessWithToken(0, { token: tokenAddress, duration: DAY });
+      const share = price - (price * 1500n) / BPS;
+
+      const { payee, amount } = await client.withRunner(keeper).withdrawToken(tokenAddress, creator.address);
+
+      expect([payee, amount]).to.deep.equal([creator.address, share]);
+      expect(await token.balanceOf(creator.address)).to.equal(share);
+      await expect(client.withRunner(creator).withdrawToken(tokenAddress))
+        .to.be.rejectedWith(JeskeiError)
+        .and.eventually.have.property("code", "NO_BALANCE");
+      expect(await token.balanceOf(buyer.address)).to.equal(usdc(1_000) - price);
+    });
+  });
+
+  describe("RevenueDistributor", function () {
+    it("Should keep token and ETH balances apart", async function () {
+      const { access, distributor, token, creator, buyer } = await loadFixture(stackFixture);
+      await access.connect(creator).setAssetPrice(0, 1000n);
+      await access.connect(buyer).purchaseAccess(0, DAY, { value: 1000n });
+      await token.connect(buyer).approve(access, price);
+      await access.connect(buyer).purchaseAccessWithToken(0, DAY, token, price);
+
+      await expect(distributor.connect(creator).withdrawToken(token)).to.changeTokenBalances(
+        token,
+        [creator, distributor],
+        [price - (price * 1500n) / BPS, -(price - (price * 1500n) / BPS)]
+      );
+      expect(await distributor.claimable(creator.address)).to.equal(850n);
+      expect(await distributor.totalTokenClaimable(token)).to.equal((price * 1500n) / BPS);
+    });
+
+    it("Should sweep token residue to the platform treasury", async function () {
+      const { registry, access, distributor, token, named, owner, creator, buyer, editor } =
+        await loadFixture(stackFixture);
+      await access.connect(creator).setAssetTokenPrice(0, token, 1000n);
+      await consentShares(registry, creator, 0, [
+        [editor, 3333n],
+        [buyer, 3333n],
+      ]);
+      await token.connect(buyer).approve(access, 1000n);
+      await access.connect(buyer).purchaseAccessWithToken(0, DAY, token, 1000n);
+
+      await expect(distributor.connect(creator).sweepTokenResidue(token)).to.be.revertedWithCustomError(
+        distributor,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(distributor.connect(owner).sweepTokenResidue(token))
+        .to.emit(distributor, "TokenResidueSwept")
+        .withArgs(await token.getAddress(), named.platformTreasury, 1n);
+      expect(await token.balanceOf(named.platformTreasury)).to.equal(1n);
+      await expect(distributor.connect(owner).sweepTokenResidue(token)).to.be.revertedWith("No residue");
+    });
+  });
+
+  describe("CrowdfundingPlatform", function () {
+    const create = (
+      platform: CrowdfundingPlatform,
+      creator: HardhatEthersSigner,
+      token: ERC20PermitMock,
+      target: bigint
+    ) =>
+      platform
+        .connect(creator)
+        .createTokenCampaign("Film", "A short film", "ipfs://film", target, DAY, [usdc(10)], ["Credits"], token);
+
+    it("Should raise, and pay out, a campaign in its payment token", async function () {
+      const { platform, token, named, creator, buyer } = await loadFixture(stackFixture);
+      await create(platform, creator, token, usdc(100));
+
+      await expect(platform.connect(buyer).contribute(0, 0, { value: 1n })).to.be.revertedWith("Token campaign");
+      await token.connect(buyer).approve(platform, usdc(100));
+      await expect(platform.connect(buyer).contributeToken(0, 0, usdc(100)))
+        .to.emit(platform, "CampaignFunded")
+        .withArgs(0n, usdc(100));
+
+      await time.increase(DAY + 1);
+      const fee = (usdc(100) * (await platform.platformFee())) / BPS;
+      await expect(platform.connect(creator).withdrawFunds(0)).to.changeTokenBalances(
+        token,
+        [creator.address, named.platformTreasury, await platform.getAddress()],
+        [usdc(100) - fee, fee, -usdc(100)]
+      );
+    });
+
+    it("Should refund token contributions of a failed campaign", async function () {
+      const { platform, token, creator, buyer } = await loadFixture(stackFixture);
+      await create(platform, creator, token, usdc(500));
+      const deadline = (await time.latest()) + 3600;
+      const { v, r, s } = ethers.Signature.from(
+        await buyer.signTypedData(
+          { name: "USD Coin", version: "1", chainId: 31337, verifyingContract: await token.getAddress() },
+          {
+            Permit: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+            ],
+          },
+          { owner: buyer.address, spender: await platform.getAddress(), value: usdc(20), nonce: 0, deadline }
+        )
+      );
+      await platform.connect(buyer).contributeWithPermit(0, 0, usdc(20), deadline, v, r, s);
+
+      await time.increase(DAY + 1);
+      await expect(platform.connect(buyer).requestRefund(0)).to.changeTokenBalances(
+        token,
+        [buyer, platform],
+        [usdc(20), -usdc(20)]
+      );
+    });
+
+    it("Should keep ETH campaigns ETH-only", async function () {
+      const { platform, token, creator, buyer } = await loadFixture(stackFixture);
+      await platform
+        .connect(creator)
+        .createCampaign("Film", "A short film", "ipfs://film", 100n, DAY, [1n], ["Credits"]);
+      await token.connect(buyer).approve(platform, 100n);
+
+      await expect(platform.connect(buyer).contributeToken(0, 0, 100n)).to.be.revertedWith("Not a token campaign");
+      await expect(
+        platform
+          .connect(creator)
+          .createTokenCampaign("Film", "A short film", "ipfs://film", 1n, DAY, [], [], ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid token");
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { AdMatcher, ChainMatchingSource, PACING_STRATEGIES, SimulationConfig, simulate } from "../../matching";
+import { deployOwnedStack } from "../fixtures/stack";
+
+describe("Ad matching", function () {
+  const DAY = 24 * 60 * 60;
+  const rate = ethers.parseEther("0.001");
+  // viewer + creator payment plus the 10% platform fee
+  const viewCost = (rate * 2n * 11000n) / 10000n;
+
+  async function marketFixture() {
+    const [owner, creator, advertiser, viewer, other] = await ethers.getSigners();
+    const addrs = await deployOwnedStack();
+    const registry = await ethers.getContractAt("AssetRegistryUpgradeable", addrs.AssetRegistry);
+    const engine = await ethers.getContractAt("AdvertisingEngineUpgradeable", addrs.AdvertisingEngine);
+
+    await registry.connect(creator).createAsset("QmHash", "ipfs://meta", "music", "ipfs", false, 0, {
+      value: ethers.parseEther("0.01"),
+    });
+    const campaign = (tags: string[], opts: { duration?: number; views?: bigint; rate?: bigint } = {}) =>
+      engine
+        .connect(advertiser)
+        .createCampaign("ipfs://ad", opts.rate ?? rate, opts.rate ?? rate, opts.duration ?? 7 * DAY, tags, {
+          value: viewCost * (opts.views ?? 10n),
+        });
+    // #0 matches a niche tag, #1 a tag shared with #2, #3 is untargeted, #4 targets video only
+    await campaign(["music", "jazz"]);
+    await campaign(["music", "podcast"]);
+    await campaign(["podcast"]);
+    await campaign([]);
+    await campaign(["video"]);
+
+    const resolveTags = async ({ metadataURI }: { metadataURI: string }) =>
+      metadataURI === "ipfs://meta" ? ["jazz"] : [];
+    const source = new ChainMatchingSource(
+      { AdvertisingEngine: addrs.AdvertisingEngine, AssetRegistry: addrs.AssetRegistry },
+      ethers.provider,
+      resolveTags
+    );
+    const matcher = new AdMatcher(source, { pacing: PACING_STRATEGIES.asap });
+    return { owner, creator, advertiser, viewer, other, engine, campaign, source, matcher };
+  }
+
+  describe("Chain source", function () {
+    it("Should rank matching campaigns by tag relevance and leave out other targeting", async function () {
+      const { matcher, viewer } = await loadFixture(marketFixture);
+
+      const { matches, rejected } = await matcher.match(0n, viewer.address);
+
+      expect(matches.map((m) => m.campaignId)).to.deep.equal([0n, 1n, 3n]);
+      expect(matches[0].matchedTags).to.deep.equal(["music", "jazz"]);
+      expect(matches[2].matchedTags).to.deep.equal([]);
+      expect(matches[0].viewCost).to.equal(viewCost);
+      expect(rejected).to.deep.include({ campaignId: 2n, reason: "no-tag-match" });
+      expect(rejected).to.deep.include({ campaignId: 4n, reason: "no-tag-match" });
+    });
+
+    it("Should cap views per viewer from the on-chain history", async function () {
+      const { matcher, engine, viewer, other, creator } = await loadFixture(marketFixture);
+      for (let i = 0; i < 3; i++) await engine.recordAdView(0, viewer.address, creator.address);
+
+      const capped = await matcher.match(0n, viewer.address);
+      const fresh = await matcher.match(0n, other.address);
+      const once = await matcher.match(0n, viewer.address, { maxViewsPerViewer: 5 });
+
+      expect(capped.rejected).to.deep.include({ campaignId: 0n, reason: "frequency" });
+      expect(fresh.matches[0].campaignId).to.equal(0n);
+      expect(once.matches.find((m) => m.campaignId === 0n)!.viewerViews).to.equal(3);
+    });
+
+    it("Should drop campaigns that cannot pay for another view", async function () {
+      const { matcher, engine, campaign, viewer, creator } = await loadFixture(marketFixture);
+      await campaign(["jazz"], { views: 1n });
+      await engine.recordAdView(5, viewer.address, creator.address);
+
+      const { matches, rejected } = await matcher.match(0n, viewer.address);
+
+      expect(matches.map((m) => m.campaignId)).to.not.include(5n);
+      expect(rejected).to.deep.include({ campaignId: 5n, reason: "budget" });
+    });
+
+    it("Should drop campaigns past their end time", async function () {
+      const { matcher, campaign, viewer } = await loadFixture(marketFixture);
+      await campaign(["jazz"], { duration: DAY });
+      await time.increase(2 * DAY);
+
+      const { matches, rejected } = await matcher.match(0n, viewer.address);
+
+      expect(matches.map((m) => m.campaignId)).to.deep.equal([0n, 1n, 3n]);
+      expect(rejected).to.deep.include({ campaignId: 5n, reason: "expired" });
+    });
+
+    it("Should return nothing while the engine is paused", async function () {
+      const { matcher, engine, viewer } = await loadFixture(marketFixture);
+      await engine.pause();
+
+      const { matches, rejected } = await matcher.match(0n, viewer.address);
+
+      expect(matches).to.be.empty;
+      expect(rejected.every((r) => r.reason === "paused")).to.be.true;
+    });
+
+    it("Should not match a viewer to their own asset or campaign", async function () {
+      const { matcher, creator, advertiser } = await loadFixture(marketFixture);
+
+      expect((await matcher.match(0n, creator.address)).matches).to.be.empty;
+      expect((await matcher.match(0n, advertiser.address)).matches).to.be.empty;
+    });
+  });
+
+  describe("Simulation", function () {
+    const config: SimulationConfig = {
+      seed: 42,
+      impressions: 400,
+      interval: 600,
+      viewers: Array.from({ length: 40 }, (_, i) => ethers.zeroPadValue(ethers.toBeHex(i + 1), 20)),
+      assets: [
+        { id: 0n, creator: ethers.ZeroAddress, assetType: "music", tags: ["jazz"] },
+        { id: 1n, creator: ethers.ZeroAddress, assetType: "video", tags: [] },
+      ],
+      campaigns: [
+        // a big bidder that can afford a quarter of the impressions
+        {
+          advertiser: ethers.ZeroAddress,
+          budget: viewCost * 4n * 100n,
+          viewerPaymentRate: rate * 4n,
+          creatorPaymentRate: rate * 4n,
+          duration: 400 * 600,
+          targetingTags: ["music"],
+        },
+        {
+          advertiser: ethers.ZeroAddress,
+          budget: viewCost * 200n,
+          viewerPaymentRate: rate,
+          creatorPaymentRate: rate,
+          duration: 400 * 600,
+          targetingTags: ["music", "video"],
+        },
+      ],
+    };
+
+    it("Should be deterministic for a seed", function () {
+      const a = simulate(config);
+      const b = simulate(config);
+      const c = simulate({ ...config, seed: 7 });
+
+      expect(a).to.deep.equal(b);
+      expect(a.winners).to.not.deep.equal(c.winners);
+      expect(a.filled + a.unfilled).to.equal(config.impressions);
+    });
+
+    it("Should never spend past a campaign's budget", function () {
+      const report = simulate(config);
+
+      for (const [i, c] of report.campaigns.entries()) {
+        expect(c.spent <= config.campaigns[i].budget).to.be.true;
+      }
+    });
+
+    it("Should spread delivery over the flight with even pacing", function () {
+      const asap = simulate({ ...config, pacing: PACING_STRATEGIES.asap });
+      const even = simulate({ ...config, pacing: PACING_STRATEGIES.even });
+
+      // asap lets the big bidder win until it runs dry; even pacing holds it back
+      expect(asap.campaigns[0].exhaustedAt).to.be.lessThan(even.campaigns[0].exhaustedAt ?? config.impressions);
+      const firstHalf = (r: typeof asap) => r.winners.slice(0, 200).filter((w) => w === 0n).length;
+      expect(firstHalf(even)).to.be.lessThan(firstHalf(asap));
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { expect } from "chai";
+import { ethers, getNamedAccounts } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionResponse } from "ethers";
+import fc from "fast-check";
+import { signShareConsent } from "../../sdk/consent";
+import type {
+  AssetRegistryUpgradeable,
+  ContentAccessUpgradeable,
+  RevenueDistributorUpgradeable,
+} from "../../typechain-types";
+import { consentShares } from "../fixtures/consent";
+import { deployOwnedStack } from "../fixtures/stack";
+
+/**
+ * Model-based fuzzing of RevenueDistributor: fast-check generates sequences of
+ * fee changes, payout mode switches, consented contributor shares, direct
+ * distributions and purchases, runs them
+ * against a fresh stack and checks the accounting invariants after every
+ * step. A failing sequence is shrunk to the shortest one that still fails;
+ * rerun it with the `seed` and `path` fast-check prints.
+ *
+ * FC_RUNS raises the number of sequences (default 25).
+ */
+describe("Property: revenue splitting", function () {
+  const BPS = 10_000n;
+  const ASSETS = 2;
+  const PRICES = [1_000n, ethers.parseEther("0.01")];
+  const RUNS = Number(process.env.FC_RUNS ?? 25);
+
+  this.timeout(Math.max(120_000, RUNS * 10_000));
+
+  interface Real {
+    owner: HardhatEthersSigner;
+    creator: HardhatEthersSigner;
+    payer: HardhatEthersSigner;
+    /** Contributors; they only sign consents, so balances move only by payouts. */
+    pool: HardhatEthersSigner[];
+    treasury: string;
+    registry: AssetRegistryUpgradeable;
+    distributor: RevenueDistributorUpgradeable;
+    access: ContentAccessUpgradeable;
+    /** Balances when the run started, and the gas each account spent since. */
+    start: Map<string, bigint>;
+    gasSpent: Map<string, bigint>;
+  }
+
+  interface Model {
+    fee: bigint;
+    /** Contributor shares per asset; the creator, as owner, gets the remainder. */
+    shares: Map<number, bigint>[];
+    paidIn: bigint[];
+    earnings: Map<string, bigint>;
+    residue: bigint;
+  }
+
+  async function stackFixture() {
+    const signers = await ethers.getSigners();
+    const [owner, creator, payer] = [signers[0], signers[5], signers[6]];
+    const addrs = await deployOwnedStack();
+    const registry = await ethers.getContractAt("AssetRegistryUpgradeable", addrs.AssetRegistry);
+    const access = await ethers.getContractAt("ContentAccessUpgradeable", addrs.ContentAccess);
+    for (let i = 0; i < ASSETS; i++) {
+      await registry.connect(creator).createAsset(`QmFuzz${i}`, "ipfs://meta", "video", "ipfs", false, PRICES[i], {
+        value: 1n,
+      });
+      await access.connect(creator).setAssetPrice(i, PRICES[i]);
+    }
+    return {
+      owner,
+      creator,
+      payer,
+      pool: signers.slice(7, 10),
+      treasury: (await getNamedAccounts()).platformTreasury,
+      registry,
+      distributor: await ethers.getContractAt("RevenueDistributorUpgradeable", addrs.RevenueDistributor),
+      access,
+    };
+  }
+
+  // index 0 is the asset creator, 1.. the pool
+  const contributor = (r: Real, i: number) => (i === 0 ? r.creator : r.pool[i - 1]);
+  const earningsKey = (assetId: number, account: string) => `${assetId}:${account}`;
+
+  async function send(r: Real, tx: Promise<ContractTransactionResponse>): Promise<void> {
+    const receipt = (await (await tx).wait())!;
+    r.gasSpent.set(receipt.from, (r.gasSpent.get(receipt.from) ?? 0n) + receipt.fee);
+  }
+
+  /** Mirrors `distributeRevenue` on the model. */
+  function distribute(m: Model, assetId: number, amount: bigint): void {
+    const fee = (amount * m.fee) / BPS;
+    const available = amount - fee;
+    m.paidIn[assetId] += amount;
+    let paid = 0n;
+    let assigned = 0n;
+    const pay = (key: string, bps: bigint) => {
+      const payment = (available * bps) / BPS;
+      m.earnings.set(key, (m.earnings.get(key) ?? 0n) + payment);
+      paid += payment;
+    };
+    for (const [who, bps] of m.shares[assetId]) {
+      pay(earningsKey(assetId, String(who)), bps);
+      assigned += bps;
+    }
+    // the owner's remainder is a payment of its own, even when the creator is also a contributor
+    if (assigned < BPS) pay(earningsKey(assetId, "creator"), BPS - assigned);
+    m.residue += available - paid;
+  }
+
+  async function checkInvariants(m: Model, r: Real): Promise<void> {
+    // pushed ETH plus credited, not yet withdrawn payouts
+    const balance = async (a: string) =>
+      (await ethers.provider.getBalance(a)) -
+      r.start.get(a)! +
+      (r.gasSpent.get(a) ?? 0n) +
+      (await r.distributor.claimable(a));
+    const distributorAddr = await r.distributor.getAddress();
+    const paidIn = m.paidIn.reduce((a, b) => a + b, 0n);
+
+    // value in == value out + tracked residue
+    const treasuryIn = await balance(r.treasury);
+    const recipients = [r.creator, ...r.pool].map((s) => s.address);
+    const received = await Promise.all(recipients.map(balance));
+    const residue = await r.distributor.accumulatedResidue();
+    expect(paidIn, "value in").to.equal(treasuryIn + received.reduce((a, b) => a + b, 0n) + residue);
+    expect(await ethers.provider.getBalance(distributorAddr), "distributor balance").to.equal(
+      residue + (await r.distributor.totalClaimable())
+    );
+    expect(residue, "residue").to.equal(m.residue);
+
+    // contributorEarnings add up to what each account actually received
+    for (const [i, account] of recipients.entries()) {
+      let earned = 0n;
+      for (let assetId = 0; assetId < ASSETS; assetId++) {
+        const onChain = await r.distributor.contributorEarnings(assetId, account);
+        const modelled =
+          (m.earnings.get(earningsKey(assetId, String(i))) ?? 0n) +
+          (i === 0 ? m.earnings.get(earningsKey(assetId, "creator")) ?? 0n : 0n);
+        expect(onChain, `contributorEarnings(${assetId}, #${i})`).to.equal(modelled);
+        earned += onChain;
+      }
+      expect(received[i], `received by #${i}`).to.equal(earned);
+    }
+
+    // totalRevenue is the sum of payments per asset
+    for (let assetId = 0; assetId < ASSETS; assetId++) {
+      expect(await r.distributor.totalRevenue(assetId), `totalRevenue(${assetId})`).to.equal(m.paidIn[assetId]);
+    }
+  }
+
+  class SetFee implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly fee: bigint) {}
+    check = () => true;
+    async run(m: Model, r: Real) {
+      await send(r, r.distributor.connect(r.owner).setPlatformFee(this.fee));
+      m.fee = this.fee;
+      await checkInvariants(m, r);
+    }
+    toString = () => `setPlatformFee(${this.fee})`;
+  }
+
+  class SetPushPayments implements fc.AsyncCommand<Model, Real> {
+    constructor(readonly enabled: boolean) {}
+    check = () => true;
+    async run(m: Model, r: Real) {
+      await send(r, r.distributor.connect(r.owner).setPushPayments(this.enabled));
+      await checkInvariants(m, r);
+    }
+    toString = () => `setPushPayments(${this.enabled})`;
+  }
+
+  class SetShare implements fc.AsyncCommand<Model, Real> {
+    constructor(
+      readonly assetId: number,
+      readonly who: number,
+      readonly bps: bigint
+    ) {}
+    check = () => true;
+    async run(m: Model, r: Real) {
+      const shares = m.shares[this.assetId];
+      const others = [...shares].reduce((sum, [who, bps]) => (who === this.who ? sum : sum + bps), 0n);
+      const { consent, signature } = await signShareConsent(
+        contributor(r, this.who),
+        r.registry,
+        this.assetId,
+        this.bps,
+        "crew",
+        { deadline: (await time.latest()) + 3600 }
+      );
+      const setShare = r.registry.connect(r.creator).setContributorShare;
+      const args = [this.assetId, consent.contributor, this.bps, "crew", consent.deadline, signature] as const;
+      const rejection =
+        this.bps === 0n
+          ? shares.has(this.who)
+            ? undefined
+            : "Not a contributor"
+          : others + this.bps > BPS
+            ? "Exceeds 100% shares"
+            : undefined;
+      if (rejection) {
+        // a static call, so the rejected change costs the creator no gas
+        await expect(setShare.staticCall(...args)).to.be.revertedWith(rejection);
+      } else {
+        await send(r, setShare(...args));
+        if (this.bps === 0n) shares.delete(this.who);
+        else shares.set(this.who, this.bps);
+      }
+      await checkInvariants(m, r);
+    }
+    toString = () => `setContributorShare(${this.assetId}, #${this.who}, ${this.bps})`;
+  }
+
+  class Distribute implements fc.AsyncCommand<Model, Real> {
+    constructor(
+      readonly assetId: number,
+      readonly amount: bigint
+    ) {}
+    check = () => true;
+    async run(m: Model, r: Real) {
+      await send(
+        r,
+        r.distributor.connect(r.payer).distributeRevenue(this.assetId, this.amount, { value: this.amount })
+      );
+      distribute(m, this.assetId, this.amount);
+      await checkInvariants(m, r);
+    }
+    toString = () => `distributeRevenue(${this.assetId}, ${this.amount})`;
+  }
+
+  class Purchase implements fc.AsyncCommand<Model, Real> {
+    constructor(
+      readonly assetId: number,
+      readonly overpay: bigint
+    ) {}
+    check = () => true;
+    async run(m: Model, r: Real) {
+      const value = PRICES[this.assetId] + this.overpay;
+      await send(r, r.access.connect(r.payer).purchaseAccess(this.assetId, 24 * 60 * 60, { value }));
+      distribute(m, this.assetId, value);
+      await checkInvariants(m, r);
+    }
+    toString = () => `purchaseAccess(${this.assetId}, price + ${this.overpay})`;
+  }
+
+  const assetId = fc.integer({ min: 0, max: ASSETS - 1 });
+  // small amounts make rounding dust likely, large ones exercise real prices
+  const amount = fc.oneof(fc.bigInt(1n, 10_000n), fc.bigInt(1n, ethers.parseEther("10")));
+  // 0 removes the contributor
+  const share = fc.oneof(fc.constant(0n), fc.bigInt(1n, 6_000n));
+
+  const commands = fc.commands(
+    [
+      fc.bigInt(0n, 2_500n).map((fee) => new SetFee(fee)),
+      fc.boolean().map((enabled) => new SetPushPayments(enabled)),
+      fc.tuple(assetId, fc.integer({ min: 0, max: 3 }), share).map(([id, who, bps]) => new SetShare(id, who, bps)),
+      fc.tuple(assetId, amount).map(([id, a]) => new Distribute(id, a)),
+      fc.tuple(assetId, fc.bigInt(0n, 1_000n)).map(([id, extra]) => new Purchase(id, extra)),
+    ],
+    { maxCommands: 12 }
+  );
+
+  it("Should account for every wei across random share tables, fees and payments", async function () {
+    await fc.assert(
+      fc.asyncProperty(commands, async (cmds) => {
+        const stack = await loadFixture(stackFixture);
+        const accounts = [stack.treasury, stack.creator.address, ...stack.pool.map((s) => s.address)];
+        const start = new Map<string, bigint>();
+        for (const a of accounts) start.set(a, await ethers.provider.getBalance(a));
+
+        const model: Model = {
+          fee: 1500n,
+          shares: Array.from({ length: ASSETS }, () => new Map()),
+          paidIn: Array(ASSETS).fill(0n),
+          earnings: new Map(),
+          residue: 0n,
+        };
+        await fc.asyncModelRun(() => ({ model, real: { ...stack, start, gasSpent: new Map() } }), cmds);
+      }),
+      { numRuns: RUNS }
+    );
+  });
+
+  it("Should send swept residue to the platform treasury", async function () {
+    const { owner, creator, payer, pool, treasury, registry, distributor } = await loadFixture(stackFixture);
+    await consentShares(
+      registry,
+      creator,
+      0,
+      pool.map((contributor) => [contributor, 3333n])
+    );
+    await distributor.connect(payer).distributeRevenue(0, 1000n, { value: 1000n });
+
+    // fee 150, available 850, three payments of 283 and nothing for the owner's 0.01%
+    expect(await distributor.accumulatedResidue()).to.equal(1n);
+    const sweep = distributor.connect(owner).sweepResidue();
+    await expect(sweep).to.emit(distributor, "ResidueSwept").withArgs(treasury, 1n);
+    await expect(sweep).to.changeEtherBalances([distributor, treasury], [-1n, 1n]);
+    expect(await distributor.accumulatedResidue()).to.equal(0n);
+    await expect(distributor.connect(owner).sweepResidue()).to.be.revertedWith("No residue");
+    await expect(distributor.connect(creator).sweepResidue()).to.be.revertedWithCustomError(
+      distributor,
+      "AccessControlUnauthorizedAccount"
+    );
+  });
+});
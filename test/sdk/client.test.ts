@@ -0,0 +1,262 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  assetRegistryDomain,
+  JeskeiClient,
+  JeskeiConfigError,
+  JeskeiError,
+  loadAddresses,
+  SUBSCRIPTION_PERIODS,
+  verifyShareConsent,
+  ViewAttestor,
+} from "../../sdk";
+import { deployOwnedStack } from "../fixtures/stack";
+
+describe("JeskeiClient", function () {
+  const hostingFee = ethers.parseEther("0.01");
+  const price = ethers.parseEther("0.1");
+  const DAY = 24 * 60 * 60;
+
+  async function clientFixture() {
+    const [owner, creator, buyer, contributor, viewer] = await ethers.getSigners();
+    const addrs = await deployOwnedStack();
+    const client = JeskeiClient.connect(
+      {
+        AssetRegistry: addrs.AssetRegistry,
+        RevenueDistributor: addrs.RevenueDistributor,
+        ContentAccess: addrs.ContentAccess,
+        AdvertisingEngine: addrs.AdvertisingEngine,
+        PerformerAuthentication: addrs.PerformerAuthentication,
+      },
+      owner
+    );
+    return { client, owner, creator, buyer, contributor, viewer };
+  }
+
+  async function assetFixture() {
+    const base = await clientFixture();
+    const asCreator = base.client.withRunner(base.creator);
+    const { tokenId } = await asCreator.createAsset({
+      contentHash: "QmHash",
+      metadataURI: "ipfs://meta",
+      assetType: "video",
+      storageProvider: "ipfs",
+      isPublic: false,
+      price,
+      hostingFee,
+    });
+    return { ...base, asCreator, tokenId };
+  }
+
+  describe("Assets", function () {
+    it("Should create an asset and return its token id", async function () {
+      const { asCreator, creator, tokenId } = await loadFixture(assetFixture);
+
+      expect(tokenId).to.equal(0n);
+      expect(await asCreator.getCreatorAssets(creator.address)).to.deep.equal([0n]);
+    });
+
+    it("Should add contributors once they accept an offer", async function () {
+      const { client, asCreator, contributor, tokenId } = await loadFixture(assetFixture);
+
+      await asCreator.offerShare(tokenId, contributor.address, 2500, "editor");
+      expect(await asCreator.getContributors(tokenId)).to.have.length(0);
+      await client.withRunner(contributor).acceptShare(tokenId);
+
+      const contributors = await asCreator.getContributors(tokenId);
+      expect(contributors).to.have.length(1);
+      expect(contributors[0].contributorAddress).to.equal(contributor.address);
+      expect(contributors[0].role).to.equal("editor");
+    });
+
+    it("Should apply a contributor's signed consent", async function () {
+      const { client, asCreator, contributor, tokenId } = await loadFixture(assetFixture);
+      const signed = await client.withRunner(contributor).signShareConsent(tokenId, 2500, "editor");
+      const { chainId } = await ethers.provider.getNetwork();
+
+      expect(verifyShareConsent(assetRegistryDomain(chainId, client.addresses.AssetRegistry), signed)).to.equal(true);
+      await asCreator.setContributorShare(signed);
+      expect((await asCreator.getContributors(tokenId))[0].sharePercentage).to.equal(2500n);
+
+      const replayed = await asCreator.setContributorShare(signed).catch((err) => err);
+      expect(replayed).to.be.instanceOf(JeskeiError);
+      expect(replayed.code).to.equal("INVALID_CONSENT_SIGNATURE");
+    });
+  });
+
+  describe("Revenue and access", function () {
+    it("Should split a purchase according to the revenue shares", async function () {
+      const { asCreator, client, buyer, contributor, tokenId } = await loadFixture(assetFixture);
+      await asCreator.setContributorShare(await client.withRunner(contributor).signShareConsent(tokenId, 3000, "editor"));
+      await asCreator.setAssetPrice(tokenId, price);
+
+      expect(await client.hasAccess(buyer.address, tokenId)).to.equal(false);
+      await client.withRunner(buyer).purchaseAccess(tokenId, { duration: DAY });
+
+      expect(await client.hasAccess(buyer.address, tokenId)).to.equal(true);
+      const afterFee = price - (price * 1500n) / 10000n;
+      expect(await client.getEarnings(tokenId, contributor.address)).to.equal((afterFee * 3000n) / 10000n);
+      // contributors first, then the owner's remainder
+      expect((await client.getRevenueShares(tokenId)).map((s) => s.percentage)).to.deep.equal([3000n, 7000n]);
+    });
+
+    it("Should withdraw credited revenue for the caller or a payee", async function () {
+      const { asCreator, client, creator, buyer, contributor, tokenId } = await loadFixture(assetFixture);
+      await asCreator.setContributorShare(await client.withRunner(contributor).signShareConsent(tokenId, 10000, "editor"));
+      await asCreator.setAssetPrice(tokenId, price);
+      await client.withRunner(buyer).purchaseAccess(tokenId, { duration: DAY });
+      const share = price - (price * 1500n) / 10000n;
+      expect(await client.getClaimable(contributor.address)).to.deep.equal({ revenue: share, advertising: 0n });
+
+      const before = await ethers.provider.getBalance(contributor.address);
+      const { payee, amount } = await asCreator.withdraw("revenue", contributor.address);
+
+      expect([payee, amount]).to.deep.equal([contributor.address, share]);
+      expect(await ethers.provider.getBalance(contributor.address)).to.equal(before + share);
+      await expect(client.withRunner(contributor).withdraw("revenue"))
+        .to.be.rejectedWith(JeskeiError)
+        .and.eventually.have.property("code", "NO_BALANCE");
+      expect((await client.getClaimable(creator.address)).revenue).to.equal(0n);
+    });
+  });
+
+  describe("Subscriptions", function () {
+    it("Should subscribe to a plan at its current price and cancel it", async function () {
+      const { asCreator, client, creator, buyer, tokenId } = await loadFixture(assetFixture);
+      const { planId } = await asCreator.createPlan({
+        assetId: tokenId,
+        pricePerPeriod: price,
+        period: SUBSCRIPTION_PERIODS.month,
+        gracePeriod: DAY,
+      });
+      const asBuyer = client.withRunner(buyer);
+
+      await asBuyer.subscribe(planId, 2);
+      expect(await client.hasAccess(buyer.address, tokenId)).to.equal(true);
+      expect(await client.getEarnings(tokenId, creator.address)).to.equal(price * 2n - (price * 2n * 1500n) / 10000n);
+
+      await asBuyer.cancelSubscription(planId);
+      const sub = await client.getSubscription(planId, buyer.address);
+      expect([sub.cancelled, sub.active]).to.deep.equal([true, true]);
+      await expect(asBuyer.cancelSubscription(planId))
+        .to.be.rejectedWith(JeskeiError)
+        .and.eventually.have.property("code", "ALREADY_CANCELLED");
+    });
+  });
+
+  describe("Advertising", function () {
+    it("Should fund a campaign and credit recorded views", async function () {
+      const { client, creator, viewer } = await loadFixture(clientFixture);
+      const rate = ethers.parseEther("0.001");
+      const { campaignId } = await client.withRunner(creator).createCampaign({
+        metadataURI: "ipfs://ad",
+        viewerPaymentRate: rate,
+        creatorPaymentRate: rate,
+        duration: DAY,
+        targetingTags: ["music"],
+        budget: ethers.parseEther("1"),
+      });
+
+      await client.recordAdView(campaignId, viewer.address, creator.address);
+      expect((await client.getClaimable(viewer.address)).advertising).to.equal(rate);
+
+      const campaign = await client.getCampaign(campaignId);
+      expect(campaign.targetingTags).to.deep.equal(["music"]);
+      expect(campaign.spent).to.equal(((rate * 2n) * 11000n) / 10000n);
+      expect(campaign.remaining).to.equal(campaign.budget - campaign.spent);
+    });
+
+    it("Should settle attested views individually and as a Merkle batch", async function () {
+      const { client, owner, creator, viewer, buyer } = await loadFixture(clientFixture);
+      const rate = ethers.parseEther("0.001");
+      const { campaignId } = await client.withRunner(creator).createCampaign({
+        metadataURI: "ipfs://ad",
+        viewerPaymentRate: rate,
+        creatorPaymentRate: rate,
+        duration: DAY,
+        targetingTags: [],
+        budget: ethers.parseEther("1"),
+      });
+      const engine = await client.advertisingEngine.getAddress();
+      await client.advertisingEngine.setAttestor(owner.address, true);
+      const attestor = await ViewAttestor.forEngine(owner, engine);
+      const deadline = BigInt((await time.latest()) + DAY);
+
+      const signed = await attestor.sign(attestor.receipt(campaignId, viewer.address, creator.address, { deadline }));
+      const single = await client.withRunner(buyer).settleViews([signed, signed]);
+      expect(single.settled).to.equal(1);
+      expect(single.skipped.map((s) => s.reason)).to.deep.equal(["Replayed"]);
+
+      const batch = await attestor.signBatch([
+        attestor.receipt(campaignId, buyer.address, creator.address, { deadline }),
+        attestor.receipt(campaignId, viewer.address, creator.address, { deadline }),
+      ]);
+      expect((await client.withRunner(buyer).settleViewBatch(batch)).settled).to.equal(2);
+      expect((await client.getClaimable(viewer.address)).advertising).to.equal(rate * 2n);
+    });
+  });
+
+  describe("Performers", function () {
+    it("Should verify a performer", async function () {
+      const { client, creator } = await loadFixture(clientFixture);
+
+      await client.verifyPerformer({
+        performer: creator.address,
+        identityHash: ethers.id("passport-123"),
+        publicKey: "pk",
+        metadataURI: "ipfs://performer",
+      });
+
+      expect(await client.isVerifiedPerformer(creator.address)).to.equal(true);
+    });
+  });
+
+  describe("Errors", function () {
+    async function rejection(promise: Promise<unknown>): Promise<JeskeiError> {
+      try {
+        await promise;
+      } catch (err) {
+        expect(err).to.be.instanceOf(JeskeiError);
+        return err as JeskeiError;
+      }
+      expect.fail("expected the call to revert");
+    }
+
+    it("Should decode require strings", async function () {
+      const { client, asCreator, buyer, contributor, tokenId } = await loadFixture(assetFixture);
+
+      const notOwner = await rejection(client.withRunner(buyer).offerShare(tokenId, contributor.address, 1, "x"));
+      expect(notOwner.code).to.equal("NOT_ASSET_OWNER");
+      expect(notOwner.reason).to.equal("Not asset owner");
+
+      await asCreator.setAssetPrice(tokenId, price);
+      const underpaid = await rejection(client.withRunner(buyer).purchaseAccess(tokenId, { duration: DAY, value: 1n }));
+      expect(underpaid.code).to.equal("INSUFFICIENT_PAYMENT");
+    });
+
+    it("Should decode custom errors", async function () {
+      const { client, buyer, viewer, creator } = await loadFixture(clientFixture);
+
+      const err = await rejection(client.withRunner(buyer).recordAdView(0, viewer.address, creator.address));
+      expect(err.code).to.equal("UNAUTHORIZED");
+      expect(err.reason).to.equal("AccessControlUnauthorizedAccount");
+
+      const missing = await rejection(client.hasAccess(buyer.address, 99));
+      expect(missing.code).to.equal("NONEXISTENT_ASSET");
+    });
+  });
+
+  describe("Addresses", function () {
+    it("Should load addresses from the deployments directory", function () {
+      const addresses = loadAddresses("sepolia");
+
+      expect(addresses.AssetRegistry).to.match(/^0x[0-9a-fA-F]{40}$/);
+      expect(Object.keys(addresses)).to.have.length(5);
+    });
+
+    it("Should reject an unknown network", function () {
+      expect(() => loadAddresses("nowhere")).to.throw(JeskeiConfigError);
+    });
+  });
+});
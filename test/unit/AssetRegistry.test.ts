@@ -24,7 +24,7 @@ describe("AssetRegistry", function () {
       // Encode initialization data
       const initData = AssetRegistryFactory.interface.encodeFunctionData(
         "initialize", 
-        [hostingTreasury.address]
+        [hostingTreasury.address, ethers.ZeroAddress, owner.address]
       );
       
       // Deploy proxy
@@ -105,13 +105,15 @@ describe("AssetRegistry", function () {
         { value: ethers.parseEther("0.01") }
       );
 
-      // Add contributor
-      await assetRegistry.connect(creator).addContributor(
+      // Offer a share, which applies once the contributor accepts it
+      await assetRegistry.connect(creator).offerShare(
         0,
         owner.address,
         2000, // 20%
         "actor"
       );
+      expect((await assetRegistry.getAssetContributors(0)).length).to.equal(0);
+      await assetRegistry.connect(owner).acceptShare(0);
 
       const contributors = await assetRegistry.getAssetContributors(0);
       expect(contributors.length).to.equal(1);
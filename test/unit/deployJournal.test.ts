@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import deployCore from "../../deploy/01-deploy-core";
+import { DeploymentJournal } from "../../utils/journal";
+import { getImplementation } from "../../utils/erc1967";
+import { MODULES } from "../../utils/modules";
+
+describe("Deploy journal", function () {
+  async function snapshotAddresses() {
+    const out: Record<string, string> = {};
+    for (const mod of MODULES) out[mod.label] = (await deployments.get(mod.label)).address;
+    return out;
+  }
+
+  beforeEach(async function () {
+    await deployments.fixture(["FullStack"]);
+  });
+
+  it("Should journal every module with its implementation", async function () {
+    const journal = await DeploymentJournal.open(hre);
+
+    for (const mod of MODULES) {
+      const entry = journal.get(mod.label);
+      expect(entry?.impl, mod.label).to.be.properAddress;
+      if (mod.kind === "beacon") {
+        const beacon = await ethers.getContractAt("UpgradeableBeacon", entry!.proxy!);
+        expect(await beacon.implementation()).to.equal(entry!.impl);
+      } else if (mod.kind !== "plain") {
+        expect(await getImplementation(ethers.provider, entry!.proxy!)).to.equal(entry!.impl);
+      }
+    }
+  });
+
+  it("Should reuse every contract when re-run", async function () {
+    const before = await snapshotAddresses();
+    const blockBefore = await ethers.provider.getBlockNumber();
+
+    await deployCore(hre);
+
+    expect(await snapshotAddresses()).to.deep.equal(before);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+  });
+
+  it("Should not deploy a second proxy for a label the factory already tracks", async function () {
+    const before = await snapshotAddresses();
+    const factory = await ethers.getContractAt("JeskeiProxyFactory", before.JeskeiProxyFactory);
+    const proxiesBefore = await factory.getAllProxies();
+
+    // crash after deployProxy was mined but before the journal was written
+    const journal = await DeploymentJournal.open(hre);
+    journal.forget("ContentAccess");
+    journal.forget("DigitalStudioDAO");
+
+    await deployCore(hre);
+
+    expect(await snapshotAddresses()).to.deep.equal(before);
+    expect(await factory.getAllProxies()).to.deep.equal(proxiesBefore);
+    expect(journal.get("ContentAccess")?.proxy).to.equal(before.ContentAccess);
+  });
+
+  it("Should revoke a deployer executor journaled by an interrupted run", async function () {
+    const { deployer } = await hre.getNamedAccounts();
+    const factory = await ethers.getContractAt(
+      "JeskeiProxyFactory",
+      (await deployments.get("JeskeiProxyFactory")).address,
+      await ethers.getSigner(deployer)
+    );
+    // crash between authorising the relay and revoking it, after the grant was journaled
+    const tx = await factory.authorizeExecutor(deployer);
+    const journal = await DeploymentJournal.open(hre);
+    journal.recordExecutor(deployer, tx.hash);
+
+    await deployCore(hre);
+
+    expect(await factory.authorizedExecutors(deployer)).to.equal(false);
+    expect(journal.grantedExecutor(deployer)).to.equal(undefined);
+    expect(await factory.authorizedExecutors((await deployments.get("GovernanceExecutor")).address)).to.equal(true);
+  });
+
+  it("Should keep a deployer executor granted outside the deploy", async function () {
+    const { deployer } = await hre.getNamedAccounts();
+    const factory = await ethers.getContractAt(
+      "JeskeiProxyFactory",
+      (await deployments.get("JeskeiProxyFactory")).address,
+      await ethers.getSigner(deployer)
+    );
+    await factory.authorizeExecutor(deployer);
+
+    await deployCore(hre);
+
+    expect(await factory.authorizedExecutors(deployer)).to.equal(true);
+  });
+
+  it("Should redeploy a journaled contract that is missing on chain", async function () {
+    const journal = await DeploymentJournal.open(hre);
+    journal.record("CommunityGovernance", { impl: ethers.Wallet.createRandom().address });
+
+    await deployCore(hre);
+
+    const governance = await deployments.get("CommunityGovernance");
+    expect(await ethers.provider.getCode(governance.address)).to.not.equal("0x");
+    expect(journal.get("CommunityGovernance")?.impl).to.equal(governance.address);
+  });
+});
@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import hre, { deployments, ethers, getNamedAccounts } from "hardhat";
+import {
+  AnyModule,
+  ManifestError,
+  NamedAccount,
+  defineModule,
+  planDeployment,
+  resolveOrder,
+} from "../../utils/manifest";
+import { MODULES } from "../../utils/modules";
+import { networkProfile } from "../../utils/networks";
+
+describe("Deployment manifest", function () {
+  let accounts: Record<NamedAccount, string>;
+
+  before(async function () {
+    accounts = (await getNamedAccounts()) as Record<NamedAccount, string>;
+  });
+
+  function replace(label: string, mod: AnyModule): AnyModule[] {
+    return MODULES.map((m) => (m.label === label ? mod : m));
+  }
+
+  describe("Ordering", function () {
+    it("Should place every module after its dependencies", function () {
+      const order = resolveOrder(MODULES).map((m) => m.label);
+
+      expect(order[0]).to.equal("JeskeiProxyFactory");
+      for (const mod of MODULES) {
+        for (const dep of mod.deps) {
+          if (order.includes(dep as never)) {
+            expect(order.indexOf(dep as never)).to.be.lessThan(order.indexOf(mod.label));
+          }
+        }
+      }
+    });
+
+    it("Should reject a dependency that is not in the manifest", function () {
+      const withoutRegistry = MODULES.filter((m) => m.label !== "AssetRegistry");
+      expect(() => resolveOrder(withoutRegistry)).to.throw(ManifestError, /depends on "AssetRegistry"/);
+    });
+
+    it("Should reject dependency cycles", function () {
+      const cyclic = replace(
+        "AssetRegistry",
+        defineModule({
+          label: "AssetRegistry",
+          impl: "AssetRegistryUpgradeable",
+          kind: "factory",
+          deps: ["RevenueDistributor", "PerformerAuthentication", "roleAdmin"],
+          args: (a) => [a.RevenueDistributor, a.PerformerAuthentication, a.roleAdmin],
+        })
+      );
+      expect(() => resolveOrder(cyclic)).to.throw(ManifestError, /cycle/);
+    });
+  });
+
+  describe("Argument checks", function () {
+    it("Should accept the shipped manifest", async function () {
+      const plan = await planDeployment(hre, MODULES, accounts);
+      expect(plan).to.have.length(MODULES.length);
+    });
+
+    it("Should reject an address wired to the wrong dependency", async function () {
+      const miswired = replace(
+        "AdvertisingEngine",
+        defineModule({
+          label: "AdvertisingEngine",
+          impl: "AdvertisingEngineUpgradeable",
+          kind: "factory",
+          deps: ["AssetRegistry", "roleAdmin"],
+          args: (a) => [a.AssetRegistry, a.roleAdmin],
+        })
+      );
+      await expect(planDeployment(hre, miswired, accounts)).to.be.rejectedWith(
+        ManifestError,
+        /_adTreasury.*wired to "AssetRegistry"/
+      );
+    });
+
+    it("Should reject an address passed for a string parameter", async function () {
+      const miswired = replace(
+        "DigitalStudioDAO",
+        defineModule({
+          label: "DigitalStudioDAO",
+          impl: "DigitalStudioDAOUpgradeable",
+          kind: "factory",
+          deps: ["studioFounder", "AssetRegistry", "PerformerAuthentication"],
+          // @ts-expect-error – the typechain signature wants (string, address, address)
+          args: (a) => [a.PerformerAuthentication, a.studioFounder, a.AssetRegistry],
+        })
+      );
+      await expect(planDeployment(hre, miswired, accounts)).to.be.rejectedWith(
+        ManifestError,
+        /_studioName.*expected a string/
+      );
+    });
+
+    it("Should reject an unconfigured treasury", async function () {
+      await expect(
+        planDeployment(hre, MODULES, { ...accounts, adTreasury: "" })
+      ).to.be.rejectedWith(ManifestError, /named account "adTreasury"/);
+    });
+  });
+
+  describe("Deploy script", function () {
+    it("Should wire modules to the right proxies", async function () {
+      await deployments.fixture(["FullStack"]);
+      const registry = await deployments.get("AssetRegistry");
+      const distributor = await deployments.get("RevenueDistributor");
+
+      const access = await ethers.getContractAt("ContentAccessUpgradeable", (await deployments.get("ContentAccess")).address);
+      expect(await access.assetRegistry()).to.equal(registry.address);
+      expect(await access.revenueDistributor()).to.equal(distributor.address);
+
+      const ads = await ethers.getContractAt("AdvertisingEngineUpgradeable", (await deployments.get("AdvertisingEngine")).address);
+      expect(await ads.adTreasury()).to.equal(accounts.adTreasury);
+
+      const dao = await ethers.getContractAt("DigitalStudioDAOUpgradeable", (await deployments.get("DigitalStudioDAO")).address);
+      expect(await dao.assetRegistry()).to.equal(registry.address);
+      expect(await dao.studioName()).to.equal(networkProfile("hardhat").studioName);
+      expect(await dao.founder()).to.equal(accounts.studioFounder);
+      expect(await dao.upgrader()).to.equal((await deployments.get("JeskeiProxyFactory")).address);
+
+      const crowdfunding = await ethers.getContractAt("CrowdfundingPlatformUpgradeable", (await deployments.get("CrowdfundingPlatform")).address);
+      expect(await crowdfunding.assetRegistry()).to.equal(registry.address);
+      expect(await crowdfunding.crowdfundingTreasury()).to.equal(accounts.crowdfundingTreasury);
+    });
+  });
+});
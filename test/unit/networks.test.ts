@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import {
+  NETWORK_PROFILES,
+  NetworkConfigError,
+  assertNetworkReady,
+  buildNamedAccounts,
+  buildNetworks,
+  gasOverrides,
+  networkProfile,
+} from "../../utils/networks";
+
+describe("Network profiles", function () {
+  const treasuries = {
+    HOSTING_TREASURY: "0x0000000000000000000000000000000000000001",
+    PLATFORM_TREASURY: "0x0000000000000000000000000000000000000002",
+    AD_TREASURY: "0x0000000000000000000000000000000000000003",
+    CROWDFUNDING_TREASURY: "0x0000000000000000000000000000000000000004",
+  };
+  const sepolia = { SEPOLIA_URL: "https://rpc.example", PRIVATE_KEY: "0x" + "11".repeat(32), ...treasuries };
+
+  describe("assertNetworkReady", function () {
+    it("Should skip local networks", function () {
+      expect(() => assertNetworkReady("hardhat", {})).to.not.throw();
+      expect(() => assertNetworkReady("localhost", {})).to.not.throw();
+    });
+
+    it("Should list every missing setting of a live network", function () {
+      expect(() => assertNetworkReady("sepolia", { SEPOLIA_URL: "https://rpc.example" }))
+        .to.throw(NetworkConfigError)
+        .with.property("message")
+        .that.contains("SEPOLIA_PRIVATE_KEY or PRIVATE_KEY (deployer key) is not set")
+        .and.contains("SEPOLIA_HOSTING_TREASURY or HOSTING_TREASURY is not set")
+        .and.contains("SEPOLIA_CROWDFUNDING_TREASURY or CROWDFUNDING_TREASURY is not set")
+        .and.not.contains("SEPOLIA_URL");
+    });
+
+    it("Should accept a complete environment", function () {
+      expect(() => assertNetworkReady("sepolia", sepolia)).to.not.throw();
+    });
+
+    it("Should reject zero and malformed treasury addresses", function () {
+      expect(() => assertNetworkReady("sepolia", { ...sepolia, AD_TREASURY: "0x" + "00".repeat(20) })).to.throw(
+        "AD_TREASURY is not a valid address"
+      );
+      expect(() => assertNetworkReady("sepolia", { ...sepolia, HOSTING_TREASURY: "0x1234" })).to.throw(
+        "HOSTING_TREASURY is not a valid address: 0x1234"
+      );
+    });
+
+    it("Should not share RPC URLs between networks", function () {
+      expect(() => assertNetworkReady("polygon", sepolia)).to.throw("POLYGON_URL (RPC URL) is not set");
+    });
+
+    it("Should reject networks without a profile", function () {
+      expect(() => networkProfile("goerli")).to.throw(NetworkConfigError, 'No profile for network "goerli"');
+    });
+  });
+
+  describe("Config builders", function () {
+    it("Should prefer network-prefixed variables over shared ones", function () {
+      const accounts = buildNamedAccounts({
+        ...treasuries,
+        POLYGON_HOSTING_TREASURY: "0x00000000000000000000000000000000000000AA",
+      });
+
+      expect(accounts.hostingTreasury.polygon).to.equal("0x00000000000000000000000000000000000000AA");
+      expect(accounts.hostingTreasury.sepolia).to.equal(treasuries.HOSTING_TREASURY);
+      expect(accounts.hostingTreasury.default).to.equal(1);
+    });
+
+    it("Should leave unset treasuries out of the named accounts", function () {
+      const accounts = buildNamedAccounts({});
+
+      expect(accounts.adTreasury).to.deep.equal({ default: 3 });
+      expect(accounts.deployer.sepolia).to.equal(0);
+      expect(accounts.studioFounder.sepolia).to.equal(0);
+      expect(accounts.roleAdmin.sepolia).to.equal(0);
+    });
+
+    it("Should build every profiled network", function () {
+      const networks = buildNetworks({ ARBITRUM_URL: "https://arb.example", ARBITRUM_PRIVATE_KEY: sepolia.PRIVATE_KEY });
+
+      expect(Object.keys(networks)).to.have.members(Object.keys(NETWORK_PROFILES));
+      expect(networks.arbitrum).to.include({ url: "https://arb.example", chainId: 42161 });
+      expect((networks.arbitrum as { accounts: string[] }).accounts).to.deep.equal([sepolia.PRIVATE_KEY]);
+    });
+  });
+
+  describe("gasOverrides", function () {
+    it("Should cap EIP-1559 fees where the profile sets them", function () {
+      expect(gasOverrides(NETWORK_PROFILES.polygon)).to.deep.equal({
+        maxFeePerGas: 500_000_000_000n,
+        maxPriorityFeePerGas: 40_000_000_000n,
+      });
+      expect(gasOverrides(NETWORK_PROFILES.sepolia)).to.deep.equal({});
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import { ScenarioError, ScenarioSpec, loadScenario, planScenario } from "../../utils/scenario";
+
+describe("Scenario planning", function () {
+  const base: ScenarioSpec = {
+    name: "unit",
+    assets: [
+      {
+        key: "film",
+        creator: "alice",
+        price: "0.1",
+        contributors: [{ account: "sam", share: 1000, role: "composer" }],
+      },
+    ],
+    accounts: [{ name: "sam", balance: "5" }],
+    purchases: [{ buyer: "bob", asset: "film", days: 7 }],
+  };
+  const generated: ScenarioSpec = {
+    name: "load",
+    generate: { creators: 4, viewers: 6, purchases: 10, campaigns: 2 },
+  };
+
+  it("Should declare every acting account with the default balance", function () {
+    const plan = planScenario(base);
+
+    expect(plan.accounts).to.deep.equal([
+      { name: "sam", balance: "5" },
+      { name: "alice", balance: "1000" },
+      { name: "bob", balance: "1000" },
+    ]);
+    expect(plan.seed).to.equal(1);
+    expect(plan.advanceDays).to.equal(0);
+  });
+
+  it("Should generate the same entities for the same seed", function () {
+    const a = planScenario(generated, 42);
+    const b = planScenario(generated, 42);
+    const c = planScenario(generated, 43);
+
+    expect(a).to.deep.equal(b);
+    expect(a.assets).to.not.deep.equal(c.assets);
+    expect(a.purchases).to.have.length(10);
+    expect(a.campaigns.map((x) => x.advertiser)).to.deep.equal(["advertiser-1", "advertiser-2"]);
+    expect(a.accounts.map((x) => x.name)).to.include.members(["creator-1", "creator-4", "viewer-1", "advertiser-2"]);
+    // purchases only ever target assets that are for sale
+    const forSale = new Set(a.assets.filter((x) => !x.public).map((x) => x.key));
+    expect(a.purchases.every((p) => forSale.has(p.asset))).to.equal(true);
+  });
+
+  it("Should keep explicit entities ahead of generated ones", function () {
+    const plan = planScenario({ ...base, generate: generated.generate }, 7);
+
+    expect(plan.assets[0].key).to.equal("film");
+    expect(plan.purchases[0]).to.deep.equal(base.purchases![0]);
+    expect(plan.assets.length).to.be.greaterThan(1);
+  });
+
+  it("Should reject unknown references and bad amounts", function () {
+    const cases: [ScenarioSpec, string][] = [
+      [{ ...base, purchases: [{ buyer: "bob", asset: "poster", days: 7 }] }, 'unknown asset "poster"'],
+      [{ ...base, assets: [{ key: "film", creator: "alice", public: true }] }, 'asset "film" is not for sale'],
+      [{ ...base, verifiedCreators: ["alcie"] }, 'verified creator: unknown account "alcie"'],
+      [{ ...base, assets: [{ key: "film", creator: "alice", price: "cheap" }] }, '"cheap" is not an ETH amount'],
+      [
+        {
+          name: "unit",
+          studios: [
+            { key: "s", founder: "alice", name: "S", projects: [{ name: "P", budget: "1", shares: { alice: 9000 } }] },
+          ],
+        },
+        "shares must sum to 10000",
+      ],
+      [
+        { name: "unit", proposals: [{ proposer: "alice", title: "Fees", category: "PlatformFee" as never }] },
+        "category must be one of",
+      ],
+      [{ assets: [] } as unknown as ScenarioSpec, "Scenario needs a name"],
+    ];
+    for (const [spec, message] of cases) {
+      expect(() => planScenario(spec), message).to.throw(ScenarioError, message);
+    }
+  });
+
+  it("Should plan the bundled demo scenario", function () {
+    const plan = planScenario(loadScenario("scenarios/demo.json"));
+
+    expect(plan.name).to.equal("demo");
+    expect(plan.assets.slice(0, 3).map((a) => a.key)).to.deep.equal(["northern-lights", "trailer", "score"]);
+    expect(() => loadScenario("scenarios/missing.json")).to.throw(ScenarioError, "Cannot read scenario");
+  });
+});
@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  checkImplementation,
+  compareStorageLayouts,
+  getStorageLayout,
+} from "../../utils/upgradeSafety";
+
+describe("Upgrade safety", function () {
+  async function compare(from: string, to: string) {
+    return compareStorageLayouts(await getStorageLayout(hre, from), await getStorageLayout(hre, to));
+  }
+
+  describe("Storage layout", function () {
+    it("Should accept appended variables, a shrunk gap and a grown mapped struct", async function () {
+      expect(await compare("LayoutV1Mock", "LayoutV2Mock")).to.deep.equal([]);
+      expect(await compare("AssetRegistryUpgradeable", "AssetRegistryUpgradeableV2Mock")).to.deep.equal([]);
+    });
+
+    it("Should reject reordered variables", async function () {
+      const issues = await compare("LayoutV1Mock", "LayoutReorderedMock");
+
+      expect(issues.map((i) => i.kind)).to.deep.equal(["moved", "moved"]);
+      expect(issues[0].message).to.contain("slot 0 held count but now holds treasury");
+    });
+
+    it("Should reject retyped variables and struct members", async function () {
+      const issues = await compare("LayoutV1Mock", "LayoutRetypedMock");
+
+      expect(issues.map((i) => i.kind)).to.deep.equal(["retyped", "retyped"]);
+      expect(issues[0].message).to.contain("count (slot 0) changed type: uint256 → uint128");
+      expect(issues[1].message).to.contain("entries");
+    });
+
+    it("Should reject a variable added without shrinking the gap", async function () {
+      const issues = await compare("LayoutV1Mock", "LayoutGapOverrunMock");
+
+      expect(issues.map((i) => i.kind)).to.deep.equal(["gap"]);
+    });
+
+    it("Should reject a different contract's layout", async function () {
+      const issues = await compare("AssetRegistryUpgradeable", "RevenueDistributorUpgradeable");
+
+      expect(issues).to.not.be.empty;
+    });
+  });
+
+  describe("Implementation", function () {
+    it("Should accept the shipped modules", async function () {
+      for (const name of ["AssetRegistryUpgradeable", "ContentAccessUpgradeable", "UpgradeManager"]) {
+        expect(await checkImplementation(hre, name), name).to.deep.equal([]);
+      }
+    });
+
+    it("Should reject an unrestricted _authorizeUpgrade", async function () {
+      const issues = await checkImplementation(hre, "UnrestrictedUpgradeMock");
+
+      expect(issues.map((i) => i.kind)).to.deep.equal(["authorizeUpgrade"]);
+      expect(issues[0].message).to.contain("no access control");
+    });
+
+    it("Should reject a missing _authorizeUpgrade", async function () {
+      const issues = await checkImplementation(hre, "NotUUPSMock");
+
+      expect(issues.map((i) => i.kind)).to.deep.equal(["authorizeUpgrade"]);
+    });
+
+    it("Should reject an implementation that can be initialised", async function () {
+      const issues = await checkImplementation(hre, "InitializableImplementationMock");
+
+      expect(issues.map((i) => i.kind)).to.deep.equal(["disableInitializers"]);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { ProposalStatus } from "../../tasks/upgrade";
+
+describe("jeskei:upgrade tasks", function () {
+  beforeEach(async function () {
+    await deployments.fixture(["FullStack"]);
+  });
+
+  const propose = (contract: string, extra: Record<string, unknown> = {}) =>
+    hre.run("jeskei:upgrade:propose", {
+      module: "AssetRegistry",
+      contract,
+      newVersion: "1.1.0",
+      description: "featured assets",
+      ...extra,
+    }) as Promise<ProposalStatus>;
+
+  it("Should record the storage layout of every proxy", async function () {
+    const registry = await deployments.get("AssetRegistry");
+
+    expect(registry.implementation).to.be.properAddress;
+    expect(registry.storageLayout.storage.map((e: { label: string }) => e.label)).to.include("assets");
+  });
+
+  it("Should propose, approve and execute a safe upgrade after the timelock", async function () {
+    const proposed = await propose("AssetRegistryUpgradeableV2Mock");
+    expect(proposed.id).to.equal(0);
+    expect(proposed.remaining).to.equal(BigInt(24 * 60 * 60));
+    expect(proposed.call).to.equal("0x");
+
+    const approved = (await hre.run("jeskei:upgrade:approve", { id: 0 })) as ProposalStatus;
+    expect(approved.approved).to.equal(true);
+    await expect(hre.run("jeskei:upgrade:execute", { id: 0 })).to.be.rejectedWith("timelocked");
+
+    await time.increase(24 * 60 * 60);
+    const [status] = (await hre.run("jeskei:upgrade:status", {})) as ProposalStatus[];
+    expect(status.remaining).to.equal(0n);
+
+    const executed = (await hre.run("jeskei:upgrade:execute", { id: 0 })) as ProposalStatus;
+    expect(executed.executed).to.equal(true);
+
+    const registry = await deployments.get("AssetRegistry");
+    const upgraded = await ethers.getContractAt("AssetRegistryUpgradeableV2Mock", registry.address);
+    expect(await upgraded.version()).to.equal("2.0.0");
+    expect(registry.implementation).to.equal(proposed.implementation);
+    expect(registry.storageLayout.storage.map((e: { label: string }) => e.label)).to.include("featuredAsset");
+    expect(await deployments.getOrNull("AssetRegistry_Proposal_0")).to.not.be.ok;
+
+    const factory = await ethers.getContractAt("JeskeiProxyFactory", (await deployments.get("JeskeiProxyFactory")).address);
+    expect((await factory.getProxy("AssetRegistry")).version).to.equal("1.1.0");
+  });
+
+  it("Should refuse an incompatible layout before sending anything", async function () {
+    const manager = await ethers.getContractAt("UpgradeManager", (await deployments.get("UpgradeManager")).address);
+
+    await expect(propose("RevenueDistributorUpgradeable")).to.be.rejectedWith("is not upgrade safe");
+    expect(await manager.proposalCounter()).to.equal(0n);
+  });
+
+  it("Should require a baseline when no layout is recorded", async function () {
+    const registry = await deployments.get("AssetRegistry");
+    await deployments.save("AssetRegistry", { ...registry, storageLayout: undefined });
+
+    await expect(propose("AssetRegistryUpgradeableV2Mock")).to.be.rejectedWith("--baseline");
+    const proposed = await propose("AssetRegistryUpgradeableV2Mock", { baseline: "AssetRegistryUpgradeable" });
+    expect(proposed.id).to.equal(0);
+  });
+
+  it("Should accept a storage layout file as the baseline", async function () {
+    const distributor = await deployments.get("RevenueDistributor");
+    await deployments.save("RevenueDistributor", { ...distributor, storageLayout: undefined });
+
+    const proposed = await propose("RevenueDistributorUpgradeable", {
+      module: "RevenueDistributor",
+      baseline: "layouts/RevenueDistributorUpgradeable.v1.json",
+    });
+    expect(proposed.id).to.equal(0);
+  });
+
+  it("Should only move an owner-only proxy to roles through initializeRoles", async function () {
+    const { deployer } = await hre.getNamedAccounts();
+    const factory = await ethers.getContractAt("JeskeiProxyFactory", (await deployments.get("JeskeiProxyFactory")).address);
+    // stand in for a StudioFactory never moved off the owner-only release
+    const original = await (await ethers.getContractFactory("StudioFactoryUpgradeableV1Mock")).deploy();
+    await factory.upgradeProxy("StudioFactory", await original.getAddress(), "1.0.0");
+    const studios = await deployments.get("StudioFactory");
+    await deployments.save("StudioFactory", { ...studios, implementation: await original.getAddress() });
+
+    const extra = { module: "StudioFactory", newVersion: "2.0.0" };
+    await expect(propose("StudioFactoryUpgradeable", extra)).to.be.rejectedWith(
+      "StudioFactory runs an owner-only implementation; upgrade it with --call initializeRoles"
+    );
+    const proposed = await propose("StudioFactoryUpgradeable", {
+      ...extra,
+      call: "initializeRoles",
+      callArgs: JSON.stringify([deployer]),
+    });
+    expect(proposed.call.slice(0, 10)).to.equal(
+      (await ethers.getContractFactory("StudioFactoryUpgradeable")).interface.getFunction("initializeRoles")!.selector
+    );
+    // modules already on roles upgrade without a call
+    expect((await propose("AssetRegistryUpgradeableV2Mock")).call).to.equal("0x");
+  });
+
+  it("Should only upgrade modules tracked by the proxy factory", async function () {
+    await expect(propose("UpgradeManager", { module: "UpgradeManager" })).to.be.rejectedWith(
+      "not upgraded through UpgradeManager"
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { expect } from "chai";
+import hre, { deployments, getNamedAccounts } from "hardhat";
+import { verifyStack } from "../../utils/verifyStack";
+
+describe("jeskei:verify-stack", function () {
+  let owner: string;
+
+  beforeEach(async function () {
+    await deployments.fixture(["FullStack"]);
+    owner = (await getNamedAccounts()).deployer;
+  });
+
+  function failures(report: Awaited<ReturnType<typeof verifyStack>>) {
+    return report.checks.filter((c) => !c.pass).map((c) => `${c.module}: ${c.check}`);
+  }
+
+  it("Should pass on a freshly deployed stack", async function () {
+    const report = await verifyStack(hre, { owner });
+
+    expect(failures(report)).to.deep.equal([]);
+    expect(report.passed).to.equal(true);
+    expect(report.checks.map((c) => c.check)).to.include.members([
+      "assetRegistry()",
+      "revenueDistributor()",
+      "authorized upgrader",
+    ]);
+  });
+
+  it("Should flag two modules sharing a proxy address", async function () {
+    const performerAuth = await deployments.get("PerformerAuthentication");
+    const distributor = await deployments.get("RevenueDistributor");
+    await deployments.save("RevenueDistributor", { ...distributor, address: performerAuth.address });
+
+    const report = await verifyStack(hre, { owner });
+
+    expect(report.passed).to.equal(false);
+    expect(failures(report)).to.include.members([
+      "RevenueDistributor: unique address",
+      "PerformerAuthentication: unique address",
+      "RevenueDistributor: factory proxy",
+      "ContentAccess: revenueDistributor()",
+      "CommunityGovernance: revenueDistributor()",
+    ]);
+  });
+
+  it("Should flag an unexpected owner", async function () {
+    const [, , , , , stranger] = await hre.ethers.getSigners();
+    const report = await verifyStack(hre, { owner: stranger.address });
+
+    expect(failures(report)).to.include.members([
+      "JeskeiProxyFactory: owner()",
+      "UpgradeManager: owner()",
+      "CommunityGovernance: owner()",
+    ]);
+  });
+});
@@ -0,0 +1,15 @@
+import { ethers } from "ethers";
+import type { Provider } from "ethers";
+
+/** bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1) */
+export const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/** Reads the ERC‑1967 implementation slot of `proxy` (zero address if unset). */
+export async function getImplementation(provider: Provider, proxy: string): Promise<string> {
+  const raw = await provider.getStorage(proxy, IMPLEMENTATION_SLOT);
+  return ethers.getAddress(ethers.dataSlice(raw, 12));
+}
+
+export async function hasCode(provider: Provider, address: string): Promise<boolean> {
+  return (await provider.getCode(address)) !== "0x";
+}
@@ -0,0 +1,116 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Per‑network deployment journal.
+ *
+ * The deploy script records every step (impl deploy, proxy deploy, plain
+ * deploy, upgrader and executor authorisation) the moment its transaction is mined, so a
+ * run that dies half way can be re‑started and pick up where it stopped.
+ * Entries are only *hints*: callers must confirm them on chain before reuse.
+ *
+ * Live networks persist to `deployments/<network>/.journal.json`. The
+ * in‑process `hardhat` network keeps the journal in memory for the lifetime of
+ * the process, which is enough for re‑running the script inside one test run.
+ */
+
+export interface JournalEntry {
+  /** Implementation address (or the contract itself for plain deployments). */
+  impl?: string;
+  /** keccak256 of the creation bytecode `impl` was deployed from. */
+  implBytecodeHash?: string;
+  proxy?: string;
+  updatedAt: string;
+}
+
+export interface JournalData {
+  network: string;
+  chainId: string;
+  modules: Record<string, JournalEntry>;
+  /** upgrader address → tx hash of its `authorizeUpgrader` call */
+  upgraders: Record<string, string>;
+  /** executor address → tx hash of its `authorizeExecutor` call */
+  executors: Record<string, string>;
+}
+
+const inMemory = new Map<string, JournalData>();
+
+export class DeploymentJournal {
+  private constructor(
+    private readonly data: JournalData,
+    readonly file: string | undefined
+  ) {}
+
+  static async open(hre: HardhatRuntimeEnvironment): Promise<DeploymentJournal> {
+    const chainId = (await hre.getChainId()).toString();
+    const network = hre.network.name;
+
+    if (network === "hardhat") {
+      const key = `${network}:${chainId}`;
+      if (!inMemory.has(key)) inMemory.set(key, { network, chainId, modules: {}, upgraders: {}, executors: {} });
+      return new DeploymentJournal(inMemory.get(key)!, undefined);
+    }
+
+    const file = path.join(hre.config.paths.deployments, network, ".journal.json");
+    if (!fs.existsSync(file)) {
+      return new DeploymentJournal({ network, chainId, modules: {}, upgraders: {}, executors: {} }, file);
+    }
+
+    const data: JournalData = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (data.chainId !== chainId) {
+      throw new Error(`${file} was written for chain ${data.chainId}, but ${network} is chain ${chainId}`);
+    }
+    data.upgraders ??= {};
+    data.executors ??= {};
+    return new DeploymentJournal(data, file);
+  }
+
+  get(label: string): JournalEntry | undefined {
+    return this.data.modules[label];
+  }
+
+  record(label: string, patch: Omit<JournalEntry, "updatedAt">): void {
+    this.data.modules[label] = {
+      ...this.data.modules[label],
+      ...patch,
+      updatedAt: new Date().toISOString(),
+    };
+    this.flush();
+  }
+
+  /** Drops an entry that failed on‑chain confirmation. */
+  forget(label: string): void {
+    delete this.data.modules[label];
+    this.flush();
+  }
+
+  recordUpgrader(upgrader: string, txHash: string): void {
+    this.data.upgraders[upgrader] = txHash;
+    this.flush();
+  }
+
+  recordExecutor(executor: string, txHash: string): void {
+    this.data.executors[executor] = txHash;
+    this.flush();
+  }
+
+  /** Tx hash of the `authorizeExecutor` call this deploy made for `executor`, if any. */
+  grantedExecutor(executor: string): string | undefined {
+    return this.data.executors[executor];
+  }
+
+  forgetExecutor(executor: string): void {
+    delete this.data.executors[executor];
+    this.flush();
+  }
+
+  private flush(): void {
+    if (!this.file) return;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    // write + rename so a crash mid‑write never leaves a truncated journal
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tmp, this.file);
+  }
+}
@@ -0,0 +1,310 @@
+import { ethers } from "ethers";
+import type { ParamType } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type {
+  AdvertisingEngineUpgradeable,
+  AssetRegistryUpgradeable,
+  CommunityGovernance__factory,
+  ContentAccessUpgradeable,
+  CrowdfundingPlatformUpgradeable,
+  DigitalStudioDAOUpgradeable,
+  GovernanceExecutor__factory,
+  JeskeiProxyFactory,
+  MigrationHelper,
+  PerformerAuthenticationUpgradeable,
+  RevenueDistributorUpgradeable,
+  StudioFactoryUpgradeable,
+  UpgradeManager,
+} from "../typechain-types";
+import type { TypedContractMethod } from "../typechain-types/common";
+import { networkProfile, NetworkProfile } from "./networks";
+
+/**
+ * Declarative deployment manifest.
+ *
+ * Every module names the contract it deploys, how it is deployed and which
+ * other modules / named accounts it depends on. Its `args` are typed against
+ * the typechain `initialize` (or constructor) signature of that contract, so a
+ * wrong arity or a non-address where an address belongs fails `tsc`.
+ *
+ * `planDeployment` then re-checks every module against the compiled ABI before
+ * a single transaction is sent: dependencies must exist, addresses must be set,
+ * and each address parameter must be wired to the dependency its Solidity name
+ * refers to (`_assetRegistry` ← `AssetRegistry`, `_adTreasury` ← `adTreasury`).
+ */
+
+// --------------------------------------------------------------------
+// Signatures
+// --------------------------------------------------------------------
+
+type InitArgs<C> = C extends { initialize: TypedContractMethod<infer A, any, any> } ? A : never;
+type StudioInitArgs<C> = C extends { initializeStudio: TypedContractMethod<infer A, any, any> } ? A : never;
+
+type ConstructorArgs<F> = F extends { deploy(...args: infer P): any }
+  ? Required<P> extends [...infer A, any]
+    ? A
+    : never
+  : never;
+
+/** Contract name → argument tuple of its initializer (or constructor for plain deployments). */
+export interface InitSignatures {
+  JeskeiProxyFactory: InitArgs<JeskeiProxyFactory>;
+  UpgradeManager: InitArgs<UpgradeManager>;
+  MigrationHelper: InitArgs<MigrationHelper>;
+  AssetRegistryUpgradeable: InitArgs<AssetRegistryUpgradeable>;
+  RevenueDistributorUpgradeable: InitArgs<RevenueDistributorUpgradeable>;
+  PerformerAuthenticationUpgradeable: InitArgs<PerformerAuthenticationUpgradeable>;
+  AdvertisingEngineUpgradeable: InitArgs<AdvertisingEngineUpgradeable>;
+  ContentAccessUpgradeable: InitArgs<ContentAccessUpgradeable>;
+  DigitalStudioDAOUpgradeable: StudioInitArgs<DigitalStudioDAOUpgradeable>;
+  CrowdfundingPlatformUpgradeable: InitArgs<CrowdfundingPlatformUpgradeable>;
+  StudioFactoryUpgradeable: InitArgs<StudioFactoryUpgradeable>;
+  CommunityGovernance: ConstructorArgs<CommunityGovernance__factory>;
+  GovernanceExecutor: ConstructorArgs<GovernanceExecutor__factory>;
+}
+
+export type ImplName = keyof InitSignatures;
+
+/** Proxied contracts initialized through something other than `initialize`. */
+const INITIALIZERS: Partial<Record<ImplName, string>> = {
+  // `initialize` makes the caller (the factory) the founder
+  DigitalStudioDAOUpgradeable: "initializeStudio",
+};
+
+/** Name of the function a proxy of `impl` is initialized with. */
+export function initializerOf(impl: string): string {
+  return INITIALIZERS[impl as ImplName] ?? "initialize";
+}
+
+/** Addresses supplied by `namedAccounts` rather than deployed by the manifest. */
+export const NAMED_ACCOUNTS = [
+  "deployer",
+  "hostingTreasury",
+  "platformTreasury",
+  "adTreasury",
+  "crowdfundingTreasury",
+  "studioFounder",
+  "roleAdmin",
+] as const;
+
+export type NamedAccount = (typeof NAMED_ACCOUNTS)[number];
+
+export type ModuleLabel =
+  | "JeskeiProxyFactory"
+  | "UpgradeManager"
+  | "MigrationHelper"
+  | "AssetRegistry"
+  | "RevenueDistributor"
+  | "PerformerAuthentication"
+  | "AdvertisingEngine"
+  | "ContentAccess"
+  | "DigitalStudioDAO"
+  | "CrowdfundingPlatform"
+  | "StudioBeacon"
+  | "StudioFactory"
+  | "CommunityGovernance"
+  | "GovernanceExecutor";
+
+export type Dependency = ModuleLabel | NamedAccount;
+
+/**
+ *   ‑ `uups`      impl + standalone ERC1967Proxy (infrastructure)
+ *   ‑ `factory`   impl + proxy created by `JeskeiProxyFactory.deployProxy`
+ *   ‑ `beacon`    impl + UpgradeableBeacon created by `JeskeiProxyFactory.deployBeacon`;
+ *                 its proxies are created later, so it takes no arguments
+ *   ‑ `plain`     constructor deployment, no proxy
+ */
+export type DeployKind = "uups" | "factory" | "beacon" | "plain";
+
+/**
+ * Address of a dependency as seen by `args`. Branded so that handing one to a
+ * plain `string` parameter (e.g. `_studioName`) is a compile error, even
+ * though typechain types both as `string`.
+ */
+export type DepRef<D extends Dependency = Dependency> = string & { readonly __dep: D };
+
+type StrictArg<T> = [T] extends [string] ? string & { readonly __dep?: undefined } : T;
+type StrictArgs<A> = { [K in keyof A]: StrictArg<A[K]> };
+
+export interface ModuleSpec<I extends ImplName = ImplName, D extends Dependency = Dependency> {
+  label: ModuleLabel;
+  impl: I;
+  kind: DeployKind;
+  deps: readonly D[];
+  /** `profile` carries per‑network values such as the upgrade timelock. */
+  args: (refs: { [K in D]: DepRef<K> }, profile: NetworkProfile) => StrictArgs<InitSignatures[I]>;
+}
+
+export type AnyModule = ModuleSpec<ImplName, Dependency>;
+
+/** Identity helper – exists so `deps` narrows the keys `args` may read. */
+export function defineModule<I extends ImplName, D extends Dependency = never>(
+  spec: ModuleSpec<I, D>
+): AnyModule {
+  return spec as unknown as AnyModule;
+}
+
+/** A `beacon` module: only an implementation, initialized per proxy later on. */
+export function defineBeacon(spec: { label: ModuleLabel; impl: ImplName }): AnyModule {
+  return { ...spec, kind: "beacon", deps: [], args: () => [] } as unknown as AnyModule;
+}
+
+// --------------------------------------------------------------------
+// Planning
+// --------------------------------------------------------------------
+
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+export type PlannedModule = AnyModule & {
+  /** Position in the resolved (topological) order. */
+  step: number;
+};
+
+/** Declared deps plus the proxy factory for modules it deploys. */
+function dependenciesOf(mod: AnyModule): readonly string[] {
+  return mod.kind === "factory" || mod.kind === "beacon" ? [...mod.deps, "JeskeiProxyFactory"] : mod.deps;
+}
+
+/** Resolves `deps` into a deployment order; manifest order breaks ties. */
+export function resolveOrder(modules: readonly AnyModule[]): PlannedModule[] {
+  const byLabel = new Map<string, AnyModule>();
+  for (const mod of modules) {
+    if (byLabel.has(mod.label)) throw new ManifestError(`Duplicate module label "${mod.label}"`);
+    byLabel.set(mod.label, mod);
+  }
+
+  for (const mod of modules) {
+    for (const dep of dependenciesOf(mod)) {
+      if (!byLabel.has(dep) && !(NAMED_ACCOUNTS as readonly string[]).includes(dep)) {
+        throw new ManifestError(
+          `${mod.label} depends on "${dep}", which is neither a module in the manifest nor a named account`
+        );
+      }
+    }
+  }
+
+  const ordered: PlannedModule[] = [];
+  const done = new Set<string>();
+  while (ordered.length < modules.length) {
+    const next = modules.find(
+      (m) => !done.has(m.label) && dependenciesOf(m).every((d) => done.has(d) || !byLabel.has(d))
+    );
+    if (!next) {
+      const stuck = modules.filter((m) => !done.has(m.label)).map((m) => m.label);
+      throw new ManifestError(`Dependency cycle between: ${stuck.join(", ")}`);
+    }
+    ordered.push({ ...next, step: ordered.length });
+    done.add(next.label);
+  }
+  return ordered;
+}
+
+/** Deterministic stand‑in address for a dependency that is not deployed yet. */
+export function placeholderAddress(dep: string): string {
+  return ethers.getAddress(ethers.dataSlice(ethers.id(`jeskei.manifest.${dep}`), 12));
+}
+
+function normalise(name: string): string {
+  return name.replace(/^_+/, "").toLowerCase();
+}
+
+function checkArg(mod: AnyModule, input: ParamType, value: unknown, wiredTo: string | undefined) {
+  const where = `${mod.label}.${mod.kind === "plain" ? "constructor" : initializerOf(mod.impl)}(${input.name || input.type})`;
+
+  if (input.type === "address") {
+    if (typeof value !== "string" || !ethers.isAddress(value)) {
+      throw new ManifestError(`${where}: expected an address, got ${JSON.stringify(value)}`);
+    }
+    if (value === ethers.ZeroAddress) {
+      throw new ManifestError(`${where}: zero address`);
+    }
+    if (wiredTo && input.name && !normalise(wiredTo).endsWith(normalise(input.name))) {
+      throw new ManifestError(`${where}: wired to "${wiredTo}", which does not match the parameter`);
+    }
+  } else if (input.type === "string") {
+    if (typeof value !== "string") {
+      throw new ManifestError(`${where}: expected a string, got ${typeof value}`);
+    }
+    if (wiredTo || ethers.isAddress(value)) {
+      throw new ManifestError(`${where}: expected a string, got address ${wiredTo ?? value}`);
+    }
+  } else if (input.baseType.startsWith("uint") || input.baseType.startsWith("int")) {
+    if (typeof value !== "bigint" && typeof value !== "number") {
+      throw new ManifestError(`${where}: expected ${input.type}, got ${typeof value}`);
+    }
+  }
+}
+
+/**
+ * Orders the manifest and validates every module's arguments against the
+ * compiled ABI, using placeholder addresses for modules that do not exist
+ * yet. Throws `ManifestError` on the first problem; sends no transactions.
+ */
+export async function planDeployment(
+  hre: HardhatRuntimeEnvironment,
+  modules: readonly AnyModule[],
+  accounts: Partial<Record<NamedAccount, string>>
+): Promise<PlannedModule[]> {
+  const ordered = resolveOrder(modules);
+  const profile = networkProfile(hre.network.name);
+
+  for (const mod of ordered) {
+    const refs: Record<string, string> = {};
+    const wiring = new Map<string, string>();
+    for (const dep of mod.deps) {
+      if ((NAMED_ACCOUNTS as readonly string[]).includes(dep)) {
+        const addr = accounts[dep as NamedAccount];
+        if (!addr || !ethers.isAddress(addr)) {
+          throw new ManifestError(
+            `${mod.label} needs named account "${dep}", which is not configured for network ${hre.network.name}`
+          );
+        }
+      }
+      refs[dep] = placeholderAddress(dep);
+      wiring.set(refs[dep], dep);
+    }
+
+    const factory = await hre.ethers.getContractFactory(mod.impl);
+    if (mod.kind === "beacon") {
+      if (mod.args(refs as never, profile).length) throw new ManifestError(`${mod.label}: beacons take no arguments`);
+      continue;
+    }
+    const fragment =
+      mod.kind === "plain" ? factory.interface.deploy : factory.interface.getFunction(initializerOf(mod.impl));
+    if (!fragment) throw new ManifestError(`${mod.impl} has no ${initializerOf(mod.impl)} function`);
+
+    const args = mod.args(refs as never, profile) as unknown[];
+    if (args.length !== fragment.inputs.length) {
+      throw new ManifestError(
+        `${mod.label}: ${fragment.inputs.length} argument(s) expected, manifest passes ${args.length}`
+      );
+    }
+    fragment.inputs.forEach((input, i) =>
+      checkArg(mod, input, args[i], typeof args[i] === "string" ? wiring.get(args[i] as string) : undefined)
+    );
+
+    try {
+      if (mod.kind === "plain") factory.interface.encodeDeploy(args);
+      else factory.interface.encodeFunctionData(initializerOf(mod.impl), args);
+    } catch (err: any) {
+      throw new ManifestError(`${mod.label}: cannot encode arguments – ${err.shortMessage ?? err.message}`);
+    }
+  }
+
+  return ordered;
+}
+
+/** Builds the real argument list once every dependency has an address. */
+export function resolveArgs(mod: AnyModule, addrs: Record<string, string>, profile: NetworkProfile): unknown[] {
+  const refs: Record<string, string> = {};
+  for (const dep of mod.deps) {
+    if (!addrs[dep]) throw new ManifestError(`${mod.label}: "${dep}" has not been deployed`);
+    refs[dep] = addrs[dep];
+  }
+  return mod.args(refs as never, profile) as unknown[];
+}
@@ -0,0 +1,500 @@
+import { ZeroAddress, ZeroHash } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { gasOverrides, networkProfile } from "./networks";
+
+/**
+ * Moves the state of a legacy `contracts/core` deployment into the upgradeable
+ * stack. Three streams are replayed, in order, through the import functions
+ * AssetRegistry and ContentAccess open to their migrator (MigrationHelper):
+ *
+ *   Assets           every NFT under its original id, with owner, metadata,
+ *                    contributors and ContentAccess pricing
+ *   HostingBalances  unwithdrawn hosting fees, funded by the signer
+ *   AccessGrants     grants still active on ContentAccess, found through its
+ *                    AccessGranted events
+ *
+ * Each batch's imports and its MigrationHelper checkpoint land in one
+ * transaction, so a rerun after an interruption carries on with the first
+ * unrecorded batch. The legacy contracts cannot be paused; changes made there
+ * after their batch went through show up in the verification diff.
+ */
+
+export const MIGRATION_STREAMS = ["Assets", "HostingBalances", "AccessGrants"] as const;
+export type MigrationStream = (typeof MIGRATION_STREAMS)[number];
+
+export interface LegacyAddresses {
+  assetRegistry: string;
+  revenueDistributor: string;
+  contentAccess: string;
+}
+
+export interface MediaAssetState {
+  creator: string;
+  contentHash: string;
+  metadataURI: string;
+  revenueShare: bigint;
+  isVerified: boolean;
+  creationTime: bigint;
+  storageProvider: string;
+  hostingFeesPaid: bigint;
+  assetType: string;
+  isPublic: boolean;
+  price: bigint;
+}
+
+export interface ContributorState {
+  contributorAddress: string;
+  sharePercentage: bigint;
+  role: string;
+}
+
+export interface AssetState {
+  tokenId: bigint;
+  owner: string;
+  asset: MediaAssetState;
+  /** Contributors as the upgradeable registry will hold them, see `effectiveContributors`. */
+  contributors: ContributorState[];
+  price: bigint;
+  publicAccess: boolean;
+}
+
+export interface HostingBalanceState {
+  account: string;
+  amount: bigint;
+}
+
+export interface AccessGrantState {
+  user: string;
+  assetId: bigint;
+  grant: { expiryTime: bigint; isActive: boolean; grantTime: bigint };
+}
+
+export interface LegacySnapshot {
+  assets: AssetState[];
+  /** Every creator and the hosting treasury; only non-zero balances are imported. */
+  hostingBalances: HostingBalanceState[];
+  /** Every user/asset pair ever granted, revoked ones included; only active grants are imported. */
+  accessGrants: AccessGrantState[];
+}
+
+export interface MigrationOptions {
+  legacy: LegacyAddresses;
+  /** Items per batch transaction. */
+  batchSize?: number;
+  /** Block to start searching legacy AccessGranted events from. */
+  fromBlock?: number;
+  /** Stop after this many batches; the next run resumes from there. */
+  maxBatches?: number;
+  /** Signing named account or address; defaults to the deployer. */
+  from?: string;
+}
+
+export interface StreamProgress {
+  stream: MigrationStream;
+  total: number;
+  migrated: number;
+  /** Batches sent by this run. */
+  batches: number;
+  completed: boolean;
+}
+
+export interface MigrationDiff {
+  stream: MigrationStream;
+  key: string;
+  field: string;
+  legacy: string;
+  upgraded: string;
+}
+
+export interface MigrationReport {
+  network: string;
+  passed: boolean;
+  checked: number;
+  diffs: MigrationDiff[];
+}
+
+const MEDIA_ASSET_FIELDS = [
+  "creator",
+  "contentHash",
+  "metadataURI",
+  "revenueShare",
+  "isVerified",
+  "creationTime",
+  "storageProvider",
+  "hostingFeesPaid",
+  "assetType",
+  "isPublic",
+  "price",
+] as const;
+
+const REVERTED = "<reverted>";
+
+function same(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Legacy sales paid out RevenueDistributor's share table, or everything to the
+ * owner when an asset had none; the upgradeable registry pays its contributors
+ * and the owner the remainder. Share-table recipients other than the owner
+ * therefore become contributors (duplicates merged, inactive entries dropped,
+ * roles taken from the legacy registry), and what the table left unassigned
+ * now reaches the owner instead of staying in the distributor. Assets without
+ * a table keep the contributors declared on the legacy registry.
+ */
+export function effectiveContributors(
+  owner: string,
+  declared: ContributorState[],
+  shareTable: { recipient: string; percentage: bigint; isActive: boolean }[]
+): ContributorState[] {
+  const roles = new Map(declared.map((c) => [c.contributorAddress.toLowerCase(), c.role]));
+  const entries =
+    shareTable.length > 0
+      ? shareTable
+          .filter((s) => s.isActive)
+          .map((s) => ({
+            contributorAddress: s.recipient,
+            sharePercentage: s.percentage,
+            role: roles.get(s.recipient.toLowerCase()) ?? "contributor",
+          }))
+      : declared;
+
+  const merged = new Map<string, ContributorState>();
+  for (const entry of entries) {
+    if (same(entry.contributorAddress, owner)) continue;
+    const key = entry.contributorAddress.toLowerCase();
+    const previous = merged.get(key);
+    merged.set(
+      key,
+      previous
+        ? { ...previous, sharePercentage: previous.sharePercentage + entry.sharePercentage }
+        : { contributorAddress: entry.contributorAddress, sharePercentage: entry.sharePercentage, role: entry.role }
+    );
+  }
+  return [...merged.values()];
+}
+
+async function legacyContracts(hre: HardhatRuntimeEnvironment, legacy: LegacyAddresses) {
+  return {
+    registry: await hre.ethers.getContractAt("AssetRegistry", legacy.assetRegistry),
+    distributor: await hre.ethers.getContractAt("RevenueDistributor", legacy.revenueDistributor),
+    access: await hre.ethers.getContractAt("ContentAccess", legacy.contentAccess),
+  };
+}
+
+/** Reads everything the migration moves; legacy assets are never burned, so ids run from 0 without gaps. */
+export async function readLegacySnapshot(
+  hre: HardhatRuntimeEnvironment,
+  legacy: LegacyAddresses,
+  fromBlock = 0
+): Promise<LegacySnapshot> {
+  const { registry, distributor, access } = await legacyContracts(hre, legacy);
+
+  const assets: AssetState[] = [];
+  for (let tokenId = 0n; ; tokenId++) {
+    let owner: string;
+    try {
+      owner = await registry.ownerOf(tokenId);
+    } catch {
+      break;
+    }
+    const stored = await registry.assets(tokenId);
+    const asset = Object.fromEntries(MEDIA_ASSET_FIELDS.map((f) => [f, stored[f]])) as unknown as MediaAssetState;
+    const declared = (await registry.getAssetContributors(tokenId)).map((c) => ({
+      contributorAddress: c.contributorAddress,
+      sharePercentage: c.sharePercentage,
+      role: c.role,
+    }));
+    assets.push({
+      tokenId,
+      owner,
+      asset,
+      contributors: effectiveContributors(owner, declared, await distributor.getAssetShares(tokenId)),
+      price: await access.assetPrices(tokenId),
+      publicAccess: await access.isPublicAsset(tokenId),
+    });
+  }
+
+  // hosting fees are only ever credited to creators and the hosting treasury
+  const accounts: string[] = [];
+  for (const account of [...assets.map((a) => a.asset.creator), await registry.hostingTreasury()]) {
+    if (!accounts.some((a) => same(a, account))) accounts.push(account);
+  }
+  const hostingBalances: HostingBalanceState[] = [];
+  for (const account of accounts) {
+    hostingBalances.push({ account, amount: await registry.hostingBalance(account) });
+  }
+
+  const accessGrants: AccessGrantState[] = [];
+  const seen = new Set<string>();
+  for (const event of await access.queryFilter(access.filters.AccessGranted(), fromBlock)) {
+    const { user, assetId } = event.args;
+    const key = `${user.toLowerCase()}:${assetId}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const { expiryTime, isActive, grantTime } = await access.userAccess(user, assetId);
+    accessGrants.push({ user, assetId, grant: { expiryTime, isActive, grantTime } });
+  }
+
+  return { assets, hostingBalances, accessGrants };
+}
+
+async function upgradedStack(hre: HardhatRuntimeEnvironment, from?: string) {
+  const accounts = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(from ? accounts[from] ?? from : accounts.deployer);
+  const at = async (label: string) => (await hre.deployments.get(label)).address;
+  return {
+    signer,
+    helper: await hre.ethers.getContractAt("MigrationHelper", await at("MigrationHelper"), signer),
+    registry: await hre.ethers.getContractAt("AssetRegistryUpgradeable", await at("AssetRegistry"), signer),
+    access: await hre.ethers.getContractAt("ContentAccessUpgradeable", await at("ContentAccess"), signer),
+  };
+}
+
+type Stack = Awaited<ReturnType<typeof upgradedStack>>;
+
+/** The import calls, and the ETH they need, for items [start, end) of a stream. */
+async function batchCalls(stack: Stack, snapshot: LegacySnapshot, stream: MigrationStream, start: number, end: number) {
+  const { registry, access } = stack;
+  if (stream === "Assets") {
+    const items = snapshot.assets.slice(start, end);
+    return [
+      {
+        target: await registry.getAddress(),
+        value: 0n,
+        data: registry.interface.encodeFunctionData("importAssets", [
+          items.map((a) => ({ tokenId: a.tokenId, owner: a.owner, asset: a.asset, contributors: a.contributors })),
+        ]),
+      },
+      {
+        target: await access.getAddress(),
+        value: 0n,
+        data: access.interface.encodeFunctionData("importAssetPricing", [
+          items.map((a) => a.tokenId),
+          items.map((a) => a.price),
+          items.map((a) => a.publicAccess),
+        ]),
+      },
+    ];
+  }
+  if (stream === "HostingBalances") {
+    const items = snapshot.hostingBalances.slice(start, end).filter((b) => b.amount > 0n);
+    return [
+      {
+        target: await registry.getAddress(),
+        value: items.reduce((sum, b) => sum + b.amount, 0n),
+        data: registry.interface.encodeFunctionData("importHostingBalances", [
+          items.map((b) => b.account),
+          items.map((b) => b.amount),
+        ]),
+      },
+    ];
+  }
+  const items = snapshot.accessGrants.slice(start, end).filter((g) => g.grant.isActive);
+  return [
+    {
+      target: await access.getAddress(),
+      value: 0n,
+      data: access.interface.encodeFunctionData("importAccessGrants", [items]),
+    },
+  ];
+}
+
+function streamItems(snapshot: LegacySnapshot, stream: MigrationStream): number {
+  if (stream === "Assets") return snapshot.assets.length;
+  if (stream === "HostingBalances") return snapshot.hostingBalances.length;
+  return snapshot.accessGrants.length;
+}
+
+/**
+ * Points the `migrator` of AssetRegistry and ContentAccess at `migrator`; the
+ * signer needs DEFAULT_ADMIN on both (the stack's `roleAdmin`).
+ */
+async function setMigrators(hre: HardhatRuntimeEnvironment, stack: Stack, migrator: string) {
+  const gas = gasOverrides(networkProfile(hre.network.name));
+  const self = await stack.signer.getAddress();
+  for (const [label, contract] of [
+    ["AssetRegistry", stack.registry],
+    ["ContentAccess", stack.access],
+  ] as const) {
+    if (same(await contract.migrator(), migrator)) continue;
+    if (!(await contract.hasRole(ZeroHash, self))) {
+      throw new Error(`${self} is not an admin of ${label}; run the migration from the role admin`);
+    }
+    await (await contract.setMigrator(migrator, gas)).wait();
+  }
+}
+
+/**
+ * Runs, or resumes, the migration and returns how far each stream got. Once
+ * every stream is complete the import functions are closed again.
+ */
+export async function migrateLegacy(hre: HardhatRuntimeEnvironment, opts: MigrationOptions): Promise<StreamProgress[]> {
+  const batchSize = opts.batchSize ?? 25;
+  if (batchSize < 1) throw new Error("batch size must be at least 1");
+  const gas = gasOverrides(networkProfile(hre.network.name));
+  const stack = await upgradedStack(hre, opts.from);
+  const { helper, registry } = stack;
+
+  const owner = await helper.owner();
+  if (!same(owner, await stack.signer.getAddress())) {
+    throw new Error(`MigrationHelper is owned by ${owner}; run the migration from that account`);
+  }
+  const snapshot = await readLegacySnapshot(hre, opts.legacy, opts.fromBlock);
+
+  const progress: StreamProgress[] = [];
+  for (const stream of MIGRATION_STREAMS) {
+    progress.push({
+      stream,
+      total: streamItems(snapshot, stream),
+      migrated: Number(await helper.getMigrationProgress(stream)),
+      batches: 0,
+      completed: await helper.isMigrationCompleted(stream),
+    });
+  }
+  if (progress.every((p) => p.completed)) return progress;
+
+  const migrator = await helper.getAddress();
+  await setMigrators(hre, stack, migrator);
+
+  let budget = opts.maxBatches ?? Infinity;
+  for (const p of progress) {
+    if (p.completed) continue;
+    if (p.stream === "Assets" && p.migrated < p.total) {
+      const taken = await registry.ownerOf(p.migrated).then(
+        () => true,
+        () => false
+      );
+      if (taken) throw new Error(`AssetRegistry already holds asset #${p.migrated}; migrate into a fresh stack`);
+    }
+    if ((await helper.migrationTotal(p.stream)) !== BigInt(p.total)) {
+      await (await helper.startMigration(p.stream, p.total, gas)).wait();
+    }
+
+    while (p.migrated < p.total && budget > 0) {
+      const start = p.migrated;
+      const end = Math.min(start + batchSize, p.total);
+      const calls = await batchCalls(stack, snapshot, p.stream, start, end);
+      const value = calls.reduce((sum, c) => sum + c.value, 0n);
+      await (await helper.migrateBatch(p.stream, start, start, end, calls, { ...gas, value })).wait();
+      p.migrated = end;
+      p.batches++;
+      budget--;
+    }
+    if (p.migrated < p.total) break;
+
+    await (await helper.completeMigration(p.stream, gas)).wait();
+    p.completed = true;
+  }
+
+  if (progress.every((p) => p.completed)) await setMigrators(hre, stack, ZeroAddress);
+  return progress;
+}
+
+function contributorList(contributors: readonly ContributorState[]): string {
+  return contributors.map((c) => `${c.contributorAddress}:${c.sharePercentage}:${c.role}`).join(", ") || "none";
+}
+
+function grantSummary(grant: AccessGrantState["grant"]): string {
+  return grant.isActive ? `active until ${grant.expiryTime} (granted ${grant.grantTime})` : "inactive";
+}
+
+/**
+ * Compares the legacy contracts, as the migration would carry them over, with
+ * the upgradeable stack and lists every field that differs.
+ */
+export async function verifyMigration(
+  hre: HardhatRuntimeEnvironment,
+  legacy: LegacyAddresses,
+  fromBlock = 0
+): Promise<MigrationReport> {
+  const snapshot = await readLegacySnapshot(hre, legacy, fromBlock);
+  const { helper, registry, access } = await upgradedStack(hre);
+
+  const diffs: MigrationDiff[] = [];
+  let checked = 0;
+  const compare = (stream: MigrationStream, key: string, field: string, legacyValue: unknown, upgraded: unknown) => {
+    checked++;
+    if (String(legacyValue) !== String(upgraded)) {
+      diffs.push({ stream, key, field, legacy: String(legacyValue), upgraded: String(upgraded) });
+    }
+  };
+
+  for (const stream of MIGRATION_STREAMS) {
+    compare(stream, "migration", "progress", streamItems(snapshot, stream), await helper.getMigrationProgress(stream));
+  }
+
+  for (const a of snapshot.assets) {
+    const key = `#${a.tokenId}`;
+    const owner = await registry.ownerOf(a.tokenId).catch(() => REVERTED);
+    compare("Assets", key, "owner", a.owner, owner);
+    if (owner === REVERTED) continue;
+
+    const stored = await registry.assets(a.tokenId);
+    for (const field of MEDIA_ASSET_FIELDS) compare("Assets", key, field, a.asset[field], stored[field]);
+    compare("Assets", key, "tokenURI", a.asset.metadataURI, await registry.tokenURI(a.tokenId));
+    compare(
+      "Assets",
+      key,
+      "contributors",
+      contributorList(a.contributors),
+      contributorList(await registry.getAssetContributors(a.tokenId))
+    );
+    compare("Assets", key, "price", a.price, await access.assetPrices(a.tokenId));
+    compare("Assets", key, "publicAccess", a.publicAccess, await access.isPublicAsset(a.tokenId));
+  }
+
+  for (const b of snapshot.hostingBalances) {
+    compare("HostingBalances", b.account, "hostingBalance", b.amount, await registry.hostingBalance(b.account));
+  }
+
+  for (const g of snapshot.accessGrants) {
+    const { expiryTime, isActive, grantTime } = await access.userAccess(g.user, g.assetId);
+    compare(
+      "AccessGrants",
+      `${g.user} #${g.assetId}`,
+      "grant",
+      grantSummary(g.grant),
+      grantSummary({ expiryTime, isActive, grantTime })
+    );
+  }
+
+  return { network: hre.network.name, passed: diffs.length === 0, checked, diffs };
+}
+
+/** Fixed‑width progress table. */
+export function formatMigrationProgress(progress: StreamProgress[]): string {
+  const rows = progress.map((p) => [
+    p.completed ? "✔︎" : "…",
+    p.stream,
+    `${p.migrated}/${p.total}`,
+    `${p.batches} batch(es) this run`,
+  ]);
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  return rows
+    .map((r) =>
+      r
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+/** Fixed‑width diff table for terminals and CI logs. */
+export function formatMigrationReport(report: MigrationReport): string {
+  const summary = report.passed
+    ? `${report.network}: all ${report.checked} migrated fields match ✔︎`
+    : `${report.network}: ${report.diffs.length} of ${report.checked} migrated fields DIFFER`;
+  if (report.passed) return summary;
+
+  const rows = report.diffs.map((d) => [d.stream, d.key, d.field, d.legacy, d.upgraded]);
+  const header = ["stream", "key", "field", "legacy", "upgraded"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (r: string[]) =>
+    r
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+  return [line(header), ...rows.map(line), "", summary].join("\n");
+}
@@ -0,0 +1,112 @@
+import { defineBeacon, defineModule, AnyModule } from "./manifest";
+
+/**
+ * Every contract in the Jeskei stack. Order is only a tie‑breaker – the
+ * deploy script follows `deps`. Labels double as the proxy key in
+ * `JeskeiProxyFactory` and the file name under /deployments.
+ */
+export const MODULES: AnyModule[] = [
+  // ---- Infrastructure ----
+  defineModule({
+    label: "JeskeiProxyFactory",
+    impl: "JeskeiProxyFactory",
+    kind: "uups",
+    deps: [],
+    args: () => [],
+  }),
+  defineModule({
+    label: "UpgradeManager",
+    impl: "UpgradeManager",
+    kind: "uups",
+    deps: ["JeskeiProxyFactory"],
+    args: (a, network) => [a.JeskeiProxyFactory, network.upgradeTimelock],
+  }),
+  // Checkpoints legacy data imports run by `jeskei:migrate`
+  defineModule({
+    label: "MigrationHelper",
+    impl: "MigrationHelper",
+    kind: "uups",
+    deps: [],
+    args: () => [],
+  }),
+
+  // ---- Platform modules (deployed through the factory) ----
+  defineModule({
+    label: "PerformerAuthentication",
+    impl: "PerformerAuthenticationUpgradeable",
+    kind: "factory",
+    deps: ["roleAdmin"],
+    args: (a, network) => [network.performerVerificationPeriod, a.roleAdmin],
+  }),
+  defineModule({
+    label: "AssetRegistry",
+    impl: "AssetRegistryUpgradeable",
+    kind: "factory",
+    deps: ["hostingTreasury", "PerformerAuthentication", "roleAdmin"],
+    args: (a) => [a.hostingTreasury, a.PerformerAuthentication, a.roleAdmin],
+  }),
+  defineModule({
+    label: "RevenueDistributor",
+    impl: "RevenueDistributorUpgradeable",
+    kind: "factory",
+    deps: ["AssetRegistry", "platformTreasury", "roleAdmin"],
+    args: (a) => [a.AssetRegistry, a.platformTreasury, a.roleAdmin],
+  }),
+  defineModule({
+    label: "AdvertisingEngine",
+    impl: "AdvertisingEngineUpgradeable",
+    kind: "factory",
+    deps: ["adTreasury", "roleAdmin"],
+    args: (a) => [a.adTreasury, a.roleAdmin],
+  }),
+  defineModule({
+    label: "ContentAccess",
+    impl: "ContentAccessUpgradeable",
+    kind: "factory",
+    deps: ["AssetRegistry", "RevenueDistributor", "roleAdmin"],
+    args: (a) => [a.AssetRegistry, a.RevenueDistributor, a.roleAdmin],
+  }),
+  defineModule({
+    label: "DigitalStudioDAO",
+    impl: "DigitalStudioDAOUpgradeable",
+    kind: "factory",
+    deps: ["studioFounder", "AssetRegistry"],
+    args: (a, network) => [network.studioName, a.studioFounder, a.AssetRegistry],
+  }),
+  // Every studio created through StudioFactory is a BeaconProxy of StudioBeacon
+  defineBeacon({
+    label: "StudioBeacon",
+    impl: "DigitalStudioDAOUpgradeable",
+  }),
+  defineModule({
+    label: "StudioFactory",
+    impl: "StudioFactoryUpgradeable",
+    kind: "factory",
+    deps: ["StudioBeacon", "AssetRegistry", "roleAdmin"],
+    args: (a) => [a.StudioBeacon, a.AssetRegistry, a.roleAdmin],
+  }),
+  defineModule({
+    label: "CrowdfundingPlatform",
+    impl: "CrowdfundingPlatformUpgradeable",
+    kind: "factory",
+    deps: ["AssetRegistry", "crowdfundingTreasury", "roleAdmin"],
+    args: (a) => [a.AssetRegistry, a.crowdfundingTreasury, a.roleAdmin],
+  }),
+
+  // Non‑upgradeable CommunityGovernance (immutable implementation)
+  defineModule({
+    label: "CommunityGovernance",
+    impl: "CommunityGovernance",
+    kind: "plain",
+    deps: ["AssetRegistry", "RevenueDistributor"],
+    args: (a) => [a.AssetRegistry, a.RevenueDistributor],
+  }),
+  // Timelock for passed governance proposals; relays them through the factory
+  defineModule({
+    label: "GovernanceExecutor",
+    impl: "GovernanceExecutor",
+    kind: "plain",
+    deps: ["JeskeiProxyFactory", "CommunityGovernance"],
+    args: (a, network) => [a.JeskeiProxyFactory, a.CommunityGovernance, network.governanceDelay],
+  }),
+];
@@ -0,0 +1,262 @@
+import { ethers } from "ethers";
+import type { NetworksUserConfig } from "hardhat/types";
+
+/**
+ * Per‑network deployment profiles.
+ *
+ * Everything that differs between networks lives here: RPC and key env vars,
+ * named accounts, confirmation depth, explorer, gas strategy and the
+ * UpgradeManager timelock. `hardhat.config.ts` builds its `networks`,
+ * `namedAccounts` and `etherscan` sections from these profiles and calls
+ * `assertNetworkReady` when the runtime environment is created, so a live
+ * network with a missing treasury fails before any task runs.
+ *
+ * Env lookup: `<ENV_PREFIX>_<NAME>` first (e.g. `POLYGON_HOSTING_TREASURY`),
+ * then the shared `<NAME>` (e.g. `HOSTING_TREASURY`).
+ */
+
+export type GasStrategy =
+  /** Whatever fee data the RPC suggests. */
+  | { kind: "provider" }
+  /** EIP‑1559 with fixed caps. */
+  | { kind: "eip1559"; maxFeePerGasGwei: number; maxPriorityFeePerGasGwei: number }
+  /** Pre‑1559 fixed gas price. */
+  | { kind: "legacy"; gasPriceGwei: number };
+
+export interface NetworkProfile {
+  chainId: number;
+  /** Live networks need an RPC URL and explicit treasuries. */
+  live: boolean;
+  /** Prefix of the network‑specific env vars (`SEPOLIA` → `SEPOLIA_URL`). */
+  envPrefix?: string;
+  /** Blocks to wait for after each deployment transaction. */
+  confirmations: number;
+  /** hardhat‑verify network key and the env var holding its API key. */
+  explorer?: { network: string; apiKeyEnv: string };
+  gas: GasStrategy;
+  /** Seconds between an upgrade proposal and its execution. */
+  upgradeTimelock: number;
+  /** Seconds a passed governance proposal waits in GovernanceExecutor. */
+  governanceDelay: number;
+  /** Name the stack's DigitalStudioDAO is initialized with. */
+  studioName: string;
+  /** Seconds a performer verification lasts before it must be renewed. */
+  performerVerificationPeriod: number;
+}
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+export const NETWORK_PROFILES = {
+  hardhat: {
+    chainId: 31337,
+    live: false,
+    confirmations: 1,
+    gas: { kind: "provider" },
+    upgradeTimelock: DAY,
+    governanceDelay: DAY,
+    studioName: "Jeskei Digital Studio (dev)",
+    performerVerificationPeriod: 365 * DAY,
+  },
+  localhost: {
+    chainId: 31337,
+    live: false,
+    confirmations: 1,
+    gas: { kind: "provider" },
+    upgradeTimelock: DAY,
+    governanceDelay: DAY,
+    studioName: "Jeskei Digital Studio (dev)",
+    performerVerificationPeriod: 365 * DAY,
+  },
+  sepolia: {
+    chainId: 11155111,
+    live: true,
+    envPrefix: "SEPOLIA",
+    confirmations: 5, // Etherscan needs a few blocks before it can verify
+    explorer: { network: "sepolia", apiKeyEnv: "ETHERSCAN_API_KEY" },
+    gas: { kind: "provider" },
+    upgradeTimelock: HOUR,
+    governanceDelay: HOUR,
+    studioName: "Jeskei Digital Studio (Sepolia)",
+    performerVerificationPeriod: 365 * DAY,
+  },
+  polygonMumbai: {
+    chainId: 80001,
+    live: true,
+    envPrefix: "POLYGON_MUMBAI",
+    confirmations: 5,
+    explorer: { network: "polygonMumbai", apiKeyEnv: "POLYGONSCAN_API_KEY" },
+    gas: { kind: "provider" },
+    upgradeTimelock: HOUR,
+    governanceDelay: HOUR,
+    studioName: "Jeskei Digital Studio (Mumbai)",
+    performerVerificationPeriod: 365 * DAY,
+  },
+  polygon: {
+    chainId: 137,
+    live: true,
+    envPrefix: "POLYGON",
+    confirmations: 20, // Polygon PoS reorgs run deeper than Ethereum's
+    explorer: { network: "polygon", apiKeyEnv: "POLYGONSCAN_API_KEY" },
+    gas: { kind: "eip1559", maxFeePerGasGwei: 500, maxPriorityFeePerGasGwei: 40 },
+    upgradeTimelock: 2 * DAY,
+    governanceDelay: 2 * DAY,
+    studioName: "Jeskei Digital Studio",
+    performerVerificationPeriod: 365 * DAY,
+  },
+  arbitrum: {
+    chainId: 42161,
+    live: true,
+    envPrefix: "ARBITRUM",
+    confirmations: 3,
+    explorer: { network: "arbitrumOne", apiKeyEnv: "ARBISCAN_API_KEY" },
+    gas: { kind: "provider" },
+    upgradeTimelock: 2 * DAY,
+    governanceDelay: 2 * DAY,
+    studioName: "Jeskei Digital Studio",
+    performerVerificationPeriod: 365 * DAY,
+  },
+} satisfies Record<string, NetworkProfile>;
+
+export type NetworkName = keyof typeof NETWORK_PROFILES;
+
+/** Treasury named accounts a live network must configure. */
+export const TREASURIES = {
+  hostingTreasury: "HOSTING_TREASURY",
+  platformTreasury: "PLATFORM_TREASURY",
+  adTreasury: "AD_TREASURY",
+  crowdfundingTreasury: "CROWDFUNDING_TREASURY",
+} as const;
+
+type Env = Record<string, string | undefined>;
+
+export class NetworkConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkConfigError";
+  }
+}
+
+export function networkProfile(name: string): NetworkProfile {
+  const profile = (NETWORK_PROFILES as Record<string, NetworkProfile>)[name];
+  if (!profile) {
+    throw new NetworkConfigError(`No profile for network "${name}"; add it to NETWORK_PROFILES in utils/networks.ts`);
+  }
+  return profile;
+}
+
+// RPC URLs are always network specific; keys and addresses may be shared
+function envVar(profile: NetworkProfile, name: string, env: Env, shared = true): { key: string; value?: string } {
+  const scoped = `${profile.envPrefix}_${name}`;
+  if (env[scoped]) return { key: scoped, value: env[scoped] };
+  if (!shared) return { key: scoped };
+  return { key: `${scoped} or ${name}`, value: env[name] || undefined };
+}
+
+/** `networks` section of the Hardhat config. */
+export function buildNetworks(env: Env): NetworksUserConfig {
+  const networks: NetworksUserConfig = {
+    // Local node for tests / scripts
+    hardhat: {
+      chainId: NETWORK_PROFILES.hardhat.chainId,
+      allowUnlimitedContractSize: true, // dev‑only – lets you unit‑test oversize contracts
+    },
+  };
+  for (const [name, profile] of Object.entries(NETWORK_PROFILES) as [string, NetworkProfile][]) {
+    if (name === "hardhat") continue;
+    if (!profile.live) {
+      networks[name] = { url: "http://127.0.0.1:8545", chainId: profile.chainId };
+      continue;
+    }
+    const key = envVar(profile, "PRIVATE_KEY", env).value;
+    networks[name] = {
+      url: envVar(profile, "URL", env, false).value ?? "",
+      accounts: key ? [key] : [],
+      chainId: profile.chainId,
+      ...(profile.gas.kind === "legacy" && { gasPrice: Number(ethers.parseUnits(String(profile.gas.gasPriceGwei), "gwei")) }),
+    };
+  }
+  return networks;
+}
+
+/**
+ * hardhat‑deploy `namedAccounts`. Local networks use the test accounts by
+ * index; live networks only get an entry when the env var is set, and
+ * `assertNetworkReady` rejects the ones that are missing.
+ */
+export function buildNamedAccounts(env: Env): Record<string, Record<string, string | number>> {
+  const accounts: Record<string, Record<string, string | number>> = {
+    // index → address mapping for deploy‑scripts
+    deployer: { default: 0 },
+    // founder of the stack's DigitalStudioDAO; the deployer unless configured
+    studioFounder: { default: 0 },
+    // DEFAULT_ADMIN (and initially every operator role) of the platform modules; the deployer unless configured
+    roleAdmin: { default: 0 },
+  };
+  Object.keys(TREASURIES).forEach((account, i) => (accounts[account] = { default: i + 1 }));
+
+  for (const [name, profile] of Object.entries(NETWORK_PROFILES) as [string, NetworkProfile][]) {
+    if (!profile.live) continue;
+    const deployer = envVar(profile, "DEPLOYER_ADDRESS", env).value;
+    // without an explicit deployer, the network's first (PRIVATE_KEY) account deploys
+    accounts.deployer[name] = deployer ?? 0;
+    accounts.studioFounder[name] = envVar(profile, "STUDIO_FOUNDER", env).value ?? accounts.deployer[name];
+    accounts.roleAdmin[name] = envVar(profile, "ROLE_ADMIN", env).value ?? accounts.deployer[name];
+    for (const [account, variable] of Object.entries(TREASURIES)) {
+      const value = envVar(profile, variable, env).value;
+      if (value) accounts[account][name] = value;
+    }
+  }
+  return accounts;
+}
+
+/** `etherscan.apiKey` for hardhat‑verify, keyed by its network names. */
+export function buildExplorerKeys(env: Env): Record<string, string> {
+  const keys: Record<string, string> = {};
+  for (const profile of Object.values(NETWORK_PROFILES) as NetworkProfile[]) {
+    if (profile.explorer) keys[profile.explorer.network] = env[profile.explorer.apiKeyEnv] ?? "";
+  }
+  return keys;
+}
+
+/**
+ * Throws `NetworkConfigError` listing everything a live network is missing:
+ * RPC URL, deployer key and valid, non‑zero treasury addresses.
+ */
+export function assertNetworkReady(name: string, env: Env): void {
+  const profile = networkProfile(name);
+  if (!profile.live) return;
+
+  const problems: string[] = [];
+  const url = envVar(profile, "URL", env, false);
+  if (!url.value) problems.push(`${url.key} (RPC URL) is not set`);
+  const key = envVar(profile, "PRIVATE_KEY", env);
+  if (!key.value) problems.push(`${key.key} (deployer key) is not set`);
+  for (const variable of Object.values(TREASURIES)) {
+    const { key: envKey, value } = envVar(profile, variable, env);
+    if (!value) problems.push(`${envKey} is not set`);
+    else if (!ethers.isAddress(value) || BigInt(value) === 0n) problems.push(`${envKey} is not a valid address: ${value}`);
+  }
+  if (problems.length) {
+    throw new NetworkConfigError(`Network "${name}" is not configured:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+}
+
+/** Fee overrides for a transaction under the network's gas strategy. */
+export function gasOverrides(profile: NetworkProfile): {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+} {
+  switch (profile.gas.kind) {
+    case "eip1559":
+      return {
+        maxFeePerGas: ethers.parseUnits(String(profile.gas.maxFeePerGasGwei), "gwei"),
+        maxPriorityFeePerGas: ethers.parseUnits(String(profile.gas.maxPriorityFeePerGasGwei), "gwei"),
+      };
+    case "legacy":
+      return { gasPrice: ethers.parseUnits(String(profile.gas.gasPriceGwei), "gwei") };
+    default:
+      return {};
+  }
+}
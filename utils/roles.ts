@@ -0,0 +1,247 @@
+import { Contract, EventLog, ZeroHash, id } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { DeployKind } from "./manifest";
+import { MODULES } from "./modules";
+import { gasOverrides, networkProfile } from "./networks";
+
+/**
+ * Operator roles across the deployed stack (see RolesUpgradeable). A module
+ * supports a role when its deployed ABI declares the `<ROLE>_ROLE` constant;
+ * DEFAULT_ADMIN (the `roleAdmin` named account at deployment) grants and
+ * revokes all of them but UPGRADER, which only its holders hand on: on
+ * factory-deployed modules that is the factory, so their upgrades stay with
+ * `upgradeProxy` and UpgradeManager.
+ *
+ * AccessControl is not enumerable on-chain, so holders are found through
+ * their RoleGranted events and confirmed with `hasRole`.
+ */
+
+export const ROLES = ["DEFAULT_ADMIN", "FEE_ADMIN", "PAUSER", "AD_ORACLE", "VERIFIER_ADMIN", "UPGRADER"] as const;
+export type RoleName = (typeof ROLES)[number];
+
+export interface RoleModule {
+  label: string;
+  kind: DeployKind;
+  contract: Contract;
+  roles: RoleName[];
+}
+
+export interface RoleChange {
+  module: string;
+  role: RoleName;
+  account: string;
+  status: "granted" | "revoked" | "unchanged";
+}
+
+export interface RoleHolders {
+  module: string;
+  role: RoleName;
+  holders: string[];
+}
+
+export interface PauseResult {
+  module: string;
+  status: "paused" | "unpaused" | "unchanged" | "skipped" | "failed";
+  reason?: string;
+}
+
+export interface RoleChangeOptions {
+  role: string;
+  account: string;
+  /** Labels to apply the change to; every module supporting the role by default. */
+  modules?: string[];
+  from?: string;
+}
+
+function same(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Accepts `pauser`, `PAUSER` or `PAUSER_ROLE`. */
+export function parseRole(name: string): RoleName {
+  const role = name.toUpperCase().replace(/_ROLE$/, "") as RoleName;
+  if (!ROLES.includes(role)) throw new Error(`Unknown role "${name}"; expected one of ${ROLES.join(", ")}`);
+  return role;
+}
+
+export function roleId(role: RoleName): string {
+  return role === "DEFAULT_ADMIN" ? ZeroHash : id(`${role}_ROLE`);
+}
+
+async function signerFor(hre: HardhatRuntimeEnvironment, from?: string) {
+  const accounts = await hre.getNamedAccounts();
+  return hre.ethers.getSigner(from ? accounts[from] ?? from : accounts.deployer);
+}
+
+/** Deployed modules that gate anything by role, in manifest order. */
+export async function roleModules(hre: HardhatRuntimeEnvironment, from?: string): Promise<RoleModule[]> {
+  const signer = await signerFor(hre, from);
+  const found: RoleModule[] = [];
+  for (const mod of MODULES) {
+    const deployment = await hre.deployments.getOrNull(mod.label);
+    if (!deployment) continue;
+    const contract = new Contract(deployment.address, deployment.abi, signer);
+    if (!contract.interface.getFunction("hasRole")) continue;
+    const roles = ROLES.filter((r) => r === "DEFAULT_ADMIN" || contract.interface.getFunction(`${r}_ROLE`));
+    found.push({ label: mod.label, kind: mod.kind, contract, roles });
+  }
+  return found;
+}
+
+function selectModules(all: RoleModule[], role: RoleName, labels?: string[]): RoleModule[] {
+  if (!labels?.length) return all.filter((m) => m.roles.includes(role));
+  return labels.map((label) => {
+    const mod = all.find((m) => m.label === label);
+    if (!mod) throw new Error(`${label} is not a deployed module with roles`);
+    if (!mod.roles.includes(role)) throw new Error(`${label} has no ${role}_ROLE`);
+    return mod;
+  });
+}
+
+async function changeRole(
+  hre: HardhatRuntimeEnvironment,
+  action: "grantRole" | "revokeRole",
+  opts: RoleChangeOptions
+): Promise<RoleChange[]> {
+  const role = parseRole(opts.role);
+  const gas = gasOverrides(networkProfile(hre.network.name));
+  const self = await (await signerFor(hre, opts.from)).getAddress();
+  const all = await roleModules(hre, opts.from);
+  const targets = selectModules(all, role, opts.modules);
+
+  const changes: RoleChange[] = [];
+  const pending: RoleModule[] = [];
+  for (const mod of targets) {
+    const { contract } = mod;
+    const admin = await contract.hasRole(await contract.getRoleAdmin(roleId(role)), self);
+    if (!admin && role === "UPGRADER" && mod.kind === "factory") {
+      // the defaults cover the modules the signer can actually change it on
+      if (!opts.modules?.length) continue;
+      throw new Error(`${role} on ${mod.label} stays with JeskeiProxyFactory; upgrade it with jeskei:upgrade:propose`);
+    }
+    if (!admin) throw new Error(`${self} cannot ${action === "grantRole" ? "grant" : "revoke"} ${role} on ${mod.label}`);
+
+    const holds = await contract.hasRole(roleId(role), opts.account);
+    if (holds === (action === "grantRole")) {
+      changes.push({ module: mod.label, role, account: opts.account, status: "unchanged" });
+      continue;
+    }
+    pending.push(mod);
+    changes.push({
+      module: mod.label,
+      role,
+      account: opts.account,
+      status: action === "grantRole" ? "granted" : "revoked",
+    });
+  }
+
+  for (const { contract } of pending) await (await contract.getFunction(action)(roleId(role), opts.account, gas)).wait();
+  return changes;
+}
+
+export function grantRole(hre: HardhatRuntimeEnvironment, opts: RoleChangeOptions): Promise<RoleChange[]> {
+  return changeRole(hre, "grantRole", opts);
+}
+
+export function revokeRole(hre: HardhatRuntimeEnvironment, opts: RoleChangeOptions): Promise<RoleChange[]> {
+  return changeRole(hre, "revokeRole", opts);
+}
+
+/** Current holders of `role` (every role when omitted) on each module supporting it. */
+export async function listRoleHolders(
+  hre: HardhatRuntimeEnvironment,
+  opts: { role?: string; modules?: string[]; fromBlock?: number } = {}
+): Promise<RoleHolders[]> {
+  const all = await roleModules(hre);
+  const result: RoleHolders[] = [];
+  for (const role of opts.role ? [parseRole(opts.role)] : ROLES) {
+    for (const { label, contract } of selectModules(all, role, opts.modules)) {
+      const roleHash = roleId(role);
+      const candidates: string[] = [];
+      for (const event of await contract.queryFilter(contract.filters.RoleGranted(roleHash), opts.fromBlock ?? 0)) {
+        // RoleGranted(role, account, sender); deployment ABIs may lack parameter names
+        const account = (event as EventLog).args[1] as string;
+        if (!candidates.some((c) => same(c, account))) candidates.push(account);
+      }
+      const holders = [];
+      for (const account of candidates) if (await contract.hasRole(roleHash, account)) holders.push(account);
+      result.push({ module: label, role, holders });
+    }
+  }
+  return result;
+}
+
+/**
+ * Pauses (or unpauses) every deployed module with a PAUSER_ROLE; pausable
+ * modules without one (the founder-run studio) are reported as skipped. A
+ * module that fails does not stop the others, so an incident responder gets
+ * as much of the platform halted as their key allows.
+ */
+export async function pauseAll(
+  hre: HardhatRuntimeEnvironment,
+  opts: { unpause?: boolean; from?: string } = {}
+): Promise<PauseResult[]> {
+  const gas = gasOverrides(networkProfile(hre.network.name));
+  const self = await (await signerFor(hre, opts.from)).getAddress();
+  const action = opts.unpause ? "unpause" : "pause";
+  const results: PauseResult[] = [];
+
+  for (const mod of MODULES) {
+    const deployment = await hre.deployments.getOrNull(mod.label);
+    if (!deployment) continue;
+    const contract = new Contract(deployment.address, deployment.abi, await hre.ethers.getSigner(self));
+    if (!contract.interface.getFunction("pause")) continue;
+    if (!contract.interface.getFunction("PAUSER_ROLE")) {
+      results.push({ module: mod.label, status: "skipped", reason: "no PAUSER_ROLE" });
+      continue;
+    }
+
+    try {
+      if ((await contract.paused()) !== !opts.unpause) {
+        if (await contract.hasRole(roleId("PAUSER"), self)) {
+          await (await contract.getFunction(action)(gas)).wait();
+        } else {
+          results.push({ module: mod.label, status: "failed", reason: `${self} lacks PAUSER_ROLE` });
+          continue;
+        }
+        results.push({ module: mod.label, status: opts.unpause ? "unpaused" : "paused" });
+      } else {
+        results.push({ module: mod.label, status: "unchanged" });
+      }
+    } catch (err) {
+      results.push({ module: mod.label, status: "failed", reason: (err as Error).message.split("\n")[0] });
+    }
+  }
+  return results;
+}
+
+function table(header: string[], rows: string[][]): string {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (r: string[]) =>
+    r
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+  return [line(header), ...rows.map(line)].join("\n");
+}
+
+export function formatRoleChanges(changes: RoleChange[]): string {
+  return table(
+    ["module", "role", "account", "status"],
+    changes.map((c) => [c.module, c.role, c.account, c.status])
+  );
+}
+
+export function formatRoleHolders(list: RoleHolders[]): string {
+  return table(
+    ["module", "role", "holders"],
+    list.map((l) => [l.module, l.role, l.holders.join(", ") || "none"])
+  );
+}
+
+export function formatPauseResults(results: PauseResult[]): string {
+  return table(
+    ["module", "status", "reason"],
+    results.map((r) => [r.module, r.status, r.reason ?? ""])
+  );
+}
@@ -0,0 +1,700 @@
+import * as fs from "fs";
+import { ContractTransactionResponse, Interface, Wallet, id, keccak256, parseEther, toUtf8Bytes } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { MODULES } from "./modules";
+import { networkProfile } from "./networks";
+import { grantRole } from "./roles";
+
+/**
+ * Seeds a local devnet from a declarative scenario file (see
+ * `scenarios/demo.json`). `planScenario` turns the file into an explicit
+ * plan – filling in defaults, validating references and appending whatever
+ * `generate` asks for from a seeded PRNG – and `runScenario` deploys the
+ * stack, replays the plan and returns a manifest of what it created.
+ *
+ * Accounts are dev wallets derived from their scenario name alone and funded
+ * with `hardhat_setBalance`, so the same name has the same address in every
+ * scenario; the same scenario and seed on a fresh node produce the same
+ * chain state, which is what makes load tests comparable run to run.
+ */
+
+const DAY = 24 * 60 * 60;
+
+export const PROPOSAL_CATEGORIES = ["FeatureRequest", "Partnership", "GeneralGovernance"] as const;
+// CommunityGovernance.ProposalCategory; PlatformFee proposals change live fees and are left to jeskei:gov:propose
+const CATEGORY_INDEX = { FeatureRequest: 1, Partnership: 2, GeneralGovernance: 3 } as const;
+const PROPOSAL_STATES = ["Active", "Defeated", "Succeeded", "Queued", "Executed", "Cancelled"] as const;
+
+export interface AccountSpec {
+  name: string;
+  /** ETH the account is funded with; 1000 by default. */
+  balance?: string;
+}
+
+export interface ContributorSpec {
+  account: string;
+  /** Basis points of the asset's revenue. */
+  share: number;
+  role: string;
+}
+
+export interface AssetSpec {
+  /** Name other entries refer to the asset by. */
+  key: string;
+  creator: string;
+  metadataURI?: string;
+  type?: string;
+  storage?: string;
+  public?: boolean;
+  /** ContentAccess price in ETH; 0 (the default) keeps it off sale. */
+  price?: string;
+  hostingFee?: string;
+  /** EIP-2981 rate in basis points. */
+  royaltyRate?: number;
+  contributors?: ContributorSpec[];
+}
+
+export interface PerformerSpec {
+  account: string;
+  /** Hashed into the performer's identity hash. */
+  identity: string;
+  publicKey?: string;
+  metadataURI?: string;
+}
+
+export interface PurchaseSpec {
+  buyer: string;
+  asset: string;
+  /** Days of access, each paid at the asset price. */
+  days: number;
+}
+
+export interface ViewSpec {
+  viewer: string;
+  creator: string;
+}
+
+export interface CampaignSpec {
+  key: string;
+  advertiser: string;
+  metadataURI?: string;
+  budget: string;
+  viewerRate: string;
+  creatorRate: string;
+  days: number;
+  tags?: string[];
+  views?: ViewSpec[];
+}
+
+export interface ProjectSpec {
+  name: string;
+  description?: string;
+  budget: string;
+  /** Basis points per studio member, summing to 10000. */
+  shares: Record<string, number>;
+  tags?: string[];
+}
+
+export interface StudioSpec {
+  key: string;
+  founder: string;
+  name: string;
+  members?: { account: string; role: string }[];
+  projects?: ProjectSpec[];
+}
+
+export interface ProposalSpec {
+  proposer: string;
+  title: string;
+  description?: string;
+  category: (typeof PROPOSAL_CATEGORIES)[number];
+  votes?: Record<string, "for" | "against">;
+}
+
+/** Random entities appended to the explicit ones; ranges are inclusive. */
+export interface GenerateSpec {
+  creators?: number;
+  viewers?: number;
+  assetsPerCreator?: [number, number];
+  contributorsPerAsset?: [number, number];
+  purchases?: number;
+  campaigns?: number;
+  viewsPerCampaign?: [number, number];
+}
+
+export interface ScenarioSpec {
+  name: string;
+  seed?: number;
+  accounts?: AccountSpec[];
+  /** Contributor roles AssetRegistry only accepts verified performers for. */
+  performerRoles?: string[];
+  performers?: PerformerSpec[];
+  verifiedCreators?: string[];
+  assets?: AssetSpec[];
+  purchases?: PurchaseSpec[];
+  campaigns?: CampaignSpec[];
+  studios?: StudioSpec[];
+  proposals?: ProposalSpec[];
+  /** Days to move the chain forward once everything is in place, e.g. to expire access. */
+  advanceDays?: number;
+  generate?: GenerateSpec;
+}
+
+export interface ScenarioPlan {
+  name: string;
+  seed: number;
+  accounts: Required<AccountSpec>[];
+  performerRoles: string[];
+  performers: PerformerSpec[];
+  verifiedCreators: string[];
+  assets: AssetSpec[];
+  purchases: PurchaseSpec[];
+  campaigns: CampaignSpec[];
+  studios: StudioSpec[];
+  proposals: ProposalSpec[];
+  advanceDays: number;
+}
+
+export interface ScenarioManifest {
+  scenario: string;
+  seed: number;
+  network: string;
+  chainId: number;
+  /** Chain time once the scenario, including `advanceDays`, has run. */
+  timestamp: number;
+  contracts: Record<string, string>;
+  accounts: Record<string, { address: string; privateKey: string }>;
+  performers: { account: string; address: string; identityHash: string }[];
+  assets: {
+    key: string;
+    id: number;
+    creator: string;
+    price: string;
+    public: boolean;
+    contributors: ContributorSpec[];
+  }[];
+  purchases: { buyer: string; asset: string; assetId: number; expiresAt: number; active: boolean }[];
+  campaigns: { key: string; id: number; advertiser: string; views: number }[];
+  studios: { key: string; name: string; address: string; founder: string; members: string[]; projects: string[] }[];
+  proposals: { id: number; title: string; proposer: string; state: string }[];
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenarioError";
+  }
+}
+
+// --------------------------------------------------------------------
+// Planning
+// --------------------------------------------------------------------
+
+/** mulberry32: small, fast and identical on every platform. */
+function prng(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = ([lo, hi]: [number, number]) => lo + Math.floor(next() * (hi - lo + 1));
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)];
+  return { int, pick };
+}
+
+function names(prefix: string, count: number): string[] {
+  const width = String(count).length;
+  return Array.from({ length: count }, (_, i) => `${prefix}-${String(i + 1).padStart(width, "0")}`);
+}
+
+/** Appends the generated entities to `plan`; returns the accounts it made up. */
+function generate(plan: ScenarioPlan, spec: GenerateSpec): string[] {
+  const random = prng(plan.seed);
+  const creators = names("creator", spec.creators ?? 0);
+  const viewers = names("viewer", spec.viewers ?? 0);
+
+  for (const creator of creators) {
+    for (let i = 1, n = random.int(spec.assetsPerCreator ?? [1, 3]); i <= n; i++) {
+      const others = creators.filter((c) => c !== creator);
+      const contributors: ContributorSpec[] = [];
+      for (let c = random.int(spec.contributorsPerAsset ?? [0, 2]); c > 0 && others.length > 0; c--) {
+        const account = others.splice(Math.floor(random.int([0, others.length - 1])), 1)[0];
+        contributors.push({
+          account,
+          share: random.int([5, 25]) * 100,
+          role: random.pick(["editor", "composer", "writer"]),
+        });
+      }
+      const isPublic = random.int([1, 10]) === 1;
+      plan.assets.push({
+        key: `${creator}/asset-${i}`,
+        creator,
+        type: random.pick(["video", "audio", "image", "document"]),
+        public: isPublic,
+        price: isPublic ? "0" : random.pick(["0.001", "0.005", "0.01", "0.05"]),
+        contributors,
+      });
+    }
+  }
+
+  const forSale = plan.assets.filter((a) => !a.public && a.price !== "0");
+  const buyers = viewers.length > 0 ? viewers : creators;
+  if (forSale.length > 0 && buyers.length > 0) {
+    for (let i = 0; i < (spec.purchases ?? 0); i++) {
+      plan.purchases.push({
+        buyer: random.pick(buyers),
+        asset: random.pick(forSale).key,
+        days: random.pick([1, 7, 30, 90]),
+      });
+    }
+  }
+
+  const assetCreators = [...new Set(plan.assets.map((a) => a.creator))];
+  const advertisers = names("advertiser", spec.campaigns ?? 0);
+  for (const advertiser of advertisers) {
+    const views: ViewSpec[] = [];
+    if (buyers.length > 0 && assetCreators.length > 0) {
+      for (let v = random.int(spec.viewsPerCampaign ?? [5, 20]); v > 0; v--) {
+        views.push({ viewer: random.pick(buyers), creator: random.pick(assetCreators) });
+      }
+    }
+    plan.campaigns.push({
+      key: `${advertiser}/campaign`,
+      advertiser,
+      budget: "1",
+      viewerRate: "0.0005",
+      creatorRate: "0.001",
+      days: random.pick([7, 14, 30]),
+      tags: [random.pick(["video", "audio", "image", "document"])],
+      views,
+    });
+  }
+  return [...creators, ...viewers, ...advertisers];
+}
+
+function ether(value: string, what: string) {
+  try {
+    return parseEther(value);
+  } catch {
+    throw new ScenarioError(`${what}: "${value}" is not an ETH amount`);
+  }
+}
+
+function validate(plan: ScenarioPlan) {
+  const accounts = new Set(plan.accounts.map((a) => a.name));
+  const account = (name: string, what: string) => {
+    if (!accounts.has(name)) throw new ScenarioError(`${what}: unknown account "${name}"`);
+  };
+  const unique = (keys: string[], what: string) => {
+    const seen = new Set<string>();
+    for (const key of keys) {
+      if (seen.has(key)) throw new ScenarioError(`Duplicate ${what} "${key}"`);
+      seen.add(key);
+    }
+  };
+
+  unique(
+    plan.assets.map((a) => a.key),
+    "asset"
+  );
+  unique(
+    plan.campaigns.map((c) => c.key),
+    "campaign"
+  );
+  unique(
+    plan.studios.map((s) => s.key),
+    "studio"
+  );
+
+  for (const a of plan.assets) {
+    const what = `asset "${a.key}"`;
+    ether(a.price ?? "0", what);
+    ether(a.hostingFee ?? "0.01", what);
+    const total = (a.contributors ?? []).reduce((sum, c) => sum + c.share, 0);
+    if (total > 10000) throw new ScenarioError(`${what}: contributor shares exceed 10000 basis points`);
+    for (const c of a.contributors ?? []) {
+      if (c.account === a.creator) throw new ScenarioError(`${what}: the creator cannot be a contributor`);
+    }
+  }
+  const assets = new Map(plan.assets.map((a) => [a.key, a]));
+  for (const p of plan.purchases) {
+    const asset = assets.get(p.asset);
+    if (!asset) throw new ScenarioError(`purchase by "${p.buyer}": unknown asset "${p.asset}"`);
+    if (asset.public || ether(asset.price ?? "0", `asset "${asset.key}"`) === 0n) {
+      throw new ScenarioError(`purchase by "${p.buyer}": asset "${p.asset}" is not for sale`);
+    }
+    if (!Number.isInteger(p.days) || p.days < 1 || p.days > 365) {
+      throw new ScenarioError(`purchase by "${p.buyer}": days must be a whole number from 1 to 365`);
+    }
+  }
+  for (const c of plan.campaigns) {
+    for (const value of [c.budget, c.viewerRate, c.creatorRate]) ether(value, `campaign "${c.key}"`);
+    if (!(c.days > 0)) throw new ScenarioError(`campaign "${c.key}": days must be positive`);
+  }
+  for (const s of plan.studios) {
+    const members = new Set([s.founder, ...(s.members ?? []).map((m) => m.account)]);
+    for (const p of s.projects ?? []) {
+      const what = `studio "${s.key}" project "${p.name}"`;
+      ether(p.budget, what);
+      const total = Object.values(p.shares).reduce((sum, share) => sum + share, 0);
+      if (total !== 10000) throw new ScenarioError(`${what}: shares must sum to 10000 basis points`);
+      for (const name of Object.keys(p.shares)) {
+        if (!members.has(name)) throw new ScenarioError(`${what}: "${name}" is not a studio member`);
+      }
+    }
+  }
+  for (const p of plan.proposals) {
+    if (!PROPOSAL_CATEGORIES.includes(p.category)) {
+      throw new ScenarioError(`proposal "${p.title}": category must be one of ${PROPOSAL_CATEGORIES.join(", ")}`);
+    }
+  }
+
+  // every name is declared by now; this catches typos in references
+  for (const p of plan.performers) account(p.account, "performer");
+  for (const name of plan.verifiedCreators) account(name, "verified creator");
+  for (const a of plan.assets) for (const c of a.contributors ?? []) account(c.account, `asset "${a.key}"`);
+  for (const c of plan.campaigns) for (const v of c.views ?? []) account(v.viewer, `campaign "${c.key}" view`);
+  for (const p of plan.proposals)
+    for (const voter of Object.keys(p.votes ?? {})) account(voter, `proposal "${p.title}"`);
+}
+
+/**
+ * Expands a scenario into the explicit plan `runScenario` replays. `seed`
+ * overrides the file's; generated entities follow the explicit ones, so a
+ * hand-written scenario keeps its ids whatever is generated.
+ */
+export function planScenario(spec: ScenarioSpec, seed?: number): ScenarioPlan {
+  if (!spec.name) throw new ScenarioError("Scenario needs a name");
+  const plan: ScenarioPlan = {
+    name: spec.name,
+    seed: seed ?? spec.seed ?? 1,
+    accounts: [],
+    performerRoles: [...(spec.performerRoles ?? [])],
+    performers: [...(spec.performers ?? [])],
+    verifiedCreators: [...(spec.verifiedCreators ?? [])],
+    assets: [...(spec.assets ?? [])],
+    purchases: [...(spec.purchases ?? [])],
+    campaigns: [...(spec.campaigns ?? [])],
+    studios: [...(spec.studios ?? [])],
+    proposals: [...(spec.proposals ?? [])],
+    advanceDays: spec.advanceDays ?? 0,
+  };
+  const made = spec.generate ? generate(plan, spec.generate) : [];
+
+  // accounts are declared explicitly, by acting in the scenario or by being generated
+  const declared = new Map((spec.accounts ?? []).map((a) => [a.name, a.balance ?? "1000"]));
+  const actors = [
+    ...made,
+    ...plan.assets.map((a) => a.creator),
+    ...plan.purchases.map((p) => p.buyer),
+    ...plan.campaigns.map((c) => c.advertiser),
+    ...plan.studios.flatMap((s) => [s.founder, ...(s.members ?? []).map((m) => m.account)]),
+    ...plan.proposals.map((p) => p.proposer),
+  ];
+  for (const name of actors) if (!declared.has(name)) declared.set(name, "1000");
+  plan.accounts = [...declared].map(([name, balance]) => ({ name, balance }));
+
+  validate(plan);
+  return plan;
+}
+
+export function loadScenario(file: string): ScenarioSpec {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8")) as ScenarioSpec;
+  } catch (err) {
+    throw new ScenarioError(`Cannot read scenario ${file}: ${(err as Error).message}`);
+  }
+}
+
+// --------------------------------------------------------------------
+// Running
+// --------------------------------------------------------------------
+
+/** Dev key of a scenario account; public by construction, never use it on a live network. */
+export function scenarioKey(name: string): string {
+  return keccak256(toUtf8Bytes(`jeskei-devnet:${name}`));
+}
+
+async function step<T>(what: string, action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (err) {
+    const reason = (err as { shortMessage?: string }).shortMessage ?? (err as Error).message;
+    throw new ScenarioError(`${what}: ${reason}`);
+  }
+}
+
+async function emitted(iface: Interface, tx: ContractTransactionResponse, event: string) {
+  const receipt = await tx.wait();
+  const parsed = receipt!.logs.map((log) => iface.parseLog(log)).find((p) => p?.name === event);
+  return { args: parsed!.args, blockNumber: receipt!.blockNumber };
+}
+
+/**
+ * Deploys the stack where it is missing and replays `plan`. Local networks
+ * only: accounts are funded with `hardhat_setBalance` and `advanceDays`
+ * moves the chain's clock.
+ */
+export async function runScenario(
+  hre: HardhatRuntimeEnvironment,
+  plan: ScenarioPlan,
+  log: (message: string) => void = () => {}
+): Promise<ScenarioManifest> {
+  if (networkProfile(hre.network.name).live) {
+    throw new ScenarioError(`Scenarios seed local networks only, not ${hre.network.name}`);
+  }
+  const { ethers, deployments } = hre;
+  const provider = ethers.provider;
+
+  log("deploying the stack");
+  await deployments.run(["FullStack"], { resetMemory: false, writeDeploymentsToFiles: hre.network.name !== "hardhat" });
+  const at = async (label: string) => (await deployments.get(label)).address;
+  const { deployer } = await hre.getNamedAccounts();
+  const admin = await ethers.getSigner(deployer);
+  const registry = await ethers.getContractAt("AssetRegistryUpgradeable", await at("AssetRegistry"));
+  const access = await ethers.getContractAt("ContentAccessUpgradeable", await at("ContentAccess"));
+  const auth = await ethers.getContractAt("PerformerAuthenticationUpgradeable", await at("PerformerAuthentication"));
+  const engine = await ethers.getContractAt("AdvertisingEngineUpgradeable", await at("AdvertisingEngine"));
+  const studios = await ethers.getContractAt("StudioFactoryUpgradeable", await at("StudioFactory"));
+  const governance = await ethers.getContractAt("CommunityGovernance", await at("CommunityGovernance"));
+
+  const manifest: ScenarioManifest = {
+    scenario: plan.name,
+    seed: plan.seed,
+    network: hre.network.name,
+    chainId: Number((await provider.getNetwork()).chainId),
+    timestamp: 0,
+    contracts: {},
+    accounts: {},
+    performers: [],
+    assets: [],
+    purchases: [],
+    campaigns: [],
+    studios: [],
+    proposals: [],
+  };
+  for (const mod of MODULES) {
+    const deployment = await deployments.getOrNull(mod.label);
+    if (deployment) manifest.contracts[mod.label] = deployment.address;
+  }
+
+  log(`funding ${plan.accounts.length} account(s)`);
+  const wallets = new Map<string, Wallet>();
+  for (const { name, balance } of plan.accounts) {
+    const wallet = new Wallet(scenarioKey(name), provider);
+    await provider.send("hardhat_setBalance", [wallet.address, `0x${parseEther(balance).toString(16)}`]);
+    wallets.set(name, wallet);
+    manifest.accounts[name] = { address: wallet.address, privateKey: wallet.privateKey };
+  }
+  const wallet = (name: string) => wallets.get(name)!;
+
+  // the deployer acts as verifier and ad oracle, through the roles the factory hands out
+  if (plan.performers.length + plan.verifiedCreators.length + plan.performerRoles.length > 0) {
+    await grantRole(hre, {
+      role: "VERIFIER_ADMIN",
+      account: deployer,
+      modules: ["PerformerAuthentication", "AssetRegistry"],
+    });
+    if (!(await auth.verifiers(deployer))) await (await auth.connect(admin).addVerifier(deployer)).wait();
+  }
+  if (plan.campaigns.some((c) => c.views?.length)) {
+    await grantRole(hre, { role: "AD_ORACLE", account: deployer, modules: ["AdvertisingEngine"] });
+  }
+
+  for (const role of plan.performerRoles) {
+    await step(`performer role "${role}"`, async () =>
+      (await registry.connect(admin).setPerformerRole(role, true)).wait()
+    );
+  }
+  log(`verifying ${plan.performers.length} performer(s)`);
+  for (const p of plan.performers) {
+    const address = wallet(p.account).address;
+    const identityHash = id(p.identity);
+    await step(`performer "${p.account}"`, async () =>
+      (await auth.connect(admin).verifyPerformer(address, identityHash, p.publicKey ?? "", p.metadataURI ?? "")).wait()
+    );
+    manifest.performers.push({ account: p.account, address, identityHash });
+  }
+  for (const name of plan.verifiedCreators) {
+    await step(`verified creator "${name}"`, async () =>
+      (await registry.connect(admin).verifyCreator(wallet(name).address)).wait()
+    );
+  }
+
+  log(`creating ${plan.assets.length} asset(s)`);
+  const assetIds = new Map<string, number>();
+  for (const a of plan.assets) {
+    await step(`asset "${a.key}"`, async () => {
+      const creator = wallet(a.creator);
+      const price = parseEther(a.price ?? "0");
+      const created = await emitted(
+        registry.interface,
+        await registry
+          .connect(creator)
+          .createAsset(
+            id(`${plan.name}:${a.key}`),
+            a.metadataURI ?? `ipfs://${a.key}`,
+            a.type ?? "video",
+            a.storage ?? "ipfs",
+            a.public ?? false,
+            price,
+            { value: parseEther(a.hostingFee ?? "0.01") }
+          ),
+        "AssetCreated"
+      );
+      const tokenId = created.args.tokenId as bigint;
+      for (const c of a.contributors ?? []) {
+        await (await registry.connect(creator).offerShare(tokenId, wallet(c.account).address, c.share, c.role)).wait();
+        await (await registry.connect(wallet(c.account)).acceptShare(tokenId)).wait();
+      }
+      if (a.royaltyRate) await (await registry.connect(creator).setRoyaltyRate(tokenId, a.royaltyRate)).wait();
+      if (price > 0n && !a.public) await (await access.connect(creator).setAssetPrice(tokenId, price)).wait();
+
+      assetIds.set(a.key, Number(tokenId));
+      manifest.assets.push({
+        key: a.key,
+        id: Number(tokenId),
+        creator: a.creator,
+        price: a.price ?? "0",
+        public: a.public ?? false,
+        contributors: a.contributors ?? [],
+      });
+    });
+  }
+
+  log(`making ${plan.purchases.length} purchase(s)`);
+  for (const p of plan.purchases) {
+    const assetId = assetIds.get(p.asset)!;
+    const price = parseEther(plan.assets.find((a) => a.key === p.asset)!.price!);
+    await step(`purchase of "${p.asset}" by "${p.buyer}"`, async () => {
+      const value = price * BigInt(p.days);
+      await (await access.connect(wallet(p.buyer)).purchaseAccess(assetId, p.days * DAY, { value })).wait();
+    });
+  }
+
+  log(`running ${plan.campaigns.length} campaign(s)`);
+  for (const c of plan.campaigns) {
+    await step(`campaign "${c.key}"`, async () => {
+      const created = await emitted(
+        engine.interface,
+        await engine
+          .connect(wallet(c.advertiser))
+          .createCampaign(
+            c.metadataURI ?? `ipfs://${c.key}`,
+            parseEther(c.viewerRate),
+            parseEther(c.creatorRate),
+            c.days * DAY,
+            c.tags ?? [],
+            { value: parseEther(c.budget) }
+          ),
+        "CampaignCreated"
+      );
+      const campaignId = created.args.campaignId as bigint;
+      for (const v of c.views ?? []) {
+        await (
+          await engine.connect(admin).recordAdView(campaignId, wallet(v.viewer).address, wallet(v.creator).address)
+        ).wait();
+      }
+      manifest.campaigns.push({
+        key: c.key,
+        id: Number(campaignId),
+        advertiser: c.advertiser,
+        views: c.views?.length ?? 0,
+      });
+    });
+  }
+
+  log(`founding ${plan.studios.length} studio(s)`);
+  for (const s of plan.studios) {
+    await step(`studio "${s.key}"`, async () => {
+      const founder = wallet(s.founder);
+      const created = await emitted(
+        studios.interface,
+        await studios.connect(founder).createStudio(s.name),
+        "StudioCreated"
+      );
+      const studio = await ethers.getContractAt("DigitalStudioDAOUpgradeable", created.args.studio as string, founder);
+      for (const m of s.members ?? []) await (await studio.addMember(wallet(m.account).address, m.role)).wait();
+      for (const p of s.projects ?? []) {
+        const members = Object.keys(p.shares);
+        await (
+          await studio.createProject(
+            p.name,
+            p.description ?? "",
+            parseEther(p.budget),
+            members.map((m) => wallet(m).address),
+            members.map((m) => p.shares[m]),
+            p.tags ?? []
+          )
+        ).wait();
+      }
+      manifest.studios.push({
+        key: s.key,
+        name: s.name,
+        address: created.args.studio as string,
+        founder: s.founder,
+        members: (s.members ?? []).map((m) => m.account),
+        projects: (s.projects ?? []).map((p) => p.name),
+      });
+    });
+  }
+
+  if (plan.proposals.length > 0) {
+    log(`opening ${plan.proposals.length} proposal(s)`);
+    // voting power is checkpointed, so it has to be in place before the proposals' snapshot
+    for (const { name } of plan.accounts) await (await governance.updateVotingPower(wallet(name).address)).wait();
+    await provider.send("evm_mine", []);
+  }
+  for (const p of plan.proposals) {
+    await step(`proposal "${p.title}"`, async () => {
+      const created = await emitted(
+        governance.interface,
+        await governance
+          .connect(wallet(p.proposer))
+          .createProposal(p.title, p.description ?? p.title, CATEGORY_INDEX[p.category]),
+        "ProposalCreated"
+      );
+      const proposalId = created.args.proposalId as bigint;
+      for (const [voter, support] of Object.entries(p.votes ?? {})) {
+        await (await governance.connect(wallet(voter)).vote(proposalId, support === "for", "")).wait();
+      }
+      manifest.proposals.push({ id: Number(proposalId), title: p.title, proposer: p.proposer, state: "" });
+    });
+  }
+
+  if (plan.advanceDays > 0) {
+    log(`advancing ${plan.advanceDays} day(s)`);
+    await provider.send("evm_increaseTime", [plan.advanceDays * DAY]);
+    await provider.send("evm_mine", []);
+  }
+
+  // what the front end sees after the time travel
+  for (const p of plan.purchases) {
+    const assetId = assetIds.get(p.asset)!;
+    const grant = await access.userAccess(wallet(p.buyer).address, assetId);
+    manifest.purchases.push({
+      buyer: p.buyer,
+      asset: p.asset,
+      assetId,
+      expiresAt: Number(grant.expiryTime),
+      active: await access.hasAccess(wallet(p.buyer).address, assetId),
+    });
+  }
+  for (const p of manifest.proposals) p.state = PROPOSAL_STATES[Number(await governance.state(p.id))];
+  manifest.timestamp = (await provider.getBlock("latest"))!.timestamp;
+  return manifest;
+}
+
+export function formatScenarioSummary(m: ScenarioManifest): string {
+  const active = m.purchases.filter((p) => p.active).length;
+  return [
+    `${m.scenario} (seed ${m.seed}) on ${m.network}, chain time ${new Date(m.timestamp * 1000).toISOString()}`,
+    `  ${Object.keys(m.accounts).length} accounts · ${m.performers.length} verified performers`,
+    `  ${m.assets.length} assets · ${m.purchases.length} purchases (${active} still active)`,
+    `  ${m.campaigns.length} campaigns · ${m.campaigns.reduce((sum, c) => sum + c.views, 0)} ad views`,
+    `  ${m.studios.length} studios · ${m.proposals.length} proposals`,
+  ].join("\n");
+}
@@ -0,0 +1,258 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Upgrade safety checks, run before an implementation is proposed to the
+ * `UpgradeManager`.
+ *
+ * Storage layouts come from solc's `storageLayout` output (hardhat‑deploy adds
+ * it to every compilation) and are recorded next to each proxy in its
+ * deployment file, so a proposal is always compared with the layout of the
+ * version that is actually live rather than with whatever is in the tree.
+ */
+
+export interface StorageEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  contract?: string;
+}
+
+export interface StorageType {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: StorageEntry[];
+}
+
+export interface StorageLayout {
+  storage: StorageEntry[];
+  types: Record<string, StorageType> | null;
+}
+
+export interface UpgradeIssue {
+  kind: "removed" | "moved" | "retyped" | "gap" | "authorizeUpgrade" | "disableInitializers";
+  message: string;
+}
+
+export class UpgradeSafetyError extends Error {
+  constructor(
+    readonly contractName: string,
+    readonly issues: UpgradeIssue[]
+  ) {
+    super(`${contractName} is not upgrade safe:\n${issues.map((i) => `  - ${i.message}`).join("\n")}`);
+    this.name = "UpgradeSafetyError";
+  }
+}
+
+// --------------------------------------------------------------------
+// Build info access
+// --------------------------------------------------------------------
+
+async function compilerOutput(hre: HardhatRuntimeEnvironment, contractName: string) {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const fqn = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo = await hre.artifacts.getBuildInfo(fqn);
+  if (!buildInfo) throw new Error(`No build info for ${fqn}; run \`npx hardhat compile\``);
+  return { artifact, buildInfo };
+}
+
+export async function getStorageLayout(hre: HardhatRuntimeEnvironment, contractName: string): Promise<StorageLayout> {
+  const { artifact, buildInfo } = await compilerOutput(hre, contractName);
+  const output = buildInfo.output.contracts[artifact.sourceName][artifact.contractName] as {
+    storageLayout?: StorageLayout;
+  };
+  if (!output.storageLayout) {
+    throw new Error(`${contractName} was compiled without storageLayout output`);
+  }
+  return output.storageLayout;
+}
+
+// --------------------------------------------------------------------
+// Storage layout comparison
+// --------------------------------------------------------------------
+
+const GAP = "__gap";
+
+function slotsOf(entry: StorageEntry, types: Record<string, StorageType>): [bigint, bigint] {
+  const start = BigInt(entry.slot);
+  const bytes = BigInt(types[entry.type]?.numberOfBytes ?? "32");
+  return [start, start + (BigInt(entry.offset) + bytes + 31n) / 32n];
+}
+
+/**
+ * Returns why `newId` cannot reuse storage written as `oldId`, or undefined
+ * when it can. Structs may only grow (new members appended) when they are the
+ * value of a mapping, where each instance has its own slots.
+ */
+function incompatibility(
+  oldId: string,
+  newId: string,
+  oldTypes: Record<string, StorageType>,
+  newTypes: Record<string, StorageType>,
+  mayGrow = false
+): string | undefined {
+  const o = oldTypes[oldId];
+  const n = newTypes[newId];
+  if (!o || !n) return oldId === newId ? undefined : `${oldId} → ${newId}`;
+  if (o.encoding !== n.encoding) return `${o.label} → ${n.label}`;
+
+  switch (o.encoding) {
+    case "mapping":
+      return (
+        incompatibility(o.key!, n.key!, oldTypes, newTypes) ??
+        incompatibility(o.value!, n.value!, oldTypes, newTypes, true)
+      );
+    case "dynamic_array":
+      return incompatibility(o.base!, n.base!, oldTypes, newTypes);
+    case "bytes":
+      return o.label === n.label ? undefined : `${o.label} → ${n.label}`;
+  }
+
+  if (o.members) {
+    if (!n.members) return `${o.label} → ${n.label}`;
+    if (n.members.length < o.members.length || (!mayGrow && n.members.length !== o.members.length)) {
+      return `${o.label} members changed (${o.members.length} → ${n.members.length})`;
+    }
+    for (const [i, om] of o.members.entries()) {
+      const nm = n.members[i];
+      if (om.slot !== nm.slot || om.offset !== nm.offset) return `${o.label}.${om.label} moved`;
+      const why = incompatibility(om.type, nm.type, oldTypes, newTypes);
+      if (why) return `${o.label}.${om.label}: ${why}`;
+    }
+    return undefined;
+  }
+  if (o.base) {
+    if (o.numberOfBytes !== n.numberOfBytes) return `${o.label} → ${n.label}`;
+    return incompatibility(o.base, n.base!, oldTypes, newTypes);
+  }
+  // contracts are stored as addresses; enums by their size
+  const scalar = (t: StorageType) =>
+    t.label.startsWith("contract ") ? "address" : t.label.startsWith("enum ") ? "enum" : t.label;
+  return scalar(o) === scalar(n) && o.numberOfBytes === n.numberOfBytes ? undefined : `${o.label} → ${n.label}`;
+}
+
+/**
+ * Compares the live layout with a candidate one. Variables may be appended
+ * or carved out of a trailing `__gap`; anything that changes where or how
+ * existing data is stored is reported.
+ */
+export function compareStorageLayouts(oldLayout: StorageLayout, newLayout: StorageLayout): UpgradeIssue[] {
+  const issues: UpgradeIssue[] = [];
+  const oldTypes = oldLayout.types ?? {};
+  const newTypes = newLayout.types ?? {};
+  const at = (e: StorageEntry) => `${e.slot}:${e.offset}`;
+  const newByPosition = new Map(newLayout.storage.filter((e) => e.label !== GAP).map((e) => [at(e), e]));
+  const newByLabel = new Map(newLayout.storage.map((e) => [e.label, e]));
+  const oldLabels = new Set(oldLayout.storage.map((e) => e.label));
+
+  for (const old of oldLayout.storage) {
+    if (old.label === GAP) {
+      // anything placed inside the old gap must fit in it entirely
+      const [start, end] = slotsOf(old, oldTypes);
+      for (const entry of newLayout.storage) {
+        const [s, e] = slotsOf(entry, newTypes);
+        if (s >= start && s < end && e > end) {
+          issues.push({
+            kind: "gap",
+            message: `${entry.label} (slot ${entry.slot}) runs past the end of the old __gap at slot ${end - 1n}; shrink the gap by the slots you add`,
+          });
+        }
+      }
+      continue;
+    }
+
+    const replacement = newByPosition.get(at(old));
+    const sameName = newByLabel.get(old.label);
+    if (!replacement) {
+      issues.push(
+        sameName
+          ? { kind: "moved", message: `${old.label} moved from slot ${old.slot} to slot ${sameName.slot}` }
+          : { kind: "removed", message: `${old.label} (slot ${old.slot}) was removed; its data would be read by whatever takes the slot` }
+      );
+      continue;
+    }
+    if (replacement.label !== old.label && (sameName || oldLabels.has(replacement.label))) {
+      issues.push({
+        kind: "moved",
+        message: `slot ${old.slot} held ${old.label} but now holds ${replacement.label} (variables reordered)`,
+      });
+      continue;
+    }
+    const why = incompatibility(old.type, replacement.type, oldTypes, newTypes);
+    if (why) {
+      issues.push({ kind: "retyped", message: `${old.label} (slot ${old.slot}) changed type: ${why}` });
+    }
+  }
+  return issues;
+}
+
+// --------------------------------------------------------------------
+// UUPS implementation checks (AST)
+// --------------------------------------------------------------------
+
+type AstNode = { nodeType: string; id: number; [key: string]: any };
+
+function mentions(node: unknown, name: string): boolean {
+  if (!node || typeof node !== "object") return false;
+  const n = node as AstNode;
+  if (n.nodeType === "Identifier" && n.name === name) return true;
+  return Object.values(n).some((child) =>
+    Array.isArray(child) ? child.some((c) => mentions(c, name)) : mentions(child, name)
+  );
+}
+
+/**
+ * Checks the implementation itself: it must restrict `_authorizeUpgrade`
+ * (otherwise anyone can upgrade the proxy) and call `_disableInitializers()`
+ * in a constructor (otherwise anyone can initialise and own the bare
+ * implementation).
+ */
+export async function checkImplementation(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string
+): Promise<UpgradeIssue[]> {
+  const { artifact, buildInfo } = await compilerOutput(hre, contractName);
+  const contracts = new Map<number, AstNode>();
+  for (const source of Object.values(buildInfo.output.sources)) {
+    for (const node of (source.ast as AstNode).nodes as AstNode[]) {
+      if (node.nodeType === "ContractDefinition") contracts.set(node.id, node);
+    }
+  }
+  const target = ((buildInfo.output.sources[artifact.sourceName].ast as AstNode).nodes as AstNode[]).find(
+    (n) => n.nodeType === "ContractDefinition" && n.name === artifact.contractName
+  );
+  if (!target) throw new Error(`${contractName} not found in its build info`);
+
+  // most derived first
+  const chain = (target.linearizedBaseContracts as number[]).map((id) => contracts.get(id)!).filter(Boolean);
+  const functions = chain.flatMap((c) =>
+    (c.nodes as AstNode[]).filter((n) => n.nodeType === "FunctionDefinition").map((fn) => ({ contract: c.name, fn }))
+  );
+
+  const issues: UpgradeIssue[] = [];
+  const authorize = functions.find(({ fn }) => fn.name === "_authorizeUpgrade" && fn.implemented);
+  if (!authorize) {
+    issues.push({
+      kind: "authorizeUpgrade",
+      message: `${contractName} does not implement _authorizeUpgrade; the proxy could never be upgraded again`,
+    });
+  } else if (authorize.fn.modifiers.length === 0 && authorize.fn.body.statements.length === 0) {
+    issues.push({
+      kind: "authorizeUpgrade",
+      message: `${authorize.contract}._authorizeUpgrade has no access control; anyone could upgrade the proxy`,
+    });
+  }
+
+  const disables = functions.some(({ fn }) => fn.kind === "constructor" && mentions(fn.body, "_disableInitializers"));
+  if (!disables) {
+    issues.push({
+      kind: "disableInitializers",
+      message: `${contractName} has no constructor calling _disableInitializers(); the implementation could be initialised by anyone`,
+    });
+  }
+  return issues;
+}
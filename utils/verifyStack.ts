@@ -0,0 +1,207 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { initializerOf, NAMED_ACCOUNTS, NamedAccount, resolveArgs } from "./manifest";
+import { networkProfile } from "./networks";
+import { MODULES } from "./modules";
+import { getImplementation, hasCode } from "./erc1967";
+
+/**
+ * Live wiring checks for a deployed stack, driven by the deployment manifest.
+ *
+ * Every initializer (or constructor) parameter `_foo` that the manifest wires
+ * to a dependency is compared with the contract's own `foo()` getter, so adding
+ * a module to `MODULES` automatically adds its wiring checks here.
+ */
+
+export interface StackCheck {
+  module: string;
+  check: string;
+  expected: string;
+  actual: string;
+  pass: boolean;
+}
+
+export interface StackReport {
+  network: string;
+  chainId: string;
+  passed: boolean;
+  checks: StackCheck[];
+}
+
+export interface VerifyStackOptions {
+  /** Expected owner of the infrastructure contracts (the multisig). */
+  owner: string;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return String(a).toLowerCase() === String(b).toLowerCase();
+}
+
+const REVERTED = "<reverted>";
+
+// A module at the wrong address may not implement the getter at all
+async function read(contract: { getFunction(name: string): { staticCall(): Promise<unknown> } }, fn: string) {
+  try {
+    return await contract.getFunction(fn).staticCall();
+  } catch {
+    return REVERTED;
+  }
+}
+
+export async function verifyStack(
+  hre: HardhatRuntimeEnvironment,
+  opts: VerifyStackOptions
+): Promise<StackReport> {
+  const { ethers, deployments } = hre;
+  const checks: StackCheck[] = [];
+  const add = (module: string, check: string, expected: unknown, actual: unknown, pass?: boolean) =>
+    checks.push({
+      module,
+      check,
+      expected: String(expected),
+      actual: String(actual),
+      pass: pass ?? same(expected, actual),
+    });
+
+  const all = await deployments.all();
+  const named = await hre.getNamedAccounts();
+  const addrs: Record<string, string> = {};
+  for (const account of NAMED_ACCOUNTS) addrs[account] = named[account as NamedAccount];
+
+  const present = MODULES.filter((m) => {
+    if (!all[m.label]) {
+      add(m.label, "deployment file", "present", "missing", false);
+      return false;
+    }
+    addrs[m.label] = all[m.label].address;
+    return true;
+  });
+
+  // ---- no two modules on one address ----
+  const byAddress = new Map<string, string[]>();
+  for (const mod of present) {
+    const key = addrs[mod.label].toLowerCase();
+    byAddress.set(key, [...(byAddress.get(key) ?? []), mod.label]);
+  }
+  for (const mod of present) {
+    const sharing = byAddress.get(addrs[mod.label].toLowerCase())!.filter((l) => l !== mod.label);
+    add(mod.label, "unique address", "no other module", sharing.join(", ") || "no other module", sharing.length === 0);
+  }
+
+  const factory = addrs.JeskeiProxyFactory
+    ? await ethers.getContractAt("JeskeiProxyFactory", addrs.JeskeiProxyFactory)
+    : undefined;
+
+  for (const mod of present) {
+    const address = addrs[mod.label];
+    if (!(await hasCode(ethers.provider, address))) {
+      add(mod.label, "code", "contract", "no code", false);
+      continue;
+    }
+    // ---- beacons: the implementation lives in the beacon, not in a slot ----
+    if (mod.kind === "beacon") {
+      const beacon = await ethers.getContractAt("UpgradeableBeacon", address);
+      const implementation = await read(beacon, "implementation");
+      if (factory) {
+        const info = await factory.getProxy(mod.label);
+        add(mod.label, "factory beacon", address, info.proxyAddress);
+        add(mod.label, `implementation (v${info.version})`, info.implementationAddress, implementation);
+        add(mod.label, "factory active", true, info.isActive);
+      }
+      add(mod.label, "owner()", addrs.JeskeiProxyFactory, await read(beacon, "owner"));
+      continue;
+    }
+
+    const contract = await ethers.getContractAt(mod.impl, address);
+
+    // ---- implementation slot vs factory bookkeeping ----
+    if (mod.kind !== "plain") {
+      const slot = await getImplementation(ethers.provider, address);
+      if (mod.kind === "factory" && factory) {
+        const info = await factory.getProxy(mod.label);
+        add(mod.label, "factory proxy", address, info.proxyAddress);
+        add(mod.label, `implementation (v${info.version})`, info.implementationAddress, slot);
+        add(mod.label, "factory active", true, info.isActive);
+      } else {
+        add(mod.label, "implementation", "non-zero", slot, slot !== ethers.ZeroAddress);
+      }
+    }
+
+    // ---- initializer / constructor wiring ----
+    let expectedArgs: unknown[];
+    try {
+      expectedArgs = resolveArgs(mod, addrs, networkProfile(hre.network.name));
+    } catch (err: any) {
+      add(mod.label, "wiring", "all dependencies deployed", err.message, false);
+      continue;
+    }
+    const fragment =
+      mod.kind === "plain" ? contract.interface.deploy : contract.interface.getFunction(initializerOf(mod.impl))!;
+    for (const [i, input] of fragment.inputs.entries()) {
+      const getter = input.name.replace(/^_+/, "");
+      if (!contract.interface.getFunction(getter)) continue;
+      add(mod.label, `${getter}()`, expectedArgs[i], await read(contract, getter));
+    }
+
+    // ---- ownership ----
+    if (contract.interface.getFunction("owner")) {
+      // factory‑deployed proxies are initialised (and therefore owned) by the factory
+      const expectedOwner = mod.kind === "factory" ? addrs.JeskeiProxyFactory : opts.owner;
+      add(mod.label, "owner()", expectedOwner, await read(contract, "owner"));
+    }
+  }
+
+  // ---- UpgradeManager may upgrade through the factory ----
+  if (factory && addrs.UpgradeManager) {
+    add(
+      "UpgradeManager",
+      "authorized upgrader",
+      true,
+      await factory.authorizedUpgraders(addrs.UpgradeManager)
+    );
+  }
+
+  // ---- passed proposals reach the modules through GovernanceExecutor ----
+  if (factory && addrs.GovernanceExecutor) {
+    add(
+      "GovernanceExecutor",
+      "authorized executor",
+      true,
+      await factory.authorizedExecutors(addrs.GovernanceExecutor)
+    );
+    if (addrs.CommunityGovernance) {
+      const governance = await ethers.getContractAt("CommunityGovernance", addrs.CommunityGovernance);
+      add("CommunityGovernance", "executor()", addrs.GovernanceExecutor, await read(governance, "executor"));
+    }
+  }
+
+  // ---- EIP-2981 royalties are split by RevenueDistributor ----
+  if (addrs.AssetRegistry && addrs.RevenueDistributor) {
+    const registry = await ethers.getContractAt("AssetRegistryUpgradeable", addrs.AssetRegistry);
+    add("AssetRegistry", "revenueDistributor()", addrs.RevenueDistributor, await read(registry, "revenueDistributor"));
+  }
+
+  return {
+    network: hre.network.name,
+    chainId: (await hre.getChainId()).toString(),
+    passed: checks.every((c) => c.pass),
+    checks,
+  };
+}
+
+/** Fixed‑width pass/fail table for terminals and CI logs. */
+export function formatStackReport(report: StackReport): string {
+  const rows = report.checks.map((c) => [c.pass ? "✔︎" : "✖", c.module, c.check, c.expected, c.actual]);
+  const header = ["", "module", "check", "expected", "actual"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (r: string[]) => r.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd();
+
+  const failed = report.checks.filter((c) => !c.pass).length;
+  return [
+    line(header),
+    ...rows.map(line),
+    "",
+    failed === 0
+      ? `${report.network}: all ${report.checks.length} checks passed ✔︎`
+      : `${report.network}: ${failed} of ${report.checks.length} checks FAILED`,
+  ].join("\n");
+}